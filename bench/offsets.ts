@@ -0,0 +1,186 @@
+/**
+ * Benchmarks `OffsetMap` against the conversions that it replaced, which read
+ * the whole text on every call, on a document of 10,000 lines. Run it with
+ * `npm run bench`.
+ */
+import type { IPosition, IRange } from "monaco-editor/esm/vs/editor/editor.api";
+
+import { OffsetMap } from "../src/offsets";
+
+const LINES = 10_000;
+
+/** Text model with the parts of Monaco's API that the conversions use. */
+class LineModel {
+  private starts?: number[];
+
+  constructor(private lines: string[]) {}
+
+  getLineCount() {
+    return this.lines.length;
+  }
+
+  getLineContent(lineNumber: number) {
+    return this.lines[lineNumber - 1];
+  }
+
+  getEOL() {
+    return "\n";
+  }
+
+  getValue() {
+    return this.lines.join("\n");
+  }
+
+  getOffsetAt({ lineNumber, column }: IPosition) {
+    return this.lineStarts()[lineNumber - 1] + column - 1;
+  }
+
+  getPositionAt(offset: number): IPosition {
+    const starts = this.lineStarts();
+    let line = 0;
+    while (line + 1 < starts.length && starts[line + 1] <= offset) line++;
+    return { lineNumber: line + 1, column: offset - starts[line] + 1 };
+  }
+
+  /** Insert text at a position, and return the change event for it. */
+  insert(position: IPosition, text: string) {
+    const { lineNumber, column } = position;
+    const line = this.lines[lineNumber - 1];
+    this.lines[lineNumber - 1] =
+      line.slice(0, column - 1) + text + line.slice(column - 1);
+    this.starts = undefined;
+    const range: IRange = {
+      startLineNumber: lineNumber,
+      startColumn: column,
+      endLineNumber: lineNumber,
+      endColumn: column,
+    };
+    return { changes: [{ range, text }], eol: "\n", isFlush: false };
+  }
+
+  private lineStarts() {
+    if (!this.starts) {
+      this.starts = [0];
+      for (const line of this.lines) {
+        this.starts.push(this.starts[this.starts.length - 1] + line.length + 1);
+      }
+    }
+    return this.starts;
+  }
+}
+
+/** The old conversion from a position to a codepoint offset. */
+function unicodeOffset(model: LineModel, pos: IPosition): number {
+  const value = model.getValue();
+  const offsetUTF16 = model.getOffsetAt(pos);
+  let length = 0;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  for (const c of value.slice(0, offsetUTF16)) ++length;
+  return length;
+}
+
+/** The old conversion from a codepoint offset to a position. */
+function unicodePosition(model: LineModel, offset: number): IPosition {
+  const value = model.getValue();
+  let offsetUTF16 = 0;
+  for (const c of value) {
+    if (offset <= 0) break;
+    offsetUTF16 += c.length;
+    offset -= 1;
+  }
+  return model.getPositionAt(offsetUTF16);
+}
+
+/** A solver-like script, with an emoji in every 50th line. */
+function makeLines(): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < LINES; i++) {
+    const comment = i % 50 === 0 ? "# 🌻 harvest" : "# move on";
+    lines.push(`    x${i} = measure(East) + ${i}  ${comment}`);
+  }
+  return lines;
+}
+
+/** Returns the average time of a function over a number of runs, in µs. */
+function time(runs: number, f: (i: number) => void): number {
+  const start = performance.now();
+  for (let i = 0; i < runs; i++) f(i);
+  return ((performance.now() - start) * 1000) / runs;
+}
+
+/** Positions spread over the document, with some on the emoji lines. */
+function positionAt(i: number): IPosition {
+  return { lineNumber: ((i * 7919) % LINES) + 1, column: (i % 30) + 1 };
+}
+
+function samePosition(a: IPosition, b: IPosition) {
+  return a.lineNumber === b.lineNumber && a.column === b.column;
+}
+
+const model = new LineModel(makeLines());
+const map = new OffsetMap(model);
+const results: Record<string, { old: number; map: number }> = {};
+
+for (let i = 0; i < 200; i++) {
+  const position = positionAt(i);
+  const offset = unicodeOffset(model, position);
+  if (map.offsetAt(position) !== offset) {
+    throw new Error(`offsetAt(${JSON.stringify(position)}) is wrong`);
+  }
+  if (!samePosition(map.positionAt(offset), unicodePosition(model, offset))) {
+    throw new Error(`positionAt(${offset}) is wrong`);
+  }
+}
+
+const offsets = Array.from({ length: 200 }, (_, i) =>
+  unicodeOffset(model, positionAt(i)),
+);
+results["offset of a position"] = {
+  old: time(200, (i) => unicodeOffset(model, positionAt(i))),
+  map: time(100_000, (i) => map.offsetAt(positionAt(i))),
+};
+results["position of an offset"] = {
+  old: time(200, (i) => unicodePosition(model, offsets[i])),
+  map: time(100_000, (i) => map.positionAt(offsets[i % 200])),
+};
+
+// Typing: one inserted character, then the cursors of five remote users.
+const typing = (convert: (offset: number) => void, update: boolean) => {
+  return (i: number) => {
+    const event = model.insert(positionAt(i), "a");
+    if (update) map.update(event);
+    for (let j = 0; j < 5; j++) convert(offsets[(i + j) % 200]);
+  };
+};
+const keystroke = time(
+  2000,
+  typing((o) => map.positionAt(o), true),
+);
+for (let i = 0; i < 200; i++) {
+  const expected = unicodePosition(model, offsets[i]);
+  if (!samePosition(map.positionAt(offsets[i]), expected)) {
+    throw new Error(`positionAt(${offsets[i]}) is wrong after typing`);
+  }
+}
+console.log(`${LINES} lines, ${map.length} codepoints`);
+// The map is not updated from here on, so it is out of date.
+results["keystroke with 5 cursors"] = {
+  old: time(
+    100,
+    typing((o) => unicodePosition(model, o), false),
+  ),
+  map: keystroke,
+};
+
+console.table(
+  Object.fromEntries(
+    Object.entries(results).map(([name, { old, map }]) => [
+      name,
+      {
+        "old (µs)": +old.toFixed(2),
+        "map (µs)": +map.toFixed(2),
+        speedup: `${Math.round(old / map)}x`,
+      },
+    ]),
+  ),
+);
@@ -0,0 +1,68 @@
+/**
+ * Mirror a Rustpad document to a local file in both directions, so that the
+ * game can run scripts straight from its save folder. Saving the file sends
+ * an edit to the pad, and edits from others in the pad are written to disk.
+ *
+ * Run with `npm run sync -- <pad> <file>`, where `<pad>` is a link to the pad
+ * like `http://localhost:3030/#abc123` and `<file>` is the path of a script.
+ * Needs Node.js 22 or later, for its built-in `WebSocket`.
+ */
+import { resolve } from "path";
+import { parseArgs } from "util";
+
+import { FileSync, login, socketUri } from "./sync";
+
+const USAGE = `Usage: npm run sync -- <pad> <file> [options]
+
+Mirrors a Rustpad document to a local file, in both directions.
+
+Arguments:
+  <pad>                  link to the pad, like http://localhost:3030/#abc123
+  <file>                 path of the local file, like main.py
+
+Options:
+  --file <id>            ID of a file in the pad other than the main one
+  --password <password>  password of the pad, if it is protected
+  --name <name>          name to show in the pad's list of users
+  --push                 replace the pad's text with the local file at start
+  -h, --help             show this message`;
+
+function log(message: string) {
+  console.log(`[${new Date().toLocaleTimeString()}] ${message}`);
+}
+
+function fail(message: string): never {
+  console.error(`rustpad-sync: ${message}`);
+  process.exit(1);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      file: { type: "string" },
+      password: { type: "string" },
+      name: { type: "string", default: "rustpad-sync" },
+      push: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help || positionals.length !== 2) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (typeof WebSocket === "undefined") fail("Node.js 22 or later is required");
+
+  const [link, path] = positionals;
+  const token = await login(link, values.password);
+  new FileSync({
+    uri: socketUri(link, values.file, token),
+    path: resolve(path),
+    name: values.name,
+    push: values.push,
+    log,
+    onUnauthorized: () => fail("the password of the pad was changed"),
+  }).start();
+}
+
+main().catch((error) => fail(error.message));
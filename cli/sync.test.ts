@@ -0,0 +1,119 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeSocket, fakeSockets } from "../src/testing";
+import { FileSync, login } from "./sync";
+
+let dir: string;
+let sync: FileSync | undefined;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "rustpad-sync-"));
+});
+
+afterEach(() => {
+  sync?.dispose();
+  sync = undefined;
+  rmSync(dir, { recursive: true, force: true });
+  vi.unstubAllGlobals();
+});
+
+/** Sync a file, which has `local` if given, with a pad that has `text`. */
+function connect(text: string, local?: string, push = false) {
+  const path = join(dir, "main.py");
+  if (local !== undefined) writeFileSync(path, local);
+  const { sockets, createSocket } = fakeSockets();
+  const onUnauthorized = vi.fn();
+  sync = new FileSync({
+    uri: "ws://localhost/api/socket/test",
+    path,
+    name: "sync",
+    push,
+    createSocket,
+    onUnauthorized,
+  });
+  sync.start();
+  const socket: FakeSocket = sockets[0];
+  socket.open();
+  expect(socket.sent).toContain("RequestSnapshot");
+  socket.receive({ Identity: 1 });
+  socket.receive({ Snapshot: { revision: 1, text } });
+  return { sync, socket, path, onUnauthorized };
+}
+
+describe("FileSync", () => {
+  it("takes the pad's text and keeps the old file as a backup", () => {
+    const { path } = connect("move(North)", "harvest()");
+    expect(readFileSync(path, "utf8")).toBe("move(North)");
+    expect(readFileSync(`${path}.bak`, "utf8")).toBe("harvest()");
+  });
+
+  it("uploads the file to an empty pad, or with --push", () => {
+    const empty = connect("", "harvest()");
+    expect(empty.socket.edits()).toEqual([
+      { revision: 1, operation: ["harvest()"] },
+    ]);
+    sync!.dispose();
+
+    const pushed = connect("# bot", "harvest()", true);
+    expect(pushed.socket.edits()).toEqual([
+      { revision: 1, operation: ["harvest()", -5] },
+    ]);
+    expect(readFileSync(pushed.path, "utf8")).toBe("harvest()");
+  });
+
+  it("transforms saves against edits from others in the pad", () => {
+    const { sync, socket, path } = connect("hello");
+    writeFileSync(path, "hello\r\nworld");
+    sync.readFile();
+    expect(socket.edits()).toEqual([
+      { revision: 1, operation: [5, "\nworld"] },
+    ]);
+
+    // Another user's edit, made before ours reached the server.
+    socket.receive({
+      History: { start: 1, operations: [{ id: 2, operation: [">> ", 5] }] },
+    });
+    expect(readFileSync(path, "utf8")).toBe(">> hello\nworld");
+    socket.receive({
+      History: {
+        start: 2,
+        operations: [{ id: 1, operation: [8, "\nworld"] }],
+      },
+    });
+    expect(readFileSync(path, "utf8")).toBe(">> hello\nworld");
+  });
+
+  it("stops when the server refuses the session token", () => {
+    const { socket, onUnauthorized } = connect("hello");
+    socket.close(4001);
+    expect(onUnauthorized).toHaveBeenCalledOnce();
+  });
+});
+
+describe("login", () => {
+  it("fails right away when the password is refused", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(null, { status: 401 }));
+    vi.stubGlobal("fetch", fetch);
+    await expect(login("http://localhost/#abc")).rejects.toThrow(
+      "the pad is protected, pass its --password",
+    );
+    await expect(login("http://localhost/#abc", "hunter2")).rejects.toThrow(
+      "incorrect password",
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns the session token for the password", async () => {
+    const fetch = vi.fn().mockResolvedValue(Response.json({ token: "abc" }));
+    vi.stubGlobal("fetch", fetch);
+    expect(await login("http://localhost/#pad", "hunter2")).toBe("abc");
+    const [url, init] = fetch.mock.calls[0];
+    expect(String(url)).toBe("http://localhost/api/auth/pad");
+    expect(JSON.parse(init.body)).toEqual({ password: "hunter2" });
+  });
+});
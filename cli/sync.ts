@@ -0,0 +1,175 @@
+/**
+ * Keeps a document of a pad and a local file in sync, for the command-line
+ * companion in `rustpad-sync.ts`. Edits go through `RustpadClient` with an
+ * in-memory `TextBuffer`, like any other editor of the pad.
+ */
+import {
+  FSWatcher,
+  existsSync,
+  readFileSync,
+  renameSync,
+  watch,
+  writeFileSync,
+} from "fs";
+import { basename, dirname } from "path";
+
+import RustpadClient, { Socket, TextBuffer } from "../src/client";
+
+/** Delay before reading the local file after it changes, in milliseconds. */
+const WATCH_DELAY = 100;
+
+/** Options passed in to the FileSync constructor. */
+export type FileSyncOptions = {
+  readonly uri: string;
+  /** Path of the local file. */
+  readonly path: string;
+  /** Name to show in the pad's list of users. */
+  readonly name: string;
+  /** Whether to replace the pad's text with the local file at start. */
+  readonly push?: boolean;
+  readonly createSocket?: (uri: string) => Socket;
+  readonly log?: (message: string) => void;
+  /** Called when the server refuses the session token for the pad. */
+  readonly onUnauthorized?: () => void;
+};
+
+/** Mirrors a document of a pad to a local file, in both directions. */
+export class FileSync {
+  private readonly text = new TextBuffer();
+  private client?: RustpadClient;
+  private watcher?: FSWatcher;
+  private watchTimeout?: ReturnType<typeof setTimeout>;
+  /** Whether the pad and the file were reconciled after first connecting. */
+  private synced = false;
+  /** Text last written to or read from the local file. */
+  private written = "";
+
+  constructor(private readonly options: FileSyncOptions) {}
+
+  /** Connect to the pad and start watching the local file. */
+  start() {
+    const { uri, path, name, createSocket, onUnauthorized } = this.options;
+    this.client = new RustpadClient({
+      uri,
+      binding: this.text,
+      createSocket,
+      onConnected: () => this.log(`connected to ${uri}`),
+      onDisconnected: () => this.log("disconnected, reconnecting..."),
+      onChangeRevision: (revision) => {
+        if (this.synced) this.writeFile(revision);
+        else this.reconcile(revision);
+      },
+      onUnauthorized,
+    });
+    this.client.setInfo({ name, hue: Math.floor(Math.random() * 360) });
+    // Wait for the snapshot, so that the file is compared with the latest text.
+    this.client.resync();
+    this.watcher = watch(dirname(path), (_, file) => {
+      if (file !== basename(path)) return;
+      clearTimeout(this.watchTimeout);
+      this.watchTimeout = setTimeout(() => this.readFile(), WATCH_DELAY);
+    });
+  }
+
+  /** Disconnect from the pad and stop watching the local file. */
+  dispose() {
+    clearTimeout(this.watchTimeout);
+    this.watcher?.close();
+    this.client?.dispose();
+  }
+
+  /** Send the local file to the pad, if it changed since it was last synced. */
+  readFile() {
+    const { path } = this.options;
+    if (!this.synced || !existsSync(path)) return;
+    const text = readLocal(path);
+    if (text === this.written) return;
+    this.written = text;
+    this.text.setText(text);
+  }
+
+  /** Decide between the pad and the local file after first connecting. */
+  private reconcile(revision: number) {
+    this.synced = true;
+    const { path, push } = this.options;
+    const pad = this.text.getText();
+    const local = existsSync(path) ? readLocal(path) : undefined;
+    if (local !== undefined && local !== pad) {
+      if (push || pad === "") {
+        this.log(`uploading ${path} to the pad`);
+        this.written = local;
+        this.text.setText(local);
+        return;
+      }
+      renameSync(path, `${path}.bak`);
+      this.log(`the pad differs from ${path}, so it was moved to ${path}.bak`);
+    }
+    this.writeFile(revision);
+  }
+
+  /** Write the pad's text to disk, unless the file already has it. */
+  private writeFile(revision: number) {
+    const text = this.text.getText();
+    if (text === this.written) return;
+    this.written = text;
+    writeFileSync(this.options.path, text);
+    this.log(`wrote revision ${revision} to ${this.options.path}`);
+  }
+
+  private log(message: string) {
+    this.options.log?.(message);
+  }
+}
+
+/** Returns the ID of a pad from its link. */
+export function padId(link: string): string {
+  const id = new URL(link).hash.slice(1);
+  if (!id) throw new Error(`no pad ID after "#" in ${link}`);
+  return id;
+}
+
+/**
+ * Trades the password of a pad for the session token that its socket takes,
+ * so that the password is never part of a URL. Fails right away when the
+ * server refuses the password, rather than retrying.
+ */
+export async function login(
+  link: string,
+  password?: string,
+): Promise<string | undefined> {
+  const response = await fetch(new URL(`api/auth/${padId(link)}`, link), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ password: password ?? null }),
+  }).catch((error) => {
+    throw new Error(`failed to reach the server: ${error.message}`);
+  });
+  if (response.status === 401) {
+    throw new Error(
+      password === undefined
+        ? "the pad is protected, pass its --password"
+        : "incorrect password",
+    );
+  }
+  if (!response.ok) {
+    throw new Error(`failed to open the pad: ${response.statusText}`);
+  }
+  const { token } = await response.json();
+  return token ?? undefined;
+}
+
+/** Returns the WebSocket URI of a pad from its link, like the web client. */
+export function socketUri(link: string, file?: string, token?: string) {
+  const url = new URL(link);
+  const id = padId(link);
+  const path = file === undefined ? `socket/${id}` : `socket/${id}/${file}`;
+  const uri = new URL(`api/${path}`, url);
+  uri.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  if (token !== undefined) uri.searchParams.set("token", token);
+  return uri.href;
+}
+
+/** Read a file with LF line endings, like the editor uses. */
+function readLocal(path: string): string {
+  return readFileSync(path, "utf8").replace(/\r\n/g, "\n");
+}
@@ -0,0 +1,2 @@
+ALTER TABLE document ADD COLUMN view TEXT;
+CREATE UNIQUE INDEX document_view ON document(view)
@@ -0,0 +1,84 @@
+//! Chat shared by all documents of a multi-file pad.
+
+use std::sync::atomic::{AtomicU64, Ordering};
+
+use parking_lot::RwLock;
+use serde::{Deserialize, Serialize};
+use tokio::sync::broadcast;
+
+/// Maximum number of chat messages kept for late joiners.
+const CHAT_BACKLOG: usize = 200;
+
+/// Maximum total length of the chat messages kept, in bytes, the same as the
+/// text of a document.
+const MAX_CHAT_LEN: usize = 256 * 1024;
+
+/// A chat message or comment, attributed to the user who sent it.
+#[derive(Clone, Debug, Serialize, Deserialize)]
+pub struct ChatMessage {
+    /// ID of the user who sent the message.
+    pub id: u64,
+    /// Name and hue of the user when they sent it, since they may leave.
+    pub name: String,
+    pub hue: u32,
+    pub text: String,
+    /// Time when the server received the message, in milliseconds since Unix epoch.
+    pub time: u64,
+}
+
+/// The chat of a pad, shared between the documents of each file so that
+/// people editing different files can talk to each other.
+pub struct Chat {
+    /// Backlog of the latest messages, persisted alongside the main document.
+    messages: RwLock<Vec<ChatMessage>>,
+    /// Incremented on every message, used to decide when to persist.
+    version: AtomicU64,
+    /// Used to inform all clients of new messages.
+    update: broadcast::Sender<ChatMessage>,
+}
+
+impl Default for Chat {
+    fn default() -> Self {
+        Self::new(Vec::new())
+    }
+}
+
+impl Chat {
+    /// Construct a chat with a persisted backlog.
+    pub fn new(messages: Vec<ChatMessage>) -> Self {
+        let (tx, _) = broadcast::channel(16);
+        Self {
+            messages: RwLock::new(messages),
+            version: Default::default(),
+            update: tx,
+        }
+    }
+
+    /// Returns the backlog of messages, oldest first.
+    pub fn messages(&self) -> Vec<ChatMessage> {
+        self.messages.read().clone()
+    }
+
+    /// Returns the number of messages sent since the chat was loaded.
+    pub fn version(&self) -> u64 {
+        self.version.load(Ordering::Relaxed)
+    }
+
+    /// Subscribe to new messages.
+    pub fn subscribe(&self) -> broadcast::Receiver<ChatMessage> {
+        self.update.subscribe()
+    }
+
+    /// Send a message to everyone in the pad, dropping the oldest messages
+    /// from the backlog once it is too long.
+    pub fn send(&self, message: ChatMessage) {
+        let mut messages = self.messages.write();
+        messages.push(message.clone());
+        let mut len: usize = messages.iter().map(|message| message.text.len()).sum();
+        while messages.len() > CHAT_BACKLOG || len > MAX_CHAT_LEN {
+            len -= messages.remove(0).text.len();
+        }
+        self.version.fetch_add(1, Ordering::Relaxed);
+        self.update.send(message).ok();
+    }
+}
@@ -5,6 +5,9 @@ use std::str::FromStr;
 use anyhow::{bail, Result};
 use sqlx::{sqlite::SqliteConnectOptions, ConnectOptions, SqlitePool};
 
+use crate::chat::ChatMessage;
+use crate::files::FileEntry;
+
 /// Represents a document persisted in database storage.
 #[derive(sqlx::FromRow, PartialEq, Eq, Clone, Debug)]
 pub struct PersistedDocument {
@@ -12,6 +15,10 @@ pub struct PersistedDocument {
     pub text: String,
     /// Language of the document for editor syntax highlighting.
     pub language: Option<String>,
+    /// Authors of runs of the text as JSON, so that blame survives a reload.
+    pub authors: Option<String>,
+    /// Comment threads on the text as JSON.
+    pub threads: Option<String>,
 }
 
 /// A driver for database operations wrapping a pool connection.
@@ -38,7 +45,7 @@ impl Database {
 
     /// Load the text of a document from the database.
     pub async fn load(&self, document_id: &str) -> Result<PersistedDocument> {
-        sqlx::query_as(r#"SELECT text, language FROM document WHERE id = $1"#)
+        sqlx::query_as(r#"SELECT text, language, authors, threads FROM document WHERE id = $1"#)
             .bind(document_id)
             .fetch_one(&self.pool)
             .await
@@ -50,16 +57,20 @@ impl Database {
         let result = sqlx::query(
             r#"
 INSERT INTO
-    document (id, text, language)
+    document (id, text, language, authors, threads)
 VALUES
-    ($1, $2, $3)
+    ($1, $2, $3, $4, $5)
 ON CONFLICT(id) DO UPDATE SET
     text = excluded.text,
-    language = excluded.language"#,
+    language = excluded.language,
+    authors = excluded.authors,
+    threads = excluded.threads"#,
         )
         .bind(document_id)
         .bind(&document.text)
         .bind(&document.language)
+        .bind(&document.authors)
+        .bind(&document.threads)
         .execute(&self.pool)
         .await?;
         if result.rows_affected() != 1 {
@@ -71,6 +82,143 @@ ON CONFLICT(id) DO UPDATE SET
         Ok(())
     }
 
+    /// Load the list of files in a pad, if it was ever changed from the default.
+    pub async fn load_files(&self, document_id: &str) -> Result<Option<Vec<FileEntry>>> {
+        let row: Option<(Option<String>,)> =
+            sqlx::query_as(r#"SELECT files FROM document WHERE id = $1"#)
+                .bind(document_id)
+                .fetch_optional(&self.pool)
+                .await?;
+        match row.and_then(|row| row.0) {
+            Some(files) => Ok(Some(serde_json::from_str(&files)?)),
+            None => Ok(None),
+        }
+    }
+
+    /// Store the list of files in a pad, alongside its main document.
+    pub async fn store_files(&self, document_id: &str, files: &[FileEntry]) -> Result<()> {
+        sqlx::query(
+            r#"
+INSERT INTO
+    document (id, text, files)
+VALUES
+    ($1, '', $2)
+ON CONFLICT(id) DO UPDATE SET
+    files = excluded.files"#,
+        )
+        .bind(document_id)
+        .bind(serde_json::to_string(files)?)
+        .execute(&self.pool)
+        .await?;
+        Ok(())
+    }
+
+    /// Load the chat backlog of a pad, which is empty if nobody ever chatted.
+    pub async fn load_chat(&self, document_id: &str) -> Result<Vec<ChatMessage>> {
+        let row: Option<(Option<String>,)> =
+            sqlx::query_as(r#"SELECT chat FROM document WHERE id = $1"#)
+                .bind(document_id)
+                .fetch_optional(&self.pool)
+                .await?;
+        match row.and_then(|row| row.0) {
+            Some(chat) => Ok(serde_json::from_str(&chat)?),
+            None => Ok(Vec::new()),
+        }
+    }
+
+    /// Store the chat backlog of a pad, alongside its main document.
+    pub async fn store_chat(&self, document_id: &str, messages: &[ChatMessage]) -> Result<()> {
+        sqlx::query(
+            r#"
+INSERT INTO
+    document (id, text, chat)
+VALUES
+    ($1, '', $2)
+ON CONFLICT(id) DO UPDATE SET
+    chat = excluded.chat"#,
+        )
+        .bind(document_id)
+        .bind(serde_json::to_string(messages)?)
+        .execute(&self.pool)
+        .await?;
+        Ok(())
+    }
+
+    /// Load the token of a pad's view-only link, if it was ever shared.
+    pub async fn load_view(&self, document_id: &str) -> Result<Option<String>> {
+        let row: Option<(Option<String>,)> =
+            sqlx::query_as(r#"SELECT view FROM document WHERE id = $1"#)
+                .bind(document_id)
+                .fetch_optional(&self.pool)
+                .await?;
+        Ok(row.and_then(|row| row.0))
+    }
+
+    /// Store the token of a pad's view-only link, alongside its main document.
+    pub async fn store_view(&self, document_id: &str, view: &str) -> Result<()> {
+        sqlx::query(
+            r#"
+INSERT INTO
+    document (id, text, view)
+VALUES
+    ($1, '', $2)
+ON CONFLICT(id) DO UPDATE SET
+    view = excluded.view"#,
+        )
+        .bind(document_id)
+        .bind(view)
+        .execute(&self.pool)
+        .await?;
+        Ok(())
+    }
+
+    /// Load the salted hash of a pad's password, if it has one.
+    pub async fn load_password(&self, document_id: &str) -> Result<Option<String>> {
+        let row: Option<(Option<String>,)> =
+            sqlx::query_as(r#"SELECT password FROM document WHERE id = $1"#)
+                .bind(document_id)
+                .fetch_optional(&self.pool)
+                .await?;
+        Ok(row.and_then(|row| row.0))
+    }
+
+    /// Store the salted hash and session token of a pad's password, or clear
+    /// them with `None`.
+    pub async fn store_password(&self, document_id: &str, password: Option<&str>) -> Result<()> {
+        sqlx::query(
+            r#"
+INSERT INTO
+    document (id, text, password)
+VALUES
+    ($1, '', $2)
+ON CONFLICT(id) DO UPDATE SET
+    password = excluded.password"#,
+        )
+        .bind(document_id)
+        .bind(password)
+        .execute(&self.pool)
+        .await?;
+        Ok(())
+    }
+
+    /// Find the pad that a view-only link belongs to.
+    pub async fn find_view(&self, view: &str) -> Result<Option<String>> {
+        let row: Option<(String,)> = sqlx::query_as(r#"SELECT id FROM document WHERE view = $1"#)
+            .bind(view)
+            .fetch_optional(&self.pool)
+            .await?;
+        Ok(row.map(|row| row.0))
+    }
+
+    /// Delete a document from the database, if it exists.
+    pub async fn delete(&self, document_id: &str) -> Result<()> {
+        sqlx::query(r#"DELETE FROM document WHERE id = $1"#)
+            .bind(document_id)
+            .execute(&self.pool)
+            .await?;
+        Ok(())
+    }
+
     /// Count the number of documents in the database.
     pub async fn count(&self) -> Result<usize> {
         let row: (i64,) = sqlx::query_as("SELECT count(*) FROM document")
@@ -0,0 +1,331 @@
+//! File listings shared by all documents of a multi-file pad.
+
+use std::sync::atomic::{AtomicU64, Ordering};
+
+use anyhow::{bail, Result};
+use parking_lot::RwLock;
+use rand::{distributions::Alphanumeric, Rng};
+use serde::{Deserialize, Serialize};
+use sha2::Sha256;
+use subtle::ConstantTimeEq;
+use tokio::sync::broadcast;
+
+use crate::chat::{Chat, ChatMessage};
+
+/// Identifier of the file that every pad starts with, stored under the pad ID.
+pub const MAIN_FILE: &str = "main";
+
+/// Maximum number of files in a single pad.
+const MAX_FILES: usize = 64;
+
+/// Maximum length of a file path, in bytes.
+const MAX_NAME_LEN: usize = 128;
+
+/// Length of the token in view-only links, in alphanumeric characters.
+const VIEW_TOKEN_LEN: usize = 24;
+
+/// Length of the random salt of a pad password, in alphanumeric characters.
+const SALT_LEN: usize = 16;
+
+/// Number of PBKDF2 rounds applied to pad passwords, to slow down guessing.
+const PASSWORD_ROUNDS: u32 = 100_000;
+
+/// Length of the session token of a protected pad, in alphanumeric characters.
+const SESSION_TOKEN_LEN: usize = 32;
+
+/// A named file in a pad, with a stable ID that survives renames.
+#[derive(Clone, Debug, PartialEq, Eq, Serialize, Deserialize)]
+pub struct FileEntry {
+    /// Unique ID of the file within its pad.
+    pub id: String,
+    /// Path of the file, with `/` separating folders.
+    pub name: String,
+}
+
+/// The list of files in a pad, shared between the documents of each file.
+pub struct Files {
+    entries: RwLock<Vec<FileEntry>>,
+    /// Token for the view-only link of the pad, created when first shared.
+    view: RwLock<Option<String>>,
+    /// Salted hash of the pad's password and the session token issued for it,
+    /// as `salt$hash$token`, if it has one.
+    password: RwLock<Option<String>>,
+    /// Incremented on every change, used to decide when to persist.
+    version: AtomicU64,
+    /// Chat of the pad, which all of its files share.
+    chat: Chat,
+    /// Used to inform all clients of changes to the file list.
+    update: broadcast::Sender<Vec<FileEntry>>,
+}
+
+impl Default for Files {
+    fn default() -> Self {
+        Self::new(vec![FileEntry {
+            id: MAIN_FILE.into(),
+            name: MAIN_FILE.into(),
+        }])
+    }
+}
+
+impl Files {
+    /// Construct a file list from persisted entries.
+    pub fn new(entries: Vec<FileEntry>) -> Self {
+        let (tx, _) = broadcast::channel(16);
+        Self {
+            entries: RwLock::new(entries),
+            view: Default::default(),
+            password: Default::default(),
+            version: Default::default(),
+            chat: Default::default(),
+            update: tx,
+        }
+    }
+
+    /// Restore the persisted token of the pad's view-only link.
+    pub fn with_view(self, view: Option<String>) -> Self {
+        *self.view.write() = view;
+        self
+    }
+
+    /// Restore the persisted chat backlog of the pad.
+    pub fn with_chat(mut self, messages: Vec<ChatMessage>) -> Self {
+        self.chat = Chat::new(messages);
+        self
+    }
+
+    /// Restore the persisted hash of the pad's password.
+    pub fn with_password(self, password: Option<String>) -> Self {
+        *self.password.write() = password;
+        self
+    }
+
+    /// Returns the salted hash of the pad's password, for persistence.
+    ///
+    /// This includes the session token, so it is as secret as the text.
+    pub fn password(&self) -> Option<String> {
+        self.password.read().clone()
+    }
+
+    /// Returns if the pad needs a password to edit or read.
+    pub fn is_protected(&self) -> bool {
+        self.password.read().is_some()
+    }
+
+    /// Set the pad's password, or remove it with `None`.
+    ///
+    /// Hashing is slow on purpose, so call this from a blocking task.
+    pub fn set_password(&self, password: Option<&str>) {
+        let salt = random_token(SALT_LEN);
+        let token = random_token(SESSION_TOKEN_LEN);
+        *self.password.write() = password
+            .map(|password| format!("{}${}${}", salt, hash_password(&salt, password), token));
+        self.version.fetch_add(1, Ordering::Relaxed);
+    }
+
+    /// Returns if a password opens the pad, which is always true without one.
+    ///
+    /// Hashing is slow on purpose, so call this from a blocking task.
+    pub fn check_password(&self, password: Option<&str>) -> bool {
+        let stored = self.password.read();
+        let stored = match stored.as_deref() {
+            Some(stored) => stored,
+            None => return true,
+        };
+        match (parse_password(stored), password) {
+            (Some((salt, hash, _)), Some(password)) => {
+                secure_eq(&hash_password(salt, password), hash)
+            }
+            _ => false,
+        }
+    }
+
+    /// Returns the token that clients pass instead of the password, once they
+    /// have given it, or `None` if the pad has no password.
+    ///
+    /// The token is random and issued along with the password, so it stops
+    /// opening the pad as soon as the password changes.
+    pub fn session_token(&self) -> Option<String> {
+        let stored = self.password.read();
+        let (_, _, token) = parse_password(stored.as_deref()?)?;
+        Some(token.into())
+    }
+
+    /// Returns if a session token opens the pad, which is always true without
+    /// a password.
+    pub fn check_token(&self, token: Option<&str>) -> bool {
+        let stored = self.password.read();
+        let stored = match stored.as_deref() {
+            Some(stored) => stored,
+            None => return true,
+        };
+        match (parse_password(stored), token) {
+            (Some((_, _, expected)), Some(token)) => secure_eq(token, expected),
+            _ => false,
+        }
+    }
+
+    /// Returns the chat of the pad.
+    pub fn chat(&self) -> &Chat {
+        &self.chat
+    }
+
+    /// Returns the token of the view-only link, if the pad was ever shared.
+    pub fn view(&self) -> Option<String> {
+        self.view.read().clone()
+    }
+
+    /// Returns the token of the view-only link, creating it if needed.
+    pub fn share(&self) -> String {
+        let mut view = self.view.write();
+        if let Some(token) = &*view {
+            return token.clone();
+        }
+        let token = random_token(VIEW_TOKEN_LEN);
+        *view = Some(token.clone());
+        self.version.fetch_add(1, Ordering::Relaxed);
+        token
+    }
+
+    /// Returns a snapshot of the current files.
+    pub fn list(&self) -> Vec<FileEntry> {
+        self.entries.read().clone()
+    }
+
+    /// Returns the number of changes made since this list was loaded.
+    pub fn version(&self) -> u64 {
+        self.version.load(Ordering::Relaxed)
+    }
+
+    /// Returns if this pad still only has its main file, under the default name.
+    pub fn is_default(&self) -> bool {
+        *self.entries.read() == Files::default().list()
+    }
+
+    /// Returns if a file with this ID exists.
+    pub fn contains(&self, id: &str) -> bool {
+        self.entries.read().iter().any(|entry| entry.id == id)
+    }
+
+    /// Subscribe to changes of the file list.
+    pub fn subscribe(&self) -> broadcast::Receiver<Vec<FileEntry>> {
+        self.update.subscribe()
+    }
+
+    /// Create a new, empty file.
+    pub fn create(&self, name: &str) -> Result<FileEntry> {
+        validate_name(name)?;
+        let mut entries = self.entries.write();
+        if entries.len() >= MAX_FILES {
+            bail!("pad already has the maximum of {} files", MAX_FILES);
+        }
+        check_unique(&entries, name)?;
+        let entry = FileEntry {
+            id: random_token(8),
+            name: name.into(),
+        };
+        entries.push(entry.clone());
+        self.changed(&entries);
+        Ok(entry)
+    }
+
+    /// Rename a file, keeping its contents and history.
+    pub fn rename(&self, id: &str, name: &str) -> Result<()> {
+        validate_name(name)?;
+        let mut entries = self.entries.write();
+        check_unique(&entries, name)?;
+        match entries.iter_mut().find(|entry| entry.id == id) {
+            Some(entry) => entry.name = name.into(),
+            None => bail!("no file with id {}", id),
+        }
+        self.changed(&entries);
+        Ok(())
+    }
+
+    /// Delete a file. The main file cannot be deleted.
+    pub fn delete(&self, id: &str) -> Result<()> {
+        if id == MAIN_FILE {
+            bail!("the main file cannot be deleted");
+        }
+        let mut entries = self.entries.write();
+        let len = entries.len();
+        entries.retain(|entry| entry.id != id);
+        if entries.len() == len {
+            bail!("no file with id {}", id);
+        }
+        self.changed(&entries);
+        Ok(())
+    }
+
+    fn changed(&self, entries: &[FileEntry]) {
+        self.version.fetch_add(1, Ordering::Relaxed);
+        self.update.send(entries.to_vec()).ok();
+    }
+}
+
+/// Returns a random string of alphanumeric characters.
+fn random_token(len: usize) -> String {
+    rand::thread_rng()
+        .sample_iter(&Alphanumeric)
+        .take(len)
+        .map(char::from)
+        .collect()
+}
+
+/// Hash a password with its salt through PBKDF2-HMAC-SHA256, as lowercase hex.
+fn hash_password(salt: &str, password: &str) -> String {
+    let mut digest = [0u8; 32];
+    pbkdf2::pbkdf2_hmac::<Sha256>(
+        password.as_bytes(),
+        salt.as_bytes(),
+        PASSWORD_ROUNDS,
+        &mut digest,
+    );
+    to_hex(&digest)
+}
+
+/// Split a stored password into its salt, hash and session token.
+///
+/// Anything else, like a hash from an older format, opens nothing.
+fn parse_password(stored: &str) -> Option<(&str, &str, &str)> {
+    let mut parts = stored.splitn(3, '$');
+    let salt = parts.next()?;
+    let hash = parts.next()?;
+    let token = parts.next()?;
+    Some((salt, hash, token))
+}
+
+/// Compare secrets in constant time, so that timing does not reveal them.
+fn secure_eq(a: &str, b: &str) -> bool {
+    a.as_bytes().ct_eq(b.as_bytes()).into()
+}
+
+/// Format bytes as lowercase hex.
+fn to_hex(bytes: &[u8]) -> String {
+    bytes.iter().map(|byte| format!("{:02x}", byte)).collect()
+}
+
+/// Check that a path is made of non-empty segments of safe characters.
+fn validate_name(name: &str) -> Result<()> {
+    if name.len() > MAX_NAME_LEN {
+        bail!("file name is longer than {} bytes", MAX_NAME_LEN);
+    }
+    let valid_segment = |segment: &str| {
+        !segment.is_empty()
+            && segment
+                .chars()
+                .all(|c| c.is_ascii_alphanumeric() || c == '_' || c == '-' || c == '.')
+            && segment != "."
+            && segment != ".."
+    };
+    if !name.split('/').all(valid_segment) {
+        bail!("invalid file name {:?}", name);
+    }
+    Ok(())
+}
+
+fn check_unique(entries: &[FileEntry], name: &str) -> Result<()> {
+    if entries.iter().any(|entry| entry.name == name) {
+        bail!("a file named {:?} already exists", name);
+    }
+    Ok(())
+}
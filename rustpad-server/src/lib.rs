@@ -7,21 +7,37 @@ use std::sync::Arc;
 use std::time::{Duration, SystemTime};
 
 use dashmap::DashMap;
+use futures::prelude::*;
 use log::{error, info};
 use rand::Rng;
-use serde::Serialize;
-use tokio::time::{self, Instant};
-use warp::{filters::BoxedFilter, ws::Ws, Filter, Rejection, Reply};
+use serde::{Deserialize, Serialize};
+use tokio::{
+    task,
+    time::{self, Instant},
+};
+use warp::{
+    filters::BoxedFilter,
+    http::StatusCode,
+    reply::Response,
+    ws::{Message, Ws},
+    Filter, Rejection, Reply,
+};
 
-use crate::{database::Database, rustpad::Rustpad};
+use crate::{
+    database::Database,
+    files::{Files, MAIN_FILE},
+    rustpad::Rustpad,
+};
 
+pub mod chat;
 pub mod database;
+pub mod files;
 mod ot;
 mod rustpad;
 
 /// An entry stored in the global server map.
 ///
-/// Each entry corresponds to a single document. This is garbage collected by a
+/// Each entry corresponds to a single document, which holds one file of a pad. This is garbage collected by a
 /// background task after one day of inactivity, to avoid server memory usage
 /// growing without bound.
 struct Document {
@@ -55,10 +71,42 @@ impl warp::reject::Reject for CustomReject {}
 struct ServerState {
     /// Concurrent map storing in-memory documents.
     documents: Arc<DashMap<String, Document>>,
+    /// Concurrent map storing the file list of each pad, shared by its documents.
+    pads: Arc<DashMap<String, Arc<Files>>>,
+    /// Concurrent map from the tokens of view-only links to their pad IDs.
+    views: Arc<DashMap<String, String>>,
     /// Connection to the database pool, if persistence is enabled.
     database: Option<Database>,
 }
 
+/// Query parameters for routes of pads that may be protected by a password.
+#[derive(Deserialize)]
+struct Credentials {
+    /// Session token from the auth route, which is never the password itself.
+    token: Option<String>,
+}
+
+/// Body of a request to the auth route, kept out of URLs and logs.
+#[derive(Deserialize)]
+struct Login {
+    password: Option<String>,
+}
+
+/// Whether a pad has a password, returned from an API endpoint.
+#[derive(Serialize)]
+struct Access {
+    protected: bool,
+    /// Session token for the other routes, if the pad has a password.
+    token: Option<String>,
+}
+
+/// Largest body accepted by the auth route, in bytes.
+const MAX_LOGIN_SIZE: u64 = 4096;
+
+/// Close code for sockets with a missing or outdated session token, since
+/// browsers cannot read the status of a failed WebSocket handshake.
+const UNAUTHORIZED_CLOSE: u16 = 4001;
+
 /// Statistics about the server, returned from an API endpoint.
 #[derive(Serialize)]
 struct Stats {
@@ -105,21 +153,60 @@ fn frontend() -> BoxedFilter<(impl Reply,)> {
 fn backend(config: ServerConfig) -> BoxedFilter<(impl Reply,)> {
     let state = ServerState {
         documents: Default::default(),
+        pads: Default::default(),
+        views: Default::default(),
         database: config.database,
     };
     tokio::spawn(cleaner(state.clone(), config.expiry_days));
 
     let state_filter = warp::any().map(move || state.clone());
 
+    let credentials = warp::query::<Credentials>();
+
     let socket = warp::path!("socket" / String)
+        .and(credentials)
         .and(warp::ws())
         .and(state_filter.clone())
         .and_then(socket_handler);
 
+    let file_socket = warp::path!("socket" / String / String)
+        .and(credentials)
+        .and(warp::ws())
+        .and(state_filter.clone())
+        .and_then(file_socket_handler);
+
+    let view_socket = warp::path!("view" / String)
+        .and(warp::ws())
+        .and(state_filter.clone())
+        .and_then(view_socket_handler);
+
+    let view_file_socket = warp::path!("view" / String / String)
+        .and(warp::ws())
+        .and(state_filter.clone())
+        .and_then(view_file_socket_handler);
+
+    let share = warp::path!("share" / String)
+        .and(credentials)
+        .and(state_filter.clone())
+        .and_then(share_handler);
+
+    let auth = warp::path!("auth" / String)
+        .and(warp::post())
+        .and(warp::body::content_length_limit(MAX_LOGIN_SIZE))
+        .and(warp::body::json())
+        .and(state_filter.clone())
+        .and_then(auth_handler);
+
     let text = warp::path!("text" / String)
+        .and(credentials)
         .and(state_filter.clone())
         .and_then(text_handler);
 
+    let file_text = warp::path!("text" / String / String)
+        .and(credentials)
+        .and(state_filter.clone())
+        .and_then(file_text_handler);
+
     let start_time = SystemTime::now()
         .duration_since(SystemTime::UNIX_EPOCH)
         .expect("SystemTime returned before UNIX_EPOCH")
@@ -129,22 +216,100 @@ fn backend(config: ServerConfig) -> BoxedFilter<(impl Reply,)> {
         .and(state_filter)
         .and_then(stats_handler);
 
-    socket.or(text).or(stats).boxed()
+    socket
+        .or(file_socket)
+        .or(view_socket)
+        .or(view_file_socket)
+        .or(share)
+        .or(auth)
+        .or(text)
+        .or(file_text)
+        .or(stats)
+        .boxed()
 }
 
-/// Handler for the `/api/socket/{id}` endpoint.
-async fn socket_handler(id: String, ws: Ws, state: ServerState) -> Result<impl Reply, Rejection> {
+/// Key of a file's document in the server map and the database.
+///
+/// The main file of a pad is stored under the pad ID itself, so that pads
+/// created before multi-file support keep their contents.
+fn document_key(id: &str, file: &str) -> String {
+    if file == MAIN_FILE {
+        id.into()
+    } else {
+        format!("{}/{}", id, file)
+    }
+}
+
+/// Returns the file list of a pad, loading it from the database if needed.
+///
+/// Fails if the database does, rather than opening the pad without its files
+/// or password, which the next persist would then overwrite.
+async fn pad_files(id: &str, state: &ServerState) -> Result<Arc<Files>, Rejection> {
+    if let Some(files) = state.pads.get(id) {
+        return Ok(Arc::clone(files.value()));
+    }
+    let files = match &state.database {
+        Some(db) => {
+            let load = async {
+                let files = match db.load_files(id).await? {
+                    Some(entries) => Files::new(entries),
+                    None => Files::default(),
+                };
+                Ok::<_, anyhow::Error>(
+                    files
+                        .with_view(db.load_view(id).await?)
+                        .with_password(db.load_password(id).await?)
+                        .with_chat(db.load_chat(id).await?),
+                )
+            };
+            load.await.map_err(|e| {
+                error!("when loading files of {}: {}", id, e);
+                warp::reject::custom(CustomReject(e))
+            })?
+        }
+        None => Files::default(),
+    };
+    let entry = state
+        .pads
+        .entry(id.into())
+        .or_insert_with(|| Arc::new(files));
+    if let Some(view) = entry.value().view() {
+        state.views.insert(view, id.into());
+    }
+    Ok(Arc::clone(entry.value()))
+}
+
+/// Returns the ID of the pad that a view-only link belongs to, if any.
+async fn find_view(view: &str, state: &ServerState) -> Option<String> {
+    if let Some(id) = state.views.get(view) {
+        return Some(id.value().clone());
+    }
+    match &state.database {
+        Some(db) => db.find_view(view).await.ok().flatten(),
+        None => None,
+    }
+}
+
+/// Returns the document of a file, loading it from the database if needed.
+async fn open_document(
+    id: &str,
+    file: &str,
+    files: &Arc<Files>,
+    state: &ServerState,
+) -> Arc<Rustpad> {
     use dashmap::mapref::entry::Entry;
 
-    let mut entry = match state.documents.entry(id.clone()) {
+    let key = document_key(id, file);
+    let mut entry = match state.documents.entry(key.clone()) {
         Entry::Occupied(e) => e.into_ref(),
         Entry::Vacant(e) => {
-            let rustpad = Arc::new(match &state.database {
-                Some(db) => db.load(&id).await.map(Rustpad::from).unwrap_or_default(),
+            let rustpad = match &state.database {
+                Some(db) => db.load(&key).await.map(Rustpad::from).unwrap_or_default(),
                 None => Rustpad::default(),
-            });
+            };
+            let rustpad = Arc::new(rustpad.with_files(Arc::clone(files), file));
             if let Some(db) = &state.database {
-                tokio::spawn(persister(id, Arc::clone(&rustpad), db.clone()));
+                tokio::spawn(persister(key, Arc::clone(&rustpad), db.clone()));
             }
             e.insert(Document::new(rustpad))
         }
@@ -152,17 +317,160 @@ async fn socket_handler(id: String, ws: Ws, state: ServerState) -> Result<impl R
 
     let value = entry.value_mut();
     value.last_accessed = Instant::now();
-    let rustpad = Arc::clone(&value.rustpad);
-    Ok(ws.on_upgrade(|socket| async move { rustpad.on_connection(socket).await }))
+    Arc::clone(&value.rustpad)
+}
+
+/// Response for requests with a missing or incorrect pad password.
+fn unauthorized() -> Response {
+    warp::reply::with_status("incorrect password", StatusCode::UNAUTHORIZED).into_response()
+}
+
+/// Accepts a WebSocket only to close it with `UNAUTHORIZED_CLOSE`, so that
+/// clients ask for the password instead of reconnecting.
+fn unauthorized_socket(ws: Ws) -> Response {
+    ws.on_upgrade(|mut socket| async move {
+        let msg = Message::close_with(UNAUTHORIZED_CLOSE, "incorrect password");
+        socket.send(msg).await.ok();
+    })
+    .into_response()
+}
+
+/// Handler for the `/api/socket/{id}` endpoint.
+async fn socket_handler(
+    id: String,
+    credentials: Credentials,
+    ws: Ws,
+    state: ServerState,
+) -> Result<Response, Rejection> {
+    file_socket_handler(id, MAIN_FILE.into(), credentials, ws, state).await
+}
+
+/// Handler for the `/api/socket/{id}/{file}` endpoint.
+async fn file_socket_handler(
+    id: String,
+    file: String,
+    credentials: Credentials,
+    ws: Ws,
+    state: ServerState,
+) -> Result<Response, Rejection> {
+    let files = pad_files(&id, &state).await?;
+    if !files.check_token(credentials.token.as_deref()) {
+        return Ok(unauthorized_socket(ws));
+    }
+    open_socket(id, file, ws, state, false).await
+}
+
+/// Handler for the `/api/view/{token}` endpoint.
+async fn view_socket_handler(
+    view: String,
+    ws: Ws,
+    state: ServerState,
+) -> Result<Response, Rejection> {
+    view_file_socket_handler(view, MAIN_FILE.into(), ws, state).await
+}
+
+/// Handler for the `/api/view/{token}/{file}` endpoint.
+async fn view_file_socket_handler(
+    view: String,
+    file: String,
+    ws: Ws,
+    state: ServerState,
+) -> Result<Response, Rejection> {
+    match find_view(&view, &state).await {
+        Some(id) => open_socket(id, file, ws, state, true).await,
+        None => Err(warp::reject::not_found()),
+    }
+}
+
+/// Connects a WebSocket to a file of a pad, which only reads if `readonly`.
+async fn open_socket(
+    id: String,
+    file: String,
+    ws: Ws,
+    state: ServerState,
+    readonly: bool,
+) -> Result<Response, Rejection> {
+    let files = pad_files(&id, &state).await?;
+    if !files.contains(&file) {
+        return Err(warp::reject::not_found());
+    }
+    // The main document is kept open while any file is in use, since the file
+    // list is persisted alongside it.
+    let mut rustpad = open_document(&id, MAIN_FILE, &files, &state).await;
+    if file != MAIN_FILE {
+        rustpad = open_document(&id, &file, &files, &state).await;
+    }
+    Ok(ws
+        .on_upgrade(move |socket| async move { rustpad.on_connection(socket, readonly).await })
+        .into_response())
+}
+
+/// Handler for the `/api/share/{id}` endpoint, which returns the token of the
+/// pad's view-only link.
+async fn share_handler(
+    id: String,
+    credentials: Credentials,
+    state: ServerState,
+) -> Result<Response, Rejection> {
+    let files = pad_files(&id, &state).await?;
+    if !files.check_token(credentials.token.as_deref()) {
+        return Ok(unauthorized());
+    }
+    // Keep the pad in memory, so that it is persisted with its new token.
+    open_document(&id, MAIN_FILE, &files, &state).await;
+    let view = files.share();
+    state.views.insert(view.clone(), id);
+    Ok(view.into_response())
+}
+
+/// Handler for the `/api/auth/{id}` endpoint, which checks a pad's password
+/// and returns a session token for the other routes.
+async fn auth_handler(id: String, login: Login, state: ServerState) -> Result<Response, Rejection> {
+    let files = pad_files(&id, &state).await?;
+    // Taken before the check, so that a token is never issued for a password
+    // set in between.
+    let token = files.session_token();
+    let checked = {
+        let files = Arc::clone(&files);
+        task::spawn_blocking(move || files.check_password(login.password.as_deref())).await
+    };
+    match checked {
+        Ok(true) => Ok(warp::reply::json(&Access {
+            protected: token.is_some(),
+            token,
+        })
+        .into_response()),
+        Ok(false) => Ok(unauthorized()),
+        Err(e) => Err(warp::reject::custom(CustomReject(e.into()))),
+    }
 }
 
 /// Handler for the `/api/text/{id}` endpoint.
-async fn text_handler(id: String, state: ServerState) -> Result<impl Reply, Rejection> {
-    Ok(match state.documents.get(&id) {
+async fn text_handler(
+    id: String,
+    credentials: Credentials,
+    state: ServerState,
+) -> Result<Response, Rejection> {
+    file_text_handler(id, MAIN_FILE.into(), credentials, state).await
+}
+
+/// Handler for the `/api/text/{id}/{file}` endpoint.
+async fn file_text_handler(
+    id: String,
+    file: String,
+    credentials: Credentials,
+    state: ServerState,
+) -> Result<Response, Rejection> {
+    let files = pad_files(&id, &state).await?;
+    if !files.check_token(credentials.token.as_deref()) {
+        return Ok(unauthorized());
+    }
+    let key = document_key(&id, &file);
+    let text = match state.documents.get(&key) {
         Some(value) => value.rustpad.text(),
         None => {
             if let Some(db) = &state.database {
-                db.load(&id)
+                db.load(&key)
                     .await
                     .map(|document| document.text)
                     .unwrap_or_default()
@@ -170,7 +478,8 @@ async fn text_handler(id: String, state: ServerState) -> Result<impl Reply, Reje
                 String::new()
             }
         }
-    })
+    };
+    Ok(text.into_response())
 }
 
 /// Handler for the `/api/stats` endpoint.
@@ -206,6 +515,9 @@ async fn cleaner(state: ServerState, expiry_days: u32) {
         for key in keys {
             state.documents.remove(&key);
         }
+        // File lists are only referenced by the map once their documents are gone.
+        state.pads.retain(|_, files| Arc::strong_count(files) > 1);
+        state.views.retain(|_, id| state.pads.contains_key(id));
     }
 }
 
@@ -213,20 +525,62 @@ const PERSIST_INTERVAL: Duration = Duration::from_secs(3);
 const PERSIST_INTERVAL_JITTER: Duration = Duration::from_secs(1);
 
 /// Persists changed documents after a fixed time interval.
+///
+/// The persister of a pad's main document also stores its file list and chat,
+/// and the persister of a deleted file removes it from the database.
 async fn persister(id: String, rustpad: Arc<Rustpad>, db: Database) {
     let mut last_revision = 0;
-    while !rustpad.killed() {
+    let mut last_threads_version = 0;
+    let mut last_files_version = 0;
+    let mut last_chat_version = 0;
+    while !rustpad.killed() && !rustpad.deleted() {
         let interval = PERSIST_INTERVAL
             + rand::thread_rng().gen_range(Duration::ZERO..=PERSIST_INTERVAL_JITTER);
         time::sleep(interval).await;
         let revision = rustpad.revision();
-        if revision > last_revision {
+        let threads_version = rustpad.threads_version();
+        if revision > last_revision || threads_version > last_threads_version {
             info!("persisting revision {} for id = {}", revision, id);
             if let Err(e) = db.store(&id, &rustpad.snapshot()).await {
                 error!("when persisting document {}: {}", id, e);
             } else {
                 last_revision = revision;
+                last_threads_version = threads_version;
             }
         }
+        let files_version = rustpad.files().version();
+        if rustpad.is_main() && files_version > last_files_version {
+            info!("persisting file list for id = {}", id);
+            let mut result = db.store_files(&id, &rustpad.files().list()).await;
+            if let (true, Some(view)) = (result.is_ok(), rustpad.files().view()) {
+                result = db.store_view(&id, &view).await;
+            }
+            if result.is_ok() {
+                let password = rustpad.files().password();
+                result = db.store_password(&id, password.as_deref()).await;
+            }
+            if let Err(e) = result {
+                error!("when persisting files of {}: {}", id, e);
+            } else {
+                last_files_version = files_version;
+            }
+        }
+        let chat_version = rustpad.files().chat().version();
+        if rustpad.is_main() && chat_version > last_chat_version {
+            info!("persisting chat for id = {}", id);
+            let messages = rustpad.files().chat().messages();
+            if let Err(e) = db.store_chat(&id, &messages).await {
+                error!("when persisting chat of {}: {}", id, e);
+            } else {
+                last_chat_version = chat_version;
+            }
+        }
+    }
+    if rustpad.deleted() {
+        info!("deleting document for id = {}", id);
+        rustpad.kill();
+        if let Err(e) = db.delete(&id).await {
+            error!("when deleting document {}: {}", id, e);
+        }
     }
 }
@@ -21,3 +21,130 @@ pub fn transform_index(operation: &OperationSeq, position: u32) -> u32 {
     }
     new_index as u32
 }
+
+/// Apply an operation to runs of Unicode codepoints that are labelled with
+/// values, like the authors of the text.
+///
+/// Inserted text gets `label`, and so does the codepoint after a deletion,
+/// which counts as a change to it, the same as in the client's blame.
+pub fn transform_runs<T: Clone + PartialEq>(
+    runs: &[(u64, T)],
+    operation: &OperationSeq,
+    label: &T,
+) -> Vec<(u64, T)> {
+    let mut old = runs.iter().filter(|(len, _)| *len > 0).cloned();
+    let mut next = old.next();
+    let mut new = Vec::new();
+    let mut deleted = false;
+    for op in operation.ops() {
+        let mut n = match op {
+            Operation::Insert(s) => {
+                let len = bytecount::num_chars(s.as_bytes()) as u64;
+                push_run(&mut new, len, label.clone());
+                continue;
+            }
+            &Operation::Retain(n) | &Operation::Delete(n) => n,
+        };
+        while n > 0 {
+            let (len, value) = match next.as_mut() {
+                Some(run) => run,
+                None => break,
+            };
+            let taken = n.min(*len);
+            if let Operation::Delete(_) = op {
+                deleted = true;
+            } else if deleted {
+                push_run(&mut new, 1, label.clone());
+                push_run(&mut new, taken - 1, value.clone());
+                deleted = false;
+            } else {
+                push_run(&mut new, taken, value.clone());
+            }
+            *len -= taken;
+            n -= taken;
+            if *len == 0 {
+                next = old.next();
+            }
+        }
+    }
+    new
+}
+
+/// Append a run, merging it into the last one if they have the same label.
+fn push_run<T: PartialEq>(runs: &mut Vec<(u64, T)>, len: u64, value: T) {
+    if len == 0 {
+        return;
+    }
+    match runs.last_mut() {
+        Some((last, last_value)) if *last_value == value => *last += len,
+        _ => runs.push((len, value)),
+    }
+}
+
+/// Returns operations that build a text by inserting its runs, one operation
+/// for each group of runs with the same `group` key, in order of the keys.
+///
+/// This turns labels like authors back into a history after a reload, where
+/// later groups have later revisions. The lengths of the runs must add up to
+/// the length of the text.
+pub fn insert_runs<T, K: Ord + Clone>(
+    text: &str,
+    runs: &[(u64, T)],
+    group: impl Fn(&T) -> K,
+) -> Vec<(OperationSeq, K)> {
+    let chars: Vec<char> = text.chars().collect();
+    let mut starts = Vec::with_capacity(runs.len());
+    let mut start: u64 = 0;
+    for (len, _) in runs {
+        starts.push(start as usize);
+        start += len;
+    }
+    let keys: Vec<K> = runs.iter().map(|(_, value)| group(value)).collect();
+    let mut order: Vec<usize> = (0..runs.len()).collect();
+    order.sort_by(|&a, &b| keys[a].cmp(&keys[b]).then(a.cmp(&b)));
+
+    // Lengths of the runs inserted so far, as a Fenwick tree by index, to find
+    // where each run goes in the text built so far.
+    let mut inserted = vec![0u64; runs.len() + 1];
+    let mut total: u64 = 0;
+    let mut history = Vec::new();
+    let mut i = 0;
+    while i < order.len() {
+        let mut j = i;
+        while j < order.len() && keys[order[j]] == keys[order[i]] {
+            j += 1;
+        }
+        // The runs of a group are in the order of the text, so each one is
+        // inserted after the ones before it.
+        let mut operation = OperationSeq::default();
+        let mut position: u64 = 0;
+        for &run in &order[i..j] {
+            let mut before: u64 = 0;
+            let mut k = run;
+            while k > 0 {
+                before += inserted[k];
+                k &= k - 1;
+            }
+            let len = runs[run].0;
+            let segment: String = chars[starts[run]..starts[run] + len as usize]
+                .iter()
+                .collect();
+            operation.retain(before - position);
+            operation.insert(&segment);
+            position = before;
+        }
+        operation.retain(total - position);
+        for &run in &order[i..j] {
+            let len = runs[run].0;
+            let mut k = run + 1;
+            while k < inserted.len() {
+                inserted[k] += len;
+                k += k & k.wrapping_neg();
+            }
+            total += len;
+        }
+        history.push((operation, keys[order[i]].clone()));
+        i = j;
+    }
+    history
+}
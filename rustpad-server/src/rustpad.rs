@@ -2,6 +2,8 @@
 
 use std::collections::HashMap;
 use std::sync::atomic::{AtomicBool, AtomicU64, Ordering};
+use std::sync::Arc;
+use std::time::SystemTime;
 
 use anyhow::{bail, Context, Result};
 use futures::prelude::*;
@@ -10,9 +12,27 @@ use operational_transform::OperationSeq;
 use parking_lot::{RwLock, RwLockUpgradableReadGuard};
 use serde::{Deserialize, Serialize};
 use tokio::sync::{broadcast, Notify};
+use tokio::task;
 use warp::ws::{Message, WebSocket};
 
-use crate::{database::PersistedDocument, ot::transform_index};
+use crate::chat::ChatMessage;
+use crate::database::PersistedDocument;
+use crate::files::{FileEntry, Files, MAIN_FILE};
+use crate::ot::{insert_runs, transform_index, transform_runs};
+
+/// Maximum length of the text of a document, which also bounds the total
+/// length of the comments kept with it.
+const MAX_TEXT_LEN: usize = 256 * 1024;
+
+/// Maximum length of a chat message or comment, in bytes.
+const MAX_MESSAGE_LEN: usize = 2000;
+
+/// Maximum number of comment threads in a document, whose comments together
+/// are at most `MAX_TEXT_LEN` bytes.
+const MAX_THREADS: usize = 256;
+
+/// Maximum number of comments in a thread.
+const MAX_COMMENTS: usize = 200;
 
 /// The main object representing a collaborative session.
 pub struct Rustpad {
@@ -26,6 +46,10 @@ pub struct Rustpad {
     update: broadcast::Sender<ServerMsg>,
     /// Set to true when the document is destroyed.
     killed: AtomicBool,
+    /// Files of the pad that this document belongs to.
+    files: Arc<Files>,
+    /// ID of this document's file within the pad.
+    file: String,
 }
 
 /// Shared state involving multiple users, protected by a lock.
@@ -36,24 +60,62 @@ struct State {
     language: Option<String>,
     users: HashMap<u64, UserInfo>,
     cursors: HashMap<u64, CursorData>,
+    threads: Vec<Thread>,
+    /// Incremented when a comment thread changes, other than by an edit.
+    threads_version: u64,
+    /// Runs of Unicode codepoints in the text with the author of their last
+    /// change, which outlive the history when the document is persisted.
+    authors: Vec<(u64, Option<Author>)>,
 }
 
 #[derive(Clone, Debug, Serialize, Deserialize)]
 struct UserOperation {
     id: u64,
     operation: OperationSeq,
+    /// Name and hue of the user when they made the edit, sent on request.
+    #[serde(skip)]
+    author: Option<Author>,
+}
+
+/// Author of an edit, kept because user IDs only last for one connection.
+#[derive(Clone, Debug, PartialEq, Eq, Serialize, Deserialize)]
+struct Author {
+    name: String,
+    hue: u32,
+    /// Time when the server received the edit, in milliseconds.
+    time: u64,
 }
 
 #[derive(Clone, Debug, Serialize, Deserialize)]
 struct UserInfo {
     name: String,
     hue: u32,
+    /// Members of the game's `Unlocks` that the user has, from their profile.
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    unlocks: Option<Vec<String>>,
+    /// Set by the server for users who joined through a view-only link.
+    #[serde(default, skip_serializing_if = "std::ops::Not::not")]
+    spectator: bool,
 }
 
 #[derive(Clone, Debug, Serialize, Deserialize)]
 struct CursorData {
     cursors: Vec<u32>,
     selections: Vec<(u32, u32)>,
+    /// Ranges of the document visible in the user's editor, for following them.
+    #[serde(default, skip_serializing_if = "Vec::is_empty")]
+    viewport: Vec<(u32, u32)>,
+}
+
+/// A comment thread on a range of the document, with its ID as its index.
+#[derive(Clone, Debug, Serialize, Deserialize)]
+struct Thread {
+    id: usize,
+    /// Range of Unicode codepoints that the thread is anchored to.
+    start: u32,
+    end: u32,
+    resolved: bool,
+    comments: Vec<ChatMessage>,
 }
 
 /// A message received from the client over WebSocket.
@@ -70,6 +132,26 @@ enum ClientMsg {
     ClientInfo(UserInfo),
     /// Sets the user's cursor and selection positions.
     CursorData(CursorData),
+    /// Creates a new, empty file in the pad.
+    CreateFile(String),
+    /// Renames a file in the pad.
+    RenameFile { id: String, name: String },
+    /// Deletes a file from the pad.
+    DeleteFile(String),
+    /// Asks for the latest text, to resynchronize after a lost history.
+    RequestSnapshot,
+    /// Asks for the authors of the operations from a revision onward.
+    RequestAuthors(usize),
+    /// Sets the password of the pad, or removes it if empty or `None`.
+    SetPassword(Option<String>),
+    /// Sends a chat message to everyone in the pad.
+    Chat(String),
+    /// Starts a comment thread on a range of the document.
+    CreateThread { start: u32, end: u32, text: String },
+    /// Adds a comment to the end of a thread.
+    ReplyThread { id: usize, text: String },
+    /// Resolves or reopens a comment thread.
+    ResolveThread { id: usize, resolved: bool },
 }
 
 /// A message sent to the client over WebSocket.
@@ -88,6 +170,40 @@ enum ServerMsg {
     UserInfo { id: u64, info: Option<UserInfo> },
     /// Broadcasts a user's cursor position.
     UserCursor { id: u64, data: CursorData },
+    /// Broadcasts the files in the pad, if there is more than the main file.
+    Files(Vec<FileEntry>),
+    /// Sends the latest text and its revision, in reply to `RequestSnapshot`.
+    Snapshot { revision: usize, text: String },
+    /// Sends the authors of operations from `start`, in reply to `RequestAuthors`.
+    Authors {
+        start: usize,
+        authors: Vec<Option<Author>>,
+    },
+    /// Broadcasts a chat message, and sends the backlog to new clients.
+    Chat(ChatMessage),
+    /// Broadcasts a comment thread when it changes, and sends all to new clients.
+    Thread(Thread),
+    /// Sends the session token for the new password, in reply to `SetPassword`.
+    Token(Option<String>),
+}
+
+impl ClientMsg {
+    /// Returns if this message changes the pad, which viewers cannot do.
+    fn modifies(&self) -> bool {
+        matches!(
+            self,
+            ClientMsg::Edit { .. }
+                | ClientMsg::SetLanguage(_)
+                | ClientMsg::CreateFile(_)
+                | ClientMsg::RenameFile { .. }
+                | ClientMsg::DeleteFile(_)
+                | ClientMsg::SetPassword(_)
+                | ClientMsg::Chat(_)
+                | ClientMsg::CreateThread { .. }
+                | ClientMsg::ReplyThread { .. }
+                | ClientMsg::ResolveThread { .. }
+        )
+    }
 }
 
 impl From<ServerMsg> for Message {
@@ -106,35 +222,101 @@ impl Default for Rustpad {
             notify: Default::default(),
             update: tx,
             killed: AtomicBool::new(false),
+            files: Default::default(),
+            file: MAIN_FILE.into(),
         }
     }
 }
 
 impl From<PersistedDocument> for Rustpad {
     fn from(document: PersistedDocument) -> Self {
-        let mut operation = OperationSeq::default();
-        operation.insert(&document.text);
+        // The history starts with an insert of the runs of text by each user,
+        // ordered by their latest edit, so that clients can blame the text
+        // again. Each insert gets the time of that edit, while the runs keep
+        // their own. Documents from before authors were stored have a single
+        // run with no author.
+        let len = bytecount::num_chars(document.text.as_bytes()) as u64;
+        let authors: Vec<(u64, Option<Author>)> = document
+            .authors
+            .as_deref()
+            .and_then(|authors| serde_json::from_str(authors).ok())
+            .filter(|runs: &Vec<_>| !runs.is_empty())
+            .filter(|runs| runs.iter().map(|(n, _)| n).sum::<u64>() == len)
+            .unwrap_or_else(|| vec![(len, None)]);
+        let mut latest: HashMap<(String, u32), u64> = HashMap::new();
+        for author in authors.iter().filter_map(|(_, author)| author.as_ref()) {
+            let time = latest.entry((author.name.clone(), author.hue)).or_default();
+            *time = author.time.max(*time);
+        }
+        let history = insert_runs(&document.text, &authors, |author| {
+            author.as_ref().map(|author| {
+                let time = latest[&(author.name.clone(), author.hue)];
+                (time, author.name.clone(), author.hue)
+            })
+        });
+
+        // Comments outlive their authors' connections, like the history.
+        let mut threads: Vec<Thread> = document
+            .threads
+            .as_deref()
+            .and_then(|threads| serde_json::from_str(threads).ok())
+            .unwrap_or_default();
+        for (id, thread) in threads.iter_mut().enumerate() {
+            thread.id = id;
+            thread.start = thread.start.min(len as u32);
+            thread.end = thread.end.min(len as u32);
+            for comment in &mut thread.comments {
+                comment.id = u64::MAX;
+            }
+        }
 
         let rustpad = Self::default();
         {
             let mut state = rustpad.state.write();
             state.text = document.text;
             state.language = document.language;
-            state.operations.push(UserOperation {
-                id: u64::MAX,
-                operation,
-            })
+            state.authors = authors;
+            state.threads = threads;
+            for (operation, author) in history {
+                state.operations.push(UserOperation {
+                    id: u64::MAX,
+                    operation,
+                    author: author.map(|(time, name, hue)| Author { name, hue, time }),
+                });
+            }
         }
         rustpad
     }
 }
 
 impl Rustpad {
-    /// Handle a connection from a WebSocket.
-    pub async fn on_connection(&self, socket: WebSocket) {
+    /// Attach this document to a file in a pad.
+    pub fn with_files(mut self, files: Arc<Files>, file: &str) -> Self {
+        self.files = files;
+        self.file = file.into();
+        self
+    }
+
+    /// Returns the files of the pad that this document belongs to.
+    pub fn files(&self) -> &Files {
+        &self.files
+    }
+
+    /// Returns if this document is the main file of its pad.
+    pub fn is_main(&self) -> bool {
+        self.file == MAIN_FILE
+    }
+
+    /// Returns if this document's file has been deleted from its pad.
+    pub fn deleted(&self) -> bool {
+        !self.files.contains(&self.file)
+    }
+
+    /// Handle a connection from a WebSocket, which cannot edit if `readonly`.
+    pub async fn on_connection(&self, socket: WebSocket, readonly: bool) {
         let id = self.count.fetch_add(1, Ordering::Relaxed);
-        info!("connection! id = {}", id);
-        if let Err(e) = self.handle_connection(id, socket).await {
+        info!("connection! id = {}, readonly = {}", id, readonly);
+        if let Err(e) = self.handle_connection(id, socket, readonly).await {
             warn!("connection terminated early: {}", e);
         }
         info!("disconnection, id = {}", id);
@@ -157,9 +339,17 @@ impl Rustpad {
         PersistedDocument {
             text: state.text.clone(),
             language: state.language.clone(),
+            authors: serde_json::to_string(&state.authors).ok(),
+            threads: serde_json::to_string(&state.threads).ok(),
         }
     }
 
+    /// Returns the number of changes to comment threads, other than by edits.
+    pub fn threads_version(&self) -> u64 {
+        let state = self.state.read();
+        state.threads_version
+    }
+
     /// Returns the current revision.
     pub fn revision(&self) -> usize {
         let state = self.state.read();
@@ -177,8 +367,15 @@ impl Rustpad {
         self.killed.load(Ordering::Relaxed)
     }
 
-    async fn handle_connection(&self, id: u64, mut socket: WebSocket) -> Result<()> {
+    async fn handle_connection(
+        &self,
+        id: u64,
+        mut socket: WebSocket,
+        readonly: bool,
+    ) -> Result<()> {
         let mut update_rx = self.update.subscribe();
+        let mut files_rx = self.files.subscribe();
+        let mut chat_rx = self.files.chat().subscribe();
 
         let mut revision: usize = self.send_initial(id, &mut socket).await?;
 
@@ -199,11 +396,23 @@ impl Rustpad {
                 update = update_rx.recv() => {
                     socket.send(update?.into()).await?;
                 }
+                message = chat_rx.recv() => {
+                    socket.send(ServerMsg::Chat(message?).into()).await?;
+                }
+                files = files_rx.recv() => {
+                    socket.send(ServerMsg::Files(files?).into()).await?;
+                    if self.deleted() {
+                        break;
+                    }
+                }
                 result = socket.next() => {
                     match result {
                         None => break,
                         Some(message) => {
-                            self.handle_message(id, message?).await?;
+                            let reply = self.handle_message(id, message?, readonly).await?;
+                            if let Some(reply) = reply {
+                                socket.send(reply.into()).await?;
+                            }
                         }
                     }
                 }
@@ -227,6 +436,9 @@ impl Rustpad {
             if let Some(language) = &state.language {
                 messages.push(ServerMsg::Language(language.clone()));
             }
+            if !self.files.is_default() {
+                messages.push(ServerMsg::Files(self.files.list()));
+            }
             for (&id, info) in &state.users {
                 messages.push(ServerMsg::UserInfo {
                     id,
@@ -239,6 +451,12 @@ impl Rustpad {
                     data: data.clone(),
                 });
             }
+            for message in self.files.chat().messages() {
+                messages.push(ServerMsg::Chat(message));
+            }
+            for thread in &state.threads {
+                messages.push(ServerMsg::Thread(thread.clone()));
+            }
             state.operations.len()
         };
         for msg in messages {
@@ -265,11 +483,20 @@ impl Rustpad {
         Ok(start + num_ops)
     }
 
-    async fn handle_message(&self, id: u64, message: Message) -> Result<()> {
+    /// Handles a message from a client, returning a reply for that client only.
+    async fn handle_message(
+        &self,
+        id: u64,
+        message: Message,
+        readonly: bool,
+    ) -> Result<Option<ServerMsg>> {
         let msg: ClientMsg = match message.to_str() {
             Ok(text) => serde_json::from_str(text).context("failed to deserialize message")?,
-            Err(()) => return Ok(()), // Ignore non-text messages
+            Err(()) => return Ok(None), // Ignore non-text messages
         };
+        if readonly && msg.modifies() {
+            bail!("read-only connection sent {:?}", msg);
+        }
         match msg {
             ClientMsg::Edit {
                 revision,
@@ -283,7 +510,8 @@ impl Rustpad {
                 self.state.write().language = Some(language.clone());
                 self.update.send(ServerMsg::Language(language)).ok();
             }
-            ClientMsg::ClientInfo(info) => {
+            ClientMsg::ClientInfo(mut info) => {
+                info.spectator = readonly;
                 self.state.write().users.insert(id, info.clone());
                 let msg = ServerMsg::UserInfo {
                     id,
@@ -296,7 +524,121 @@ impl Rustpad {
                 let msg = ServerMsg::UserCursor { id, data };
                 self.update.send(msg).ok();
             }
+            // Invalid file operations usually come from races between users,
+            // so they are ignored instead of dropping the connection.
+            ClientMsg::CreateFile(name) => {
+                if let Err(e) = self.files.create(&name) {
+                    warn!("failed to create file: {}", e);
+                }
+            }
+            ClientMsg::RenameFile { id, name } => {
+                if let Err(e) = self.files.rename(&id, &name) {
+                    warn!("failed to rename file: {}", e);
+                }
+            }
+            ClientMsg::DeleteFile(id) => {
+                if let Err(e) = self.files.delete(&id) {
+                    warn!("failed to delete file: {}", e);
+                }
+            }
+            ClientMsg::SetPassword(password) => {
+                let password = password.filter(|password| !password.is_empty());
+                let files = Arc::clone(&self.files);
+                task::spawn_blocking(move || files.set_password(password.as_deref())).await?;
+                return Ok(Some(ServerMsg::Token(self.files.session_token())));
+            }
+            ClientMsg::Chat(text) => self.send_chat(id, text)?,
+            // Comments over the limits are dropped like invalid file
+            // operations, so the sender keeps their connection.
+            ClientMsg::CreateThread { start, end, text } => {
+                if let Err(e) = self.create_thread(id, start, end, text) {
+                    warn!("failed to create thread: {}", e);
+                }
+            }
+            ClientMsg::ReplyThread { id: thread, text } => {
+                if let Err(e) = self.reply_thread(id, thread, text) {
+                    warn!("failed to reply to thread: {}", e);
+                }
+            }
+            ClientMsg::ResolveThread {
+                id: thread,
+                resolved,
+            } => {
+                if let Err(e) = self.resolve_thread(thread, resolved) {
+                    warn!("failed to resolve thread: {}", e);
+                }
+            }
+            ClientMsg::RequestSnapshot => {
+                let state = self.state.read();
+                return Ok(Some(ServerMsg::Snapshot {
+                    revision: state.operations.len(),
+                    text: state.text.clone(),
+                }));
+            }
+            ClientMsg::RequestAuthors(start) => {
+                let state = self.state.read();
+                let start = start.min(state.operations.len());
+                let authors = state.operations[start..]
+                    .iter()
+                    .map(|operation| operation.author.clone())
+                    .collect();
+                return Ok(Some(ServerMsg::Authors { start, authors }));
+            }
         }
+        Ok(None)
+    }
+
+    fn send_chat(&self, id: u64, text: String) -> Result<()> {
+        let message = self.state.read().message(id, text)?;
+        self.files.chat().send(message);
+        Ok(())
+    }
+
+    fn create_thread(&self, id: u64, start: u32, end: u32, text: String) -> Result<()> {
+        let mut state = self.state.write();
+        if state.threads.len() >= MAX_THREADS {
+            bail!(
+                "document already has the maximum of {} threads",
+                MAX_THREADS
+            );
+        }
+        let thread = Thread {
+            id: state.threads.len(),
+            start: start.min(end),
+            end: start.max(end),
+            resolved: false,
+            comments: vec![state.comment(id, text)?],
+        };
+        state.threads.push(thread.clone());
+        state.threads_version += 1;
+        self.update.send(ServerMsg::Thread(thread)).ok();
+        Ok(())
+    }
+
+    fn reply_thread(&self, id: u64, thread: usize, text: String) -> Result<()> {
+        let mut state = self.state.write();
+        let comment = state.comment(id, text)?;
+        let thread = state.thread(thread)?;
+        if thread.comments.len() >= MAX_COMMENTS {
+            bail!(
+                "thread already has the maximum of {} comments",
+                MAX_COMMENTS
+            );
+        }
+        thread.comments.push(comment);
+        let msg = ServerMsg::Thread(thread.clone());
+        state.threads_version += 1;
+        self.update.send(msg).ok();
+        Ok(())
+    }
+
+    fn resolve_thread(&self, thread: usize, resolved: bool) -> Result<()> {
+        let mut state = self.state.write();
+        let thread = state.thread(thread)?;
+        thread.resolved = resolved;
+        let msg = ServerMsg::Thread(thread.clone());
+        state.threads_version += 1;
+        self.update.send(msg).ok();
         Ok(())
     }
 
@@ -316,10 +658,11 @@ impl Rustpad {
         for history_op in &state.operations[revision..] {
             operation = operation.transform(&history_op.operation)?.0;
         }
-        if operation.target_len() > 256 * 1024 {
+        if operation.target_len() > MAX_TEXT_LEN {
             bail!(
-                "target length {} is greater than 256 KiB maximum",
-                operation.target_len()
+                "target length {} is greater than {} maximum",
+                operation.target_len(),
+                MAX_TEXT_LEN
             );
         }
         let new_text = operation.apply(&state.text)?;
@@ -328,13 +671,77 @@ impl Rustpad {
             for cursor in data.cursors.iter_mut() {
                 *cursor = transform_index(&operation, *cursor);
             }
-            for (start, end) in data.selections.iter_mut() {
+            for (start, end) in data.selections.iter_mut().chain(&mut data.viewport) {
                 *start = transform_index(&operation, *start);
                 *end = transform_index(&operation, *end);
             }
         }
-        state.operations.push(UserOperation { id, operation });
+        for thread in state.threads.iter_mut() {
+            thread.start = transform_index(&operation, thread.start);
+            thread.end = transform_index(&operation, thread.end);
+        }
+        let author = state.users.get(&id).map(|info| Author {
+            name: info.name.clone(),
+            hue: info.hue,
+            time: now(),
+        });
+        state.authors = transform_runs(&state.authors, &operation, &author);
+        state.operations.push(UserOperation {
+            id,
+            operation,
+            author,
+        });
         state.text = new_text;
         Ok(())
     }
 }
+
+impl State {
+    /// Attribute a chat message or comment to a user, with the current time.
+    fn message(&self, id: u64, text: String) -> Result<ChatMessage> {
+        if text.len() > MAX_MESSAGE_LEN {
+            bail!("message is longer than {} bytes", MAX_MESSAGE_LEN);
+        }
+        let info = self
+            .users
+            .get(&id)
+            .context("message sent before user info")?;
+        Ok(ChatMessage {
+            id,
+            name: info.name.clone(),
+            hue: info.hue,
+            text,
+            time: now(),
+        })
+    }
+
+    /// Attribute a comment to a user, if it fits in the limit on the total
+    /// length of the comments in the document.
+    fn comment(&self, id: u64, text: String) -> Result<ChatMessage> {
+        let len: usize = self
+            .threads
+            .iter()
+            .flat_map(|thread| &thread.comments)
+            .map(|comment| comment.text.len())
+            .sum();
+        if len + text.len() > MAX_TEXT_LEN {
+            bail!("comments are longer than {} bytes in total", MAX_TEXT_LEN);
+        }
+        self.message(id, text)
+    }
+
+    /// Returns the comment thread with an ID, for changing it.
+    fn thread(&mut self, id: usize) -> Result<&mut Thread> {
+        self.threads
+            .get_mut(id)
+            .with_context(|| format!("no comment thread with id {}", id))
+    }
+}
+
+/// Returns the current time in milliseconds since the Unix epoch.
+fn now() -> u64 {
+    SystemTime::now()
+        .duration_since(SystemTime::UNIX_EPOCH)
+        .expect("SystemTime returned before UNIX_EPOCH")
+        .as_millis() as u64
+}
@@ -0,0 +1,144 @@
+//! Tests for the authors of edits, which outlive the connections that made them.
+
+use std::time::Duration;
+
+use anyhow::Result;
+use common::*;
+use rustpad_server::{database::Database, server, ServerConfig};
+use serde_json::{json, Value};
+use tokio::time;
+
+pub mod common;
+
+#[tokio::test]
+async fn test_authors() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    // Edits from users without info have no author.
+    let msg = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": ["plant()"]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+    let msg = json!({
+        "Edit": {
+            "revision": 1,
+            "operation": [7, "\nharvest()"]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 1 }));
+    client2.recv().await?; // history
+    client2.recv().await?; // user info of Alice
+
+    client2.send(&json!({ "RequestAuthors": 0 })).await;
+    let msg = client2.recv().await?;
+    let authors = &msg["Authors"];
+    assert_eq!(authors["start"], 0);
+    assert_eq!(authors["authors"][0], Value::Null);
+    assert_eq!(authors["authors"][1]["name"], "Alice");
+    assert_eq!(authors["authors"][1]["hue"], 42);
+    assert!(authors["authors"][1]["time"].is_u64());
+
+    // Requests past the end of the history get no authors.
+    client2.send(&json!({ "RequestAuthors": 5 })).await;
+    assert_eq!(
+        client2.recv().await?,
+        json!({ "Authors": { "start": 2, "authors": [] } })
+    );
+
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_authors_persist() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig {
+        expiry_days: 2,
+        database: Some(Database::new(&temp_sqlite_uri()?).await?),
+    });
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+    let msg = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": ["plant()\nharvest()"]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    client
+        .send(&json!({ "ClientInfo": { "name": "Bob", "hue": 7 } }))
+        .await;
+    client.recv().await?;
+    let msg = json!({
+        "Edit": {
+            "revision": 1,
+            "operation": [5, -2, "ing()", 10]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+    drop(client);
+
+    // Wait for the document to be persisted and then dropped from memory.
+    let hour = Duration::from_secs(3600);
+    time::pause();
+    time::advance(47 * hour).await;
+    time::resume();
+    time::sleep(Duration::from_millis(150)).await;
+    time::pause();
+    time::advance(3 * hour).await;
+
+    // The history starts over with one insert of the runs of each author, which
+    // make up the text: Alice's "plant" and "harvest()", and then Bob's change
+    // in between.
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 0 }));
+    let msg = client2.recv().await?;
+    let operations: Vec<_> = msg["History"]["operations"]
+        .as_array()
+        .expect("should receive history operations")
+        .iter()
+        .map(|operation| operation["operation"].clone())
+        .collect();
+    assert_eq!(
+        operations,
+        [json!(["plantharvest()"]), json!([5, "ing()\n", 9])]
+    );
+    expect_text(&filter, "foobar", "planting()\nharvest()").await;
+
+    client2.send(&json!({ "RequestAuthors": 0 })).await;
+    let msg = client2.recv().await?;
+    let mut names: Vec<_> = msg["Authors"]["authors"]
+        .as_array()
+        .expect("should receive authors")
+        .iter()
+        .map(|author| author["name"].as_str().unwrap_or_default().to_owned())
+        .collect();
+    names.sort();
+    assert_eq!(names, ["Alice", "Bob"]);
+
+    Ok(())
+}
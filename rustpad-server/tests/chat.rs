@@ -0,0 +1,186 @@
+//! Tests for the chat of a pad.
+
+use std::time::Duration;
+
+use anyhow::Result;
+use common::*;
+use rustpad_server::{database::Database, server, ServerConfig};
+use serde_json::{json, Value};
+use tokio::time;
+
+pub mod common;
+
+/// Check a chat message, ignoring the time that it was received.
+fn expect_chat(msg: &Value, id: u64, name: &str, text: &str) {
+    let chat = msg.get("Chat").expect("should receive chat message");
+    assert_eq!(chat["id"], id);
+    assert_eq!(chat["name"], name);
+    assert_eq!(chat["text"], text);
+    assert!(chat["time"].as_u64().is_some());
+}
+
+#[tokio::test]
+async fn test_chat() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 1 }));
+    client2.recv().await?;
+
+    client.send(&json!({ "Chat": "check L3" })).await;
+    let msg = client.recv().await?;
+    expect_chat(&msg, 0, "Alice", "check L3");
+    assert_eq!(msg["Chat"]["hue"], 42);
+    assert_eq!(client2.recv().await?, msg);
+
+    // Late joiners see the backlog, even after the sender leaves.
+    client.send(&json!({ "Invalid": "please close" })).await;
+    client.recv_closed().await?;
+
+    let mut client3 = connect(&filter, "foobar").await?;
+    assert_eq!(client3.recv().await?, json!({ "Identity": 2 }));
+    assert_eq!(client3.recv().await?, msg);
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_invalid_chat() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client.send(&json!({ "Chat": "who am I?" })).await;
+    client.recv_closed().await?;
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 1 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+    client.send(&json!({ "Chat": "a".repeat(2001) })).await;
+    client.recv_closed().await?;
+
+    let token = share(&filter, "foobar").await;
+    let mut viewer = connect_view(&filter, &token).await?;
+    assert_eq!(viewer.recv().await?, json!({ "Identity": 2 }));
+    viewer
+        .send(&json!({ "ClientInfo": { "name": "Bob", "hue": 96 } }))
+        .await;
+    viewer.recv().await?;
+    viewer.send(&json!({ "Chat": "hi" })).await;
+    viewer.recv_closed().await?;
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_chat_backlog() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+    for i in 0..140 {
+        let text = format!("{:04}{}", i, "a".repeat(1996));
+        client.send(&json!({ "Chat": text })).await;
+        client.recv().await?;
+    }
+    client.send(&json!({ "Invalid": "please close" })).await;
+    client.recv_closed().await?;
+
+    // Late joiners only get the latest messages that fit in a document.
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 1 }));
+    client2
+        .send(&json!({ "ClientInfo": { "name": "Bob", "hue": 96 } }))
+        .await;
+    let mut backlog = Vec::new();
+    loop {
+        let msg = client2.recv().await?;
+        match msg["Chat"]["text"].as_str() {
+            Some(text) => backlog.push(text[..4].to_owned()),
+            None => break,
+        }
+    }
+    assert_eq!(backlog.len(), 131);
+    assert_eq!(backlog[0], "0009");
+    assert_eq!(backlog[130], "0139");
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_chat_across_files() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "pad").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client.send(&json!({ "CreateFile": "utils" })).await;
+    let msg = client.recv().await?;
+    let id = msg["Files"][1]["id"].as_str().expect("file should exist");
+
+    // Everyone in the pad shares one chat, whichever file they have open.
+    let mut client2 = connect(&filter, &format!("pad/{}", id)).await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 0 }));
+    assert_eq!(client2.recv().await?, msg);
+    client2
+        .send(&json!({ "ClientInfo": { "name": "Bob", "hue": 96 } }))
+        .await;
+    client2.recv().await?;
+    client2.send(&json!({ "Chat": "see L2 of utils" })).await;
+    let msg = client2.recv().await?;
+    expect_chat(&msg, 0, "Bob", "see L2 of utils");
+    assert_eq!(client.recv().await?, msg);
+
+    let mut client3 = connect(&filter, "pad").await?;
+    assert_eq!(client3.recv().await?, json!({ "Identity": 1 }));
+    client3.recv().await?;
+    assert_eq!(client3.recv().await?, msg);
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_chat_persist() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig {
+        expiry_days: 2,
+        database: Some(Database::new(&temp_sqlite_uri()?).await?),
+    });
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+    client.send(&json!({ "Chat": "back tomorrow" })).await;
+    let msg = client.recv().await?;
+    drop(client);
+
+    // Wait for the pad to be persisted and then dropped from memory.
+    let hour = Duration::from_secs(3600);
+    time::pause();
+    time::advance(47 * hour).await;
+    time::resume();
+    time::sleep(Duration::from_millis(150)).await;
+    time::pause();
+    time::advance(3 * hour).await;
+
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 0 }));
+    assert_eq!(client2.recv().await?, msg);
+    Ok(())
+}
@@ -1,5 +1,6 @@
 use anyhow::{anyhow, Result};
 use serde_json::Value;
+use tempfile::NamedTempFile;
 use warp::{filters::BoxedFilter, test::WsClient, Reply};
 
 /// A test WebSocket client that sends and receives JSON messages.
@@ -19,6 +20,15 @@ impl JsonSocket {
     pub async fn recv_closed(&mut self) -> Result<()> {
         self.0.recv_closed().await.map_err(|e| e.into())
     }
+
+    /// Receives the close frame that ends the connection, returning its code.
+    pub async fn recv_close_code(&mut self) -> Result<u16> {
+        let msg = self.0.recv().await?;
+        let (code, _) = msg
+            .close_frame()
+            .ok_or_else(|| anyhow!("expected a close frame, got {:?}", msg))?;
+        Ok(code)
+    }
 }
 
 /// Connect a new test client WebSocket.
@@ -33,6 +43,28 @@ pub async fn connect(
     Ok(JsonSocket(client))
 }
 
+/// Returns the token of a pad's view-only link from the share route.
+pub async fn share(filter: &BoxedFilter<(impl Reply + 'static,)>, id: &str) -> String {
+    let resp = warp::test::request()
+        .path(&format!("/api/share/{}", id))
+        .reply(filter)
+        .await;
+    assert_eq!(resp.status(), 200);
+    String::from_utf8(resp.body().to_vec()).expect("token should be UTF-8")
+}
+
+/// Connect a new test client WebSocket through a view-only link.
+pub async fn connect_view(
+    filter: &BoxedFilter<(impl Reply + 'static,)>,
+    token: &str,
+) -> Result<JsonSocket> {
+    let client = warp::test::ws()
+        .path(&format!("/api/view/{}", token))
+        .handshake(filter.clone())
+        .await?;
+    Ok(JsonSocket(client))
+}
+
 /// Check the text route.
 pub async fn expect_text(filter: &BoxedFilter<(impl Reply + 'static,)>, id: &str, text: &str) {
     let resp = warp::test::request()
@@ -42,3 +74,15 @@ pub async fn expect_text(filter: &BoxedFilter<(impl Reply + 'static,)>, id: &str
     assert_eq!(resp.status(), 200);
     assert_eq!(resp.body(), text);
 }
+
+/// Returns the URI of a new, empty SQLite database in a temporary file.
+pub fn temp_sqlite_uri() -> Result<String> {
+    Ok(format!(
+        "sqlite://{}",
+        NamedTempFile::new()?
+            .into_temp_path()
+            .as_os_str()
+            .to_str()
+            .expect("failed to get name of tempfile as &str")
+    ))
+}
@@ -0,0 +1,136 @@
+//! Tests for pads with multiple files.
+
+use anyhow::Result;
+use common::*;
+use operational_transform::OperationSeq;
+use rustpad_server::{server, ServerConfig};
+use serde_json::{json, Value};
+
+pub mod common;
+
+/// Returns the ID of the file with a given name from a `Files` message.
+fn file_id(msg: &Value, name: &str) -> String {
+    msg["Files"]
+        .as_array()
+        .expect("should receive file list")
+        .iter()
+        .find(|entry| entry["name"] == name)
+        .and_then(|entry| entry["id"].as_str())
+        .expect("file should exist")
+        .into()
+}
+
+#[tokio::test]
+async fn test_create_file() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "pad").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    client
+        .send(&json!({ "CreateFile": "utils/movement" }))
+        .await;
+    let msg = client.recv().await?;
+    let id = file_id(&msg, "utils/movement");
+    assert_eq!(
+        msg,
+        json!({
+            "Files": [
+                { "id": "main", "name": "main" },
+                { "id": id, "name": "utils/movement" }
+            ]
+        })
+    );
+
+    let path = format!("pad/{}", id);
+    let mut client2 = connect(&filter, &path).await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 0 }));
+    assert_eq!(client2.recv().await?, msg);
+
+    let mut operation = OperationSeq::default();
+    operation.insert("def go():");
+    let edit = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": operation
+        }
+    });
+    client2.send(&edit).await;
+    client2
+        .recv()
+        .await?
+        .get("History")
+        .expect("should receive history");
+
+    expect_text(&filter, &path, "def go():").await;
+    expect_text(&filter, "pad", "").await;
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_rename_and_delete_file() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "pad").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    client.send(&json!({ "CreateFile": "worker" })).await;
+    let id = file_id(&client.recv().await?, "worker");
+
+    let mut client2 = connect(&filter, &format!("pad/{}", id)).await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 0 }));
+    client2.recv().await?;
+
+    client
+        .send(&json!({ "RenameFile": { "id": id, "name": "drone" } }))
+        .await;
+    let renamed = json!({
+        "Files": [
+            { "id": "main", "name": "main" },
+            { "id": id, "name": "drone" }
+        ]
+    });
+    assert_eq!(client.recv().await?, renamed);
+    assert_eq!(client2.recv().await?, renamed);
+
+    client.send(&json!({ "DeleteFile": id })).await;
+    let deleted = json!({ "Files": [{ "id": "main", "name": "main" }] });
+    assert_eq!(client.recv().await?, deleted);
+    assert_eq!(client2.recv().await?, deleted);
+    client2.recv_closed().await?;
+
+    assert!(connect(&filter, &format!("pad/{}", id)).await.is_err());
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_invalid_file_operations() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "pad").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    // Invalid names, duplicates and deleting the main file are all ignored.
+    client.send(&json!({ "CreateFile": "../secrets" })).await;
+    client.send(&json!({ "CreateFile": "main" })).await;
+    client.send(&json!({ "DeleteFile": "main" })).await;
+    client.send(&json!({ "CreateFile": "ok" })).await;
+
+    let msg = client.recv().await?;
+    let id = file_id(&msg, "ok");
+    assert_eq!(
+        msg,
+        json!({
+            "Files": [
+                { "id": "main", "name": "main" },
+                { "id": id, "name": "ok" }
+            ]
+        })
+    );
+
+    assert!(connect(&filter, "pad/missing").await.is_err());
+    Ok(())
+}
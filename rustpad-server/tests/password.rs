@@ -0,0 +1,195 @@
+//! Tests for pads protected by a password.
+
+use anyhow::Result;
+use common::*;
+use rustpad_server::{database::Database, server, ServerConfig};
+use serde_json::{json, Value};
+use sqlx::SqlitePool;
+use warp::{filters::BoxedFilter, Reply};
+
+pub mod common;
+
+/// Close code of sockets without a valid session token.
+const UNAUTHORIZED_CLOSE: u16 = 4001;
+
+/// Returns the status code of a GET request to an API route.
+async fn status(filter: &BoxedFilter<(impl Reply + 'static,)>, path: &str) -> u16 {
+    let resp = warp::test::request()
+        .path(&format!("/api/{}", path))
+        .reply(filter)
+        .await;
+    resp.status().as_u16()
+}
+
+/// Posts a password to the auth route, returning the status and JSON reply.
+async fn login(
+    filter: &BoxedFilter<(impl Reply + 'static,)>,
+    id: &str,
+    password: Option<&str>,
+) -> (u16, Value) {
+    let resp = warp::test::request()
+        .method("POST")
+        .path(&format!("/api/auth/{}", id))
+        .json(&json!({ "password": password }))
+        .reply(filter)
+        .await;
+    let body = serde_json::from_slice(resp.body()).unwrap_or(Value::Null);
+    (resp.status().as_u16(), body)
+}
+
+#[tokio::test]
+async fn test_set_password() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    let msg = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": ["secret plans"]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    client.send(&json!({ "SetPassword": "hunter2" })).await;
+    let reply = client.recv().await?;
+    let token = reply["Token"].as_str().expect("token should be a string");
+    assert_eq!(token.len(), 32);
+
+    assert_eq!(login(&filter, "foobar", None).await.0, 401);
+    assert_eq!(login(&filter, "foobar", Some("wrong")).await.0, 401);
+    let (code, access) = login(&filter, "foobar", Some("hunter2")).await;
+    assert_eq!(code, 200);
+    assert_eq!(access, json!({ "protected": true, "token": token }));
+
+    // Sockets are accepted and then closed, since browsers cannot see the
+    // status of a failed handshake.
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv_close_code().await?, UNAUTHORIZED_CLOSE);
+    let mut client2 = connect(&filter, "foobar?token=wrong").await?;
+    assert_eq!(client2.recv_close_code().await?, UNAUTHORIZED_CLOSE);
+    let mut client2 = connect(&filter, "foobar?password=hunter2").await?;
+    assert_eq!(client2.recv_close_code().await?, UNAUTHORIZED_CLOSE);
+    let mut client2 = connect(&filter, &format!("foobar?token={}", token)).await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 1 }));
+
+    assert_eq!(status(&filter, "text/foobar").await, 401);
+    assert_eq!(status(&filter, "text/foobar?token=wrong").await, 401);
+    expect_text(&filter, &format!("foobar?token={}", token), "secret plans").await;
+
+    assert_eq!(status(&filter, "share/foobar").await, 401);
+
+    // Views through a shared link do not need the password.
+    let view = share(&filter, &format!("foobar?token={}", token)).await;
+    let mut viewer = connect_view(&filter, &view).await?;
+    assert_eq!(viewer.recv().await?, json!({ "Identity": 2 }));
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_change_password() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client.send(&json!({ "SetPassword": "hunter2" })).await;
+    let old = client.recv().await?["Token"].clone();
+    client.send(&json!({ "SetPassword": "hunter3" })).await;
+    let new = client.recv().await?["Token"].clone();
+    assert_ne!(old, new);
+
+    // Tokens for the old password stop opening the pad.
+    let mut client2 = connect(&filter, &format!("foobar?token={}", old.as_str().unwrap())).await?;
+    assert_eq!(client2.recv_close_code().await?, UNAUTHORIZED_CLOSE);
+    assert_eq!(login(&filter, "foobar", Some("hunter2")).await.0, 401);
+    let (code, access) = login(&filter, "foobar", Some("hunter3")).await;
+    assert_eq!(code, 200);
+    assert_eq!(access["token"], new);
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_remove_password() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let (code, access) = login(&filter, "foobar", None).await;
+    assert_eq!(code, 200);
+    assert_eq!(access, json!({ "protected": false, "token": null }));
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client.send(&json!({ "SetPassword": "hunter2" })).await;
+    client.recv().await?;
+    client.send(&json!({ "SetPassword": null })).await;
+    assert_eq!(client.recv().await?, json!({ "Token": null }));
+
+    let (code, access) = login(&filter, "foobar", None).await;
+    assert_eq!(code, 200);
+    assert_eq!(access, json!({ "protected": false, "token": null }));
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 1 }));
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_viewer_set_password() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let token = share(&filter, "foobar").await;
+    let mut viewer = connect_view(&filter, &token).await?;
+    assert_eq!(viewer.recv().await?, json!({ "Identity": 0 }));
+    viewer.send(&json!({ "SetPassword": "hunter2" })).await;
+    viewer.recv_closed().await?;
+
+    assert_eq!(status(&filter, "text/foobar").await, 200);
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_password_unknown_format() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let database = Database::new(&temp_sqlite_uri()?).await?;
+    // A hash without a session token, as stored by older versions.
+    database.store_password("foobar", Some("salt$hash")).await?;
+    let filter = server(ServerConfig {
+        expiry_days: 1,
+        database: Some(database),
+    });
+
+    assert_eq!(login(&filter, "foobar", None).await.0, 401);
+    assert_eq!(login(&filter, "foobar", Some("hash")).await.0, 401);
+    assert_eq!(status(&filter, "text/foobar").await, 401);
+    assert_eq!(status(&filter, "text/foobar?token=hash").await, 401);
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_password_load_error() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let uri = temp_sqlite_uri()?;
+    let database = Database::new(&uri).await?;
+    database.store_password("foobar", Some("salt$hash")).await?;
+
+    // Break the column that passwords are loaded from.
+    let pool = SqlitePool::connect(&uri).await?;
+    sqlx::query("ALTER TABLE document RENAME COLUMN password TO old_password")
+        .execute(&pool)
+        .await?;
+    assert!(database.load_password("foobar").await.is_err());
+
+    // The pad must not open as if it had no password.
+    let filter = server(ServerConfig {
+        expiry_days: 1,
+        database: Some(database),
+    });
+    assert!(connect(&filter, "foobar").await.is_err());
+    assert_eq!(status(&filter, "text/foobar").await, 500);
+    assert_eq!(login(&filter, "foobar", None).await.0, 500);
+    Ok(())
+}
@@ -10,22 +10,10 @@ use rustpad_server::{
     server, ServerConfig,
 };
 use serde_json::json;
-use tempfile::NamedTempFile;
 use tokio::time;
 
 pub mod common;
 
-fn temp_sqlite_uri() -> Result<String> {
-    Ok(format!(
-        "sqlite://{}",
-        NamedTempFile::new()?
-            .into_temp_path()
-            .as_os_str()
-            .to_str()
-            .expect("failed to get name of tempfile as &str")
-    ))
-}
-
 #[tokio::test]
 async fn test_database() -> Result<()> {
     pretty_env_logger::try_init().ok();
@@ -38,6 +26,8 @@ async fn test_database() -> Result<()> {
     let doc1 = PersistedDocument {
         text: "Hello Text".into(),
         language: None,
+        authors: None,
+        threads: None,
     };
 
     assert!(database.store("hello", &doc1).await.is_ok());
@@ -47,6 +37,8 @@ async fn test_database() -> Result<()> {
     let doc2 = PersistedDocument {
         text: "print('World Text :)')".into(),
         language: Some("python".into()),
+        authors: Some(r#"[[22,{"name":"Alice","hue":42,"time":0}]]"#.into()),
+        threads: Some("[]".into()),
     };
 
     assert!(database.store("world", &doc2).await.is_ok());
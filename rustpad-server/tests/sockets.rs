@@ -228,3 +228,62 @@ async fn test_set_language() -> Result<()> {
     expect_text(&filter, "foobar", "").await;
     Ok(())
 }
+
+#[tokio::test]
+async fn test_set_language_tfwr() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    let msg = client.recv().await?;
+    assert_eq!(msg, json!({ "Identity": 0 }));
+
+    let msg = json!({ "SetLanguage": "tfwr" });
+    client.send(&msg).await;
+
+    let msg = client.recv().await?;
+    assert_eq!(msg, json!({ "Language": "tfwr" }));
+
+    let mut client2 = connect(&filter, "foobar").await?;
+    let msg = client2.recv().await?;
+    assert_eq!(msg, json!({ "Identity": 1 }));
+    let msg = client2.recv().await?;
+    assert_eq!(msg, json!({ "Language": "tfwr" }));
+
+    expect_text(&filter, "foobar", "").await;
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_snapshot() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    let mut operation = OperationSeq::default();
+    operation.insert("hello");
+    let msg = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": operation
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    client.send(&json!("RequestSnapshot")).await;
+    let msg = client.recv().await?;
+    assert_eq!(
+        msg,
+        json!({
+            "Snapshot": {
+                "revision": 1,
+                "text": "hello"
+            }
+        })
+    );
+
+    Ok(())
+}
@@ -0,0 +1,220 @@
+//! Tests for comment threads anchored to ranges of a document.
+
+use std::time::Duration;
+
+use anyhow::Result;
+use common::*;
+use rustpad_server::{database::Database, server, ServerConfig};
+use serde_json::json;
+use tokio::time;
+
+pub mod common;
+
+#[tokio::test]
+async fn test_threads() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+
+    let msg = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": ["till()\nplant()"]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    let msg = json!({
+        "CreateThread": { "start": 7, "end": 14, "text": "needs Unlocks.Plant" }
+    });
+    client.send(&msg).await;
+    let msg = client.recv().await?;
+    let thread = msg.get("Thread").expect("should receive thread");
+    assert_eq!(thread["id"], 0);
+    assert_eq!(thread["start"], 7);
+    assert_eq!(thread["end"], 14);
+    assert_eq!(thread["resolved"], false);
+    assert_eq!(thread["comments"][0]["name"], "Alice");
+    assert_eq!(thread["comments"][0]["text"], "needs Unlocks.Plant");
+
+    // Anchors move with edits before them, like cursors.
+    let msg = json!({
+        "Edit": {
+            "revision": 1,
+            "operation": ["# farm\n", 14]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    client
+        .send(&json!({ "ReplyThread": { "id": 0, "text": "done" } }))
+        .await;
+    let msg = client.recv().await?;
+    let thread = msg.get("Thread").expect("should receive thread");
+    assert_eq!(thread["start"], 14);
+    assert_eq!(thread["end"], 21);
+    assert_eq!(thread["comments"][1]["text"], "done");
+
+    client
+        .send(&json!({ "ResolveThread": { "id": 0, "resolved": true } }))
+        .await;
+    let msg = client.recv().await?;
+    assert_eq!(msg["Thread"]["resolved"], true);
+
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 1 }));
+    client2
+        .recv()
+        .await?
+        .get("History")
+        .expect("should receive history");
+    client2
+        .recv()
+        .await?
+        .get("UserInfo")
+        .expect("should receive user");
+    assert_eq!(client2.recv().await?, msg);
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_invalid_thread() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+    client
+        .send(&json!({ "ReplyThread": { "id": 3, "text": "hello?" } }))
+        .await;
+    client.recv_closed().await?;
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_thread_limits() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+
+    let msg = json!({ "CreateThread": { "start": 0, "end": 0, "text": "hi" } });
+    client.send(&msg).await;
+    client.recv().await?;
+    for _ in 1..200 {
+        client
+            .send(&json!({ "ReplyThread": { "id": 0, "text": "hi" } }))
+            .await;
+        client.recv().await?;
+    }
+    // Replies over the limit are dropped, and the connection stays open.
+    client
+        .send(&json!({ "ReplyThread": { "id": 0, "text": "hi" } }))
+        .await;
+    client
+        .send(&json!({ "ResolveThread": { "id": 0, "resolved": true } }))
+        .await;
+    let msg = client.recv().await?;
+    assert_eq!(msg["Thread"]["comments"].as_array().unwrap().len(), 200);
+    assert_eq!(msg["Thread"]["resolved"], true);
+
+    // Comments together are no longer than the text of a document.
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 1 }));
+    client.recv().await?; // thread
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+    let text = "a".repeat(2000);
+    for _ in 0..130 {
+        let msg = json!({ "CreateThread": { "start": 0, "end": 0, "text": text } });
+        client.send(&msg).await;
+        client.recv().await?;
+    }
+    let msg = json!({ "CreateThread": { "start": 0, "end": 0, "text": text } });
+    client.send(&msg).await;
+    client.send(&json!({ "Chat": "still here" })).await;
+    assert_eq!(client.recv().await?["Chat"]["text"], "still here");
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_threads_persist() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig {
+        expiry_days: 2,
+        database: Some(Database::new(&temp_sqlite_uri()?).await?),
+    });
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    client.recv().await?;
+    let msg = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": ["till()\nplant()"]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    // Threads are persisted even when they change after the last edit.
+    let msg = json!({
+        "CreateThread": { "start": 7, "end": 14, "text": "needs Unlocks.Plant" }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+    client
+        .send(&json!({ "ResolveThread": { "id": 0, "resolved": true } }))
+        .await;
+    client.recv().await?;
+    drop(client);
+
+    // Wait for the document to be persisted and then dropped from memory.
+    let hour = Duration::from_secs(3600);
+    time::pause();
+    time::advance(47 * hour).await;
+    time::resume();
+    time::sleep(Duration::from_millis(150)).await;
+    time::pause();
+    time::advance(3 * hour).await;
+
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 0 }));
+    client2
+        .recv()
+        .await?
+        .get("History")
+        .expect("should receive history");
+    let msg = client2.recv().await?;
+    let thread = msg.get("Thread").expect("should receive thread");
+    assert_eq!(thread["start"], 7);
+    assert_eq!(thread["end"], 14);
+    assert_eq!(thread["resolved"], true);
+    assert_eq!(thread["comments"][0]["name"], "Alice");
+    assert_eq!(thread["comments"][0]["text"], "needs Unlocks.Plant");
+    // User IDs only last for one connection, so the comment no longer has one.
+    assert_ne!(thread["comments"][0]["id"], 0);
+    Ok(())
+}
@@ -66,6 +66,36 @@ async fn test_invalid_user() -> Result<()> {
     Ok(())
 }
 
+#[tokio::test]
+async fn test_user_unlocks() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    let alice = json!({
+        "name": "Alice",
+        "hue": 42,
+        "unlocks": ["Plant", "Loops"]
+    });
+    client.send(&json!({ "ClientInfo": alice })).await;
+
+    let alice_info = json!({
+        "UserInfo": {
+            "id": 0,
+            "info": alice
+        }
+    });
+    assert_eq!(client.recv().await?, alice_info);
+
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 1 }));
+    assert_eq!(client2.recv().await?, alice_info);
+
+    Ok(())
+}
+
 #[tokio::test]
 async fn test_leave_rejoin() -> Result<()> {
     pretty_env_logger::try_init().ok();
@@ -180,3 +210,62 @@ async fn test_cursors() -> Result<()> {
 
     Ok(())
 }
+
+#[tokio::test]
+async fn test_cursor_viewport() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    let msg = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": ["move(North)\nharvest()"]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    let cursors = json!({
+        "cursors": [12],
+        "selections": [[12, 12]],
+        "viewport": [[0, 21]]
+    });
+    client.send(&json!({ "CursorData": cursors })).await;
+    let cursors_resp = json!({
+        "UserCursor": {
+            "id": 0,
+            "data": cursors
+        }
+    });
+    assert_eq!(client.recv().await?, cursors_resp);
+
+    // The viewport moves with edits, like the cursors.
+    let msg = json!({
+        "Edit": {
+            "revision": 1,
+            "operation": ["# go\n", 21]
+        }
+    });
+    client.send(&msg).await;
+    client.recv().await?;
+
+    let mut client2 = connect(&filter, "foobar").await?;
+    assert_eq!(client2.recv().await?, json!({ "Identity": 1 }));
+    client2.recv().await?;
+    let transformed_cursors_resp = json!({
+        "UserCursor": {
+            "id": 0,
+            "data": {
+                "cursors": [17],
+                "selections": [[17, 17]],
+                "viewport": [[5, 26]]
+            }
+        }
+    });
+    assert_eq!(client2.recv().await?, transformed_cursors_resp);
+
+    Ok(())
+}
@@ -0,0 +1,119 @@
+//! Tests for view-only links to pads.
+
+use anyhow::Result;
+use common::*;
+use rustpad_server::{server, ServerConfig};
+use serde_json::json;
+
+pub mod common;
+
+#[tokio::test]
+async fn test_share_token() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let token = share(&filter, "foobar").await;
+    assert_eq!(token.len(), 24);
+    assert_ne!(token, "foobar");
+    assert_eq!(share(&filter, "foobar").await, token);
+    assert_ne!(share(&filter, "other").await, token);
+
+    assert!(connect_view(&filter, "foobar").await.is_err());
+    assert!(connect_view(&filter, "missing").await.is_err());
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_viewer() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 0 }));
+
+    let token = share(&filter, "foobar").await;
+    let mut viewer = connect_view(&filter, &token).await?;
+    assert_eq!(viewer.recv().await?, json!({ "Identity": 1 }));
+
+    let bob = json!({
+        "name": "Bob",
+        "hue": 96
+    });
+    viewer.send(&json!({ "ClientInfo": bob })).await;
+
+    let bob_info = json!({
+        "UserInfo": {
+            "id": 1,
+            "info": {
+                "name": "Bob",
+                "hue": 96,
+                "spectator": true
+            }
+        }
+    });
+    assert_eq!(viewer.recv().await?, bob_info);
+    assert_eq!(client.recv().await?, bob_info);
+
+    let msg = json!({
+        "Edit": {
+            "revision": 0,
+            "operation": ["hello"]
+        }
+    });
+    client.send(&msg).await;
+
+    let history = json!({
+        "History": {
+            "start": 0,
+            "operations": [
+                { "id": 0, "operation": ["hello"] }
+            ]
+        }
+    });
+    assert_eq!(client.recv().await?, history);
+    assert_eq!(viewer.recv().await?, history);
+
+    client.send(&json!({ "SetLanguage": "python" })).await;
+    assert_eq!(client.recv().await?, json!({ "Language": "python" }));
+    assert_eq!(viewer.recv().await?, json!({ "Language": "python" }));
+
+    let msg = json!({
+        "Edit": {
+            "revision": 1,
+            "operation": [5, " world"]
+        }
+    });
+    viewer.send(&msg).await;
+    viewer.recv_closed().await?;
+
+    assert_eq!(
+        client.recv().await?,
+        json!({ "UserInfo": { "id": 1, "info": null } })
+    );
+    expect_text(&filter, "foobar", "hello").await;
+    Ok(())
+}
+
+#[tokio::test]
+async fn test_viewer_set_language() -> Result<()> {
+    pretty_env_logger::try_init().ok();
+    let filter = server(ServerConfig::default());
+
+    let token = share(&filter, "foobar").await;
+    let mut viewer = connect_view(&filter, &token).await?;
+    assert_eq!(viewer.recv().await?, json!({ "Identity": 0 }));
+
+    viewer.send(&json!({ "SetLanguage": "rust" })).await;
+    viewer.recv_closed().await?;
+
+    let mut client = connect(&filter, "foobar").await?;
+    assert_eq!(client.recv().await?, json!({ "Identity": 1 }));
+    client
+        .send(&json!({ "ClientInfo": { "name": "Alice", "hue": 42 } }))
+        .await;
+    assert_eq!(
+        client.recv().await?,
+        json!({ "UserInfo": { "id": 1, "info": { "name": "Alice", "hue": 42 } } })
+    );
+    Ok(())
+}
@@ -1,27 +1,104 @@
-import { Box, Flex, HStack, Icon, Text, useToast } from "@chakra-ui/react";
+import {
+  Badge,
+  Box,
+  Flex,
+  HStack,
+  Icon,
+  IconButton,
+  Spacer,
+  Text,
+  Tooltip,
+  VisuallyHidden,
+  useToast,
+} from "@chakra-ui/react";
 import Editor from "@monaco-editor/react";
-import { editor } from "monaco-editor/esm/vs/editor/editor.api";
-import { useEffect, useRef, useState } from "react";
-import { VscChevronRight, VscFolderOpened, VscGist } from "react-icons/vsc";
+import { IRange, editor } from "monaco-editor/esm/vs/editor/editor.api";
+import { Fragment, useEffect, useRef, useState } from "react";
+import {
+  VscChevronRight,
+  VscCloudDownload,
+  VscCloudUpload,
+  VscComment,
+  VscDebugAlt,
+  VscFolder,
+  VscFolderOpened,
+  VscGist,
+  VscGitCommit,
+  VscHistory,
+} from "react-icons/vsc";
 import useLocalStorageState from "use-local-storage-state";
 
 import rustpadRaw from "../rustpad-server/src/rustpad.rs?raw";
+import Comments from "./Comments";
+import FileTabs from "./FileTabs";
 import Footer from "./Footer";
+import History from "./History";
+import MergeConflict from "./MergeConflict";
+import PasswordPrompt from "./PasswordPrompt";
 import ReadCodeConfirm from "./ReadCodeConfirm";
 import Sidebar from "./Sidebar";
+import Simulator from "./Simulator";
 import animals from "./animals.json";
 import languages from "./languages.json";
-import Rustpad, { UserInfo } from "./rustpad";
-import useHash from "./useHash";
-import { setupTFWRIntelliSense } from "./TFWRIntelliSense";
+import Rustpad, { ChatMessage, CommentThread, Conflict, FileEntry, MAIN_FILE, UserInfo } from "./rustpad";
+import useHash, { VIEW_PREFIX } from "./useHash";
+import useRemoteEdits from "./useRemoteEdits";
+import { TFWRIntelliSense, setupTFWRIntelliSense } from "./TFWRIntelliSense";
+import { TFWR_LANGUAGE, registerTFWRLanguage, tfwrTheme } from "./TFWRLanguage";
 
 
-function getWsUri(id: string) {
-  let url = new URL(`api/socket/${id}`, window.location.href);
+function getWsUri(id: string, file: string, token?: string) {
+  // View-only links connect by token, e.g. `/api/view/{token}/{file}`.
+  const pad = id.startsWith(VIEW_PREFIX) ? id : `socket/${id}`;
+  const path = file === MAIN_FILE ? pad : `${pad}/${file}`;
+  let url = new URL(`api/${path}`, window.location.href);
   url.protocol = url.protocol == "https:" ? "wss:" : "ws:";
+  if (token !== undefined) url.searchParams.set("token", token);
   return url.href;
 }
 
+/**
+ * Whether a password opens a pad, whether the pad has one at all, and the
+ * session token that the other routes take instead of the password.
+ */
+type Access = {
+  id: string;
+  granted: boolean;
+  isProtected: boolean;
+  token?: string;
+  /** Whether a password entered in the prompt was refused. */
+  isIncorrect?: boolean;
+};
+
+/**
+ * Check a password, or without one whether the pad is protected. A token
+ * remembered from an earlier visit is checked by the socket instead, which is
+ * closed if the password has changed since.
+ */
+async function checkAccess(id: string, password?: string, token?: string): Promise<Access> {
+  const url = new URL(`api/auth/${id}`, window.location.href);
+  try {
+    // Sent in the body, so that the password never ends up in a URL.
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password: password ?? null }),
+    });
+    if (response.status === 401) {
+      if (password === undefined && token !== undefined) {
+        return { id, granted: true, isProtected: true, token };
+      }
+      return { id, granted: false, isProtected: true, isIncorrect: password !== undefined };
+    }
+    const { protected: isProtected, token: issued } = await response.json();
+    return { id, granted: true, isProtected, token: issued ?? undefined };
+  } catch (error) {
+    // Leave it to the socket to retry while the server is unreachable.
+    console.warn("Failed to check access to pad:", error);
+    return { id, granted: true, isProtected: token !== undefined, token };
+  }
+}
+
 function generateName() {
   return "Anonymous " + animals[Math.floor(Math.random() * animals.length)];
 }
@@ -30,89 +107,339 @@ function generateHue() {
   return Math.floor(Math.random() * 360);
 }
 
+/** Files of a pad, and which of them are open in tabs. */
+type PadFiles = {
+  id: string;
+  files: FileEntry[];
+  openFiles: string[];
+  activeFile: string;
+};
+
+function initialPadFiles(id: string): PadFiles {
+  return {
+    id,
+    files: [{ id: MAIN_FILE, name: MAIN_FILE }],
+    openFiles: [MAIN_FILE],
+    activeFile: MAIN_FILE,
+  };
+}
+
 function App() {
   const toast = useToast();
-  const [language, setLanguage] = useState("python");
+  const [language, setLanguage] = useState(TFWR_LANGUAGE);
   const [connection, setConnection] = useState<
     "connected" | "disconnected" | "desynchronized"
   >("disconnected");
   const [users, setUsers] = useState<Record<number, UserInfo>>({});
+  const [idle, setIdle] = useState<number[]>([]);
+  const [following, setFollowing] = useState<number>();
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [threads, setThreads] = useState<CommentThread[]>([]);
   const [name, setName] = useLocalStorageState("name", {
     defaultValue: generateName,
   });
   const [hue, setHue] = useLocalStorageState("hue", {
     defaultValue: generateHue,
   });
+  // Unset until the user picks their unlocks, which counts as all of them.
+  const [unlocks, setUnlocks] = useLocalStorageState<string[]>("unlocks");
   const [editor, setEditor] = useState<editor.IStandaloneCodeEditor>();
   const [darkMode, setDarkMode] = useLocalStorageState("darkMode", {
     defaultValue: true,
   });
+  const [simulatorOpen, setSimulatorOpen] = useLocalStorageState(
+    "simulatorOpen",
+    { defaultValue: false },
+  );
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [blame, setBlame] = useLocalStorageState("blame", {
+    defaultValue: false,
+  });
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  // Code selected for a new comment thread, and the thread last clicked.
+  const [draft, setDraft] = useState<{ range: IRange; code: string }>();
+  const [selectedThread, setSelectedThread] = useState<number>();
+  const [revision, setRevision] = useState(0);
   const rustpad = useRef<Rustpad>();
   const monacoRef = useRef<any>(null);
   const [monacoReady, setMonacoReady] = useState(false);
-  const intelliSenseDisposeRef = useRef<null | (() => void)>(null);
+  const intelliSenseRef = useRef<TFWRIntelliSense | null>(null);
   const id = useHash();
+  const viewing = id.startsWith(VIEW_PREFIX);
+  // Session tokens of protected pads, remembered for each pad that was opened,
+  // so that the password itself is never stored.
+  const [tokens, setTokens] = useLocalStorageState<Record<string, string>>("tokens", {
+    defaultValue: {},
+  });
+  const [access, setAccess] = useState<Access>();
+  const granted = viewing || (access?.id === id && access.granted);
+  const token = access?.id === id ? access.token : undefined;
+  const [padFiles, setPadFiles] = useState<PadFiles>(() => initialPadFiles(id));
+  const { files, openFiles, activeFile } =
+    padFiles.id === id ? padFiles : initialPadFiles(id);
+  const createdFile = useRef<string>();
 
   const [readCodeConfirmOpen, setReadCodeConfirmOpen] = useState(false);
+  // File opened or dropped onto the editor, waiting for confirmation.
+  const [loadedFile, setLoadedFile] = useState<{ name: string; text: string }>();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [conflict, setConflict] = useState<Conflict>();
+  const { announcement, handleRemoteEdit } = useRemoteEdits(editor, language);
+
+  // Passwords were remembered in plain text before tokens replaced them.
+  useEffect(() => localStorage.removeItem("passwords"), []);
+
+  // Check whether the pad needs a password before connecting. Once in, the
+  // editor stays open until a reconnection is refused after someone changes
+  // the password.
+  useEffect(() => {
+    if (viewing || (access?.id === id && access.granted)) return;
+    let cancelled = false;
+    checkAccess(id, undefined, tokens[id]).then((access) => !cancelled && handleAccess(access));
+    return () => {
+      cancelled = true;
+    };
+  }, [id, viewing]);
 
   useEffect(() => {
     if (editor?.getModel()) {
       const model = editor.getModel()!;
       model.setValue("");
       model.setEOL(0); // LF
+      setLanguage(TFWR_LANGUAGE);
+      setRevision(0);
+      if (!granted) return;
       rustpad.current = new Rustpad({
-        uri: getWsUri(id),
+        uri: getWsUri(id, activeFile, token),
         editor,
         onConnected: () => setConnection("connected"),
         onDisconnected: () => setConnection("disconnected"),
-        onDesynchronized: () => {
-          setConnection("desynchronized");
-          toast({
-            title: "Desynchronized with server",
-            description: "Please save your work and refresh the page.",
-            status: "error",
-            duration: null,
-          });
-        },
+        onDesynchronized: () => setConnection("desynchronized"),
+        onConflict: setConflict,
+        onChangeToken: (token) =>
+          handleAccess({ id, granted: true, isProtected: token !== undefined, token }),
+        onUnauthorized: () =>
+          // The remembered token no longer opens the pad, so ask again.
+          handleAccess({ id, granted: false, isProtected: true }),
         onChangeLanguage: (language) => {
           if (languages.includes(language)) {
             setLanguage(language);
           }
         },
         onChangeUsers: setUsers,
+        onChangeIdle: setIdle,
+        onChangeChat: setChat,
+        onChangeThreads: setThreads,
+        onChangeFiles: (files) => handleFilesChange(id, files),
+        onChangeRevision: setRevision,
+        onChangeFollowing: setFollowing,
+        onRemoteEdit: handleRemoteEdit,
+        storageKey: viewing ? undefined : `${id}/${activeFile}`,
+        readOnly: viewing,
       });
       return () => {
         rustpad.current?.dispose();
         rustpad.current = undefined;
+        setConflict(undefined);
+        setFollowing(undefined);
+        setDraft(undefined);
+        setSelectedThread(undefined);
       };
     }
-  }, [id, editor, toast, setUsers]);
+  }, [id, activeFile, editor, granted, setUsers]);
+
+  useEffect(() => {
+    rustpad.current?.setUri(getWsUri(id, activeFile, token));
+  }, [token]);
+
+  useEffect(() => {
+    rustpad.current?.setBlame(blame);
+  }, [id, activeFile, editor, granted, blame]);
 
   useEffect(() => {
     if (connection === "connected") {
-      rustpad.current?.setInfo({ name, hue });
+      rustpad.current?.setInfo({ name, hue, unlocks });
     }
-  }, [connection, name, hue]);
+  }, [connection, name, hue, unlocks]);
 
   // Register Python IntelliSense when ready
   useEffect(() => {
     const monaco = monacoRef.current;
     if (!editor || !monaco) return;
-    if (intelliSenseDisposeRef.current) {
-      try { intelliSenseDisposeRef.current(); } catch {}
-      intelliSenseDisposeRef.current = null;
+    if (intelliSenseRef.current) {
+      try { intelliSenseRef.current.dispose(); } catch {}
+      intelliSenseRef.current = null;
     }
-    if (language === "python") {
-      intelliSenseDisposeRef.current = setupTFWRIntelliSense(editor, monaco);
+    if (language === TFWR_LANGUAGE) {
+      intelliSenseRef.current = setupTFWRIntelliSense(editor, monaco);
+      intelliSenseRef.current.setUnlocks({ mine: unlocks, collaborators: Object.values(users) });
     }
     return () => {
-      if (intelliSenseDisposeRef.current) {
-        try { intelliSenseDisposeRef.current(); } catch {}
-        intelliSenseDisposeRef.current = null;
+      if (intelliSenseRef.current) {
+        try { intelliSenseRef.current.dispose(); } catch {}
+        intelliSenseRef.current = null;
       }
     };
   }, [language, monacoReady, editor]);
 
+  // Undo and redo only the user's own edits, never those of collaborators.
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!editor || !monaco) return;
+    const { KeyMod, KeyCode } = monaco;
+    const actions = [
+      editor.addAction({
+        id: "rustpad.undo",
+        label: "Undo My Edit",
+        keybindings: [KeyMod.CtrlCmd | KeyCode.KeyZ],
+        run: () => void rustpad.current?.undo(),
+      }),
+      editor.addAction({
+        id: "rustpad.redo",
+        label: "Redo My Edit",
+        keybindings: [
+          KeyMod.CtrlCmd | KeyMod.Shift | KeyCode.KeyZ,
+          KeyMod.CtrlCmd | KeyCode.KeyY,
+        ],
+        run: () => void rustpad.current?.redo(),
+      }),
+    ];
+    return () => actions.forEach((action) => action.dispose());
+  }, [monacoReady, editor]);
+
+  // Start comment threads from the selection, and open them from the gutter.
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!editor || !monaco) return;
+    const disposables = [
+      editor.onMouseDown((event) => {
+        if (event.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN) return;
+        const line = event.target.position?.lineNumber;
+        const [thread] = line ? rustpad.current?.threadsAt(line) ?? [] : [];
+        if (thread !== undefined) handleSelectThread(thread);
+      }),
+    ];
+    if (!viewing) {
+      disposables.push(
+        editor.addAction({
+          id: "rustpad.comment",
+          label: "Add Comment",
+          contextMenuGroupId: "navigation",
+          run: () => {
+            const range = editor.getSelection();
+            const model = editor.getModel();
+            if (!range || !model) return;
+            setDraft({ range, code: model.getValueInRange(range) });
+            setCommentsOpen(true);
+          },
+        }),
+      );
+    }
+    return () => disposables.forEach((disposable) => disposable.dispose());
+  }, [monacoReady, editor, viewing]);
+
+  // Warn about code that someone in the pad has not unlocked in game yet.
+  useEffect(() => {
+    intelliSenseRef.current?.setUnlocks({ mine: unlocks, collaborators: Object.values(users) });
+  }, [unlocks, users]);
+
+  function updatePadFiles(id: string, update: (pad: PadFiles) => PadFiles) {
+    setPadFiles((pad) => update(pad.id === id ? pad : initialPadFiles(id)));
+  }
+
+  function handleFilesChange(id: string, files: FileEntry[]) {
+    // Open a file that we just created, once the server confirms it.
+    const created = files.find((f) => f.name === createdFile.current);
+    if (created) createdFile.current = undefined;
+
+    updatePadFiles(id, (pad) => {
+      const exists = (file: string) => files.some((f) => f.id === file);
+      let activeFile = created?.id ?? pad.activeFile;
+      if (!exists(activeFile)) activeFile = MAIN_FILE;
+      let openFiles = pad.openFiles.filter(exists);
+      if (!openFiles.includes(activeFile)) {
+        openFiles = [...openFiles, activeFile];
+      }
+      return { ...pad, files, openFiles, activeFile };
+    });
+  }
+
+  function handleOpenFile(file: string) {
+    updatePadFiles(id, (pad) => ({
+      ...pad,
+      activeFile: file,
+      openFiles: pad.openFiles.includes(file)
+        ? pad.openFiles
+        : [...pad.openFiles, file],
+    }));
+  }
+
+  function handleCloseFile(file: string) {
+    updatePadFiles(id, (pad) => {
+      if (pad.openFiles.length <= 1) return pad;
+      const index = pad.openFiles.indexOf(file);
+      const openFiles = pad.openFiles.filter((f) => f !== file);
+      const activeFile =
+        pad.activeFile === file
+          ? openFiles[Math.min(index, openFiles.length - 1)]
+          : pad.activeFile;
+      return { ...pad, openFiles, activeFile };
+    });
+  }
+
+  function handleCreateFile(name: string) {
+    if (rustpad.current?.createFile(name)) {
+      createdFile.current = name;
+    }
+  }
+
+  /** Remember the session token of a pad, or forget it once it is refused. */
+  function handleAccess(access: Access) {
+    setAccess(access);
+    setTokens(({ [access.id]: _, ...others }) =>
+      access.token === undefined ? others : { ...others, [access.id]: access.token },
+    );
+  }
+
+  function handleSetPassword(newPassword?: string) {
+    if (!rustpad.current?.setPassword(newPassword)) return;
+    toast({
+      title: newPassword === undefined ? "Password removed" : "Password set",
+      description:
+        newPassword === undefined
+          ? "Anyone with the link can now open this pad."
+          : "Others will need the password to open this pad.",
+      status: "info",
+      duration: 2000,
+      isClosable: true,
+    });
+  }
+
+  function handleRevealLine(line: number) {
+    if (!editor) return;
+    setHistoryOpen(false);
+    editor.revealLineInCenter(line);
+    editor.setPosition({ lineNumber: line, column: 1 });
+    editor.focus();
+  }
+
+  function handleCreateThread(text: string) {
+    if (!draft || !rustpad.current?.createThread(draft.range, text)) return false;
+    setDraft(undefined);
+    return true;
+  }
+
+  function handleSelectThread(thread: number) {
+    setSelectedThread(thread);
+    setCommentsOpen(true);
+    const range = rustpad.current?.threadRange(thread);
+    if (!editor || !range) return;
+    setHistoryOpen(false);
+    editor.revealRangeInCenter(range);
+    editor.setSelection(range);
+    editor.focus();
+  }
+
   function handleLanguageChange(language: string) {
     setLanguage(language);
     if (rustpad.current?.setLanguage(language)) {
@@ -127,7 +454,7 @@ function App() {
   }
 
   function handleLoadSample(confirmed: boolean) {
-    if (editor?.getModel()) {
+    if (editor?.getModel() && !viewing) {
       const model = editor.getModel()!;
       const range = model.getFullModelRange();
 
@@ -149,10 +476,49 @@ function App() {
     }
   }
 
+  /** Save the current file, with the LF line endings of the editor. */
+  function handleDownload() {
+    const model = editor?.getModel();
+    if (!model) return;
+    const name = activePath[activePath.length - 1];
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([model.getValue()], { type: "text/x-python" }));
+    link.download = name.endsWith(".py") ? name : `${name}.py`;
+    link.click();
+    // Some browsers start the download after the click returns, so the URL
+    // has to outlive this task.
+    setTimeout(() => URL.revokeObjectURL(link.href), 0);
+  }
+
+  async function handleLoadFile(file: File) {
+    if (!editor?.getModel() || viewing) return;
+    const text = await file.text();
+    if (editor.getModel()?.getValueLength()) {
+      setLoadedFile({ name: file.name, text });
+    } else {
+      handleInsertFile(text, true);
+    }
+  }
+
+  /** Replace the content with a file, or insert it at the cursor, as one edit. */
+  function handleInsertFile(text: string, replace: boolean) {
+    setLoadedFile(undefined);
+    const model = editor?.getModel();
+    const selection = editor?.getSelection();
+    if (!editor || !model || !selection || viewing) return;
+    const range = replace ? model.getFullModelRange() : selection;
+    model.pushEditOperations(editor.getSelections(), [{ range, text }], () => null);
+    editor.focus();
+  }
+
   function handleDarkModeChange() {
     setDarkMode(!darkMode);
   }
 
+  const activePath = (
+    files.find((file) => file.id === activeFile)?.name ?? MAIN_FILE
+  ).split("/");
+
   return (
     <Flex
       direction="column"
@@ -174,14 +540,31 @@ function App() {
       <Flex flex="1 0" minH={0}>
         <Sidebar
           documentId={id}
+          readOnly={viewing}
+          token={token}
+          isProtected={access?.id === id && access.isProtected}
+          onSetPassword={handleSetPassword}
+          chat={chat}
+          onSendChat={(text) => rustpad.current?.sendChat(text) ?? false}
+          onRevealLine={handleRevealLine}
           connection={connection}
           darkMode={darkMode}
-          currentUser={{ name, hue }}
+          currentUser={{ name, hue, unlocks, spectator: viewing }}
           users={users}
+          idle={idle}
+          following={following}
+          onFollow={(id) => rustpad.current?.follow(id)}
           onDarkModeChange={handleDarkModeChange}
           onLoadSample={() => handleLoadSample(false)}
           onChangeName={(name) => name.length > 0 && setName(name)}
           onChangeColor={() => setHue(generateHue())}
+          onChangeUnlocks={setUnlocks}
+          files={files}
+          activeFile={activeFile}
+          onOpenFile={handleOpenFile}
+          onCreateFile={handleCreateFile}
+          onRenameFile={(file, name) => rustpad.current?.renameFile(file, name)}
+          onDeleteFile={(file) => rustpad.current?.deleteFile(file)}
         />
         <ReadCodeConfirm
           isOpen={readCodeConfirmOpen}
@@ -191,6 +574,24 @@ function App() {
             setReadCodeConfirmOpen(false);
           }}
         />
+        <ReadCodeConfirm
+          isOpen={loadedFile !== undefined}
+          fileName={loadedFile?.name}
+          onClose={() => setLoadedFile(undefined)}
+          onConfirm={() => handleInsertFile(loadedFile?.text ?? "", true)}
+          onInsert={() => handleInsertFile(loadedFile?.text ?? "", false)}
+        />
+        <PasswordPrompt
+          isOpen={!viewing && access?.id === id && !access.granted}
+          isIncorrect={access?.id === id && !!access.isIncorrect}
+          onSubmit={(password) => checkAccess(id, password).then(handleAccess)}
+        />
+        <MergeConflict
+          conflict={conflict}
+          language={language}
+          darkMode={darkMode}
+          onClose={() => setConflict(undefined)}
+        />
 
         <Flex flex={1} minW={0} h="100%" direction="column" overflow="hidden">
           <HStack
@@ -205,12 +606,145 @@ function App() {
             <Icon as={VscFolderOpened} fontSize="md" color="blue.500" />
             <Text>documents</Text>
             <Icon as={VscChevronRight} fontSize="md" />
-            <Icon as={VscGist} fontSize="md" color="purple.500" />
+            <Icon as={VscFolder} fontSize="md" color="blue.500" />
             <Text>{id}</Text>
+            {activePath.map((segment, i) => (
+              <Fragment key={i}>
+                <Icon as={VscChevronRight} fontSize="md" />
+                {i === activePath.length - 1 ? (
+                  <Icon as={VscGist} fontSize="md" color="purple.500" />
+                ) : (
+                  <Icon as={VscFolder} fontSize="md" color="blue.500" />
+                )}
+                <Text>{segment}</Text>
+              </Fragment>
+            ))}
+            <Spacer />
+            {viewing && (
+              <Tooltip label="Opened through a view-only link, so edits are off" openDelay={500}>
+                <Badge colorScheme="purple" mr={1}>
+                  View only
+                </Badge>
+              </Tooltip>
+            )}
+            <Tooltip label="Download file" openDelay={500}>
+              <IconButton
+                aria-label="Download file"
+                icon={<VscCloudDownload />}
+                size="xs"
+                variant="ghost"
+                onClick={handleDownload}
+              />
+            </Tooltip>
+            {!viewing && (
+              <Tooltip label="Open file..." openDelay={500}>
+                <IconButton
+                  aria-label="Open file"
+                  icon={<VscCloudUpload />}
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => fileInput.current?.click()}
+                />
+              </Tooltip>
+            )}
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".py,.txt,text/*"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleLoadFile(file);
+                event.target.value = "";
+              }}
+            />
+            <Tooltip label="Toggle comments" openDelay={500}>
+              <IconButton
+                aria-label="Toggle comments"
+                icon={<VscComment />}
+                size="xs"
+                variant="ghost"
+                color={commentsOpen ? "yellow.500" : "inherit"}
+                onClick={() => setCommentsOpen(!commentsOpen)}
+              />
+            </Tooltip>
+            <Tooltip label="Toggle blame" openDelay={500}>
+              <IconButton
+                aria-label="Toggle blame"
+                icon={<VscGitCommit />}
+                size="xs"
+                variant="ghost"
+                color={blame ? "orange.400" : "inherit"}
+                onClick={() => setBlame(!blame)}
+              />
+            </Tooltip>
+            <Tooltip label="Toggle history" openDelay={500}>
+              <IconButton
+                aria-label="Toggle history"
+                icon={<VscHistory />}
+                size="xs"
+                variant="ghost"
+                color={historyOpen ? "blue.500" : "inherit"}
+                onClick={() => setHistoryOpen(!historyOpen)}
+              />
+            </Tooltip>
+            {language === TFWR_LANGUAGE && (
+              <Tooltip label="Toggle simulator" openDelay={500}>
+                <IconButton
+                  aria-label="Toggle simulator"
+                  icon={<VscDebugAlt />}
+                  size="xs"
+                  variant="ghost"
+                  color={simulatorOpen ? "green.500" : "inherit"}
+                  onClick={() => setSimulatorOpen(!simulatorOpen)}
+                />
+              </Tooltip>
+            )}
           </HStack>
-          <Box flex={1} minH={0}>
+          <FileTabs
+            files={files}
+            openFiles={openFiles}
+            activeFile={activeFile}
+            darkMode={darkMode}
+            onSelect={handleOpenFile}
+            onClose={handleCloseFile}
+          />
+          {historyOpen && (
+            <Box flex={1} minH={0}>
+              <History
+                key={`${id}/${activeFile}`}
+                rustpad={rustpad.current}
+                editor={editor}
+                revision={revision}
+                currentUser={{ name, hue, unlocks, spectator: viewing }}
+                readOnly={viewing}
+                users={users}
+                language={language}
+                darkMode={darkMode}
+                onClose={() => setHistoryOpen(false)}
+              />
+            </Box>
+          )}
+          <Box
+            flex={1}
+            minH={0}
+            display={historyOpen ? "none" : "block"}
+            // Take dropped files before the editor does, to load them as one edit.
+            onDragOverCapture={(event) => {
+              if (!viewing && event.dataTransfer.types.includes("Files")) {
+                event.preventDefault();
+              }
+            }}
+            onDropCapture={(event) => {
+              const file = event.dataTransfer.files[0];
+              if (viewing || !file) return;
+              event.preventDefault();
+              event.stopPropagation();
+              handleLoadFile(file);
+            }}
+          >
             <Editor
-              theme={darkMode ? "vs-dark" : "vs"}
+              theme={tfwrTheme(darkMode)}
               language={language}
               options={{
                 automaticLayout: true,
@@ -218,7 +752,12 @@ function App() {
                 quickSuggestions: true,
                 suggestOnTriggerCharacters: true,
                 tabCompletion: "on",
+                readOnly: viewing,
+                glyphMargin: true,
+                dropIntoEditor: { enabled: false },
+                readOnlyMessage: { value: "This pad was shared with you as view-only." },
               }}
+              beforeMount={(monaco: any) => registerTFWRLanguage(monaco)}
               onMount={(editor: any, monaco: any) => {
                 setEditor(editor as editor.IStandaloneCodeEditor);
                 monacoRef.current = monaco;
@@ -231,8 +770,30 @@ function App() {
             />
           </Box>
         </Flex>
+        {commentsOpen && (
+          <Comments
+            threads={threads}
+            draft={draft?.code}
+            selected={selectedThread}
+            darkMode={darkMode}
+            readOnly={viewing}
+            onCreate={handleCreateThread}
+            onCancelDraft={() => setDraft(undefined)}
+            onReply={(id, text) => rustpad.current?.replyThread(id, text) ?? false}
+            onResolve={(id, resolved) => rustpad.current?.resolveThread(id, resolved)}
+            onSelect={handleSelectThread}
+            onClose={() => {
+              setCommentsOpen(false);
+              setDraft(undefined);
+            }}
+          />
+        )}
+        {simulatorOpen && language === TFWR_LANGUAGE && (
+          <Simulator editor={editor} darkMode={darkMode} />
+        )}
       </Flex>
       <Footer />
+      <VisuallyHidden aria-live="polite">{announcement}</VisuallyHidden>
     </Flex>
   );
 }
@@ -0,0 +1,96 @@
+import { Box, Input, Link, Stack, Text } from "@chakra-ui/react";
+import { FormEvent, useEffect, useRef, useState } from "react";
+
+import type { ChatMessage } from "./rustpad";
+
+/** Line references in messages, like `L42`, captured for `String.split`. */
+const LINE_REFERENCE = /\b(L\d+)\b/;
+
+export type ChatProps = {
+  messages: ChatMessage[];
+  darkMode: boolean;
+  /** Viewers from a view-only link can read the chat but not send to it. */
+  readOnly: boolean;
+  /** Send a message, returning false if it could not be sent. */
+  onSend: (text: string) => boolean;
+  onRevealLine: (line: number) => void;
+};
+
+/** Chat of the pad, shared by all of its files, with clickable line references. */
+function Chat({
+  messages,
+  darkMode,
+  readOnly,
+  onSend,
+  onRevealLine,
+}: ChatProps) {
+  const [text, setText] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages]);
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (text.trim() && onSend(text.trim())) setText("");
+  }
+
+  function renderText(text: string) {
+    return text.split(LINE_REFERENCE).map((part, i) =>
+      i % 2 === 1 ? (
+        <Link
+          key={i}
+          color="blue.500"
+          fontWeight="semibold"
+          onClick={() => onRevealLine(Number(part.slice(1)))}
+        >
+          {part}
+        </Link>
+      ) : (
+        part
+      ),
+    );
+  }
+
+  return (
+    <Box fontSize="sm">
+      <Stack ref={listRef} spacing={1} maxH="14rem" overflowY="auto" mb={1.5}>
+        {messages.length === 0 && (
+          <Text color="gray.500">
+            No messages yet. Mention a line like L42 to link to it.
+          </Text>
+        )}
+        {messages.map((message, i) => (
+          <Text key={i} wordBreak="break-word">
+            <Text
+              as="span"
+              fontWeight="medium"
+              color={`hsl(${message.hue}, 90%, ${darkMode ? "70%" : "25%"})`}
+              title={new Date(message.time).toLocaleString()}
+            >
+              {message.name}
+            </Text>
+            : {renderText(message.text)}
+          </Text>
+        ))}
+      </Stack>
+      <form onSubmit={handleSubmit}>
+        <Input
+          size="sm"
+          variant="outline"
+          bgColor={darkMode ? "#3c3c3c" : "white"}
+          borderColor={darkMode ? "#3c3c3c" : "white"}
+          placeholder={readOnly ? "Viewers cannot send messages" : "Message"}
+          isDisabled={readOnly}
+          maxLength={2000}
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+        />
+      </form>
+    </Box>
+  );
+}
+
+export default Chat;
@@ -0,0 +1,237 @@
+import {
+  Box,
+  Button,
+  Code,
+  Flex,
+  HStack,
+  Heading,
+  IconButton,
+  Stack,
+  Switch,
+  Text,
+  Textarea,
+} from "@chakra-ui/react";
+import { FormEvent, KeyboardEvent, useEffect, useRef, useState } from "react";
+import { VscCheck, VscClose, VscDiscard } from "react-icons/vsc";
+
+import type { ChatMessage, CommentThread } from "./rustpad";
+
+export type CommentsProps = {
+  threads: CommentThread[];
+  /** Selected code for a new thread, before its first comment is written. */
+  draft?: string;
+  /** Thread to scroll to, e.g. after clicking its icon in the editor. */
+  selected?: number;
+  darkMode: boolean;
+  /** Viewers from a view-only link can read comments but not write them. */
+  readOnly: boolean;
+  onCreate: (text: string) => boolean;
+  onCancelDraft: () => void;
+  onReply: (id: number, text: string) => boolean;
+  onResolve: (id: number, resolved: boolean) => void;
+  onSelect: (id: number) => void;
+  onClose: () => void;
+};
+
+/** Panel listing the comment threads of a document, next to the editor. */
+function Comments({
+  threads,
+  draft,
+  selected,
+  darkMode,
+  readOnly,
+  onCreate,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  onSelect,
+  onClose,
+}: CommentsProps) {
+  const [showResolved, setShowResolved] = useState(false);
+  const selectedRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const buttonProps = {
+    size: "xs",
+    bgColor: darkMode ? "#575759" : "gray.200",
+    _hover: { bg: darkMode ? "#6b6b6d" : "gray.300" },
+    color: darkMode ? "white" : "inherit",
+  };
+  const cardBg = darkMode ? "#1e1e1e" : "white";
+  const shown = threads.filter(
+    (thread) => showResolved || !thread.resolved || thread.id === selected,
+  );
+
+  function renderComment(comment: ChatMessage, i: number) {
+    return (
+      <Text key={i} wordBreak="break-word" whiteSpace="pre-wrap">
+        <Text
+          as="span"
+          fontWeight="medium"
+          color={`hsl(${comment.hue}, 90%, ${darkMode ? "70%" : "25%"})`}
+          title={new Date(comment.time).toLocaleString()}
+        >
+          {comment.name}
+        </Text>
+        : {comment.text}
+      </Text>
+    );
+  }
+
+  return (
+    <Flex
+      direction="column"
+      w="xs"
+      flexShrink={0}
+      bgColor={darkMode ? "#252526" : "#f3f3f3"}
+      fontSize="sm"
+      overflowY="auto"
+      p={3}
+      gap={3}
+    >
+      <Flex justifyContent="space-between" alignItems="center">
+        <Heading size="sm">Comments</Heading>
+        <HStack spacing={3}>
+          <HStack spacing={1.5}>
+            <Text fontSize="xs">Resolved</Text>
+            <Switch
+              size="sm"
+              isChecked={showResolved}
+              onChange={() => setShowResolved(!showResolved)}
+            />
+          </HStack>
+          <IconButton
+            aria-label="Close comments"
+            icon={<VscClose />}
+            size="xs"
+            variant="ghost"
+            onClick={onClose}
+          />
+        </HStack>
+      </Flex>
+
+      {draft !== undefined && (
+        <Stack spacing={2} p={2} rounded="md" bgColor={cardBg}>
+          <Code noOfLines={3} whiteSpace="pre" fontSize="xs">
+            {draft}
+          </Code>
+          <CommentInput
+            placeholder="Start a thread on this code"
+            buttonProps={buttonProps}
+            autoFocus
+            onSubmit={onCreate}
+            onCancel={onCancelDraft}
+          />
+        </Stack>
+      )}
+
+      {shown.length === 0 && draft === undefined && (
+        <Text color="gray.500">
+          No open threads. Select some code and use "Add Comment" from the
+          editor's context menu to start one.
+        </Text>
+      )}
+
+      {shown.map((thread) => (
+        <Stack
+          key={thread.id}
+          ref={thread.id === selected ? selectedRef : undefined}
+          spacing={1.5}
+          p={2}
+          rounded="md"
+          bgColor={cardBg}
+          borderWidth={thread.id === selected ? 1 : 0}
+          borderColor="yellow.500"
+          opacity={thread.resolved ? 0.6 : 1}
+        >
+          <Box cursor="pointer" onClick={() => onSelect(thread.id)}>
+            {thread.comments.map(renderComment)}
+          </Box>
+          {!readOnly && (
+            <>
+              {!thread.resolved && (
+                <CommentInput
+                  placeholder="Reply"
+                  buttonProps={buttonProps}
+                  onSubmit={(text) => onReply(thread.id, text)}
+                />
+              )}
+              <Flex justifyContent="flex-end">
+                <Button
+                  {...buttonProps}
+                  leftIcon={thread.resolved ? <VscDiscard /> : <VscCheck />}
+                  onClick={() => onResolve(thread.id, !thread.resolved)}
+                >
+                  {thread.resolved ? "Reopen" : "Resolve"}
+                </Button>
+              </Flex>
+            </>
+          )}
+        </Stack>
+      ))}
+    </Flex>
+  );
+}
+
+type CommentInputProps = {
+  placeholder: string;
+  buttonProps: object;
+  autoFocus?: boolean;
+  onSubmit: (text: string) => boolean;
+  onCancel?: () => void;
+};
+
+/** Text box for a new comment, sent with Ctrl+Enter or the button. */
+function CommentInput({
+  placeholder,
+  buttonProps,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: CommentInputProps) {
+  const [text, setText] = useState("");
+
+  function handleSubmit(event?: FormEvent) {
+    event?.preventDefault();
+    if (text.trim() && onSubmit(text.trim())) setText("");
+  }
+
+  function handleKeyDown(event: KeyboardEvent) {
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+      handleSubmit();
+    } else if (event.key === "Escape") {
+      onCancel?.();
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Textarea
+        size="sm"
+        rows={2}
+        resize="vertical"
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        maxLength={2000}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+      <HStack justifyContent="flex-end" spacing={1.5} mt={1.5}>
+        {onCancel && (
+          <Button {...buttonProps} onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button {...buttonProps} type="submit" isDisabled={!text.trim()}>
+          Comment
+        </Button>
+      </HStack>
+    </form>
+  );
+}
+
+export default Comments;
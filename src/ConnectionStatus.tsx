@@ -28,7 +28,7 @@ function ConnectionStatus({ connection, darkMode }: ConnectionStatusProps) {
           {
             connected: "You are connected!",
             disconnected: "Connecting to the server...",
-            desynchronized: "Disconnected, please refresh.",
+            desynchronized: "Resynchronizing with the server...",
           }[connection]
         }
       </Text>
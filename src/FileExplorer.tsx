@@ -0,0 +1,305 @@
+import {
+  AlertDialog,
+  AlertDialogBody,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogOverlay,
+  Button,
+  Flex,
+  HStack,
+  Heading,
+  Icon,
+  IconButton,
+  Input,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+import { useRef, useState } from "react";
+import {
+  VscChevronDown,
+  VscChevronRight,
+  VscEdit,
+  VscGist,
+  VscNewFile,
+  VscTrash,
+} from "react-icons/vsc";
+
+import { FileEntry, MAIN_FILE } from "./rustpad";
+
+export type FileExplorerProps = {
+  files: FileEntry[];
+  activeFile: string;
+  darkMode: boolean;
+  /** Hides the buttons that change files, for view-only links. */
+  readOnly?: boolean;
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+/** Folder in the file tree, built from the `/`-separated file names. */
+type Folder = {
+  path: string;
+  folders: Record<string, Folder>;
+  files: FileEntry[];
+};
+
+function buildTree(files: FileEntry[]): Folder {
+  const root: Folder = { path: "", folders: {}, files: [] };
+  for (const file of files) {
+    const parts = file.name.split("/");
+    let folder = root;
+    for (const part of parts.slice(0, -1)) {
+      folder.folders[part] ??= {
+        path: folder.path + part + "/",
+        folders: {},
+        files: [],
+      };
+      folder = folder.folders[part];
+    }
+    folder.files.push(file);
+  }
+  return root;
+}
+
+/** Returns a problem with a file name, matching the server's rules. */
+export function validateFileName(
+  name: string,
+  files: FileEntry[],
+): string | undefined {
+  if (!name) return "Name cannot be empty";
+  const segments = name.split("/");
+  if (
+    segments.some(
+      (s) => !/^[A-Za-z0-9_.-]+$/.test(s) || s === "." || s === "..",
+    )
+  ) {
+    return "Use letters, digits, _, - and . separated by /";
+  }
+  if (files.some((f) => f.name === name)) return "A file with this name exists";
+  return undefined;
+}
+
+/** Inline input for naming a new file or renaming an existing one. */
+function NameInput({
+  initial,
+  files,
+  darkMode,
+  onSubmit,
+  onCancel,
+}: {
+  initial: string;
+  files: FileEntry[];
+  darkMode: boolean;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(initial);
+  const error = value === initial ? undefined : validateFileName(value, files);
+
+  return (
+    <Input
+      size="xs"
+      autoFocus
+      value={value}
+      title={error}
+      isInvalid={error !== undefined}
+      bgColor={darkMode ? "#3c3c3c" : "white"}
+      borderColor={darkMode ? "#3c3c3c" : "white"}
+      onChange={(event) => setValue(event.target.value.trim())}
+      onBlur={onCancel}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") {
+          if (value === initial) onCancel();
+          else if (!error) onSubmit(value);
+        } else if (event.key === "Escape") {
+          onCancel();
+        }
+      }}
+    />
+  );
+}
+
+/** Tree of the files in a pad, with buttons to create, rename and delete. */
+function FileExplorer({
+  files,
+  activeFile,
+  darkMode,
+  readOnly,
+  onOpen,
+  onCreate,
+  onRename,
+  onDelete,
+}: FileExplorerProps) {
+  const [creating, setCreating] = useState(false);
+  const [renaming, setRenaming] = useState<string>();
+  const [deleting, setDeleting] = useState<FileEntry>();
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  const hoverBg = darkMode ? "#2a2d2e" : "#e8e8e8";
+  const activeBg = darkMode ? "#37373d" : "#e4e6f1";
+
+  function renderFolder(folder: Folder, depth: number): JSX.Element[] {
+    const rows: JSX.Element[] = [];
+    for (const name of Object.keys(folder.folders).sort()) {
+      const child = folder.folders[name];
+      const isCollapsed = collapsed[child.path];
+      rows.push(
+        <HStack
+          key={child.path}
+          spacing={1}
+          pl={depth * 3}
+          cursor="pointer"
+          _hover={{ bgColor: hoverBg }}
+          onClick={() =>
+            setCollapsed({ ...collapsed, [child.path]: !isCollapsed })
+          }
+        >
+          <Icon as={isCollapsed ? VscChevronRight : VscChevronDown} />
+          <Text>{name}</Text>
+        </HStack>,
+      );
+      if (!isCollapsed) rows.push(...renderFolder(child, depth + 1));
+    }
+    const sorted = [...folder.files].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+    for (const file of sorted) {
+      const basename = file.name.slice(folder.path.length);
+      if (renaming === file.id) {
+        rows.push(
+          <Flex key={file.id} pl={depth * 3}>
+            <NameInput
+              initial={file.name}
+              files={files}
+              darkMode={darkMode}
+              onSubmit={(name) => {
+                onRename(file.id, name);
+                setRenaming(undefined);
+              }}
+              onCancel={() => setRenaming(undefined)}
+            />
+          </Flex>,
+        );
+        continue;
+      }
+      rows.push(
+        <HStack
+          key={file.id}
+          role="group"
+          spacing={1}
+          pl={depth * 3 + 1}
+          cursor="pointer"
+          bgColor={file.id === activeFile ? activeBg : undefined}
+          _hover={{ bgColor: file.id === activeFile ? activeBg : hoverBg }}
+          onClick={() => onOpen(file.id)}
+        >
+          <Icon as={VscGist} color="purple.500" />
+          <Text flex={1} noOfLines={1}>
+            {basename}
+          </Text>
+          <HStack
+            spacing={0}
+            display={readOnly ? "none" : "flex"}
+            visibility="hidden"
+            _groupHover={{ visibility: "visible" }}
+          >
+            <IconButton
+              aria-label={`Rename ${file.name}`}
+              icon={<VscEdit />}
+              size="xs"
+              variant="ghost"
+              onClick={(event) => {
+                event.stopPropagation();
+                setRenaming(file.id);
+              }}
+            />
+            {file.id !== MAIN_FILE && (
+              <IconButton
+                aria-label={`Delete ${file.name}`}
+                icon={<VscTrash />}
+                size="xs"
+                variant="ghost"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  setDeleting(file);
+                }}
+              />
+            )}
+          </HStack>
+        </HStack>,
+      );
+    }
+    return rows;
+  }
+
+  return (
+    <>
+      <Flex justifyContent="space-between" alignItems="center" mt={4} mb={1.5}>
+        <Heading size="sm">Files</Heading>
+        {!readOnly && (
+          <IconButton
+            aria-label="New file"
+            icon={<VscNewFile />}
+            size="xs"
+            variant="ghost"
+            onClick={() => setCreating(true)}
+          />
+        )}
+      </Flex>
+      <Stack spacing={0} fontSize="sm">
+        {creating && (
+          <NameInput
+            initial=""
+            files={files}
+            darkMode={darkMode}
+            onSubmit={(name) => {
+              onCreate(name);
+              setCreating(false);
+            }}
+            onCancel={() => setCreating(false)}
+          />
+        )}
+        {renderFolder(buildTree(files), 0)}
+      </Stack>
+
+      <AlertDialog
+        isOpen={deleting !== undefined}
+        leastDestructiveRef={cancelRef}
+        onClose={() => setDeleting(undefined)}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader>Delete file</AlertDialogHeader>
+
+            <AlertDialogBody>
+              Deleting <b>{deleting?.name}</b> removes it for everyone editing
+              this pad. Is this okay?
+            </AlertDialogBody>
+
+            <AlertDialogFooter>
+              <Button ref={cancelRef} onClick={() => setDeleting(undefined)}>
+                Cancel
+              </Button>
+              <Button
+                colorScheme="red"
+                ml={3}
+                onClick={() => {
+                  if (deleting) onDelete(deleting.id);
+                  setDeleting(undefined);
+                }}
+              >
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+    </>
+  );
+}
+
+export default FileExplorer;
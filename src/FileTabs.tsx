@@ -0,0 +1,73 @@
+import { Flex, HStack, Icon, IconButton, Text } from "@chakra-ui/react";
+import { VscClose, VscGist } from "react-icons/vsc";
+
+import { FileEntry } from "./rustpad";
+
+export type FileTabsProps = {
+  files: FileEntry[];
+  openFiles: string[];
+  activeFile: string;
+  darkMode: boolean;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+};
+
+/** Tabs for the files opened in the editor, like those in VS Code. */
+function FileTabs({
+  files,
+  openFiles,
+  activeFile,
+  darkMode,
+  onSelect,
+  onClose,
+}: FileTabsProps) {
+  const tabs = openFiles
+    .map((id) => files.find((file) => file.id === id))
+    .filter((file): file is FileEntry => file !== undefined);
+
+  return (
+    <Flex
+      flexShrink={0}
+      overflowX="auto"
+      bgColor={darkMode ? "#252526" : "#f3f3f3"}
+      fontSize="13px"
+    >
+      {tabs.map((file) => {
+        const active = file.id === activeFile;
+        return (
+          <HStack
+            key={file.id}
+            role="group"
+            spacing={1}
+            pl={3}
+            pr={1}
+            h={8}
+            flexShrink={0}
+            cursor="pointer"
+            bgColor={active ? (darkMode ? "#1e1e1e" : "white") : undefined}
+            color={active ? undefined : "#888888"}
+            onClick={() => onSelect(file.id)}
+            onAuxClick={(event) => event.button === 1 && onClose(file.id)}
+          >
+            <Icon as={VscGist} color="purple.500" />
+            <Text title={file.name}>{file.name.split("/").pop()}</Text>
+            <IconButton
+              aria-label={`Close ${file.name}`}
+              icon={<VscClose />}
+              size="xs"
+              variant="ghost"
+              visibility={active ? "visible" : "hidden"}
+              _groupHover={{ visibility: "visible" }}
+              onClick={(event) => {
+                event.stopPropagation();
+                onClose(file.id);
+              }}
+            />
+          </HStack>
+        );
+      })}
+    </Flex>
+  );
+}
+
+export default FileTabs;
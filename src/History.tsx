@@ -0,0 +1,284 @@
+import {
+  Button,
+  ButtonGroup,
+  Flex,
+  HStack,
+  Heading,
+  IconButton,
+  Select,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Switch,
+  Text,
+} from "@chakra-ui/react";
+import Editor, { DiffEditor } from "@monaco-editor/react";
+import { editor } from "monaco-editor/esm/vs/editor/editor.api";
+import { useEffect, useRef, useState } from "react";
+import {
+  VscClose,
+  VscDebugContinue,
+  VscDebugPause,
+  VscDiscard,
+} from "react-icons/vsc";
+
+import { tfwrTheme } from "./TFWRLanguage";
+import Rustpad, { UserInfo } from "./rustpad";
+
+/** Playback speeds, in revisions per second. */
+const SPEEDS = [2, 5, 10, 25, 50, 100];
+
+export type HistoryProps = {
+  rustpad?: Rustpad;
+  editor?: editor.IStandaloneCodeEditor;
+  /** Latest revision of the document, which updates as edits arrive. */
+  revision: number;
+  currentUser: UserInfo;
+  users: Record<number, UserInfo>;
+  language: string;
+  darkMode: boolean;
+  /** Hides the restore button for pads opened through a view-only link. */
+  readOnly?: boolean;
+  onClose: () => void;
+};
+
+/**
+ * Browser for the revisions of a document, in place of the editor. Scrub to a
+ * revision to compare it with the current text, restore it, or play back the
+ * edits from there.
+ */
+function History({
+  rustpad,
+  editor,
+  revision,
+  currentUser,
+  users,
+  language,
+  darkMode,
+  readOnly,
+  onClose,
+}: HistoryProps) {
+  // The selected revision, or undefined to follow the latest one.
+  const [selected, setSelected] = useState<number>();
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(10);
+  const [compare, setCompare] = useState(true);
+  const [current, setCurrent] = useState(() => editor?.getValue() ?? "");
+
+  // Remember the names of users who have left, to credit their edits.
+  const names = useRef<Record<number, string>>({});
+  Object.entries(users).forEach(([id, info]) => {
+    names.current[Number(id)] = info.name;
+  });
+
+  const shown = Math.min(selected ?? revision, revision);
+  const text = rustpad?.textAt(shown) ?? "";
+
+  useEffect(() => {
+    if (!editor) return;
+    setCurrent(editor.getValue());
+    const handle = editor.onDidChangeModelContent(() =>
+      setCurrent(editor.getValue()),
+    );
+    return () => handle.dispose();
+  }, [editor]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (shown >= revision) {
+      setPlaying(false);
+      setSelected(undefined);
+      return;
+    }
+    const id = window.setTimeout(() => setSelected(shown + 1), 1000 / speed);
+    return () => window.clearTimeout(id);
+  }, [playing, speed, shown, revision]);
+
+  function describeAuthor(revision: number): string | undefined {
+    const id = rustpad?.authorOf(revision);
+    if (id === undefined) return undefined;
+    if (rustpad?.isMe(id)) return `${currentUser.name} (you)`;
+    if (id > Number.MAX_SAFE_INTEGER) return "saved text";
+    return names.current[id] ?? "a former collaborator";
+  }
+
+  function handlePlay() {
+    // Replay from the start when there is nothing left to play.
+    if (shown >= revision) setSelected(0);
+    setCompare(false);
+    setPlaying(true);
+  }
+
+  /** Replace the current text with the shown revision, as a single edit. */
+  function handleRestore() {
+    const model = editor?.getModel();
+    if (!editor || !model) return;
+    const value = model.getValue();
+    let start = 0;
+    while (
+      start < value.length &&
+      start < text.length &&
+      value[start] === text[start]
+    ) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < value.length - start &&
+      end < text.length - start &&
+      value[value.length - 1 - end] === text[text.length - 1 - end]
+    ) {
+      end++;
+    }
+    const from = model.getPositionAt(start);
+    const to = model.getPositionAt(value.length - end);
+    editor.pushUndoStop();
+    editor.executeEdits("history", [
+      {
+        range: {
+          startLineNumber: from.lineNumber,
+          startColumn: from.column,
+          endLineNumber: to.lineNumber,
+          endColumn: to.column,
+        },
+        text: text.slice(start, text.length - end),
+      },
+    ]);
+    editor.pushUndoStop();
+    setPlaying(false);
+    setSelected(undefined);
+  }
+
+  const buttonProps = {
+    size: "xs",
+    bgColor: darkMode ? "#575759" : "gray.200",
+    _hover: { bg: darkMode ? "#6b6b6d" : "gray.300" },
+    color: darkMode ? "white" : "inherit",
+  };
+  const author = describeAuthor(shown);
+  const theme = tfwrTheme(darkMode);
+  const options = {
+    readOnly: true,
+    automaticLayout: true,
+    fontSize: 13,
+  };
+
+  return (
+    <Flex direction="column" h="100%">
+      <Flex
+        direction="column"
+        flexShrink={0}
+        gap={2}
+        px={3.5}
+        py={2}
+        bgColor={darkMode ? "#252526" : "#f3f3f3"}
+        fontSize="sm"
+      >
+        <Flex justifyContent="space-between" alignItems="center" gap={3}>
+          <HStack spacing={3} minW={0}>
+            <Heading size="sm">History</Heading>
+            <Text color="gray.500" fontSize="xs" noOfLines={1}>
+              Revision {shown} of {revision}
+              {author && ` · ${author}`}
+            </Text>
+          </HStack>
+          <HStack spacing={3} flexShrink={0}>
+            <HStack spacing={1.5}>
+              <Text fontSize="xs">Compare</Text>
+              <Switch
+                size="sm"
+                isChecked={compare}
+                onChange={() => setCompare(!compare)}
+              />
+            </HStack>
+            <Select
+              size="xs"
+              w="auto"
+              value={speed}
+              aria-label="Playback speed"
+              onChange={(event) => setSpeed(Number(event.target.value))}
+            >
+              {SPEEDS.map((speed) => (
+                <option key={speed} value={speed}>
+                  {speed} rev/s
+                </option>
+              ))}
+            </Select>
+            <ButtonGroup isAttached>
+              {playing ? (
+                <Button
+                  {...buttonProps}
+                  leftIcon={<VscDebugPause />}
+                  onClick={() => setPlaying(false)}
+                >
+                  Pause
+                </Button>
+              ) : (
+                <Button
+                  {...buttonProps}
+                  leftIcon={<VscDebugContinue />}
+                  onClick={handlePlay}
+                >
+                  Play
+                </Button>
+              )}
+              {!readOnly && (
+                <Button
+                  {...buttonProps}
+                  leftIcon={<VscDiscard />}
+                  isDisabled={text === current}
+                  onClick={handleRestore}
+                >
+                  Restore
+                </Button>
+              )}
+            </ButtonGroup>
+            <IconButton
+              aria-label="Close history"
+              icon={<VscClose />}
+              size="xs"
+              variant="ghost"
+              onClick={onClose}
+            />
+          </HStack>
+        </Flex>
+        <Slider
+          aria-label="Revision"
+          min={0}
+          max={Math.max(revision, 1)}
+          value={shown}
+          focusThumbOnChange={false}
+          onChange={(value) => {
+            setPlaying(false);
+            setSelected(value >= revision ? undefined : value);
+          }}
+        >
+          <SliderTrack>
+            <SliderFilledTrack />
+          </SliderTrack>
+          <SliderThumb />
+        </Slider>
+      </Flex>
+      {compare ? (
+        <DiffEditor
+          theme={theme}
+          language={language}
+          original={text}
+          modified={current}
+          options={{ ...options, renderSideBySide: false }}
+        />
+      ) : (
+        <Editor
+          theme={theme}
+          language={language}
+          value={text}
+          path="history"
+          options={options}
+        />
+      )}
+    </Flex>
+  );
+}
+
+export default History;
@@ -0,0 +1,101 @@
+import {
+  Box,
+  Button,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Text,
+} from "@chakra-ui/react";
+import { DiffEditor } from "@monaco-editor/react";
+import { editor } from "monaco-editor/esm/vs/editor/editor.api";
+import { useRef } from "react";
+
+import { tfwrTheme } from "./TFWRLanguage";
+import { Conflict } from "./rustpad";
+
+export type MergeConflictProps = {
+  conflict?: Conflict;
+  language: string;
+  darkMode: boolean;
+  onClose: () => void;
+};
+
+/**
+ * Dialog for unsent edits that overlap with edits made on the server while
+ * this client was out of sync. The server's text is on the left, and the
+ * local text on the right can be edited into the merged result.
+ */
+function MergeConflict({
+  conflict,
+  language,
+  darkMode,
+  onClose,
+}: MergeConflictProps) {
+  const diffEditor = useRef<editor.IStandaloneDiffEditor>();
+
+  function handleResolve(text: string) {
+    conflict?.resolve(text);
+    onClose();
+  }
+
+  return (
+    <Modal
+      isOpen={conflict !== undefined}
+      onClose={() => handleResolve(conflict?.server ?? "")}
+      size="6xl"
+      closeOnOverlayClick={false}
+    >
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Merge your edits</ModalHeader>
+        <ModalBody>
+          <Text mb={3} fontSize="sm">
+            Someone changed the same lines as you while you were out of sync.
+            Edit the text on the right into what you want to keep.
+          </Text>
+          <Box h="60vh" borderWidth={1}>
+            {conflict && (
+              <DiffEditor
+                theme={tfwrTheme(darkMode)}
+                language={language}
+                original={conflict.server}
+                modified={conflict.local}
+                originalModelPath="merge/server"
+                modifiedModelPath="merge/local"
+                options={{
+                  automaticLayout: true,
+                  fontSize: 13,
+                  originalEditable: false,
+                }}
+                onMount={(editor) => (diffEditor.current = editor)}
+              />
+            )}
+          </Box>
+        </ModalBody>
+        <ModalFooter>
+          <Button onClick={() => handleResolve(conflict?.server ?? "")}>
+            Keep server version
+          </Button>
+          <Button
+            colorScheme="blue"
+            ml={3}
+            onClick={() =>
+              handleResolve(
+                diffEditor.current?.getModifiedEditor().getValue() ??
+                  conflict?.local ??
+                  "",
+              )
+            }
+          >
+            Use merged text
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+export default MergeConflict;
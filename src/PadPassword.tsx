@@ -0,0 +1,60 @@
+import { Button, ButtonGroup, Input, Text } from "@chakra-ui/react";
+import { FormEvent, useState } from "react";
+
+export type PadPasswordProps = {
+  isProtected: boolean;
+  darkMode: boolean;
+  /** Set the pad's password, or remove it when undefined. */
+  onChange: (password?: string) => void;
+};
+
+/** Sidebar form to set, change or remove the password of a pad. */
+function PadPassword({ isProtected, darkMode, onChange }: PadPasswordProps) {
+  const [password, setPassword] = useState("");
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (!password) return;
+    onChange(password);
+    setPassword("");
+  }
+
+  const buttonProps = {
+    size: "xs",
+    bgColor: darkMode ? "#575759" : "gray.200",
+    _hover: { bg: darkMode ? "#6b6b6d" : "gray.300" },
+    color: darkMode ? "white" : "inherit",
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Text fontSize="sm" mb={1.5}>
+        {isProtected
+          ? "Only people with the password can open this pad."
+          : "Anyone with the link can open this pad."}
+      </Text>
+      <Input
+        size="sm"
+        type="password"
+        variant="outline"
+        bgColor={darkMode ? "#3c3c3c" : "white"}
+        borderColor={darkMode ? "#3c3c3c" : "white"}
+        placeholder={isProtected ? "New password" : "Password"}
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
+      />
+      <ButtonGroup mt={1.5} spacing={1.5}>
+        <Button {...buttonProps} type="submit" isDisabled={!password}>
+          {isProtected ? "Change" : "Set Password"}
+        </Button>
+        {isProtected && (
+          <Button {...buttonProps} onClick={() => onChange(undefined)}>
+            Remove
+          </Button>
+        )}
+      </ButtonGroup>
+    </form>
+  );
+}
+
+export default PadPassword;
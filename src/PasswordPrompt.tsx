@@ -0,0 +1,74 @@
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Text,
+} from "@chakra-ui/react";
+import { FormEvent, useRef, useState } from "react";
+
+export type PasswordPromptProps = {
+  isOpen: boolean;
+  /** Whether the last password entered for this pad was refused. */
+  isIncorrect: boolean;
+  onSubmit: (password: string) => void;
+};
+
+/** Dialog asking for the password of a protected pad before connecting. */
+function PasswordPrompt({
+  isOpen,
+  isIncorrect,
+  onSubmit,
+}: PasswordPromptProps) {
+  const [password, setPassword] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (password) onSubmit(password);
+    setPassword("");
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={() => {}}
+      initialFocusRef={inputRef}
+      closeOnEsc={false}
+      closeOnOverlayClick={false}
+    >
+      <ModalOverlay />
+      <ModalContent as="form" onSubmit={handleSubmit}>
+        <ModalHeader>Password required</ModalHeader>
+        <ModalBody>
+          <Text mb={3}>
+            This pad is protected. Enter its password to open it, and this
+            browser will stay signed in until the password changes.
+          </Text>
+          <FormControl isInvalid={isIncorrect}>
+            <Input
+              ref={inputRef}
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+            <FormErrorMessage>Incorrect password.</FormErrorMessage>
+          </FormControl>
+        </ModalBody>
+        <ModalFooter>
+          <Button type="submit" colorScheme="blue" isDisabled={!password}>
+            Open
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+export default PasswordPrompt;
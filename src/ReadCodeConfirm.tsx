@@ -11,12 +11,22 @@ import { useRef } from "react";
 
 export type ReadCodeConfirmProps = {
   isOpen: boolean;
+  /** Name of an opened or dropped file, instead of Rustpad's source code. */
+  fileName?: string;
   onClose: () => void;
   onConfirm: () => void;
+  /** Insert the file at the cursor instead of replacing the content. */
+  onInsert?: () => void;
 };
 
 /** Dialog for the "read the code" button when it clears the editor. */
-function ReadCodeConfirm({ isOpen, onClose, onConfirm }: ReadCodeConfirmProps) {
+function ReadCodeConfirm({
+  isOpen,
+  fileName,
+  onClose,
+  onConfirm,
+  onInsert,
+}: ReadCodeConfirmProps) {
   const cancelRef = useRef<HTMLButtonElement>(null);
 
   return (
@@ -30,14 +40,19 @@ function ReadCodeConfirm({ isOpen, onClose, onConfirm }: ReadCodeConfirmProps) {
           <AlertDialogHeader>Clear editor</AlertDialogHeader>
 
           <AlertDialogBody>
-            Opening Rustpad's source code will clear the existing shared
-            content. Is this okay?
+            Opening {fileName ?? "Rustpad's source code"} will clear the
+            existing shared content. Is this okay?
           </AlertDialogBody>
 
           <AlertDialogFooter>
             <Button ref={cancelRef} onClick={onClose}>
               Cancel
             </Button>
+            {onInsert && (
+              <Button onClick={onInsert} ml={3}>
+                Insert at cursor
+              </Button>
+            )}
             <Button colorScheme="red" onClick={onConfirm} ml={3}>
               Clear
             </Button>
@@ -12,42 +12,114 @@ import {
   Text,
   useToast,
 } from "@chakra-ui/react";
+import { useEffect, useState } from "react";
 import { VscRepo } from "react-icons/vsc";
 
+import Chat from "./Chat";
 import ConnectionStatus from "./ConnectionStatus";
+import FileExplorer from "./FileExplorer";
+import PadPassword from "./PadPassword";
 import User from "./User";
-import type { UserInfo } from "./rustpad";
+import type { ChatMessage, FileEntry, UserInfo } from "./rustpad";
+import { VIEW_PREFIX } from "./useHash";
 
 export type SidebarProps = {
   documentId: string;
+  /** Whether the pad was opened through a view-only link. */
+  readOnly: boolean;
+  /** Session token of the pad, if it is protected and this browser has one. */
+  token?: string;
+  isProtected: boolean;
+  onSetPassword: (password?: string) => void;
+  chat: ChatMessage[];
+  onSendChat: (text: string) => boolean;
+  onRevealLine: (line: number) => void;
   connection: "connected" | "disconnected" | "desynchronized";
   darkMode: boolean;
   currentUser: UserInfo;
   users: Record<number, UserInfo>;
+  /** IDs of users who have not been active for a while. */
+  idle: number[];
+  /** ID of the user whose cursor this client is following, if any. */
+  following?: number;
+  onFollow: (id?: number) => void;
   onDarkModeChange: () => void;
   onLoadSample: () => void;
   onChangeName: (name: string) => void;
   onChangeColor: () => void;
+  onChangeUnlocks: (unlocks: string[]) => void;
+  files: FileEntry[];
+  activeFile: string;
+  onOpenFile: (id: string) => void;
+  onCreateFile: (name: string) => void;
+  onRenameFile: (id: string, name: string) => void;
+  onDeleteFile: (id: string) => void;
 };
 
 function Sidebar({
   documentId,
+  readOnly,
+  token,
+  isProtected,
+  onSetPassword,
+  chat,
+  onSendChat,
+  onRevealLine,
   connection,
   darkMode,
   currentUser,
   users,
+  idle,
+  following,
+  onFollow,
   onDarkModeChange,
   onLoadSample,
   onChangeName,
   onChangeColor,
+  onChangeUnlocks,
+  files,
+  activeFile,
+  onOpenFile,
+  onCreateFile,
+  onRenameFile,
+  onDeleteFile,
 }: SidebarProps) {
   const toast = useToast();
 
   // For sharing the document by link to others.
   const documentUrl = `${window.location.origin}/#${documentId}`;
 
-  async function handleCopy() {
-    await navigator.clipboard.writeText(documentUrl);
+  // The view-only link is created by the server the first time it is copied.
+  const [viewUrl, setViewUrl] = useState<string>();
+  useEffect(() => setViewUrl(undefined), [documentId]);
+
+  async function getViewUrl() {
+    if (readOnly) return documentUrl;
+    if (viewUrl) return viewUrl;
+    const shareUrl = new URL(`api/share/${documentId}`, window.location.href);
+    if (token !== undefined) shareUrl.searchParams.set("token", token);
+    const response = await fetch(shareUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to create link: ${response.statusText}`);
+    }
+    const url = `${window.location.origin}/#${VIEW_PREFIX}${await response.text()}`;
+    setViewUrl(url);
+    return url;
+  }
+
+  async function handleCopy(getUrl: () => Promise<string>) {
+    try {
+      await navigator.clipboard.writeText(await getUrl());
+    } catch (error) {
+      toast({
+        title: "Could not copy link",
+        description: String(error),
+        status: "error",
+        duration: 4000,
+        isClosable: true,
+      });
+      return;
+    }
     toast({
       title: "Copied!",
       description: "Link copied to clipboard",
@@ -57,6 +129,34 @@ function Sidebar({
     });
   }
 
+  function renderLink(url: string, onCopy: () => void) {
+    return (
+      <InputGroup size="sm">
+        <Input
+          readOnly
+          pr="3.5rem"
+          variant="outline"
+          bgColor={darkMode ? "#3c3c3c" : "white"}
+          borderColor={darkMode ? "#3c3c3c" : "white"}
+          placeholder="Copy to create a link"
+          value={url}
+        />
+        <InputRightElement width="3.5rem">
+          <Button
+            h="1.4rem"
+            size="xs"
+            onClick={onCopy}
+            _hover={{ bg: darkMode ? "#575759" : "gray.200" }}
+            bgColor={darkMode ? "#575759" : "gray.200"}
+            color={darkMode ? "white" : "inherit"}
+          >
+            Copy
+          </Button>
+        </InputRightElement>
+      </InputGroup>
+    );
+  }
+
   return (
     <Container
       w={{ base: "3xs", md: "2xs", lg: "xs" }}
@@ -76,31 +176,43 @@ function Sidebar({
 
       {/* Language selection removed per customization */}
 
+      {!readOnly && (
+        <>
+          <Heading mt={4} mb={1.5} size="sm">
+            Share Link
+          </Heading>
+          {renderLink(documentUrl, () => handleCopy(async () => documentUrl))}
+        </>
+      )}
+
       <Heading mt={4} mb={1.5} size="sm">
-        Share Link
+        View-Only Link
       </Heading>
-      <InputGroup size="sm">
-        <Input
-          readOnly
-          pr="3.5rem"
-          variant="outline"
-          bgColor={darkMode ? "#3c3c3c" : "white"}
-          borderColor={darkMode ? "#3c3c3c" : "white"}
-          value={documentUrl}
-        />
-        <InputRightElement width="3.5rem">
-          <Button
-            h="1.4rem"
-            size="xs"
-            onClick={handleCopy}
-            _hover={{ bg: darkMode ? "#575759" : "gray.200" }}
-            bgColor={darkMode ? "#575759" : "gray.200"}
-            color={darkMode ? "white" : "inherit"}
-          >
-            Copy
-          </Button>
-        </InputRightElement>
-      </InputGroup>
+      {renderLink(readOnly ? documentUrl : viewUrl ?? "", () => handleCopy(getViewUrl))}
+
+      {!readOnly && (
+        <>
+          <Heading mt={4} mb={1.5} size="sm">
+            Password
+          </Heading>
+          <PadPassword
+            isProtected={isProtected}
+            darkMode={darkMode}
+            onChange={onSetPassword}
+          />
+        </>
+      )}
+
+      <FileExplorer
+        files={files}
+        activeFile={activeFile}
+        darkMode={darkMode}
+        readOnly={readOnly}
+        onOpen={onOpenFile}
+        onCreate={onCreateFile}
+        onRename={onRenameFile}
+        onDelete={onDeleteFile}
+      />
 
       <Heading mt={4} mb={1.5} size="sm">
         Active Users
@@ -111,13 +223,35 @@ function Sidebar({
           isMe
           onChangeName={onChangeName}
           onChangeColor={onChangeColor}
+          onChangeUnlocks={onChangeUnlocks}
           darkMode={darkMode}
         />
-        {Object.entries(users).map(([id, info]) => (
-          <User key={id} info={info} darkMode={darkMode} />
-        ))}
+        {/* Spectators from view-only links are listed after the editors. */}
+        {Object.entries(users)
+          .sort(([, a], [, b]) => Number(!!a.spectator) - Number(!!b.spectator))
+          .map(([id, info]) => (
+            <User
+              key={id}
+              info={info}
+              isFollowing={Number(id) === following}
+              isIdle={idle.includes(Number(id))}
+              onFollow={() => onFollow(Number(id) === following ? undefined : Number(id))}
+              darkMode={darkMode}
+            />
+          ))}
       </Stack>
 
+      <Heading mt={4} mb={1.5} size="sm">
+        Chat
+      </Heading>
+      <Chat
+        messages={chat}
+        darkMode={darkMode}
+        readOnly={readOnly}
+        onSend={onSendChat}
+        onRevealLine={onRevealLine}
+      />
+
       <Heading mt={4} mb={1.5} size="sm">
         About
       </Heading>
@@ -130,10 +264,18 @@ function Sidebar({
         The game uses a <strong>python-like</strong> language. Not all features are
         available, and many features are unlocked as you progress through the game.
       </Text>
+      <Text fontSize="sm" mb={1.5}>
+        The editor estimates how many ticks each call takes, and shows the best
+        and worst case above every function and loop.
+      </Text>
       <Text fontSize="sm" mb={1.5}>
         Share a link to this pad with others, and they can edit from their
         browser while seeing your changes in real time.
       </Text>
+      <Text fontSize="sm" mb={1.5}>
+        People with the view-only link can watch and follow along, but not
+        edit. They show up as spectators.
+      </Text>
       <Text fontSize="sm" mb={1.5}>
         This website is powered by an open source project
         {" "}
@@ -0,0 +1,312 @@
+import {
+  Box,
+  Button,
+  ButtonGroup,
+  Flex,
+  Grid,
+  Heading,
+  Stack,
+  Text,
+  Tooltip,
+} from "@chakra-ui/react";
+import { editor } from "monaco-editor/esm/vs/editor/editor.api";
+import { useEffect, useReducer, useRef, useState } from "react";
+import {
+  VscDebugContinue,
+  VscDebugPause,
+  VscDebugRestart,
+  VscDebugStepOver,
+} from "react-icons/vsc";
+
+import { parseBuiltins } from "./TFWRIntelliSense";
+import { Simulation, Tile } from "./TFWRSimulator";
+import builtinsPy from "./__builtins__.py?raw";
+
+const builtins = parseBuiltins(builtinsPy);
+
+/** Instructions executed per animation frame while running. */
+const STEPS_PER_FRAME = 2000;
+
+/** Pause a run after this many instructions, in case it never finishes. */
+const MAX_STEPS_PER_RUN = 1_000_000;
+
+const ENTITY_GLYPHS: Record<string, string> = {
+  Grass: "🌿",
+  Bush: "🌳",
+  Tree: "🌲",
+  Carrot: "🥕",
+  Pumpkin: "🎃",
+  Sunflower: "🌻",
+  Cactus: "🌵",
+  Hedge: "🧱",
+  Treasure: "💰",
+  Dinosaur: "🦖",
+  Apple: "🍎",
+};
+
+export type SimulatorProps = {
+  editor?: editor.IStandaloneCodeEditor;
+  darkMode: boolean;
+};
+
+function Simulator({ editor, darkMode }: SimulatorProps) {
+  const simulation = useRef<Simulation>();
+  const runStart = useRef(0);
+  const [running, setRunning] = useState(false);
+  const [notice, setNotice] = useState<string>();
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  function reset(): Simulation | undefined {
+    const source = editor?.getModel()?.getValue();
+    if (source === undefined) return undefined;
+    simulation.current = new Simulation(source, builtins);
+    setNotice(undefined);
+    refresh();
+    return simulation.current;
+  }
+
+  function handleRun() {
+    let sim = simulation.current;
+    if (!sim || sim.done) sim = reset();
+    if (!sim || sim.done) return;
+    runStart.current = sim.steps;
+    setNotice(undefined);
+    setRunning(true);
+  }
+
+  function handleStep() {
+    let sim = simulation.current;
+    if (!sim || sim.done) sim = reset();
+    if (!sim || sim.done) return;
+    sim.run(MAX_STEPS_PER_RUN, true);
+    refresh();
+  }
+
+  function handleReset() {
+    setRunning(false);
+    reset();
+  }
+
+  useEffect(() => {
+    if (!running) return;
+    let frame = 0;
+    const tick = () => {
+      const sim = simulation.current;
+      if (!sim) return;
+      const status = sim.run(STEPS_PER_FRAME);
+      refresh();
+      if (status !== "running") {
+        setRunning(false);
+      } else if (sim.steps - runStart.current >= MAX_STEPS_PER_RUN) {
+        setRunning(false);
+        setNotice(
+          `Paused after ${MAX_STEPS_PER_RUN.toLocaleString()} steps. Press Run to continue.`,
+        );
+      } else {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [running]);
+
+  // Highlight the current statement while paused, or the one that failed.
+  const sim = simulation.current;
+  const loc =
+    !running && sim && (!sim.done || sim.error) ? sim.location : undefined;
+  useEffect(() => {
+    if (!editor || !loc) return;
+    const decorations = editor.createDecorationsCollection([
+      {
+        range: {
+          startLineNumber: loc.line,
+          startColumn: 1,
+          endLineNumber: loc.line,
+          endColumn: 1,
+        },
+        options: {
+          isWholeLine: true,
+          className: sim?.error
+            ? "simulator-error-line"
+            : "simulator-current-line",
+        },
+      },
+    ]);
+    editor.revealLineInCenterIfOutsideViewport(loc.line);
+    return () => decorations.clear();
+  }, [editor, loc?.line, sim?.error]);
+
+  useEffect(() => {
+    const output = outputRef.current;
+    if (output) output.scrollTop = output.scrollHeight;
+  }, [sim?.output.length]);
+
+  const panelBg = darkMode ? "#252526" : "#f3f3f3";
+  const buttonProps = {
+    size: "xs",
+    bgColor: darkMode ? "#575759" : "gray.200",
+    _hover: { bg: darkMode ? "#6b6b6d" : "gray.300" },
+    color: darkMode ? "white" : "inherit",
+  };
+
+  function tileColor(tile: Tile) {
+    if (tile.ground === "Soil") return darkMode ? "#5c4433" : "#c9a27e";
+    return darkMode ? "#2f4a2f" : "#a9d39e";
+  }
+
+  const rows: number[] = [];
+  if (sim) for (let y = sim.size - 1; y >= 0; y--) rows.push(y);
+
+  return (
+    <Flex
+      direction="column"
+      w="sm"
+      flexShrink={0}
+      bgColor={panelBg}
+      fontSize="sm"
+      overflowY="auto"
+      p={3}
+      gap={3}
+    >
+      <Flex justifyContent="space-between" alignItems="center">
+        <Heading size="sm">Simulator</Heading>
+        <ButtonGroup isAttached>
+          {running ? (
+            <Button
+              {...buttonProps}
+              leftIcon={<VscDebugPause />}
+              onClick={() => setRunning(false)}
+            >
+              Pause
+            </Button>
+          ) : (
+            <Button
+              {...buttonProps}
+              leftIcon={<VscDebugContinue />}
+              onClick={handleRun}
+            >
+              Run
+            </Button>
+          )}
+          <Button
+            {...buttonProps}
+            leftIcon={<VscDebugStepOver />}
+            isDisabled={running}
+            onClick={handleStep}
+          >
+            Step
+          </Button>
+          <Button
+            {...buttonProps}
+            leftIcon={<VscDebugRestart />}
+            onClick={handleReset}
+          >
+            Reset
+          </Button>
+        </ButtonGroup>
+      </Flex>
+
+      {sim ? (
+        <>
+          <Flex justifyContent="space-between" color="gray.500" fontSize="xs">
+            <Text>
+              Tick {sim.ticks.toLocaleString()} · {sim.steps.toLocaleString()}{" "}
+              steps
+            </Text>
+            <Text>
+              Drone ({sim.x}, {sim.y})
+            </Text>
+          </Flex>
+
+          <Grid
+            templateColumns={`repeat(${sim.size}, 1fr)`}
+            gap="2px"
+            aria-label="Farm"
+          >
+            {rows.map((y) =>
+              Array.from({ length: sim.size }, (_, x) => {
+                const tile = sim.tile(x, y);
+                const isDrone = sim.x === x && sim.y === y;
+                return (
+                  <Tooltip
+                    key={`${x},${y}`}
+                    label={`(${x}, ${y}) ${tile.ground}${tile.entity ? `, ${tile.entity.type}${sim.isGrown(tile) ? "" : " (growing)"}` : ""}`}
+                    openDelay={500}
+                  >
+                    <Flex
+                      aspectRatio={1}
+                      alignItems="center"
+                      justifyContent="center"
+                      rounded="sm"
+                      bgColor={tileColor(tile)}
+                      outline={isDrone ? "2px solid" : undefined}
+                      outlineColor="yellow.400"
+                      fontSize="md"
+                      opacity={tile.entity && !sim.isGrown(tile) ? 0.5 : 1}
+                    >
+                      {tile.entity
+                        ? (ENTITY_GLYPHS[tile.entity.type] ?? "?")
+                        : ""}
+                    </Flex>
+                  </Tooltip>
+                );
+              }),
+            )}
+          </Grid>
+
+          <Box>
+            <Heading size="xs" mb={1}>
+              Inventory
+            </Heading>
+            {Object.keys(sim.items).length ? (
+              <Stack spacing={0}>
+                {Object.entries(sim.items).map(([item, count]) => (
+                  <Flex key={item} justifyContent="space-between">
+                    <Text>{item.replace(/_/g, " ")}</Text>
+                    <Text>{count}</Text>
+                  </Flex>
+                ))}
+              </Stack>
+            ) : (
+              <Text color="gray.500">Empty</Text>
+            )}
+          </Box>
+
+          <Box>
+            <Heading size="xs" mb={1}>
+              Output
+            </Heading>
+            <Box
+              ref={outputRef}
+              fontFamily="mono"
+              fontSize="xs"
+              whiteSpace="pre-wrap"
+              bgColor={darkMode ? "#1e1e1e" : "white"}
+              rounded="sm"
+              p={2}
+              maxH="48"
+              overflowY="auto"
+            >
+              {sim.output.map((line, i) => (
+                <Text key={i} color={line.error ? "red.400" : undefined}>
+                  {line.text}
+                </Text>
+              ))}
+              {notice && <Text color="yellow.500">{notice}</Text>}
+              {sim.done && !sim.error && (
+                <Text color="gray.500">Finished.</Text>
+              )}
+            </Box>
+          </Box>
+        </>
+      ) : (
+        <Text color="gray.500">
+          Run or step through the code in the editor on a simulated farm.
+        </Text>
+      )}
+    </Flex>
+  );
+}
+
+export default Simulator;
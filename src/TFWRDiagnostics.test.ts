@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { computeDiagnostics } from "./TFWRDiagnostics";
+import { TFWRDocument } from "./TFWRDocument";
+import { parseBuiltins } from "./TFWRIntelliSense";
+import builtinsPy from "./__builtins__.py?raw";
+
+const builtins = parseBuiltins(builtinsPy);
+
+/** Returns the codes and positions of the diagnostics for a script. */
+function diagnose(text: string) {
+  return computeDiagnostics(new TFWRDocument(text), builtins).map(
+    ({ code, line, column }) => ({ code, line, column }),
+  );
+}
+
+describe("computeDiagnostics", () => {
+  it("accepts a script that only calls builtins", () => {
+    expect(diagnose("while True:\n    harvest()\n    move(North)")).toEqual([]);
+  });
+
+  it("matches builtins by their exact name", () => {
+    expect(diagnose("Harvest()\nx = north")).toEqual([
+      { code: "unknown-function", line: 1, column: 1 },
+      { code: "unknown-name", line: 2, column: 5 },
+    ]);
+  });
+
+  it("checks the number of arguments", () => {
+    expect(diagnose("move()\nharvest(1)")).toEqual([
+      { code: "argument-count", line: 1, column: 1 },
+      { code: "argument-count", line: 2, column: 1 },
+    ]);
+  });
+
+  it("warns about functions that are not called", () => {
+    expect(diagnose("harvest")).toEqual([
+      { code: "uncalled", line: 1, column: 1 },
+    ]);
+  });
+
+  it("stops at the end of the text after global and import", () => {
+    for (const keyword of ["global", "nonlocal", "import", "from"]) {
+      expect(() => diagnose(`x = 1\n${keyword}`)).not.toThrow();
+      expect(() => diagnose(`${keyword} x,`)).not.toThrow();
+    }
+    expect(diagnose("import math")).toEqual([
+      { code: "python-import", line: 1, column: 1 },
+    ]);
+  });
+
+  it("gives fixable Python features their own codes", () => {
+    expect(diagnose('print(f"{x}")\nx = 1')).toEqual([
+      { code: "f-string", line: 1, column: 7 },
+    ]);
+    expect(diagnose('print(f"{x!r}")\nx = 1')).toEqual([
+      { code: "unsupported", line: 1, column: 7 },
+    ]);
+    expect(diagnose("f = lambda x: x")).toEqual([
+      { code: "lambda", line: 1, column: 5 },
+    ]);
+  });
+});
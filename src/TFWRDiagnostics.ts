@@ -0,0 +1,306 @@
+// Static checks for game scripts, reported as Monaco markers by
+// `setupTFWRIntelliSense`. Lexical checks run on the tokens of the document,
+// and names and calls are checked against its scopes and __builtins__.py.
+// Uses of locked features are checked against the unlocks of everyone in the
+// pad.
+import type { TFWRDocument } from "./TFWRDocument";
+import type { ParsedBuiltins } from "./TFWRIntelliSense";
+import { Loc, Param, Stmt } from "./TFWRParser";
+import { concatenate, lambdaToDef } from "./TFWRQuickFixes";
+import { tokenize } from "./TFWRTokenizer";
+import {
+  UnlockProfiles,
+  describeLacking,
+  findUnlockUses,
+  lacking,
+} from "./TFWRUnlocks";
+
+/** A problem found in a document, with 1-based Monaco-style positions. */
+export type Diagnostic = {
+  severity: "error" | "warning" | "info";
+  /**
+   * Stable identifier for the kind of problem, used by quick fixes. Python
+   * features that can be rewritten for the game have their own codes, and the
+   * rest are `unsupported`, which has no fix.
+   */
+  code:
+    | "syntax"
+    | "unknown-name"
+    | "unknown-function"
+    | "unknown-member"
+    | "argument-count"
+    | "uncalled"
+    | "unsupported"
+    | "f-string"
+    | "python-import"
+    | "lambda"
+    | "locked";
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+};
+
+/** Python keywords for features that the game's language does not have. */
+const UNSUPPORTED_KEYWORDS: Record<string, string> = {
+  class: "Classes are not supported by the game",
+  try: "Exceptions are not supported by the game",
+  except: "Exceptions are not supported by the game",
+  finally: "Exceptions are not supported by the game",
+  raise: "Exceptions are not supported by the game",
+  lambda: "Lambdas are not supported by the game, use `def` instead",
+  with: "`with` statements are not supported by the game",
+  yield: "Generators are not supported by the game",
+  async: "`async` is not supported by the game",
+  await: "`await` is not supported by the game",
+};
+
+/**
+ * Python standard library modules that people tend to reach for. The game can
+ * only import other scripts from the save folder, never Python modules.
+ */
+const PYTHON_MODULES = new Set([
+  "collections",
+  "copy",
+  "functools",
+  "heapq",
+  "itertools",
+  "json",
+  "math",
+  "os",
+  "random",
+  "re",
+  "string",
+  "sys",
+  "time",
+  "typing",
+]);
+
+type Arity = { min: number; max: number };
+
+/** Count the required and maximum number of arguments from parameter strings. */
+function arityOf(params: string[]): Arity {
+  let min = 0;
+  let max = 0;
+  for (const p of params) {
+    if (p.startsWith("*")) {
+      max = Infinity;
+    } else {
+      max++;
+      if (!p.includes("=")) min++;
+    }
+  }
+  return { min, max };
+}
+
+/** Describe an arity for error messages, e.g. "1 to 2 arguments". */
+function describeArity({ min, max }: Arity): string {
+  const plural = (n: number) => `${n} argument${n === 1 ? "" : "s"}`;
+  if (max === Infinity) return `at least ${plural(min)}`;
+  if (min === max) return plural(min);
+  return `${min} to ${plural(max)}`;
+}
+
+/** Count the required and maximum number of arguments of a `def`. */
+function arityOfParams(params: Param[]): Arity {
+  let min = 0;
+  let max = 0;
+  for (const p of params) {
+    if (p.star) {
+      max = Infinity;
+    } else {
+      max++;
+      if (!p.default) min++;
+    }
+  }
+  return { min, max };
+}
+
+/** Collect names that make up a whole statement, like a bare `harvest`. */
+function collectBareNames(body: Stmt[], names: Set<Loc>) {
+  for (const s of body) {
+    if (s.kind === "Expr" && s.value.kind === "Name") {
+      names.add(s.value.loc);
+    } else if (s.kind === "If") {
+      collectBareNames(s.body, names);
+      collectBareNames(s.orelse, names);
+    } else if (
+      s.kind === "While" ||
+      s.kind === "For" ||
+      s.kind === "FunctionDef"
+    ) {
+      collectBareNames(s.body, names);
+    }
+  }
+}
+
+/** Compute all diagnostics for a game script. */
+export function computeDiagnostics(
+  document: TFWRDocument,
+  builtins: ParsedBuiltins,
+  profiles?: UnlockProfiles,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (
+    code: Diagnostic["code"],
+    message: string,
+    from: Loc,
+    to: Loc = from,
+    severity: Diagnostic["severity"] = "error",
+  ) =>
+    diagnostics.push({
+      severity,
+      code,
+      message,
+      line: from.line,
+      column: from.column,
+      endLine: to.endLine,
+      endColumn: to.endColumn,
+    });
+
+  // Lexical checks for Python features that the game does not have.
+  const { tokens } = tokenize(document.text);
+  const lines = document.text.split("\n");
+  const unsupported = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const next = tokens[i + 1];
+    if (t.type === "string") {
+      if (t.prefix?.includes("f")) {
+        report(
+          concatenate(t.value) === undefined ? "unsupported" : "f-string",
+          "f-strings are not supported by the game, use `str()` and `+`",
+          t,
+        );
+        unsupported.add(`${t.line}:${t.column}`);
+      }
+      continue;
+    }
+    if (t.type !== "name") continue;
+    if (t.value in UNSUPPORTED_KEYWORDS) {
+      const fixable =
+        t.value === "lambda" && lambdaToDef(lines[t.line - 1]) !== undefined;
+      report(
+        fixable ? "lambda" : "unsupported",
+        UNSUPPORTED_KEYWORDS[t.value],
+        t,
+      );
+      unsupported.add(`${t.line}:${t.column}`);
+    } else if (
+      (t.value === "import" || t.value === "from") &&
+      next?.type === "name" &&
+      PYTHON_MODULES.has(next.value)
+    ) {
+      // Only whole top-level statements can be removed, not imports in a
+      // block or next to the user's own scripts.
+      const statement = document.module.body.find(
+        (s) => s.kind === "Import" && s.loc.line === t.line,
+      );
+      const removable =
+        statement?.kind === "Import" &&
+        (statement.module !== undefined || statement.names.length === 1);
+      report(
+        removable ? "python-import" : "unsupported",
+        `Python modules cannot be imported in the game, only your own scripts`,
+        t,
+        next,
+      );
+    }
+  }
+
+  // The parser rejects these features too, but the messages above are more
+  // helpful, so skip its errors for the same tokens.
+  for (const e of document.errors) {
+    if (!unsupported.has(`${e.line}:${e.column}`)) {
+      diagnostics.push({ severity: "error", code: "syntax", ...e });
+    }
+  }
+
+  // Names, members and calls, resolved through the scopes of the document.
+  const bareNames = new Set<Loc>();
+  collectBareNames(document.module.body, bareNames);
+  for (const ref of document.scopes.references) {
+    const { name, symbol, call, member } = ref;
+    if (ref.binds) continue;
+
+    // A function on its own does nothing, it needs parentheses to be called.
+    if (
+      bareNames.has(ref.loc) &&
+      (symbol ? symbol.kind === "function" : name in builtins.functions)
+    ) {
+      report(
+        "uncalled",
+        `'${name}' is not called, add parentheses to call it`,
+        ref.loc,
+        ref.loc,
+        "warning",
+      );
+      continue;
+    }
+
+    if (!symbol) {
+      if (member && name in builtins.classes) {
+        // Members of builtin classes, e.g. `Items.Hay`.
+        if (!(member.name in builtins.classes[name].members)) {
+          report(
+            "unknown-member",
+            `'${name}' has no member '${member.name}'`,
+            member.loc,
+          );
+        }
+        continue;
+      }
+      if (
+        !(
+          name in builtins.functions ||
+          name in builtins.constants ||
+          name in builtins.classes
+        )
+      ) {
+        if (call) {
+          report("unknown-function", `Unknown function '${name}'`, ref.loc);
+        } else {
+          report("unknown-name", `Unknown name '${name}'`, ref.loc);
+        }
+        continue;
+      }
+    }
+
+    if (call) {
+      const builtin = builtins.functions[name];
+      const arity = symbol
+        ? symbol.kind === "function" && symbol.def
+          ? arityOfParams(symbol.def.params)
+          : undefined
+        : builtin && arityOf(builtin.params ?? []);
+      if (!arity) continue;
+      const count = call.args.length + call.keywords.length;
+      if (count < arity.min || count > arity.max) {
+        report(
+          "argument-count",
+          `'${name}' takes ${describeArity(arity)} but ${count} ${count === 1 ? "was" : "were"} given`,
+          ref.loc,
+          call.loc,
+        );
+      }
+    }
+  }
+
+  // Code that someone in the pad could not run in their game yet.
+  if (profiles) {
+    findUnlockUses(document).forEach(({ unlock, what, loc }) => {
+      const names = lacking(profiles, unlock);
+      if (!names.length) return;
+      report(
+        "locked",
+        `${what} requires Unlocks.${unlock}, but ${describeLacking(names)}`,
+        loc,
+        loc,
+        "warning",
+      );
+    });
+  }
+
+  return diagnostics;
+}
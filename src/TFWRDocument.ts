@@ -0,0 +1,285 @@
+// A parsed game script that follows the edits to an editor model. The text is
+// split into blocks at top-level statements and each block keeps its own AST,
+// so an edit only reparses the blocks around it. That keeps every keystroke
+// cheap, even in files with thousands of lines.
+import { Loc, Module, ParseError, Stmt, parseTokens } from "./TFWRParser";
+import { Analysis, analyze } from "./TFWRSymbols";
+import { Token, tokenize } from "./TFWRTokenizer";
+
+/** A change to the text, with line numbers from before the change. */
+export type TextChange = {
+  range: { startLineNumber: number; endLineNumber: number };
+  text: string;
+};
+
+/** The call that the cursor is in the arguments of, e.g. `f(a, |`. */
+export type CallContext = {
+  /** Name of the function, or of the method for `owner.name(`. */
+  name: string;
+  owner?: string;
+  /** Index of the argument under the cursor. */
+  argument: number;
+  /** Name of the keyword argument under the cursor, if any. */
+  keyword?: string;
+};
+
+/** Lines from one top-level statement up to the next, parsed on their own. */
+type Block = { startLine: number; body: Stmt[]; errors: ParseError[] };
+
+export class TFWRDocument {
+  private lines: string[] = [];
+  private blocks: Block[] = [];
+  private parsed?: { module: Module; errors: ParseError[] };
+  private analysis?: Analysis;
+
+  constructor(text: string) {
+    this.reset(text.split(/\r?\n/));
+  }
+
+  /** The text of the document, with `\n` line endings. */
+  get text(): string {
+    return this.lines.join("\n");
+  }
+
+  get module(): Module {
+    return this.combine().module;
+  }
+
+  /** Syntax errors, including those from the tokenizer. */
+  get errors(): ParseError[] {
+    return this.combine().errors;
+  }
+
+  /** Scopes and resolved names, computed on first use after each edit. */
+  get scopes(): Analysis {
+    return (this.analysis ??= analyze(this.module));
+  }
+
+  /** Apply the changes from one edit, given the full text after it. */
+  update(text: string, changes: TextChange[]) {
+    const lines = text.split(/\r?\n/);
+    let start = Infinity;
+    let end = 0;
+    let delta = 0;
+    for (const { range, text: inserted } of changes) {
+      start = Math.min(start, range.startLineNumber);
+      end = Math.max(end, range.endLineNumber);
+      delta +=
+        inserted.split("\n").length -
+        1 -
+        (range.endLineNumber - range.startLineNumber);
+    }
+    if (!changes.length || lines.length !== this.lines.length + delta) {
+      this.reset(lines);
+      return;
+    }
+
+    // Editing the first line of a block can join it to the previous one, for
+    // example by indenting it, so that block is parsed again as well.
+    const first = Math.max(this.blockIndex(start) - 1, 0);
+    const last = this.blockIndex(end);
+    const from = this.blocks[first].startLine;
+    const atEnd = last + 1 === this.blocks.length;
+    const to =
+      (atEnd ? this.lines.length : this.blocks[last + 1].startLine - 1) + delta;
+    const region = parseBlocks(lines.slice(from - 1, to), from, !atEnd);
+    if (!region) {
+      this.reset(lines);
+      return;
+    }
+    const after = this.blocks.slice(last + 1);
+    if (delta) after.forEach((b) => shiftBlock(b, delta));
+    this.blocks = [...this.blocks.slice(0, first), ...region, ...after];
+    this.lines = lines;
+    this.parsed = undefined;
+    this.analysis = undefined;
+  }
+
+  /** Returns the source text of a range. */
+  textOf(loc: Loc): string {
+    const lines = this.lines.slice(loc.line - 1, loc.endLine);
+    if (!lines.length) return "";
+    lines[lines.length - 1] = lines[lines.length - 1].slice(
+      0,
+      loc.endColumn - 1,
+    );
+    lines[0] = lines[0].slice(loc.column - 1);
+    return lines.join("\n");
+  }
+
+  /** Returns the call whose arguments contain a position, if any. */
+  callAt(line: number, column: number): CallContext | undefined {
+    const from = this.blocks[this.blockIndex(line)].startLine;
+    const source = [
+      ...this.lines.slice(from - 1, line - 1),
+      (this.lines[line - 1] ?? "").slice(0, column - 1),
+    ].join("\n");
+    const { tokens } = tokenize(source);
+
+    // Open brackets before the cursor, each with its arguments so far.
+    const stack: { open: number; argument: number; keyword?: string }[] = [];
+    tokens.forEach((t, i) => {
+      if (t.type !== "op") return;
+      const top = stack[stack.length - 1];
+      if (t.value === "(" || t.value === "[" || t.value === "{") {
+        stack.push({ open: i, argument: 0 });
+      } else if (t.value === ")" || t.value === "]" || t.value === "}") {
+        stack.pop();
+      } else if (t.value === "," && top) {
+        top.argument++;
+        top.keyword = undefined;
+      } else if (t.value === "=" && top && tokens[i - 1].type === "name") {
+        const before = tokens[i - 2];
+        if (
+          before?.type === "op" &&
+          (before.value === "(" || before.value === ",")
+        )
+          top.keyword = tokens[i - 1].value;
+      }
+    });
+
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const { open, argument, keyword } = stack[i];
+      const callee = tokens[open - 1];
+      if (tokens[open].value !== "(" || callee?.type !== "name") continue;
+      const dot = tokens[open - 2];
+      const owner =
+        dot?.type === "op" && dot.value === "." ? tokens[open - 3] : undefined;
+      return {
+        name: callee.value,
+        owner: owner?.type === "name" ? owner.value : undefined,
+        argument,
+        keyword,
+      };
+    }
+    return undefined;
+  }
+
+  private reset(lines: string[]) {
+    this.lines = lines;
+    this.blocks = parseBlocks(lines, 1, false)!;
+    this.parsed = undefined;
+    this.analysis = undefined;
+  }
+
+  private blockIndex(line: number): number {
+    return blockIndex(this.blocks, line);
+  }
+
+  private combine() {
+    if (!this.parsed) {
+      const body: Stmt[] = [];
+      const errors: ParseError[] = [];
+      this.blocks.forEach((b) => {
+        body.push(...b.body);
+        errors.push(...b.errors);
+      });
+      this.parsed = { module: { body }, errors };
+    }
+    return this.parsed;
+  }
+}
+
+/**
+ * Parse lines starting at `firstLine` into blocks. If `standalone` is set and
+ * the lines do not end cleanly, so that they would continue into the text
+ * after them, returns undefined.
+ */
+function parseBlocks(
+  lines: string[],
+  firstLine: number,
+  standalone: boolean,
+): Block[] | undefined {
+  const { tokens, errors } = tokenize(lines.join("\n"));
+  if (standalone && !endsCleanly(tokens, errors, lines)) return undefined;
+  const { body } = parseTokens(tokens, errors);
+
+  // An error at the very end means the last statement is unfinished, and
+  // would have continued into the text after these lines.
+  const errorAt = new Set(errors.map((e) => `${e.line}:${e.column}`));
+  const eof = tokens[tokens.length - 1];
+  if (standalone && errorAt.has(`${eof.line}:${eof.column}`)) return undefined;
+
+  // Blocks start at top-level statements in the first column. An error on the
+  // first token of a statement may belong to the one before it, such as a
+  // `def` without a body, so those statements stay in the previous block.
+  const starts = [1];
+  body.forEach(({ loc }) => {
+    if (
+      loc.column === 1 &&
+      loc.line > starts[starts.length - 1] &&
+      !errorAt.has(`${loc.line}:1`)
+    ) {
+      starts.push(loc.line);
+    }
+  });
+
+  const blocks: Block[] = starts.map((startLine) => ({
+    startLine,
+    body: [],
+    errors: [],
+  }));
+  body.forEach((s) => blocks[blockIndex(blocks, s.loc.line)].body.push(s));
+  errors.forEach((e) => blocks[blockIndex(blocks, e.line)].errors.push(e));
+  if (firstLine > 1) blocks.forEach((b) => shiftBlock(b, firstLine - 1));
+  return blocks;
+}
+
+/** Index of the block that contains a line. */
+function blockIndex(blocks: Block[], line: number): number {
+  let lo = 0;
+  let hi = blocks.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (blocks[mid].startLine <= line) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/** Whether tokenizing more text after these lines would start afresh. */
+function endsCleanly(
+  tokens: Token[],
+  errors: ParseError[],
+  lines: string[],
+): boolean {
+  let depth = 0;
+  let last: Token | undefined;
+  for (const t of tokens) {
+    if (t.type === "op") {
+      if (t.value === "(" || t.value === "[" || t.value === "{") depth++;
+      else if (t.value === ")" || t.value === "]" || t.value === "}")
+        depth = Math.max(0, depth - 1);
+    }
+    if (t.type !== "newline" && t.type !== "dedent" && t.type !== "eof")
+      last = t;
+  }
+  const string = last?.type === "string" ? last : undefined;
+  const unterminated =
+    string !== undefined &&
+    errors.some((e) => e.line === string.line && e.column === string.column);
+  const joined = /\\$/.test(lines[lines.length - 1] ?? "");
+  return depth === 0 && !unterminated && !joined;
+}
+
+function shiftBlock(block: Block, delta: number) {
+  block.startLine += delta;
+  shiftLocs(block.body, delta, new Set());
+  block.errors = block.errors.map((e) => ({
+    ...e,
+    line: e.line + delta,
+    endLine: e.endLine + delta,
+  }));
+}
+
+/** Move every location in a tree of AST nodes down by `delta` lines. */
+function shiftLocs(node: unknown, delta: number, seen: Set<object>) {
+  if (typeof node !== "object" || node === null || seen.has(node)) return;
+  seen.add(node);
+  const fields = node as Record<string, unknown>;
+  if (typeof fields.line === "number" && typeof fields.endLine === "number") {
+    fields.line += delta;
+    fields.endLine += delta;
+  }
+  Object.keys(fields).forEach((key) => shiftLocs(fields[key], delta, seen));
+}
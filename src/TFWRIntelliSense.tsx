@@ -1,122 +1,132 @@
-// Encapsulates Monaco providers for Python: completions, hovers, signature help,
-// built from __builtins__.py and a lightweight per-document symbol index.
+// Encapsulates Monaco providers for game scripts: completions, hovers, signature help,
+// diagnostics with quick fixes, navigation (definitions, references and rename) and
+// tick estimates, built from __builtins__.py and an incrementally parsed,
+// scope-aware view of each document.
+// Builtins that the user has not unlocked in game are sorted last and flagged.
 
 import builtinsPy from "./__builtins__.py?raw";
+import { computeDiagnostics } from "./TFWRDiagnostics";
+import { TFWRDocument } from "./TFWRDocument";
+import { TFWR_LANGUAGE } from "./TFWRLanguage";
+import { Loc } from "./TFWRParser";
+import { computeQuickFixes } from "./TFWRQuickFixes";
+import { FunctionDef, PySymbol, ValueType, docstring, lookup, referenceAt, scopeAt, visibleSymbols } from "./TFWRSymbols";
+import { TickCost, TickEstimates, describeBlock, describeCost, describeTicks, estimateTicks, parseTickCost } from "./TFWRTicks";
+import { KEYWORDS, Token, tokenize } from "./TFWRTokenizer";
+import { UnlockProfiles, describeLacking, lacking, unlockFor } from "./TFWRUnlocks";
 
 type ParsedBuiltins = {
   classes: Record<string, { members: Record<string, string | undefined> }>;
-  functions: Record<string, { doc?: string; signatureLabel?: string; params?: string[]; returnType?: string }>;
+  functions: Record<string, { doc?: string; signatureLabel?: string; params?: string[]; returnType?: string; ticks?: TickCost }>;
   constants: Record<string, { doc?: string }>;
   classNames: string[];
 };
 
-function parseBuiltins(py: string): ParsedBuiltins {
+// Split a parameter list on top-level commas, e.g. "a: dict[K, V], b" has two.
+function splitParams(paramsRaw: string): string[] {
+  const params: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of paramsRaw) {
+    if (ch === "[" || ch === "(") depth++;
+    else if (ch === "]" || ch === ")") depth--;
+    if (ch === "," && depth === 0) {
+      params.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) params.push(current.trim());
+  return params;
+}
+
+// Strip the quotes from a docstring literal and the indentation of its lines.
+function docText(literal: string): string {
+  const quote = literal.slice(0, 3);
+  const body = literal.length >= 6 && literal.endsWith(quote) ? literal.slice(3, -3) : literal.slice(3);
+  const [first, ...rest] = body.split(/\r?\n/);
+  return [first, ...rest.map((l) => l.trimStart())].join("\n").trim();
+}
+
+export function parseBuiltins(py: string): ParsedBuiltins {
   const classes: ParsedBuiltins["classes"] = {};
   const functions: ParsedBuiltins["functions"] = {};
   const constants: ParsedBuiltins["constants"] = {};
-
-  const lines = py.split(/\r?\n/);
-  let i = 0;
-  let currentClass: string | null = null;
-  const classDecl = /^class\s+([A-Za-z_][A-Za-z0-9_]*)\s*:/;
-  const memberDecl = /^(\s{4}|\t)([A-Za-z_][A-Za-z0-9_]*)\s*:\s*[A-Za-z_][A-Za-z0-9_\[\]]*/;
-  const defDecl = /^def\s+([A-Za-z_][A-Za-z0-9_]*)\s*\(([^)]*)\)\s*(?:->\s*([^:]+))?\s*:/;
-  const constDecl = /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*[A-Za-z_][A-Za-z0-9_]*\(/;
-
-  function readDocString(startIndex: number, minIndent = 0): { doc?: string; next: number } {
-    const linesLocal = lines;
-    let j = startIndex;
-    while (j < linesLocal.length && linesLocal[j].trim().length === 0) j++;
-    if (j >= linesLocal.length) return { next: j };
-    const raw = linesLocal[j];
-    const indent = raw.length - raw.trimStart().length;
-    if (indent < minIndent) return { next: j };
-    const t = raw.trimStart();
-    const triple = t.startsWith('"""') ? '"""' : t.startsWith("'''") ? "'''" : null;
-    if (!triple) return { next: j };
-    let content = t.slice(3);
-    if (content.includes(triple)) {
-      content = content.slice(0, content.indexOf(triple));
-      return { doc: content.trim(), next: j + 1 };
-    }
-    j++;
-    const parts: string[] = [];
-    while (j < linesLocal.length) {
-      const lt = linesLocal[j].trimStart();
-      const endIdx = lt.indexOf(triple);
-      if (endIdx !== -1) {
-        parts.push(lt.slice(0, endIdx));
-        j++;
-        break;
-      }
-      parts.push(lt);
-      j++;
-    }
-    return { doc: parts.join("\n").trim(), next: j };
+  const { tokens } = tokenize(py);
+
+  // Source text between two tokens, joined onto one line.
+  const lineStarts = [0];
+  for (let i = 0; i < py.length; i++) if (py[i] === "\n") lineStarts.push(i + 1);
+  const offset = (line: number, column: number) => lineStarts[line - 1] + column - 1;
+  const between = (from: Token, to: Token) =>
+    py.slice(offset(from.endLine, from.endColumn), offset(to.line, to.column)).replace(/\s*\r?\n\s*/g, " ").trim();
+  const isOp = (t: Token | undefined, value: string) => t !== undefined && t.type === "op" && t.value === value;
+
+  // A docstring is a triple-quoted string on the logical line after index `i`.
+  function docAfter(i: number): string | undefined {
+    while (i < tokens.length && tokens[i].type !== "newline") i++;
+    i++;
+    if (tokens[i]?.type === "indent") i++;
+    const t = tokens[i];
+    if (t?.type !== "string" || !/^('''|""")/.test(t.value)) return undefined;
+    return docText(t.value);
   }
 
-  while (i < lines.length) {
-    const line = lines[i];
-    const c = classDecl.exec(line);
-    if (c) {
-      currentClass = c[1];
-      if (!classes[currentClass]) classes[currentClass] = { members: {} };
-      i++;
-      continue;
-    }
-
-    if (currentClass) {
-      const m = memberDecl.exec(line);
-      if (m) {
-        const name = m[2];
-        const { doc, next } = readDocString(i + 1, 4);
-        classes[currentClass].members[name] = doc;
-        i = next;
-        continue;
-      }
-      if (line.trim().length && !/^\s/.test(line)) {
-        currentClass = null;
-        continue;
-      }
+  // Index of the first `value` token after `i` outside of brackets.
+  function findOp(i: number, value: string): number {
+    let depth = 0;
+    for (; i < tokens.length && tokens[i].type !== "newline"; i++) {
+      const t = tokens[i];
+      if (t.type !== "op") continue;
+      if (depth === 0 && t.value === value) return i;
+      if (t.value === "(" || t.value === "[" || t.value === "{") depth++;
+      else if (t.value === ")" || t.value === "]" || t.value === "}") depth--;
     }
+    return i;
+  }
 
-    if (!currentClass) {
-      const d = defDecl.exec(line);
-      if (d) {
-        const name = d[1];
-        const paramsRaw = (d[2] || "").trim();
-        const returnType = (d[3] || "").trim();
-        const params = paramsRaw.length ? paramsRaw.split(",").map((p) => p.trim()) : [];
+  let depth = 0;
+  let currentClass: string | null = null;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const prev = tokens[i - 1];
+    if (t.type === "indent") depth++;
+    else if (t.type === "dedent") depth--;
+    const atStart = !prev || prev.type === "newline" || prev.type === "indent" || prev.type === "dedent";
+    if (t.type !== "name" || !atStart) continue;
+    const next = tokens[i + 1];
+
+    if (depth === 0) {
+      currentClass = null;
+      if (t.value === "class" && next?.type === "name") {
+        currentClass = next.value;
+        if (!classes[currentClass]) classes[currentClass] = { members: {} };
+      } else if (t.value === "def" && next?.type === "name" && isOp(tokens[i + 2], "(")) {
+        const name = next.value;
+        const close = findOp(i + 3, ")");
+        const arrow = isOp(tokens[close + 1], "->") ? close + 1 : undefined;
+        const colon = findOp(close + 1, ":");
+        const paramsRaw = between(tokens[i + 2], tokens[close]).replace(/,$/, "");
+        const returnType = arrow === undefined ? "" : between(tokens[arrow], tokens[colon]);
+        const params = splitParams(paramsRaw);
         const signatureLabel = `${name}(${paramsRaw})${returnType ? ` -> ${returnType}` : ""}`;
-        const { doc, next } = readDocString(i + 1, 0);
-        functions[name] = { doc, signatureLabel, params, returnType };
-        i = next;
-        continue;
-      }
-      const k = constDecl.exec(line);
-      if (k) {
-        const name = k[1];
-        const { doc, next } = readDocString(i + 1, 0);
-        constants[name] = { doc };
-        i = next;
-        continue;
+        const doc = docAfter(colon);
+        functions[name] = { doc, signatureLabel, params, returnType, ticks: parseTickCost(doc) };
+      } else if (isOp(next, "=") && tokens[i + 2]?.type === "name" && isOp(tokens[i + 3], "(")) {
+        constants[t.value] = { doc: docAfter(i) };
       }
+    } else if (depth === 1 && currentClass && isOp(next, ":") && tokens[i + 2]?.type === "name") {
+      classes[currentClass].members[t.value] = docAfter(i);
     }
-    i++;
   }
 
   return { classes, functions, constants, classNames: Object.keys(classes) };
 }
 
-type CoreType = "list" | "dict" | "set" | "str" | "unknown";
-type SymbolIndex = {
-  vars: Record<string, CoreType>;
-  functions: Record<string, { params: string[]; label: string }>;
-};
-
 type MethodInfo = { name: string; label: string; params: string[]; doc?: string };
 
-const METHOD_METADATA: Record<Exclude<CoreType, "str" | "unknown">, MethodInfo[]> = {
+const METHOD_METADATA: Record<Exclude<ValueType, "str" | "unknown">, MethodInfo[]> = {
   list: [
     { name: "append", label: "list.append(item: Any) -> None", params: ["item: Any"], doc: "Append item to the end of the list." },
     { name: "remove", label: "list.remove(item: Any) -> None", params: ["item: Any"], doc: "Remove first occurrence of item. Raises if not present." },
@@ -132,90 +142,69 @@ const METHOD_METADATA: Record<Exclude<CoreType, "str" | "unknown">, MethodInfo[]
   ],
 };
 
-function buildSymbolIndex(text: string): SymbolIndex {
-  const vars: SymbolIndex["vars"] = {};
-  const functions: SymbolIndex["functions"] = {};
-
-  // Functions
-  {
-    const re = /^def\s+([A-Za-z_][A-Za-z0-9_]*)\s*\(([^)]*)\)\s*:/gm;
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(text)) !== null) {
-      const name = m[1];
-      const paramsRaw = (m[2] || "").trim();
-      const params = paramsRaw ? paramsRaw.split(",").map((p) => p.trim()) : [];
-      functions[name] = { params, label: `${name}(${paramsRaw})` };
-    }
-  }
-
-  // Type annotations
-  {
-    const re = /^([A-Za-z_][A-Za-z0-9_]*)\s*:\s*(list|dict|set|str)\b/gm;
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(text)) !== null) {
-      vars[m[1]] = m[2] as CoreType;
-    }
-  }
+// Signature of a function defined in the document, e.g. "go(steps, direction = North)".
+function functionSignature(doc: TFWRDocument, def: FunctionDef): { label: string; params: string[] } {
+  const params = def.params.map((p) => `${p.star ?? ""}${p.name}${p.default ? ` = ${doc.textOf(p.default.loc)}` : ""}`);
+  return { label: `${def.name}(${params.join(", ")})`, params };
+}
 
-  // Assignments and literals
-  const assignPatterns: Array<[CoreType, RegExp[]]> = [
-    [
-      "list",
-      [
-        /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*\[\s*\]\s*$/gm,
-        /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*\[[^\]]*\]\s*$/gm,
-        /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*list\s*\(/gm,
-      ],
-    ],
-    [
-      "dict",
-      [
-        /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*\{\s*\}\s*$/gm,
-        /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*\{[^}]*:[^}]*\}\s*$/gm,
-        /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*dict\s*\(/gm,
-      ],
-    ],
-    ["set", [/^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*set\s*\(/gm]],
-    [
-      "str",
-      [/^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*("[^"]*"|'[^']*')\s*$/gm, /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*str\s*\(/gm],
-    ],
-  ];
-  for (const [t, regs] of assignPatterns) {
-    for (const re of regs) {
-      let m: RegExpExecArray | null;
-      while ((m = re.exec(text)) !== null) {
-        vars[m[1]] = t;
-      }
-    }
-  }
+// One-line description of a symbol for hovers and completion details.
+function describeSymbol(doc: TFWRDocument, symbol: PySymbol): string {
+  if (symbol.kind === "function" && symbol.def) return `(function) ${functionSignature(doc, symbol.def).label}`;
+  if (symbol.kind === "parameter") return `(parameter) ${symbol.name}`;
+  if (symbol.kind === "module") return `(module) ${symbol.name}`;
+  const type = symbol.type === "unknown" ? "" : `: ${symbol.type}`;
+  return `(${symbol.scope.kind === "module" ? "variable" : "local variable"}) ${symbol.name}${type}`;
+}
 
-  return { vars, functions };
+// Whether the end of a line prefix is in a comment or an unfinished string.
+function inCommentOrString(linePrefix: string): boolean {
+  const { tokens, errors } = tokenize(linePrefix);
+  const last = tokens.filter((t) => t.type !== "newline" && t.type !== "indent" && t.type !== "dedent" && t.type !== "eof").pop();
+  if (!last) return linePrefix.trim().length > 0;
+  // Comments are skipped by the tokenizer, so they show up as trailing text.
+  if (last.endColumn <= linePrefix.length) return true;
+  return last.type === "string" && errors.some((e) => e.line === last.line && e.column === last.column);
 }
 
-export function setupTFWRIntelliSense(editor: any, monaco: any) {
+/** Handle to the providers registered for an editor. */
+export type TFWRIntelliSense = {
+  dispose: () => void;
+  /** Update the unlocks of the user and collaborators, and recheck the code. */
+  setUnlocks: (profiles: UnlockProfiles) => void;
+};
+
+export function setupTFWRIntelliSense(editor: any, monaco: any): TFWRIntelliSense {
   // Shared state per editor instance
   const builtins = parseBuiltins(builtinsPy);
-  const symbolIndexes: Map<string, SymbolIndex> = new Map();
-  const indexTimers: Map<string, any> = new Map();
+  let profiles: UnlockProfiles = { collaborators: [] };
+  const documents: Map<string, { doc: TFWRDocument; version: number }> = new Map();
+  const markerTimers: Map<string, any> = new Map();
   const disposables: { dispose: () => void }[] = [];
 
-  // Helper to get model key and index
+  // Helper to get model key and parsed document
   function modelKey(model: any): string {
     return model?.uri?.toString?.() || "default";
   }
-  function getOrBuildIndex(model: any): SymbolIndex {
+  function getDocument(model: any): TFWRDocument {
     const key = modelKey(model);
-    let idx = symbolIndexes.get(key);
-    if (!idx) {
-      try {
-        idx = buildSymbolIndex(model.getValue());
-      } catch {
-        idx = { vars: {}, functions: {} };
-      }
-      symbolIndexes.set(key, idx);
-    }
-    return idx;
+    const version = model.getVersionId();
+    const entry = documents.get(key);
+    if (entry && entry.version === version) return entry.doc;
+    const doc = new TFWRDocument(model.getValue());
+    documents.set(key, { doc, version });
+    return doc;
+  }
+  // Tick estimates, shared by inlay hints and code lenses of the same version
+  const estimates: Map<string, { ticks: TickEstimates; version: number }> = new Map();
+  function getTicks(model: any): TickEstimates {
+    const key = modelKey(model);
+    const version = model.getVersionId();
+    const entry = estimates.get(key);
+    if (entry && entry.version === version) return entry.ticks;
+    const ticks = estimateTicks(getDocument(model), builtins);
+    estimates.set(key, { ticks, version });
+    return ticks;
   }
 
   // Auto-trigger suggestions after ClassName.
@@ -234,41 +223,83 @@ export function setupTFWRIntelliSense(editor: any, monaco: any) {
   });
   disposables.push({ dispose: () => autoSuggest.dispose() });
 
-  // Keep a debounced per-model index
-  const model = editor.getModel();
-  if (model) {
-    try { symbolIndexes.set(modelKey(model), buildSymbolIndex(model.getValue())); } catch {}
-    const sub = model.onDidChangeContent(() => {
-      const key = modelKey(model);
-      const t = indexTimers.get(key);
-      if (t) clearTimeout(t);
-      const nt = setTimeout(() => {
-        try { symbolIndexes.set(key, buildSymbolIndex(model.getValue())); } catch {}
-      }, 200);
-      indexTimers.set(key, nt);
+  // Diagnostics are published as markers under this owner.
+  const MARKER_OWNER = "tfwr";
+  const severities: Record<string, number> = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info,
+  };
+  const markedModels: Set<any> = new Set();
+  function updateMarkers(m: any) {
+    let markers: any[] = [];
+    try {
+      markers = computeDiagnostics(getDocument(m), builtins, profiles).map((d) => ({
+        severity: severities[d.severity],
+        code: d.code,
+        message: d.message,
+        source: "tfwr",
+        startLineNumber: d.line,
+        startColumn: d.column,
+        endLineNumber: d.endLine,
+        endColumn: d.endColumn,
+      }));
+    } catch {}
+    monaco.editor.setModelMarkers(m, MARKER_OWNER, markers);
+    markedModels.add(m);
+  }
+
+  // Reparse on every change, which only touches the edited blocks, and
+  // refresh markers once typing pauses. Edits from collaborators arrive as
+  // model content changes too, so everyone in the pad sees the same markers.
+  function track(m: any) {
+    updateMarkers(m);
+    if (markerTimers.has(modelKey(m))) return;
+    markerTimers.set(modelKey(m), undefined);
+    const sub = m.onDidChangeContent((e: any) => {
+      const key = modelKey(m);
+      const entry = documents.get(key);
+      if (entry) {
+        try {
+          entry.doc.update(m.getValue(), e.changes);
+          entry.version = m.getVersionId();
+        } catch {
+          documents.delete(key);
+        }
+      }
+      clearTimeout(markerTimers.get(key));
+      markerTimers.set(key, setTimeout(() => updateMarkers(m), 200));
     });
     disposables.push({ dispose: () => sub.dispose() });
   }
 
+  const model = editor.getModel();
+  if (model) track(model);
   const modelSwitch = editor.onDidChangeModel(() => {
     const m = editor.getModel();
-    if (!m) return;
-    try { symbolIndexes.set(modelKey(m), buildSymbolIndex(m.getValue())); } catch {}
-    const sub = m.onDidChangeContent(() => {
-      const key = modelKey(m);
-      const t = indexTimers.get(key);
-      if (t) clearTimeout(t);
-      const nt = setTimeout(() => {
-        try { symbolIndexes.set(key, buildSymbolIndex(m.getValue())); } catch {}
-      }, 200);
-      indexTimers.set(key, nt);
-    });
-    disposables.push({ dispose: () => sub.dispose() });
+    if (m) track(m);
   });
   disposables.push({ dispose: () => modelSwitch.dispose() });
+  disposables.push({
+    dispose: () => {
+      markerTimers.forEach((t) => clearTimeout(t));
+      markedModels.forEach((m) => {
+        if (!m.isDisposed()) monaco.editor.setModelMarkers(m, MARKER_OWNER, []);
+      });
+    },
+  });
+
+  // Whether the user lacks the unlock for a builtin, and a note on who does.
+  function isLocked(unlock?: string): boolean {
+    return unlock !== undefined && profiles.mine !== undefined && !profiles.mine.includes(unlock);
+  }
+  function unlockNote(unlock?: string): { value: string }[] {
+    const names = unlock ? lacking(profiles, unlock) : [];
+    return names.length ? [{ value: `Requires \`Unlocks.${unlock}\`, but ${describeLacking(names)}` }] : [];
+  }
 
   // Completion provider
-  const completionDisposable = monaco.languages.registerCompletionItemProvider("python", {
+  const completionDisposable = monaco.languages.registerCompletionItemProvider(TFWR_LANGUAGE, {
     triggerCharacters: ["."],
     provideCompletionItems(model: any, position: any) {
       const word = model.getWordUntilPosition(position);
@@ -276,16 +307,19 @@ export function setupTFWRIntelliSense(editor: any, monaco: any) {
       const linePrefix: string = model
         .getValueInRange(new monaco.Range(position.lineNumber, 1, position.lineNumber, position.column))
         .trimEnd();
+      if (inCommentOrString(linePrefix)) return { suggestions: [] };
 
-      const symIndex = getOrBuildIndex(model);
+      const doc = getDocument(model);
+      const scope = scopeAt(doc.scopes.root, position.lineNumber, position.column);
 
       // identifier. — variable methods or builtins class members
       const m = linePrefix.match(/(?:^|\W)([A-Za-z_][A-Za-z0-9_]*)\.[A-Za-z_0-9]*$/);
       if (m) {
         const id = m[1];
-        const varType = (symIndex.vars && symIndex.vars[id]) || "unknown";
+        const symbol = lookup(scope, id);
+        const varType = symbol ? symbol.type : "unknown";
         if (varType === "list" || varType === "dict" || varType === "set") {
-          const methods = (METHOD_METADATA as any)[varType] as MethodInfo[];
+          const methods = METHOD_METADATA[varType];
           const suggestions = methods.map((mi: MethodInfo, idx: number) => ({
             label: mi.name,
             kind: monaco.languages.CompletionItemKind.Method,
@@ -298,33 +332,43 @@ export function setupTFWRIntelliSense(editor: any, monaco: any) {
           }));
           return { suggestions };
         }
-        const clsKey = Object.keys(builtins.classes).find((k) => k.toLowerCase() === id.toLowerCase());
+        // Names are case-sensitive in the game, so `items.` has no members.
+        const clsKey = !symbol && id in builtins.classes ? id : undefined;
         if (clsKey) {
           const members = builtins.classes[clsKey].members;
-          const suggestions = Object.entries(members).map(([name, doc], idx) => ({
-            label: name,
-            kind: monaco.languages.CompletionItemKind.EnumMember,
-            insertText: name,
-            range,
-            detail: `${clsKey} member`,
-            documentation: doc ? { value: doc } : undefined,
-            sortText: `0_${idx.toString().padStart(3, "0")}_${name}`,
-            preselect: idx === 0,
-          }));
+          const suggestions = Object.entries(members).map(([name, doc], idx) => {
+            const unlock = unlockFor(clsKey, name);
+            const locked = isLocked(unlock);
+            return {
+              label: name,
+              kind: monaco.languages.CompletionItemKind.EnumMember,
+              insertText: name,
+              range,
+              detail: locked ? `${clsKey} member (needs Unlocks.${unlock})` : `${clsKey} member`,
+              documentation: doc ? { value: doc } : undefined,
+              sortText: `${locked ? 9 : 0}_${idx.toString().padStart(3, "0")}_${name}`,
+              preselect: idx === 0 && !locked,
+            };
+          });
           return { suggestions };
         }
+        return { suggestions: [] };
       }
 
-      // Top-level: local functions and builtins
-      const localFunctionSuggestions = Object.entries(symIndex.functions || {}).map(([name, info]: [string, any], idx: number) => ({
-        label: name,
-        kind: monaco.languages.CompletionItemKind.Function,
-        insertText: `${name}()` ,
-        range,
-        detail: "function (document)",
-        documentation: { value: (info as any).label },
-        sortText: `1_${idx.toString().padStart(3, "0")}_${name}`,
-      }));
+      // Names in scope, innermost first, then builtins
+      const { Function, Variable, Module } = monaco.languages.CompletionItemKind;
+      const localSuggestions = visibleSymbols(scope).map((symbol: PySymbol, idx: number) => {
+        const isFunction = symbol.kind === "function";
+        return {
+          label: symbol.name,
+          kind: isFunction ? Function : symbol.kind === "module" ? Module : Variable,
+          insertText: isFunction ? `${symbol.name}()` : symbol.name,
+          range,
+          detail: isFunction ? "function (document)" : describeSymbol(doc, symbol),
+          documentation: isFunction ? { value: describeSymbol(doc, symbol) } : undefined,
+          sortText: `${isFunction ? 1 : 0}_${idx.toString().padStart(3, "0")}_${symbol.name}`,
+        };
+      });
       const classSuggestions = builtins.classNames.map((name: string, idx: number) => ({
         label: name,
         kind: monaco.languages.CompletionItemKind.Class,
@@ -335,15 +379,19 @@ export function setupTFWRIntelliSense(editor: any, monaco: any) {
       }));
       const functionSuggestions = Object
         .entries(builtins.functions as Record<string, { doc?: string }>)
-        .map(([name, { doc }]: [string, { doc?: string }], idx: number) => ({
-          label: name,
-          kind: monaco.languages.CompletionItemKind.Function,
-          insertText: `${name}()` ,
-          range,
-          detail: "function",
-          documentation: doc ? { value: doc } : undefined,
-          sortText: `2_${idx.toString().padStart(3, "0")}_${name}`,
-        }));
+        .map(([name, { doc }]: [string, { doc?: string }], idx: number) => {
+          const unlock = unlockFor(name);
+          const locked = isLocked(unlock);
+          return {
+            label: name,
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: `${name}()` ,
+            range,
+            detail: locked ? `function (needs Unlocks.${unlock})` : "function",
+            documentation: doc ? { value: doc } : undefined,
+            sortText: `${locked ? 9 : 2}_${idx.toString().padStart(3, "0")}_${name}`,
+          };
+        });
       const constantSuggestions = Object
         .entries(builtins.constants as Record<string, { doc?: string }>)
         .map(([name, { doc }]: [string, { doc?: string }], idx: number) => ({
@@ -356,15 +404,24 @@ export function setupTFWRIntelliSense(editor: any, monaco: any) {
           sortText: `3_${idx.toString().padStart(3, "0")}_${name}`,
         }));
       return { suggestions: [
-        ...localFunctionSuggestions, ...classSuggestions, ...functionSuggestions, ...constantSuggestions,
+        ...localSuggestions, ...classSuggestions, ...functionSuggestions, ...constantSuggestions,
       ] };
     },
   });
   disposables.push({ dispose: () => completionDisposable.dispose() });
 
   // Hover provider
-  const hoverDisposable = monaco.languages.registerHoverProvider("python", {
+  const hoverDisposable = monaco.languages.registerHoverProvider(TFWR_LANGUAGE, {
     provideHover(model: any, position: any) {
+      // Names defined in the document, which may shadow builtins.
+      const doc = getDocument(model);
+      const ref = referenceAt(doc.scopes, position.lineNumber, position.column);
+      if (ref?.symbol) {
+        const { symbol } = ref;
+        const docStr = symbol.def && docstring(symbol.def);
+        return { range: toRange(ref.loc), contents: [{ value: describeSymbol(doc, symbol) }, ...(docStr ? [{ value: docStr }] : [])] };
+      }
+
       const lineContent: string = model.getLineContent(position.lineNumber);
       const regex = /\b([A-Za-z_][A-Za-z0-9_]*)\.([A-Za-z_][A-Za-z0-9_]*)\b/g;
       let match: RegExpExecArray | null;
@@ -375,27 +432,27 @@ export function setupTFWRIntelliSense(editor: any, monaco: any) {
         const startColumn = match.index + 1;
         const endColumn = startColumn + full.length;
         if (position.column >= startColumn && position.column <= endColumn) {
-          const clsKey = Object.keys(builtins.classes).find((k) => k.toLowerCase() === cls.toLowerCase());
+          const clsKey = cls in builtins.classes ? cls : undefined;
           if (!clsKey) return null;
           const members = builtins.classes[clsKey].members;
-          const memberKey = Object.keys(members).find((k) => k.toLowerCase() === name.toLowerCase());
+          const memberKey = name in members ? name : undefined;
           if (!memberKey) return null;
           const doc = members[memberKey];
           const range = new monaco.Range(position.lineNumber, startColumn, position.lineNumber, endColumn);
-          return { range, contents: [{ value: `${clsKey}.${memberKey}` }, ...(doc ? [{ value: doc }] : [])] };
+          return { range, contents: [{ value: `${clsKey}.${memberKey}` }, ...(doc ? [{ value: doc }] : []), ...unlockNote(unlockFor(clsKey, memberKey))] };
         }
       }
       const word = model.getWordAtPosition(position);
       if (word) {
         const w = word.word as string;
-        const fn = Object.entries(builtins.functions).find(([k]) => k.toLowerCase() === w.toLowerCase());
+        const fn = w in builtins.functions ? builtins.functions[w] : undefined;
         if (fn) {
-          const doc = fn[1].doc;
-          return { range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn), contents: [{ value: `${w}()` }, ...(doc ? [{ value: doc }] : [])] };
+          const doc = fn.doc;
+          return { range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn), contents: [{ value: `${w}()` }, ...(doc ? [{ value: doc }] : []), ...unlockNote(unlockFor(w))] };
         }
-        const kc = Object.entries(builtins.constants).find(([k]) => k.toLowerCase() === w.toLowerCase());
+        const kc = w in builtins.constants ? builtins.constants[w] : undefined;
         if (kc) {
-          const doc = kc[1].doc;
+          const doc = kc.doc;
           return { range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn), contents: [{ value: w }, ...(doc ? [{ value: doc }] : [])] };
         }
       }
@@ -404,72 +461,193 @@ export function setupTFWRIntelliSense(editor: any, monaco: any) {
   });
   disposables.push({ dispose: () => hoverDisposable.dispose() });
 
-  // Signature help
-  const signatureDisposable = monaco.languages.registerSignatureHelpProvider("python", {
+  // Signature help, for the innermost call around the cursor, e.g. `f(g(x), |`.
+  const signatureDisposable = monaco.languages.registerSignatureHelpProvider(TFWR_LANGUAGE, {
     signatureHelpTriggerCharacters: ["(", ","],
     provideSignatureHelp(model: any, position: any) {
-      const textBefore = model.getValueInRange(new monaco.Range(position.lineNumber, 1, position.lineNumber, position.column));
-      const symIndex = getOrBuildIndex(model);
-
-      // Method calls: var.method(
-      const methodMatch = /([A-Za-z_][A-Za-z0-9_]*)\.([A-Za-z_][A-Za-z0-9_]*)\s*\([^()]*$/.exec(textBefore);
-      if (methodMatch) {
-        const varName = methodMatch[1];
-        const methodName = methodMatch[2];
-        const varType = (symIndex.vars && symIndex.vars[varName]) || "unknown";
-        if (varType === "list" || varType === "dict" || varType === "set") {
-          const mi = ((METHOD_METADATA as any)[varType] as MethodInfo[]).find((m: MethodInfo) => m.name.toLowerCase() === methodName.toLowerCase());
-          if (mi) {
-            const openIdx = textBefore.lastIndexOf("(");
-            const argsSoFar = openIdx >= 0 ? textBefore.slice(openIdx + 1) : "";
-            const commaCount = (argsSoFar.match(/,/g) || []).length;
-            const activeParameter = Math.min(commaCount, Math.max(0, mi.params.length - 1));
-            return {
-              value: {
-                signatures: [{ label: mi.label, parameters: mi.params.map((p: string) => ({ label: p })), documentation: mi.doc ? { value: mi.doc } : undefined }],
-                activeSignature: 0,
-                activeParameter,
-              },
-              dispose: () => {},
-            };
-          }
-        }
-      }
+      const doc = getDocument(model);
+      const call = doc.callAt(position.lineNumber, position.column);
+      if (!call) return null;
+      const scope = scopeAt(doc.scopes.root, position.lineNumber, position.column);
 
-      // Top-level functions: builtins or user-defined
-      const fnMatch = /([A-Za-z_][A-Za-z0-9_]*)\s*\([^()]*$/.exec(textBefore);
-      if (!fnMatch) return null;
-      const fnName = fnMatch[1];
-      const builtinFn = Object.entries(builtins.functions).find(([k]) => k.toLowerCase() === fnName.toLowerCase());
       let label = "";
       let params: string[] = [];
       let docStr: string | undefined = undefined;
-      if (builtinFn) {
-        const info = builtinFn[1];
-        label = info.signatureLabel || `${fnName}()`;
-        params = info.params || [];
-        docStr = info.doc;
-      } else if (symIndex.functions && symIndex.functions[fnName]) {
-        const f = symIndex.functions[fnName];
-        label = f.label;
-        params = f.params;
+      if (call.owner !== undefined) {
+        // Method calls: var.method(
+        const varType = lookup(scope, call.owner)?.type ?? "unknown";
+        if (varType !== "list" && varType !== "dict" && varType !== "set") return null;
+        const mi = METHOD_METADATA[varType].find((m: MethodInfo) => m.name === call.name);
+        if (!mi) return null;
+        label = mi.label;
+        params = mi.params;
+        docStr = mi.doc;
       } else {
-        return null;
+        // Functions: user-defined or builtins
+        const symbol = lookup(scope, call.name);
+        const info = !symbol && call.name in builtins.functions ? builtins.functions[call.name] : undefined;
+        if (symbol?.def) {
+          ({ label, params } = functionSignature(doc, symbol.def));
+          docStr = docstring(symbol.def);
+        } else if (info) {
+          label = info.signatureLabel || `${call.name}()`;
+          params = info.params || [];
+          docStr = info.doc;
+        } else {
+          return null;
+        }
       }
-      const openIdx = textBefore.lastIndexOf("(");
-      const argsSoFar = openIdx >= 0 ? textBefore.slice(openIdx + 1) : "";
-      const commaCount = (argsSoFar.match(/,/g) || []).length;
-      const activeParameter = Math.min(commaCount, Math.max(0, params.length - 1));
+
+      // Keyword arguments select their parameter by name.
+      const paramName = (p: string) => p.replace(/^\*+/, "").split(/[:=]/)[0].trim();
+      const byKeyword = call.keyword === undefined ? -1 : params.findIndex((p) => paramName(p) === call.keyword);
+      const starred = params.findIndex((p) => p.startsWith("*"));
+      const activeParameter = byKeyword >= 0
+        ? byKeyword
+        : starred >= 0 && call.argument >= starred
+          ? starred
+          : Math.min(call.argument, Math.max(0, params.length - 1));
       const signatures = [{ label, parameters: params.map((p) => ({ label: p })), documentation: docStr ? { value: docStr } : undefined }];
       return { value: { signatures, activeSignature: 0, activeParameter }, dispose: () => {} };
     },
   });
   disposables.push({ dispose: () => signatureDisposable.dispose() });
 
-  return () => {
-    for (const d of disposables) {
-      try { d.dispose(); } catch {}
-    }
+  function toRange(loc: Loc) {
+    return new monaco.Range(loc.line, loc.column, loc.endLine, loc.endColumn);
+  }
+
+  // Go to definition, e.g. Ctrl-click on a call.
+  const definitionDisposable = monaco.languages.registerDefinitionProvider(TFWR_LANGUAGE, {
+    provideDefinition(model: any, position: any) {
+      const ref = referenceAt(getDocument(model).scopes, position.lineNumber, position.column);
+      if (!ref?.symbol) return null;
+      return ref.symbol.definitions.map((loc) => ({ uri: model.uri, range: toRange(loc) }));
+    },
+  });
+  disposables.push({ dispose: () => definitionDisposable.dispose() });
+
+  // Find all references
+  const referenceDisposable = monaco.languages.registerReferenceProvider(TFWR_LANGUAGE, {
+    provideReferences(model: any, position: any, context: any) {
+      const ref = referenceAt(getDocument(model).scopes, position.lineNumber, position.column);
+      if (!ref?.symbol) return null;
+      const { definitions, occurrences } = ref.symbol;
+      return occurrences
+        .filter((loc) => context.includeDeclaration || !definitions.includes(loc))
+        .map((loc) => ({ uri: model.uri, range: toRange(loc) }));
+    },
+  });
+  disposables.push({ dispose: () => referenceDisposable.dispose() });
+
+  // Rename. All occurrences change in one edit, which Rustpad sends to
+  // collaborators as a single operation.
+  const reservedNames = new Set([
+    ...Object.keys(builtins.functions),
+    ...Object.keys(builtins.constants),
+    ...builtins.classNames,
+  ]);
+  const renameDisposable = monaco.languages.registerRenameProvider(TFWR_LANGUAGE, {
+    resolveRenameLocation(model: any, position: any) {
+      const ref = referenceAt(getDocument(model).scopes, position.lineNumber, position.column);
+      if (!ref?.symbol || ref.symbol.kind === "module") {
+        return { range: null, text: "", rejectReason: "You can only rename functions and variables defined in this file." };
+      }
+      return { range: toRange(ref.loc), text: ref.symbol.name };
+    },
+    provideRenameEdits(model: any, position: any, newName: string) {
+      const analysis = getDocument(model).scopes;
+      const symbol = referenceAt(analysis, position.lineNumber, position.column)?.symbol;
+      if (!symbol) return null;
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(newName) || KEYWORDS.has(newName)) {
+        return { edits: [], rejectReason: `'${newName}' is not a valid name.` };
+      }
+      if (reservedNames.has(newName)) {
+        return { edits: [], rejectReason: `'${newName}' is a builtin.` };
+      }
+      // The new name must not already mean something where the symbol is used.
+      const uses = analysis.references.filter((r) => r.symbol === symbol);
+      if (newName !== symbol.name && uses.some((r) => lookup(r.scope, newName))) {
+        return { edits: [], rejectReason: `'${newName}' is already defined.` };
+      }
+      const versionId = model.getVersionId();
+      return {
+        edits: symbol.occurrences.map((loc) => ({
+          resource: model.uri,
+          versionId,
+          textEdit: { range: toRange(loc), text: newName },
+        })),
+      };
+    },
+  });
+  disposables.push({ dispose: () => renameDisposable.dispose() });
+
+  // Quick fixes for the markers under the cursor, like the case of `items.hay`.
+  const codeActionDisposable = monaco.languages.registerCodeActionProvider(TFWR_LANGUAGE, {
+    provideCodeActions(model: any, _range: any, context: any) {
+      const doc = getDocument(model);
+      const versionId = model.getVersionId();
+      const actions = context.markers
+        .filter((marker: any) => marker.owner === MARKER_OWNER)
+        .flatMap((marker: any) =>
+          computeQuickFixes(doc, builtins, { code: marker.code, line: marker.startLineNumber, column: marker.startColumn }).map((fix) => ({
+            title: fix.title,
+            kind: "quickfix",
+            diagnostics: [marker],
+            isPreferred: fix.preferred,
+            edit: {
+              edits: fix.edits.map(({ loc, text }) => ({ resource: model.uri, versionId, textEdit: { range: toRange(loc), text } })),
+            },
+          })),
+        );
+      return { actions, dispose: () => {} };
+    },
+  }, { providedCodeActionKinds: ["quickfix"] });
+  disposables.push({ dispose: () => codeActionDisposable.dispose() });
+
+  // Tick cost after each call of a builtin or of a function in the document.
+  const inlayHintsDisposable = monaco.languages.registerInlayHintsProvider(TFWR_LANGUAGE, {
+    provideInlayHints(model: any, range: any) {
+      const hints = getTicks(model).calls
+        .filter(({ loc, ticks }) => ticks.worst > 0 && loc.endLine >= range.startLineNumber && loc.endLine <= range.endLineNumber)
+        .map(({ name, loc, ticks, cost }) => ({
+          kind: monaco.languages.InlayHintKind.Type,
+          position: { lineNumber: loc.endLine, column: loc.endColumn },
+          label: describeTicks(ticks),
+          tooltip: cost ? `${name}() takes ${describeCost(cost)}` : `Estimated ticks of one call to ${name}()`,
+          paddingLeft: true,
+        }));
+      return { hints, dispose: () => {} };
+    },
+  });
+  disposables.push({ dispose: () => inlayHintsDisposable.dispose() });
+
+  // Best and worst-case ticks above each function and loop. The lenses only
+  // show estimates, so their command does nothing.
+  const codeLensDisposable = monaco.languages.registerCodeLensProvider(TFWR_LANGUAGE, {
+    provideCodeLenses(model: any) {
+      const lenses = getTicks(model).blocks.map((block, i) => ({
+        id: `ticks-${i}`,
+        range: new monaco.Range(block.loc.line, 1, block.loc.line, 1),
+        command: { id: "", title: describeBlock(block) },
+      }));
+      return { lenses, dispose: () => {} };
+    },
+  });
+  disposables.push({ dispose: () => codeLensDisposable.dispose() });
+
+  return {
+    dispose: () => {
+      for (const d of disposables) {
+        try { d.dispose(); } catch {}
+      }
+    },
+    setUnlocks: (next) => {
+      profiles = next;
+      markedModels.forEach((m) => {
+        if (!m.isDisposed()) updateMarkers(m);
+      });
+    },
   };
 }
 
@@ -0,0 +1,1526 @@
+// Sandboxed interpreter for the game's Python subset. Scripts are compiled to
+// a small stack-based bytecode and run by a VM that executes one instruction
+// at a time, which lets the simulator step, pause, and cut off runaway loops
+// without ever blocking the page.
+import { Expr, Loc, Module, Stmt, parse } from "./TFWRParser";
+
+// -- Values ----------------------------------------------------------------
+
+/** A float, boxed so that `1.0` stays a float while plain numbers are ints. */
+export type PyFloat = { kind: "float"; value: number };
+/** A `range`, which produces its numbers one at a time when iterated. */
+export type PyRange = {
+  kind: "range";
+  start: number;
+  stop: number;
+  step: number;
+};
+export type PyList = { kind: "list"; items: Value[] };
+export type PyTuple = { kind: "tuple"; items: Value[] };
+export type PyDict = { kind: "dict"; entries: Map<string, [Value, Value]> };
+export type PySet = { kind: "set"; entries: Map<string, Value> };
+export type PyFunction = {
+  kind: "function";
+  code: CodeObject;
+  defaults: Value[];
+};
+export type PyBuiltin = {
+  kind: "builtin";
+  name: string;
+  call: (args: Value[], kwargs: Record<string, Value>) => Value;
+};
+/** A member of a builtin class such as `Items.Hay`, or a direction. */
+export type PyMember = { kind: "member"; owner: string; name: string };
+/** A builtin class such as `Items`, whose attributes are members. */
+export type PyClass = { kind: "class"; name: string; members: string[] };
+type PyMethod = { kind: "method"; self: Value; name: string };
+type PyIterator = { kind: "iterator"; next: () => Value | undefined };
+type PySlice = {
+  kind: "slice";
+  lower: Value;
+  upper: Value;
+  step: Value;
+};
+
+export type Value =
+  | number
+  | string
+  | boolean
+  | null
+  | PyFloat
+  | PyRange
+  | PyList
+  | PyTuple
+  | PyDict
+  | PySet
+  | PyFunction
+  | PyBuiltin
+  | PyMember
+  | PyClass
+  | PyMethod
+  | PyIterator
+  | PySlice;
+
+/** A runtime error raised by a script, pointing at the failing statement. */
+export class PyError {
+  constructor(
+    readonly message: string,
+    public loc?: Loc,
+  ) {}
+}
+
+export function typeName(v: Value): string {
+  if (v === null) return "NoneType";
+  if (typeof v === "number") return "int";
+  if (typeof v === "string") return "str";
+  if (typeof v === "boolean") return "bool";
+  if (v.kind === "member") return v.owner;
+  return v.kind;
+}
+
+export function truthy(v: Value): boolean {
+  if (v === null) return false;
+  if (typeof v === "boolean") return v;
+  if (typeof v === "number") return v !== 0;
+  if (typeof v === "string") return v.length > 0;
+  switch (v.kind) {
+    case "list":
+    case "tuple":
+      return v.items.length > 0;
+    case "dict":
+    case "set":
+      return v.entries.size > 0;
+    case "float":
+      return v.value !== 0;
+    case "range":
+      return rangeLength(v) > 0;
+  }
+  return true;
+}
+
+/** Python's `repr()`, used when printing containers. */
+export function pyRepr(v: Value): string {
+  if (typeof v === "string")
+    return `'${v.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+  return pyStr(v);
+}
+
+/** Python's `str()`. */
+export function pyStr(v: Value): string {
+  if (v === null) return "None";
+  if (typeof v === "boolean") return v ? "True" : "False";
+  if (typeof v === "number") {
+    return Number.isFinite(v) ? String(v) : formatFloat(v);
+  }
+  if (typeof v === "string") return v;
+  switch (v.kind) {
+    case "float":
+      return formatFloat(v.value);
+    case "range":
+      return v.step === 1
+        ? `range(${v.start}, ${v.stop})`
+        : `range(${v.start}, ${v.stop}, ${v.step})`;
+    case "list":
+      return `[${v.items.map(pyRepr).join(", ")}]`;
+    case "tuple":
+      return v.items.length === 1
+        ? `(${pyRepr(v.items[0])},)`
+        : `(${v.items.map(pyRepr).join(", ")})`;
+    case "dict": {
+      const parts: string[] = [];
+      v.entries.forEach(([k, x]) => parts.push(`${pyRepr(k)}: ${pyRepr(x)}`));
+      return `{${parts.join(", ")}}`;
+    }
+    case "set": {
+      if (!v.entries.size) return "set()";
+      const parts: string[] = [];
+      v.entries.forEach((x) => parts.push(pyRepr(x)));
+      return `{${parts.join(", ")}}`;
+    }
+    case "member":
+      return v.owner === "Direction" ? v.name : `${v.owner}.${v.name}`;
+    case "class":
+      return v.name;
+    case "function":
+      return `<function ${v.code.name}>`;
+    case "builtin":
+      return `<built-in function ${v.name}>`;
+    case "method":
+      return `<method ${v.name}>`;
+    default:
+      return `<${v.kind}>`;
+  }
+}
+
+/**
+ * Python's `repr()` of a float: the shortest digits that read back as the same
+ * number, with `.0` on whole numbers and an exponent outside 1e-4 to 1e16.
+ */
+function formatFloat(x: number): string {
+  if (Number.isNaN(x)) return "nan";
+  if (!Number.isFinite(x)) return x > 0 ? "inf" : "-inf";
+  if (x === 0) return 1 / x < 0 ? "-0.0" : "0.0";
+  const [mantissa, exponent] = x.toExponential().split("e");
+  const e = Number(exponent);
+  if (e >= -4 && e < 16) {
+    const text = String(x);
+    return text.indexOf(".") < 0 ? `${text}.0` : text;
+  }
+  return `${mantissa}e${e < 0 ? "-" : "+"}${Math.abs(e) < 10 ? "0" : ""}${Math.abs(e)}`;
+}
+
+/** Key used to store a value in a dict or set. */
+function hashKey(v: Value): string {
+  if (v === null) return "None";
+  if (typeof v === "boolean") return `n:${v ? 1 : 0}`;
+  if (typeof v === "number") return `n:${v}`;
+  if (typeof v === "string") return `s:${v}`;
+  if (v.kind === "float") return `n:${v.value}`;
+  if (v.kind === "member") return `m:${v.owner}.${v.name}`;
+  if (v.kind === "tuple") return `t:(${v.items.map(hashKey).join(",")})`;
+  if (v.kind === "class") return `c:${v.name}`;
+  throw new PyError(`unhashable type: '${typeName(v)}'`);
+}
+
+export function pyEquals(a: Value, b: Value): boolean {
+  if (a === b) return true;
+  if (a === null || b === null) return false;
+  const na = numeric(a);
+  const nb = numeric(b);
+  if (na !== undefined || nb !== undefined) return na === nb;
+  if (typeof a !== "object" || typeof b !== "object") return false;
+  if (a.kind !== b.kind) return false;
+  switch (a.kind) {
+    case "list":
+    case "tuple": {
+      const bi = (b as PyList | PyTuple).items;
+      return (
+        a.items.length === bi.length &&
+        a.items.every((x, i) => pyEquals(x, bi[i]))
+      );
+    }
+    case "member":
+      return (
+        a.owner === (b as PyMember).owner && a.name === (b as PyMember).name
+      );
+    case "range": {
+      // Ranges are equal when they produce the same numbers.
+      const br = b as PyRange;
+      const length = rangeLength(a);
+      return (
+        length === rangeLength(br) &&
+        (length === 0 ||
+          (a.start === br.start && (length === 1 || a.step === br.step)))
+      );
+    }
+    case "dict": {
+      const be = (b as PyDict).entries;
+      if (a.entries.size !== be.size) return false;
+      let equal = true;
+      a.entries.forEach(([, x], k) => {
+        const entry = be.get(k);
+        if (!entry || !pyEquals(x, entry[1])) equal = false;
+      });
+      return equal;
+    }
+    case "set": {
+      const be = (b as PySet).entries;
+      if (a.entries.size !== be.size) return false;
+      let equal = true;
+      a.entries.forEach((_, k) => {
+        if (!be.has(k)) equal = false;
+      });
+      return equal;
+    }
+  }
+  return false;
+}
+
+/** The number that an int, float or bool stands for, if it is one. */
+export function numeric(v: Value): number | undefined {
+  if (typeof v === "number") return v;
+  if (typeof v === "boolean") return Number(v);
+  if (isFloat(v)) return v.value;
+  return undefined;
+}
+
+function isFloat(v: Value): v is PyFloat {
+  return v !== null && typeof v === "object" && v.kind === "float";
+}
+
+/** A float if any operand was one, and otherwise an int. */
+function numberOf(value: number, float: boolean): Value {
+  return float ? makeFloat(value) : value;
+}
+
+function toNumber(v: Value, op: string): number {
+  const n = numeric(v);
+  if (n !== undefined) return n;
+  throw new PyError(`unsupported operand type for ${op}: '${typeName(v)}'`);
+}
+
+function compareValues(a: Value, b: Value, op: string): number {
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (
+    a !== null &&
+    b !== null &&
+    typeof a === "object" &&
+    typeof b === "object" &&
+    (a.kind === "list" || a.kind === "tuple") &&
+    a.kind === b.kind
+  ) {
+    const bi = (b as PyList).items;
+    for (let i = 0; i < Math.min(a.items.length, bi.length); i++) {
+      if (!pyEquals(a.items[i], bi[i]))
+        return compareValues(a.items[i], bi[i], op);
+    }
+    return a.items.length - bi.length;
+  }
+  try {
+    return toNumber(a, op) - toNumber(b, op);
+  } catch {
+    throw new PyError(
+      `'${op}' not supported between '${typeName(a)}' and '${typeName(b)}'`,
+    );
+  }
+}
+
+export function makeFloat(value: number): PyFloat {
+  return { kind: "float", value };
+}
+
+export function makeRange(start: number, stop: number, step = 1): PyRange {
+  if (step === 0) throw new PyError("range() arg 3 must not be zero");
+  return { kind: "range", start, stop, step };
+}
+
+/** Number of values that a range produces. */
+export function rangeLength({ start, stop, step }: PyRange): number {
+  return Math.max(0, Math.ceil((stop - start) / step));
+}
+
+export function makeList(items: Value[]): PyList {
+  return { kind: "list", items };
+}
+
+export function makeTuple(items: Value[]): PyTuple {
+  return { kind: "tuple", items };
+}
+
+export function makeDict(pairs: [Value, Value][] = []): PyDict {
+  const entries = new Map<string, [Value, Value]>();
+  for (const [k, v] of pairs) entries.set(hashKey(k), [k, v]);
+  return { kind: "dict", entries };
+}
+
+export function makeSet(items: Value[] = []): PySet {
+  const entries = new Map<string, Value>();
+  for (const v of items) entries.set(hashKey(v), v);
+  return { kind: "set", entries };
+}
+
+/** Materialize any iterable value into an array. */
+export function iterate(v: Value): Value[] {
+  const it = getIterator(v);
+  const out: Value[] = [];
+  for (let x = it.next(); x !== undefined; x = it.next()) out.push(x);
+  return out;
+}
+
+function getIterator(v: Value): PyIterator {
+  if (typeof v === "string") {
+    const chars = Array.from(v);
+    let i = 0;
+    return {
+      kind: "iterator",
+      next: () => (i < chars.length ? chars[i++] : undefined),
+    };
+  }
+  if (v !== null && typeof v === "object") {
+    switch (v.kind) {
+      case "list":
+      case "tuple": {
+        let i = 0;
+        return {
+          kind: "iterator",
+          next: () => (i < v.items.length ? v.items[i++] : undefined),
+        };
+      }
+      case "dict":
+      case "set": {
+        const values: Value[] = [];
+        if (v.kind === "dict") v.entries.forEach(([k]) => values.push(k));
+        else v.entries.forEach((x) => values.push(x));
+        let i = 0;
+        return {
+          kind: "iterator",
+          next: () => (i < values.length ? values[i++] : undefined),
+        };
+      }
+      case "range": {
+        const { stop, step } = v;
+        let i = v.start;
+        return {
+          kind: "iterator",
+          next: () => {
+            if (step > 0 ? i >= stop : i <= stop) return undefined;
+            i += step;
+            return i - step;
+          },
+        };
+      }
+      case "iterator":
+        return v;
+    }
+  }
+  throw new PyError(`'${typeName(v)}' object is not iterable`);
+}
+
+function binary(op: string, a: Value, b: Value): Value {
+  if (op === "+") {
+    if (typeof a === "string" && typeof b === "string") return a + b;
+    if (isSeq(a) && isSeq(b) && a.kind === b.kind) {
+      return { kind: a.kind, items: [...a.items, ...b.items] };
+    }
+    if (typeof a === "string" || typeof b === "string") {
+      throw new PyError(
+        `can only concatenate str (not "${typeName(typeof a === "string" ? b : a)}") to str`,
+      );
+    }
+  }
+  if (op === "*") {
+    const [seq, n] = isSeq(a) || typeof a === "string" ? [a, b] : [b, a];
+    if (typeof seq === "string")
+      return seq.repeat(Math.max(0, toNumber(n, op)));
+    if (isSeq(seq)) {
+      const items: Value[] = [];
+      for (let i = 0; i < toNumber(n, op); i++) items.push(...seq.items);
+      return { kind: seq.kind, items };
+    }
+  }
+  if (isSetLike(a) && isSetLike(b) && ["|", "&", "-", "^"].includes(op)) {
+    const out = makeSet();
+    a.entries.forEach((v, k) => {
+      const inB = b.entries.has(k);
+      if (
+        op === "|" ||
+        (op === "&" && inB) ||
+        ((op === "-" || op === "^") && !inB)
+      ) {
+        out.entries.set(k, v);
+      }
+    });
+    b.entries.forEach((v, k) => {
+      if (op === "|" || (op === "^" && !a.entries.has(k)))
+        out.entries.set(k, v);
+    });
+    return out;
+  }
+  const x = toNumber(a, op);
+  const y = toNumber(b, op);
+  const float = isFloat(a) || isFloat(b);
+  if (float && ["&", "|", "^", "<<", ">>"].includes(op)) {
+    throw new PyError(
+      `unsupported operand type(s) for ${op}: '${typeName(a)}' and '${typeName(b)}'`,
+    );
+  }
+  switch (op) {
+    case "+":
+      return numberOf(x + y, float);
+    case "-":
+      return numberOf(x - y, float);
+    case "*":
+      return numberOf(x * y, float);
+    case "/":
+      if (y === 0) throw new PyError("division by zero");
+      return makeFloat(x / y);
+    case "//":
+      if (y === 0) throw new PyError("integer division or modulo by zero");
+      return numberOf(Math.floor(x / y), float);
+    case "%":
+      if (y === 0) throw new PyError("integer division or modulo by zero");
+      return numberOf(((x % y) + y) % y, float);
+    case "**":
+      return numberOf(Math.pow(x, y), float || y < 0);
+    case "&":
+      return x & y;
+    case "|":
+      return x | y;
+    case "^":
+      return x ^ y;
+    case "<<":
+      return x << y;
+    case ">>":
+      return x >> y;
+  }
+  throw new PyError(`unknown operator ${op}`);
+}
+
+function isSeq(v: Value): v is PyList | PyTuple {
+  return (
+    v !== null &&
+    typeof v === "object" &&
+    (v.kind === "list" || v.kind === "tuple")
+  );
+}
+
+function isSetLike(v: Value): v is PySet {
+  return v !== null && typeof v === "object" && v.kind === "set";
+}
+
+function contains(container: Value, item: Value): boolean {
+  if (typeof container === "string") {
+    if (typeof item !== "string") {
+      throw new PyError("'in <string>' requires string as left operand");
+    }
+    return container.includes(item);
+  }
+  if (container !== null && typeof container === "object") {
+    if (container.kind === "list" || container.kind === "tuple") {
+      return container.items.some((x) => pyEquals(x, item));
+    }
+    if (container.kind === "dict" || container.kind === "set") {
+      return container.entries.has(hashKey(item));
+    }
+    if (container.kind === "range") {
+      const n = numeric(item);
+      const { start, step } = container;
+      return (
+        n !== undefined &&
+        (n - start) % step === 0 &&
+        (n - start) / step >= 0 &&
+        (n - start) / step < rangeLength(container)
+      );
+    }
+  }
+  throw new PyError(
+    `argument of type '${typeName(container)}' is not iterable`,
+  );
+}
+
+function compare(op: string, a: Value, b: Value): boolean {
+  switch (op) {
+    case "==":
+      return pyEquals(a, b);
+    case "!=":
+      return !pyEquals(a, b);
+    case "is":
+      return (
+        a === b || (a === null && b === null) || (isMember(a) && pyEquals(a, b))
+      );
+    case "is not":
+      return !compare("is", a, b);
+    case "in":
+      return contains(b, a);
+    case "not in":
+      return !contains(b, a);
+    case "<":
+      return compareValues(a, b, op) < 0;
+    case ">":
+      return compareValues(a, b, op) > 0;
+    case "<=":
+      return compareValues(a, b, op) <= 0;
+    case ">=":
+      return compareValues(a, b, op) >= 0;
+  }
+  throw new PyError(`unknown comparison ${op}`);
+}
+
+function isMember(v: Value): v is PyMember {
+  return v !== null && typeof v === "object" && v.kind === "member";
+}
+
+function normalizeIndex(index: Value, length: number): number {
+  const i = toNumber(index, "[]");
+  if (isFloat(index) || !Number.isInteger(i))
+    throw new PyError("indices must be integers");
+  const n = i < 0 ? i + length : i;
+  if (n < 0 || n >= length) throw new PyError("index out of range");
+  return n;
+}
+
+function sliceIndices(s: PySlice, length: number): number[] {
+  const step = s.step === null ? 1 : toNumber(s.step, "[]");
+  if (step === 0) throw new PyError("slice step cannot be zero");
+  const clamp = (v: Value, def: number) => {
+    if (v === null) return def;
+    let n = toNumber(v, "[]");
+    if (n < 0) n += length;
+    return step > 0
+      ? Math.min(Math.max(n, 0), length)
+      : Math.min(Math.max(n, -1), length - 1);
+  };
+  const start = clamp(s.lower, step > 0 ? 0 : length - 1);
+  const stop = clamp(s.upper, step > 0 ? length : -1);
+  const out: number[] = [];
+  for (let i = start; step > 0 ? i < stop : i > stop; i += step) out.push(i);
+  return out;
+}
+
+function getItem(obj: Value, index: Value): Value {
+  if (typeof obj === "string" || isSeq(obj)) {
+    const items = typeof obj === "string" ? Array.from(obj) : obj.items;
+    if (index !== null && typeof index === "object" && index.kind === "slice") {
+      const picked = sliceIndices(index, items.length).map((i) => items[i]);
+      if (typeof obj === "string") return picked.join("");
+      return { kind: obj.kind, items: picked };
+    }
+    return items[normalizeIndex(index, items.length)];
+  }
+  if (obj !== null && typeof obj === "object" && obj.kind === "range") {
+    return obj.start + normalizeIndex(index, rangeLength(obj)) * obj.step;
+  }
+  if (obj !== null && typeof obj === "object" && obj.kind === "dict") {
+    const entry = obj.entries.get(hashKey(index));
+    if (!entry) throw new PyError(`KeyError: ${pyRepr(index)}`);
+    return entry[1];
+  }
+  throw new PyError(`'${typeName(obj)}' object is not subscriptable`);
+}
+
+function setItem(obj: Value, index: Value, value: Value) {
+  if (obj !== null && typeof obj === "object") {
+    if (obj.kind === "list") {
+      obj.items[normalizeIndex(index, obj.items.length)] = value;
+      return;
+    }
+    if (obj.kind === "dict") {
+      obj.entries.set(hashKey(index), [index, value]);
+      return;
+    }
+  }
+  throw new PyError(
+    `'${typeName(obj)}' object does not support item assignment`,
+  );
+}
+
+const METHODS: Record<string, string[]> = {
+  list: [
+    "append",
+    "remove",
+    "insert",
+    "pop",
+    "index",
+    "count",
+    "sort",
+    "reverse",
+    "extend",
+  ],
+  dict: ["pop", "keys", "values", "items", "get"],
+  set: ["add", "remove", "discard", "pop"],
+  str: ["upper", "lower", "split", "join", "strip", "startswith", "endswith"],
+};
+
+function getAttr(obj: Value, name: string): Value {
+  if (obj !== null && typeof obj === "object" && obj.kind === "class") {
+    if (obj.members.includes(name)) {
+      return { kind: "member", owner: obj.name, name };
+    }
+    throw new PyError(`type object '${obj.name}' has no attribute '${name}'`);
+  }
+  const type = typeName(obj);
+  if (METHODS[type]?.includes(name)) {
+    return { kind: "method", self: obj, name };
+  }
+  throw new PyError(`'${type}' object has no attribute '${name}'`);
+}
+
+function callMethod(self: Value, name: string, args: Value[]): Value {
+  const arg = (i: number) => {
+    if (i >= args.length)
+      throw new PyError(`${name}() missing required argument`);
+    return args[i];
+  };
+  if (typeof self === "string") {
+    switch (name) {
+      case "upper":
+        return self.toUpperCase();
+      case "lower":
+        return self.toLowerCase();
+      case "strip":
+        return self.trim();
+      case "startswith":
+        return self.startsWith(String(arg(0)));
+      case "endswith":
+        return self.endsWith(String(arg(0)));
+      case "split":
+        return makeList(
+          args.length
+            ? self.split(String(args[0]))
+            : self.split(/\s+/).filter(Boolean),
+        );
+      case "join":
+        return iterate(arg(0)).map(pyStr).join(self);
+    }
+  } else if (self !== null && typeof self === "object") {
+    if (self.kind === "list") {
+      const items = self.items;
+      switch (name) {
+        case "append":
+          items.push(arg(0));
+          return null;
+        case "extend":
+          items.push(...iterate(arg(0)));
+          return null;
+        case "insert": {
+          const i = toNumber(arg(0), "insert");
+          items.splice(i < 0 ? Math.max(0, items.length + i) : i, 0, arg(1));
+          return null;
+        }
+        case "remove": {
+          const i = items.findIndex((x) => pyEquals(x, arg(0)));
+          if (i === -1) throw new PyError("list.remove(x): x not in list");
+          items.splice(i, 1);
+          return null;
+        }
+        case "pop": {
+          if (!items.length) throw new PyError("pop from empty list");
+          const i = args.length
+            ? normalizeIndex(args[0], items.length)
+            : items.length - 1;
+          return items.splice(i, 1)[0];
+        }
+        case "index": {
+          const i = items.findIndex((x) => pyEquals(x, arg(0)));
+          if (i === -1) throw new PyError(`${pyRepr(arg(0))} is not in list`);
+          return i;
+        }
+        case "count":
+          return items.filter((x) => pyEquals(x, arg(0))).length;
+        case "reverse":
+          items.reverse();
+          return null;
+        case "sort":
+          items.sort((a, b) => compareValues(a, b, "<"));
+          return null;
+      }
+    } else if (self.kind === "dict") {
+      switch (name) {
+        case "pop": {
+          const key = hashKey(arg(0));
+          const entry = self.entries.get(key);
+          if (!entry) {
+            if (args.length > 1) return args[1];
+            throw new PyError(`KeyError: ${pyRepr(arg(0))}`);
+          }
+          self.entries.delete(key);
+          return entry[1];
+        }
+        case "get": {
+          const entry = self.entries.get(hashKey(arg(0)));
+          return entry ? entry[1] : args.length > 1 ? args[1] : null;
+        }
+        case "keys":
+        case "values":
+        case "items": {
+          const out: Value[] = [];
+          self.entries.forEach(([k, v]) =>
+            out.push(
+              name === "keys" ? k : name === "values" ? v : makeTuple([k, v]),
+            ),
+          );
+          return makeList(out);
+        }
+      }
+    } else if (self.kind === "set") {
+      switch (name) {
+        case "add":
+          self.entries.set(hashKey(arg(0)), arg(0));
+          return null;
+        case "remove":
+        case "discard": {
+          const key = hashKey(arg(0));
+          if (!self.entries.delete(key) && name === "remove") {
+            throw new PyError(`KeyError: ${pyRepr(arg(0))}`);
+          }
+          return null;
+        }
+        case "pop": {
+          let first: string | undefined;
+          self.entries.forEach((_, k) => (first = first ?? k));
+          if (first === undefined) throw new PyError("pop from an empty set");
+          const v = self.entries.get(first)!;
+          self.entries.delete(first);
+          return v;
+        }
+      }
+    }
+  }
+  throw new PyError(`'${typeName(self)}' object has no attribute '${name}'`);
+}
+
+// -- Compiler --------------------------------------------------------------
+
+type Instr =
+  | { op: "LINE"; loc: Loc }
+  | { op: "CONST"; value: Value }
+  | { op: "LOAD" | "STORE"; name: string }
+  | { op: "LOAD_ATTR"; name: string }
+  | { op: "LOAD_SUBSCR" | "STORE_SUBSCR" | "BUILD_SLICE" }
+  | { op: "BINARY"; operator: string }
+  | { op: "UNARY"; operator: string }
+  | { op: "COMPARE"; operator: string }
+  | { op: "BUILD"; type: "list" | "tuple" | "set" | "dict"; count: number }
+  | { op: "APPEND"; type: "list" | "set" | "dict"; depth: number }
+  | { op: "UNPACK"; count: number }
+  | {
+      op:
+        | "JUMP"
+        | "JUMP_IF_FALSE"
+        | "JUMP_IF_TRUE_OR_POP"
+        | "JUMP_IF_FALSE_OR_POP"
+        | "FOR_ITER";
+      target: number;
+    }
+  | { op: "POP" | "DUP" | "DUP2" | "ROT2" | "ROT3" | "GET_ITER" | "RETURN" }
+  | { op: "CALL"; argc: number; kwnames: string[] }
+  | { op: "MAKE_FUNCTION"; code: CodeObject; ndefaults: number }
+  | { op: "IMPORT"; module: string };
+
+/** Compiled code for a module or a function body. */
+export type CodeObject = {
+  name: string;
+  params: { name: string; star?: "*" | "**" }[];
+  /** Names local to a function, or `null` for module-level code. */
+  locals: Set<string> | null;
+  instrs: Instr[];
+};
+
+type LoopContext = { breaks: number[]; continueTarget: number; isFor: boolean };
+
+class Compiler {
+  private readonly instrs: Instr[] = [];
+  private readonly loops: LoopContext[] = [];
+
+  static compileModule(module: Module): CodeObject {
+    const c = new Compiler();
+    c.block(module.body);
+    c.emit({ op: "CONST", value: null });
+    c.emit({ op: "RETURN" });
+    return { name: "<module>", params: [], locals: null, instrs: c.instrs };
+  }
+
+  private static compileFunction(
+    def: Extract<Stmt, { kind: "FunctionDef" }>,
+  ): CodeObject {
+    const locals = new Set<string>(def.params.map((p) => p.name));
+    const globals = new Set<string>();
+    collectLocals(def.body, locals, globals);
+    globals.forEach((g) => locals.delete(g));
+    const c = new Compiler();
+    c.block(def.body);
+    c.emit({ op: "CONST", value: null });
+    c.emit({ op: "RETURN" });
+    return {
+      name: def.name,
+      params: def.params.map(({ name, star }) => ({ name, star })),
+      locals,
+      instrs: c.instrs,
+    };
+  }
+
+  private emit(instr: Instr): number {
+    this.instrs.push(instr);
+    return this.instrs.length - 1;
+  }
+
+  private here(): number {
+    return this.instrs.length;
+  }
+
+  private patch(index: number, target: number) {
+    (this.instrs[index] as { target: number }).target = target;
+  }
+
+  private block(body: Stmt[]) {
+    body.forEach((s) => this.statement(s));
+  }
+
+  private statement(s: Stmt) {
+    if (s.kind !== "Global") this.emit({ op: "LINE", loc: s.loc });
+    switch (s.kind) {
+      case "Expr":
+        this.expr(s.value);
+        this.emit({ op: "POP" });
+        break;
+      case "Assign":
+        this.expr(s.value);
+        s.targets.forEach((t, i) => {
+          if (i < s.targets.length - 1) this.emit({ op: "DUP" });
+          this.store(t);
+        });
+        break;
+      case "AugAssign":
+        if (s.target.kind === "Subscript") {
+          this.expr(s.target.value);
+          this.expr(s.target.index);
+          this.emit({ op: "DUP2" });
+          this.emit({ op: "LOAD_SUBSCR" });
+          this.expr(s.value);
+          this.emit({ op: "BINARY", operator: s.op });
+          this.emit({ op: "ROT3" });
+          this.emit({ op: "STORE_SUBSCR" });
+        } else {
+          this.expr(s.target);
+          this.expr(s.value);
+          this.emit({ op: "BINARY", operator: s.op });
+          this.store(s.target);
+        }
+        break;
+      case "If": {
+        this.expr(s.test);
+        const toElse = this.emit({ op: "JUMP_IF_FALSE", target: -1 });
+        this.block(s.body);
+        if (s.orelse.length) {
+          const toEnd = this.emit({ op: "JUMP", target: -1 });
+          this.patch(toElse, this.here());
+          this.block(s.orelse);
+          this.patch(toEnd, this.here());
+        } else {
+          this.patch(toElse, this.here());
+        }
+        break;
+      }
+      case "While": {
+        // The LINE instruction emitted above is the loop head, so every
+        // iteration counts as a step on the `while` line.
+        const start = this.here() - 1;
+        this.expr(s.test);
+        const toEnd = this.emit({ op: "JUMP_IF_FALSE", target: -1 });
+        this.loop(
+          { breaks: [toEnd], continueTarget: start, isFor: false },
+          s.body,
+        );
+        this.emit({ op: "JUMP", target: start });
+        const loop = this.loops.pop()!;
+        loop.breaks.forEach((b) => this.patch(b, this.here()));
+        break;
+      }
+      case "For": {
+        this.expr(s.iter);
+        this.emit({ op: "GET_ITER" });
+        const start = this.emit({ op: "LINE", loc: s.loc });
+        const toEnd = this.emit({ op: "FOR_ITER", target: -1 });
+        this.store(s.target);
+        this.loop(
+          { breaks: [toEnd], continueTarget: start, isFor: true },
+          s.body,
+        );
+        this.emit({ op: "JUMP", target: start });
+        const loop = this.loops.pop()!;
+        loop.breaks.forEach((b) => this.patch(b, this.here()));
+        break;
+      }
+      case "FunctionDef": {
+        const defaults = s.params.filter((p) => p.default);
+        defaults.forEach((p) => this.expr(p.default!));
+        this.emit({
+          op: "MAKE_FUNCTION",
+          code: Compiler.compileFunction(s),
+          ndefaults: defaults.length,
+        });
+        this.store({ kind: "Name", id: s.name, loc: s.nameLoc });
+        break;
+      }
+      case "Return":
+        if (s.value) this.expr(s.value);
+        else this.emit({ op: "CONST", value: null });
+        this.emit({ op: "RETURN" });
+        break;
+      case "Break": {
+        const loop = this.loops[this.loops.length - 1];
+        if (!loop) throw new PyError("'break' outside loop", s.loc);
+        if (loop.isFor) this.emit({ op: "POP" });
+        loop.breaks.push(this.emit({ op: "JUMP", target: -1 }));
+        break;
+      }
+      case "Continue": {
+        const loop = this.loops[this.loops.length - 1];
+        if (!loop) throw new PyError("'continue' not properly in loop", s.loc);
+        this.emit({ op: "JUMP", target: loop.continueTarget });
+        break;
+      }
+      case "Import":
+        this.emit({ op: "IMPORT", module: s.module ?? s.names[0].name });
+        break;
+      case "Pass":
+      case "Global":
+        break;
+    }
+  }
+
+  /** Compile a loop body; the caller pops the context and patches breaks. */
+  private loop(context: LoopContext, body: Stmt[]) {
+    this.loops.push(context);
+    this.block(body);
+  }
+
+  private store(target: Expr) {
+    switch (target.kind) {
+      case "Name":
+        this.emit({ op: "STORE", name: target.id });
+        return;
+      case "Subscript":
+        this.expr(target.value);
+        this.expr(target.index);
+        this.emit({ op: "STORE_SUBSCR" });
+        return;
+      case "Tuple":
+      case "List":
+        this.emit({ op: "UNPACK", count: target.elts.length });
+        target.elts.forEach((e) => this.store(e));
+        return;
+    }
+    throw new PyError("cannot assign to expression", target.loc);
+  }
+
+  private expr(e: Expr) {
+    switch (e.kind) {
+      case "Name":
+        this.emit({ op: "LOAD", name: e.id });
+        return;
+      case "Constant":
+        this.emit({
+          op: "CONST",
+          value: e.float ? makeFloat(e.value as number) : e.value,
+        });
+        return;
+      case "Attribute":
+        this.expr(e.value);
+        this.emit({ op: "LOAD_ATTR", name: e.attr });
+        return;
+      case "Subscript":
+        this.expr(e.value);
+        this.expr(e.index);
+        this.emit({ op: "LOAD_SUBSCR" });
+        return;
+      case "Slice":
+        for (const part of [e.lower, e.upper, e.step]) {
+          if (part) this.expr(part);
+          else this.emit({ op: "CONST", value: null });
+        }
+        this.emit({ op: "BUILD_SLICE" });
+        return;
+      case "Call":
+        this.expr(e.func);
+        e.args.forEach((a) => this.expr(a));
+        e.keywords.forEach((k) => this.expr(k.value));
+        this.emit({
+          op: "CALL",
+          argc: e.args.length,
+          kwnames: e.keywords.map((k) => k.name),
+        });
+        return;
+      case "BinOp":
+        this.expr(e.left);
+        this.expr(e.right);
+        this.emit({ op: "BINARY", operator: e.op });
+        return;
+      case "UnaryOp":
+        this.expr(e.operand);
+        this.emit({ op: "UNARY", operator: e.op });
+        return;
+      case "BoolOp": {
+        const jumps: number[] = [];
+        e.values.forEach((v, i) => {
+          this.expr(v);
+          if (i < e.values.length - 1) {
+            jumps.push(
+              this.emit({
+                op:
+                  e.op === "and"
+                    ? "JUMP_IF_FALSE_OR_POP"
+                    : "JUMP_IF_TRUE_OR_POP",
+                target: -1,
+              }),
+            );
+          }
+        });
+        jumps.forEach((j) => this.patch(j, this.here()));
+        return;
+      }
+      case "Compare": {
+        this.expr(e.left);
+        const cleanups: number[] = [];
+        e.ops.forEach((op, i) => {
+          this.expr(e.comparators[i]);
+          if (i < e.ops.length - 1) {
+            this.emit({ op: "DUP" });
+            this.emit({ op: "ROT3" });
+            this.emit({ op: "COMPARE", operator: op });
+            cleanups.push(
+              this.emit({ op: "JUMP_IF_FALSE_OR_POP", target: -1 }),
+            );
+          } else {
+            this.emit({ op: "COMPARE", operator: op });
+          }
+        });
+        if (cleanups.length) {
+          const toEnd = this.emit({ op: "JUMP", target: -1 });
+          cleanups.forEach((c) => this.patch(c, this.here()));
+          this.emit({ op: "ROT2" });
+          this.emit({ op: "POP" });
+          this.patch(toEnd, this.here());
+        }
+        return;
+      }
+      case "IfExp": {
+        this.expr(e.test);
+        const toElse = this.emit({ op: "JUMP_IF_FALSE", target: -1 });
+        this.expr(e.body);
+        const toEnd = this.emit({ op: "JUMP", target: -1 });
+        this.patch(toElse, this.here());
+        this.expr(e.orelse);
+        this.patch(toEnd, this.here());
+        return;
+      }
+      case "Tuple":
+      case "List":
+      case "Set":
+        e.elts.forEach((x) => this.expr(x));
+        this.emit({
+          op: "BUILD",
+          type: e.kind.toLowerCase() as "tuple" | "list" | "set",
+          count: e.elts.length,
+        });
+        return;
+      case "Dict":
+        e.keys.forEach((k, i) => {
+          this.expr(k);
+          this.expr(e.values[i]);
+        });
+        this.emit({ op: "BUILD", type: "dict", count: e.keys.length });
+        return;
+      case "ListComp":
+      case "SetComp":
+      case "DictComp": {
+        const type =
+          e.kind === "ListComp"
+            ? "list"
+            : e.kind === "SetComp"
+              ? "set"
+              : "dict";
+        this.emit({ op: "BUILD", type, count: 0 });
+        const ends: number[] = [];
+        const starts: number[] = [];
+        e.generators.forEach((g) => {
+          this.expr(g.iter);
+          this.emit({ op: "GET_ITER" });
+          const start = this.here();
+          starts.push(start);
+          ends.push(this.emit({ op: "FOR_ITER", target: -1 }));
+          this.store(g.target);
+          g.ifs.forEach((cond) => {
+            this.expr(cond);
+            this.emit({ op: "JUMP_IF_FALSE", target: start });
+          });
+        });
+        if (e.kind === "DictComp") {
+          this.expr(e.key);
+          this.expr(e.value);
+        } else {
+          this.expr(e.elt);
+        }
+        this.emit({ op: "APPEND", type, depth: e.generators.length });
+        for (let i = e.generators.length - 1; i >= 0; i--) {
+          this.emit({ op: "JUMP", target: starts[i] });
+          this.patch(ends[i], this.here());
+        }
+        return;
+      }
+    }
+  }
+}
+
+/** Names assigned anywhere in a function body, which are local to it. */
+function collectLocals(
+  body: Stmt[],
+  locals: Set<string>,
+  globals: Set<string>,
+) {
+  const addTarget = (t: Expr) => {
+    if (t.kind === "Name") locals.add(t.id);
+    else if (t.kind === "Tuple" || t.kind === "List") t.elts.forEach(addTarget);
+  };
+  const visitExpr = (e: Expr | undefined) => {
+    if (!e) return;
+    if (
+      e.kind === "ListComp" ||
+      e.kind === "SetComp" ||
+      e.kind === "DictComp"
+    ) {
+      e.generators.forEach((g) => addTarget(g.target));
+    }
+  };
+  for (const s of body) {
+    switch (s.kind) {
+      case "Assign":
+        s.targets.forEach(addTarget);
+        visitExpr(s.value);
+        break;
+      case "AugAssign":
+        addTarget(s.target);
+        break;
+      case "For":
+        addTarget(s.target);
+        collectLocals(s.body, locals, globals);
+        break;
+      case "If":
+        collectLocals(s.body, locals, globals);
+        collectLocals(s.orelse, locals, globals);
+        break;
+      case "While":
+        collectLocals(s.body, locals, globals);
+        break;
+      case "FunctionDef":
+        locals.add(s.name);
+        break;
+      case "Import":
+        s.names.forEach((n) => locals.add(n.asname ?? n.name));
+        break;
+      case "Global":
+        s.names.forEach((n) => globals.add(n.name));
+        break;
+      case "Expr":
+      case "Return":
+        visitExpr(s.value);
+        break;
+    }
+  }
+}
+
+// -- Virtual machine -------------------------------------------------------
+
+type Frame = {
+  code: CodeObject;
+  pc: number;
+  stack: Value[];
+  locals: Map<string, Value>;
+  loc?: Loc;
+};
+
+/** Result of advancing the interpreter. */
+export type RunStatus = "running" | "line" | "done" | "error";
+
+const MAX_CALL_DEPTH = 500;
+
+/** Executes a compiled script one instruction at a time. */
+export class Interpreter {
+  private readonly frames: Frame[] = [];
+  readonly globals = new Map<string, Value>();
+  /** Error that stopped the script, if any. */
+  error?: PyError;
+  /** Number of instructions executed so far. */
+  steps = 0;
+
+  constructor(
+    code: CodeObject,
+    private readonly builtins: Record<string, Value>,
+  ) {
+    this.frames.push({ code, pc: 0, stack: [], locals: this.globals });
+  }
+
+  /** Compile source text, throwing a `PyError` on syntax errors. */
+  static compile(source: string): CodeObject {
+    const { module, errors } = parse(source);
+    if (errors.length) {
+      const e = errors[0];
+      throw new PyError(`SyntaxError: ${e.message}`, e);
+    }
+    return Compiler.compileModule(module);
+  }
+
+  get done(): boolean {
+    return this.frames.length === 0 || this.error !== undefined;
+  }
+
+  /** Location of the statement currently being executed. */
+  get location(): Loc | undefined {
+    for (let i = this.frames.length - 1; i >= 0; i--) {
+      if (this.frames[i].loc) return this.frames[i].loc;
+    }
+    return undefined;
+  }
+
+  /**
+   * Run at most `budget` instructions. Stops early at the start of the next
+   * statement if `untilLine` is set, when the script finishes, or on error.
+   */
+  run(budget: number, untilLine = false): RunStatus {
+    for (let i = 0; i < budget; i++) {
+      if (this.done) return this.error ? "error" : "done";
+      const frame = this.frames[this.frames.length - 1];
+      const instr = frame.code.instrs[frame.pc];
+      if (untilLine && i > 0 && instr.op === "LINE") return "line";
+      frame.pc++;
+      this.steps++;
+      try {
+        this.execute(frame, instr);
+      } catch (e) {
+        if (!(e instanceof PyError)) throw e;
+        e.loc = e.loc ?? this.location;
+        this.error = e;
+        return "error";
+      }
+    }
+    return this.done ? (this.error ? "error" : "done") : "running";
+  }
+
+  private lookup(frame: Frame, name: string): Value {
+    const local = frame.code.locals;
+    if (local?.has(name)) {
+      const v = frame.locals.get(name);
+      if (v === undefined) {
+        throw new PyError(
+          `local variable '${name}' referenced before assignment`,
+        );
+      }
+      return v;
+    }
+    const g = this.globals.get(name);
+    if (g !== undefined) return g;
+    if (name in this.builtins) return this.builtins[name];
+    throw new PyError(`name '${name}' is not defined`);
+  }
+
+  private execute(frame: Frame, instr: Instr) {
+    const stack = frame.stack;
+    const pop = () => stack.pop() as Value;
+    switch (instr.op) {
+      case "LINE":
+        frame.loc = instr.loc;
+        break;
+      case "CONST":
+        stack.push(instr.value);
+        break;
+      case "LOAD":
+        stack.push(this.lookup(frame, instr.name));
+        break;
+      case "STORE":
+        if (frame.code.locals?.has(instr.name))
+          frame.locals.set(instr.name, pop());
+        else this.globals.set(instr.name, pop());
+        break;
+      case "LOAD_ATTR":
+        stack.push(getAttr(pop(), instr.name));
+        break;
+      case "LOAD_SUBSCR": {
+        const index = pop();
+        stack.push(getItem(pop(), index));
+        break;
+      }
+      case "STORE_SUBSCR": {
+        const index = pop();
+        const obj = pop();
+        setItem(obj, index, pop());
+        break;
+      }
+      case "BUILD_SLICE": {
+        const step = pop();
+        const upper = pop();
+        stack.push({ kind: "slice", lower: pop(), upper, step });
+        break;
+      }
+      case "BINARY": {
+        const b = pop();
+        stack.push(binary(instr.operator, pop(), b));
+        break;
+      }
+      case "UNARY": {
+        const v = pop();
+        if (instr.operator === "not") stack.push(!truthy(v));
+        else if (instr.operator === "-")
+          stack.push(numberOf(-toNumber(v, "unary -"), isFloat(v)));
+        else if (instr.operator === "+")
+          stack.push(numberOf(toNumber(v, "unary +"), isFloat(v)));
+        else if (isFloat(v))
+          throw new PyError("bad operand type for unary ~: 'float'");
+        else stack.push(~toNumber(v, "~"));
+        break;
+      }
+      case "COMPARE": {
+        const b = pop();
+        stack.push(compare(instr.operator, pop(), b));
+        break;
+      }
+      case "BUILD": {
+        const items = stack.splice(
+          stack.length - instr.count * (instr.type === "dict" ? 2 : 1),
+        );
+        if (instr.type === "list") stack.push(makeList(items));
+        else if (instr.type === "tuple") stack.push(makeTuple(items));
+        else if (instr.type === "set") stack.push(makeSet(items));
+        else {
+          const pairs: [Value, Value][] = [];
+          for (let i = 0; i < items.length; i += 2)
+            pairs.push([items[i], items[i + 1]]);
+          stack.push(makeDict(pairs));
+        }
+        break;
+      }
+      case "APPEND": {
+        if (instr.type === "dict") {
+          const v = pop();
+          const k = pop();
+          setItem(stack[stack.length - 1 - instr.depth], k, v);
+        } else {
+          const v = pop();
+          const target = stack[stack.length - 1 - instr.depth] as
+            | PyList
+            | PySet;
+          if (target.kind === "list") target.items.push(v);
+          else target.entries.set(hashKey(v), v);
+        }
+        break;
+      }
+      case "UNPACK": {
+        const items = iterate(pop());
+        if (items.length !== instr.count) {
+          throw new PyError(
+            `expected ${instr.count} values to unpack, got ${items.length}`,
+          );
+        }
+        for (let i = items.length - 1; i >= 0; i--) stack.push(items[i]);
+        break;
+      }
+      case "JUMP":
+        frame.pc = instr.target;
+        break;
+      case "JUMP_IF_FALSE":
+        if (!truthy(pop())) frame.pc = instr.target;
+        break;
+      case "JUMP_IF_TRUE_OR_POP":
+        if (truthy(stack[stack.length - 1])) frame.pc = instr.target;
+        else pop();
+        break;
+      case "JUMP_IF_FALSE_OR_POP":
+        if (!truthy(stack[stack.length - 1])) frame.pc = instr.target;
+        else pop();
+        break;
+      case "GET_ITER":
+        stack.push(getIterator(pop()));
+        break;
+      case "FOR_ITER": {
+        const next = (stack[stack.length - 1] as PyIterator).next();
+        if (next === undefined) {
+          pop();
+          frame.pc = instr.target;
+        } else {
+          stack.push(next);
+        }
+        break;
+      }
+      case "POP":
+        pop();
+        break;
+      case "DUP":
+        stack.push(stack[stack.length - 1]);
+        break;
+      case "DUP2":
+        stack.push(stack[stack.length - 2], stack[stack.length - 1]);
+        break;
+      case "ROT2": {
+        const a = pop();
+        const b = pop();
+        stack.push(a, b);
+        break;
+      }
+      case "ROT3": {
+        const a = pop();
+        const b = pop();
+        const c = pop();
+        stack.push(a, c, b);
+        break;
+      }
+      case "MAKE_FUNCTION": {
+        const defaults = stack.splice(stack.length - instr.ndefaults);
+        stack.push({ kind: "function", code: instr.code, defaults });
+        break;
+      }
+      case "CALL": {
+        const kwvalues = stack.splice(stack.length - instr.kwnames.length);
+        const args = stack.splice(stack.length - instr.argc);
+        const fn = pop();
+        const kwargs: Record<string, Value> = {};
+        instr.kwnames.forEach((k, i) => (kwargs[k] = kwvalues[i]));
+        this.call(fn, args, kwargs, stack);
+        break;
+      }
+      case "RETURN": {
+        const value = pop();
+        this.frames.pop();
+        if (this.frames.length) {
+          this.frames[this.frames.length - 1].stack.push(value);
+        }
+        break;
+      }
+      case "IMPORT":
+        throw new PyError(`cannot import '${instr.module}' in the simulator`);
+    }
+  }
+
+  private call(
+    fn: Value,
+    args: Value[],
+    kwargs: Record<string, Value>,
+    stack: Value[],
+  ) {
+    if (fn !== null && typeof fn === "object") {
+      if (fn.kind === "builtin") {
+        stack.push(fn.call(args, kwargs));
+        return;
+      }
+      if (fn.kind === "method") {
+        stack.push(callMethod(fn.self, fn.name, args));
+        return;
+      }
+      if (fn.kind === "function") {
+        if (this.frames.length >= MAX_CALL_DEPTH) {
+          throw new PyError("maximum recursion depth exceeded");
+        }
+        this.frames.push({
+          code: fn.code,
+          pc: 0,
+          stack: [],
+          locals: bindArguments(fn, args, kwargs),
+        });
+        return;
+      }
+    }
+    throw new PyError(`'${typeName(fn)}' object is not callable`);
+  }
+}
+
+function bindArguments(
+  fn: PyFunction,
+  args: Value[],
+  kwargs: Record<string, Value>,
+): Map<string, Value> {
+  const { params, name } = fn.code;
+  const locals = new Map<string, Value>();
+  const positional = params.filter((p) => !p.star);
+  const firstDefault = positional.length - fn.defaults.length;
+  positional.forEach((p, i) => {
+    if (i < args.length) locals.set(p.name, args[i]);
+    else if (p.name in kwargs) locals.set(p.name, kwargs[p.name]);
+    else if (i >= firstDefault)
+      locals.set(p.name, fn.defaults[i - firstDefault]);
+    else throw new PyError(`${name}() missing required argument: '${p.name}'`);
+  });
+  const star = params.find((p) => p.star === "*");
+  if (star) {
+    locals.set(star.name, makeTuple(args.slice(positional.length)));
+  } else if (args.length > positional.length) {
+    throw new PyError(
+      `${name}() takes ${positional.length} positional arguments but ${args.length} were given`,
+    );
+  }
+  for (const k of Object.keys(kwargs)) {
+    if (!positional.some((p) => p.name === k)) {
+      throw new PyError(`${name}() got an unexpected keyword argument '${k}'`);
+    }
+  }
+  return locals;
+}
@@ -0,0 +1,204 @@
+// Monaco language for the Python-like scripts of "The Farmer was Replaced":
+// a Monarch grammar that picks out the game's builtins from __builtins__.py,
+// editor behavior for indentation and comments, and themes to color them.
+import type { editor, languages } from "monaco-editor/esm/vs/editor/editor.api";
+
+import { parseBuiltins } from "./TFWRIntelliSense";
+import { KEYWORDS } from "./TFWRTokenizer";
+import builtinsPy from "./__builtins__.py?raw";
+
+/** Language ID of game scripts, as shared with other users of a pad. */
+export const TFWR_LANGUAGE = "tfwr";
+
+/** Returns the name of the editor theme that colors the game's builtins. */
+export function tfwrTheme(darkMode: boolean): string {
+  return darkMode ? "tfwr-dark" : "tfwr-light";
+}
+
+/** Lines after which Enter indents, like `def f():` or `for i in range(3):`. */
+const BLOCK_START =
+  /^\s*(?:def|class|for|if|elif|else|while|try|except|finally|with)\b.*:\s*(?:#.*)?$/;
+
+/** Lines after which Enter dedents, since nothing in their block follows. */
+const BLOCK_END = /^\s*(?:return|break|continue|pass|raise)\b.*$/;
+
+// Colors of builtin functions, builtin classes and their members, and
+// directions, close to what VS Code uses for functions, types and enums.
+const TOKEN_COLORS = {
+  dark: {
+    function: "DCDCAA",
+    type: "4EC9B0",
+    member: "4FC1FF",
+    direction: "C586C0",
+  },
+  light: {
+    function: "795E26",
+    type: "267F99",
+    member: "0070C1",
+    direction: "AF00DB",
+  },
+};
+
+let registered = false;
+
+/** Register the language and its themes, once for all editors. */
+export function registerTFWRLanguage(monaco: any) {
+  if (registered) return;
+  registered = true;
+  const builtins = parseBuiltins(builtinsPy);
+
+  monaco.languages.register({
+    id: TFWR_LANGUAGE,
+    aliases: ["The Farmer was Replaced", TFWR_LANGUAGE],
+  });
+  monaco.languages.setMonarchTokensProvider(
+    TFWR_LANGUAGE,
+    monarchLanguage(builtins),
+  );
+  monaco.languages.setLanguageConfiguration(
+    TFWR_LANGUAGE,
+    languageConfiguration,
+  );
+  for (const [mode, base] of [
+    ["dark", "vs-dark"],
+    ["light", "vs"],
+  ] as const) {
+    const colors = TOKEN_COLORS[mode];
+    const theme: editor.IStandaloneThemeData = {
+      base,
+      inherit: true,
+      rules: [
+        { token: "predefined.tfwr", foreground: colors.function },
+        { token: "type.tfwr", foreground: colors.type },
+        { token: "constant.member.tfwr", foreground: colors.member },
+        { token: "constant.direction.tfwr", foreground: colors.direction },
+      ],
+      colors: {},
+    };
+    monaco.editor.defineTheme(tfwrTheme(mode === "dark"), theme);
+  }
+}
+
+/** Grammar for highlighting, which follows Monaco's own grammar for Python. */
+function monarchLanguage(
+  builtins: ReturnType<typeof parseBuiltins>,
+): languages.IMonarchLanguage {
+  // Classes with members, like `Items` and `Entities`, color what follows a dot.
+  const enums = builtins.classNames.filter(
+    (name) => Object.keys(builtins.classes[name].members).length > 0,
+  );
+  return {
+    defaultToken: "",
+    tokenPostfix: ".tfwr",
+    keywords: Array.from(KEYWORDS),
+    builtinFunctions: Object.keys(builtins.functions),
+    builtinClasses: builtins.classNames,
+    directions: Object.keys(builtins.constants),
+    brackets: [
+      { open: "{", close: "}", token: "delimiter.curly" },
+      { open: "[", close: "]", token: "delimiter.bracket" },
+      { open: "(", close: ")", token: "delimiter.parenthesis" },
+    ],
+    tokenizer: {
+      root: [
+        { include: "@whitespace" },
+        { include: "@numbers" },
+        { include: "@strings" },
+        [/[,:;]/, "delimiter"],
+        [/[{}[\]()]/, "@brackets"],
+        [
+          new RegExp(`\\b(${enums.join("|")})(\\s*\\.\\s*)([A-Za-z_]\\w*)`),
+          ["type", "delimiter", "constant.member"],
+        ],
+        [
+          /[A-Za-z_]\w*/,
+          {
+            cases: {
+              "@keywords": "keyword",
+              "@builtinFunctions": "predefined",
+              "@builtinClasses": "type",
+              "@directions": "constant.direction",
+              "@default": "identifier",
+            },
+          },
+        ],
+        [/[+\-*/%&|^~<>=!@]+/, "operator"],
+      ],
+      whitespace: [
+        [/\s+/, "white"],
+        [/('''|""")/, "string", "@endDocString.$1"],
+        [/#.*$/, "comment"],
+      ],
+      endDocString: [
+        [/[^'"]+/, "string"],
+        [/\\['"]/, "string"],
+        [
+          /('''|""")/,
+          {
+            cases: {
+              "$1==$S2": { token: "string", next: "@pop" },
+              "@default": "string",
+            },
+          },
+        ],
+        [/['"]/, "string"],
+      ],
+      numbers: [
+        [/-?0[xX][0-9a-fA-F_]+/, "number.hex"],
+        [/-?(\d*\.)?\d+([eE][+-]?\d+)?/, "number"],
+      ],
+      strings: [
+        [/'$/, "string.escape", "@popall"],
+        [/'/, "string.escape", "@stringBody"],
+        [/"$/, "string.escape", "@popall"],
+        [/"/, "string.escape", "@dblStringBody"],
+      ],
+      stringBody: [
+        [/[^\\']+$/, "string", "@popall"],
+        [/[^\\']+/, "string"],
+        [/\\./, "string"],
+        [/'/, "string.escape", "@popall"],
+        [/\\$/, "string"],
+      ],
+      dblStringBody: [
+        [/[^\\"]+$/, "string", "@popall"],
+        [/[^\\"]+/, "string"],
+        [/\\./, "string"],
+        [/"/, "string.escape", "@popall"],
+        [/\\$/, "string"],
+      ],
+    },
+  };
+}
+
+/** Comments, brackets and indentation, which follow Python's rules. */
+const languageConfiguration: languages.LanguageConfiguration = {
+  comments: { lineComment: "#", blockComment: ['"""', '"""'] },
+  brackets: [
+    ["{", "}"],
+    ["[", "]"],
+    ["(", ")"],
+  ],
+  autoClosingPairs: [
+    { open: "{", close: "}" },
+    { open: "[", close: "]" },
+    { open: "(", close: ")" },
+    { open: '"', close: '"', notIn: ["string"] },
+    { open: "'", close: "'", notIn: ["string", "comment"] },
+  ],
+  surroundingPairs: [
+    { open: "{", close: "}" },
+    { open: "[", close: "]" },
+    { open: "(", close: ")" },
+    { open: '"', close: '"' },
+    { open: "'", close: "'" },
+  ],
+  onEnterRules: [
+    { beforeText: BLOCK_START, action: { indentAction: 1 } }, // Indent
+    { beforeText: BLOCK_END, action: { indentAction: 3 } }, // Outdent
+  ],
+  folding: {
+    offSide: true,
+    markers: { start: /^\s*#\s*region\b/, end: /^\s*#\s*endregion\b/ },
+  },
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { parse } from "./TFWRParser";
+
+/** Returns the kinds of the top-level statements and the error messages. */
+function outline(source: string) {
+  const { module, errors } = parse(source);
+  return {
+    body: module.body.map((s) => s.kind),
+    errors: errors.map((e) => `${e.line}:${e.column} ${e.message}`),
+  };
+}
+
+describe("parse", () => {
+  it("parses blocks with elif and else into nested statements", () => {
+    const { module, errors } = parse(
+      "if x:\n  pass\nelif y:\n  harvest()\nelse:\n  z = 1",
+    );
+    expect(errors).toEqual([]);
+    const [statement] = module.body;
+    expect(statement.kind === "If" && statement.orelse[0].kind).toBe("If");
+  });
+
+  it("reads parameters with defaults and a star", () => {
+    const [def] = parse("def f(a, b=1, *c):\n    return a").module.body;
+    expect(def.kind === "FunctionDef" && def.params.map((p) => p.name)).toEqual(
+      ["a", "b", "c"],
+    );
+  });
+
+  it("reports a missing name at the end of the text", () => {
+    expect(outline("x = 1\nglobal a,")).toEqual({
+      body: ["Assign"],
+      errors: ["2:10 Expected a name"],
+    });
+    expect(outline("global")).toEqual({
+      body: [],
+      errors: ["1:7 Expected a name"],
+    });
+  });
+
+  it("recovers at the next statement after an error", () => {
+    expect(outline("x = )\nharvest()")).toEqual({
+      body: ["Expr"],
+      errors: ["1:5 Unexpected ')'"],
+    });
+  });
+});
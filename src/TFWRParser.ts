@@ -0,0 +1,1038 @@
+// Recursive-descent parser for the game's Python subset. It consumes tokens
+// from `TFWRTokenizer` and produces an AST whose nodes all carry Monaco-style
+// source locations, so callers can map results straight back to the editor.
+import { KEYWORDS, Token, TokenizeError, tokenize } from "./TFWRTokenizer";
+
+/** A source range with 1-based line and column numbers. */
+export type Loc = {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+};
+
+export type Comprehension = { target: Expr; iter: Expr; ifs: Expr[] };
+
+export type Keyword = { name: string; value: Expr; loc: Loc };
+
+export type Expr =
+  | { kind: "Name"; id: string; loc: Loc }
+  | {
+      kind: "Constant";
+      value: number | string | boolean | null;
+      /** Whether a number was written as a float, like `1.0` or `1e3`. */
+      float?: boolean;
+      loc: Loc;
+    }
+  | { kind: "Attribute"; value: Expr; attr: string; attrLoc: Loc; loc: Loc }
+  | { kind: "Subscript"; value: Expr; index: Expr; loc: Loc }
+  | { kind: "Slice"; lower?: Expr; upper?: Expr; step?: Expr; loc: Loc }
+  | { kind: "Call"; func: Expr; args: Expr[]; keywords: Keyword[]; loc: Loc }
+  | { kind: "BinOp"; op: string; left: Expr; right: Expr; loc: Loc }
+  | { kind: "UnaryOp"; op: string; operand: Expr; loc: Loc }
+  | { kind: "BoolOp"; op: "and" | "or"; values: Expr[]; loc: Loc }
+  | {
+      kind: "Compare";
+      left: Expr;
+      ops: string[];
+      comparators: Expr[];
+      loc: Loc;
+    }
+  | { kind: "IfExp"; test: Expr; body: Expr; orelse: Expr; loc: Loc }
+  | { kind: "Tuple" | "List" | "Set"; elts: Expr[]; loc: Loc }
+  | { kind: "Dict"; keys: Expr[]; values: Expr[]; loc: Loc }
+  | {
+      kind: "ListComp" | "SetComp";
+      elt: Expr;
+      generators: Comprehension[];
+      loc: Loc;
+    }
+  | {
+      kind: "DictComp";
+      key: Expr;
+      value: Expr;
+      generators: Comprehension[];
+      loc: Loc;
+    };
+
+export type Param = {
+  name: string;
+  loc: Loc;
+  default?: Expr;
+  star?: "*" | "**";
+};
+
+export type ImportName = { name: string; asname?: string; loc: Loc };
+
+export type Stmt =
+  | { kind: "Expr"; value: Expr; loc: Loc }
+  | {
+      kind: "Assign";
+      targets: Expr[];
+      value: Expr;
+      annotation?: Expr;
+      loc: Loc;
+    }
+  | { kind: "AugAssign"; target: Expr; op: string; value: Expr; loc: Loc }
+  | { kind: "If"; test: Expr; body: Stmt[]; orelse: Stmt[]; loc: Loc }
+  | { kind: "While"; test: Expr; body: Stmt[]; loc: Loc }
+  | { kind: "For"; target: Expr; iter: Expr; body: Stmt[]; loc: Loc }
+  | {
+      kind: "FunctionDef";
+      name: string;
+      nameLoc: Loc;
+      params: Param[];
+      body: Stmt[];
+      loc: Loc;
+    }
+  | { kind: "Return"; value?: Expr; loc: Loc }
+  | { kind: "Break" | "Continue" | "Pass"; loc: Loc }
+  | { kind: "Global"; names: { name: string; loc: Loc }[]; loc: Loc }
+  | { kind: "Import"; module?: string; names: ImportName[]; loc: Loc };
+
+export type Module = { body: Stmt[] };
+
+export type ParseError = TokenizeError;
+
+export type ParseResult = {
+  module: Module;
+  errors: ParseError[];
+};
+
+/** Thrown internally to unwind to the nearest statement boundary. */
+class ParseFailure extends Error {
+  constructor(
+    message: string,
+    readonly token: Token,
+  ) {
+    super(message);
+  }
+}
+
+const COMPARE_OPS = new Set(["<", ">", "==", ">=", "<=", "!="]);
+const AUG_OPS = new Set(["+=", "-=", "*=", "/=", "//=", "%=", "**="]);
+const UNSUPPORTED = new Set([
+  "class",
+  "try",
+  "except",
+  "finally",
+  "raise",
+  "with",
+  "async",
+  "await",
+  "yield",
+  "lambda",
+  "del",
+  "assert",
+  "nonlocal",
+]);
+
+export function locOf(from: Token | Loc, to: Token | Loc = from): Loc {
+  return {
+    line: from.line,
+    column: from.column,
+    endLine: to.endLine,
+    endColumn: to.endColumn,
+  };
+}
+
+/** Parse source text into a module. Never throws on invalid input. */
+export function parse(source: string): ParseResult {
+  const { tokens, errors } = tokenize(source);
+  return { module: parseTokens(tokens, errors), errors };
+}
+
+/** Parse tokens from `tokenize()`, adding any problems to `errors`. */
+export function parseTokens(tokens: Token[], errors: ParseError[]): Module {
+  return { body: new Parser(tokens, errors).parseModule() };
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly errors: ParseError[],
+  ) {}
+
+  parseModule(): Stmt[] {
+    const body: Stmt[] = [];
+    while (!this.at("eof")) {
+      if (this.at("newline") || this.at("dedent") || this.at("indent")) {
+        if (this.at("indent")) this.error("Unexpected indent", this.peek());
+        this.pos++;
+        continue;
+      }
+      this.statementInto(body);
+    }
+    return body;
+  }
+
+  // -- Token helpers -------------------------------------------------------
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private prev(): Token {
+    return this.tokens[Math.max(this.pos - 1, 0)];
+  }
+
+  private at(type: Token["type"], value?: string): boolean {
+    const t = this.peek();
+    return t.type === type && (value === undefined || t.value === value);
+  }
+
+  private atOp(value: string): boolean {
+    return this.at("op", value);
+  }
+
+  private atKeyword(value: string): boolean {
+    return this.at("name", value);
+  }
+
+  private next(): Token {
+    const t = this.peek();
+    if (t.type !== "eof") this.pos++;
+    return t;
+  }
+
+  private expectOp(value: string): Token {
+    if (!this.atOp(value)) {
+      throw new ParseFailure(`Expected '${value}'`, this.peek());
+    }
+    return this.next();
+  }
+
+  private expectName(): Token {
+    const t = this.peek();
+    if (t.type !== "name" || KEYWORDS.has(t.value)) {
+      throw new ParseFailure("Expected a name", t);
+    }
+    return this.next();
+  }
+
+  private error(message: string, token: Token) {
+    this.errors.push({ ...locOf(token), message });
+  }
+
+  /** Skip the rest of the logical line, and any block that hangs off it. */
+  private recover() {
+    while (!this.at("newline") && !this.at("eof")) this.pos++;
+    if (this.at("newline")) this.pos++;
+    if (this.at("indent")) {
+      let depth = 0;
+      do {
+        if (this.at("indent")) depth++;
+        else if (this.at("dedent")) depth--;
+        this.pos++;
+      } while (depth > 0 && !this.at("eof"));
+    }
+  }
+
+  // -- Statements ----------------------------------------------------------
+
+  private statementInto(body: Stmt[]) {
+    const start = this.pos;
+    try {
+      const t = this.peek();
+      if (t.type === "name" && UNSUPPORTED.has(t.value)) {
+        throw new ParseFailure(`'${t.value}' is not supported by the game`, t);
+      }
+      if (
+        t.type === "name" &&
+        ["def", "if", "while", "for"].includes(t.value)
+      ) {
+        body.push(this.compoundStatement());
+        return;
+      }
+      // Simple statements, possibly several separated by semicolons.
+      do {
+        if (this.at("newline")) break;
+        body.push(this.simpleStatement());
+      } while (this.atOp(";") && this.next());
+      if (!this.at("eof") && !this.at("dedent")) {
+        if (!this.at("newline")) {
+          throw new ParseFailure("Expected end of line", this.peek());
+        }
+        this.next();
+      }
+    } catch (e) {
+      if (!(e instanceof ParseFailure)) throw e;
+      this.error(e.message, e.token);
+      if (this.pos === start || this.tokens[this.pos - 1]?.type !== "newline") {
+        this.recover();
+      }
+    }
+  }
+
+  private block(): Stmt[] {
+    this.expectOp(":");
+    const body: Stmt[] = [];
+    if (!this.at("newline")) {
+      // Single-line suite, e.g. `if x: y()`.
+      this.statementInto(body);
+      return body;
+    }
+    this.next();
+    if (!this.at("indent")) {
+      throw new ParseFailure("Expected an indented block", this.peek());
+    }
+    this.next();
+    while (!this.at("dedent") && !this.at("eof")) {
+      if (this.at("newline")) {
+        this.next();
+        continue;
+      }
+      if (this.at("indent")) {
+        this.error("Unexpected indent", this.peek());
+        this.recover();
+        continue;
+      }
+      this.statementInto(body);
+    }
+    if (this.at("dedent")) this.next();
+    return body;
+  }
+
+  /** Location from a start token through the last statement of a suite. */
+  private spanTo(start: Token, body: Stmt[]): Loc {
+    if (body.length) return locOf(start, body[body.length - 1].loc);
+    // Without a body, end at the last real token rather than at the layout
+    // tokens of the next line.
+    let i = this.pos - 1;
+    while (
+      i > 0 &&
+      ["newline", "indent", "dedent"].includes(this.tokens[i].type)
+    )
+      i--;
+    return locOf(start, this.tokens[i]);
+  }
+
+  private compoundStatement(): Stmt {
+    const start = this.next();
+    switch (start.value) {
+      case "def": {
+        const name = this.expectName();
+        this.expectOp("(");
+        const params: Param[] = [];
+        while (!this.atOp(")")) {
+          let star: Param["star"];
+          if (this.atOp("*") || this.atOp("**")) {
+            star = this.next().value as Param["star"];
+          }
+          const p = this.expectName();
+          if (this.atOp(":")) {
+            this.next();
+            this.expression(); // Annotations are parsed and ignored.
+          }
+          let def: Expr | undefined;
+          if (this.atOp("=")) {
+            this.next();
+            def = this.expression();
+          }
+          params.push({ name: p.value, loc: locOf(p), default: def, star });
+          if (!this.atOp(",")) break;
+          this.next();
+        }
+        this.expectOp(")");
+        if (this.atOp("->")) {
+          this.next();
+          this.expression();
+        }
+        const body = this.block();
+        return {
+          kind: "FunctionDef",
+          name: name.value,
+          nameLoc: locOf(name),
+          params,
+          body,
+          loc: this.spanTo(start, body),
+        };
+      }
+      case "if": {
+        const test = this.expression();
+        const body = this.block();
+        let orelse: Stmt[] = [];
+        if (this.atKeyword("elif")) {
+          orelse = [this.compoundStatementAsIf()];
+        } else if (this.atKeyword("else")) {
+          this.next();
+          orelse = this.block();
+        }
+        return {
+          kind: "If",
+          test,
+          body,
+          orelse,
+          loc: this.spanTo(start, orelse.length ? orelse : body),
+        };
+      }
+      case "while": {
+        const test = this.expression();
+        const body = this.block();
+        return { kind: "While", test, body, loc: this.spanTo(start, body) };
+      }
+      case "for": {
+        const target = this.targetList();
+        if (!this.atKeyword("in")) {
+          throw new ParseFailure("Expected 'in'", this.peek());
+        }
+        this.next();
+        const iter = this.expressionList();
+        const body = this.block();
+        return {
+          kind: "For",
+          target,
+          iter,
+          body,
+          loc: this.spanTo(start, body),
+        };
+      }
+    }
+    throw new ParseFailure("Expected a statement", start);
+  }
+
+  /** Parses an `elif` clause as a nested `if` statement. */
+  private compoundStatementAsIf(): Stmt {
+    const start = this.next();
+    const test = this.expression();
+    const body = this.block();
+    let orelse: Stmt[] = [];
+    if (this.atKeyword("elif")) {
+      orelse = [this.compoundStatementAsIf()];
+    } else if (this.atKeyword("else")) {
+      this.next();
+      orelse = this.block();
+    }
+    return {
+      kind: "If",
+      test,
+      body,
+      orelse,
+      loc: this.spanTo(start, orelse.length ? orelse : body),
+    };
+  }
+
+  private simpleStatement(): Stmt {
+    const start = this.peek();
+    if (start.type === "name") {
+      switch (start.value) {
+        case "pass":
+        case "break":
+        case "continue": {
+          this.next();
+          const kind = (start.value[0].toUpperCase() + start.value.slice(1)) as
+            | "Pass"
+            | "Break"
+            | "Continue";
+          return { kind, loc: locOf(start) };
+        }
+        case "return": {
+          this.next();
+          const value =
+            this.at("newline") || this.atOp(";") || this.at("eof")
+              ? undefined
+              : this.expressionList();
+          return { kind: "Return", value, loc: locOf(start, this.prev()) };
+        }
+        case "global": {
+          this.next();
+          const names = [];
+          do {
+            const n = this.expectName();
+            names.push({ name: n.value, loc: locOf(n) });
+          } while (this.atOp(",") && this.next());
+          return { kind: "Global", names, loc: locOf(start, this.prev()) };
+        }
+        case "import": {
+          this.next();
+          const names = this.importNames();
+          return { kind: "Import", names, loc: locOf(start, this.prev()) };
+        }
+        case "from": {
+          this.next();
+          const module = this.dottedName();
+          if (!this.atKeyword("import")) {
+            throw new ParseFailure("Expected 'import'", this.peek());
+          }
+          this.next();
+          let names: ImportName[];
+          if (this.atOp("*")) {
+            const star = this.next();
+            names = [{ name: "*", loc: locOf(star) }];
+          } else {
+            names = this.importNames();
+          }
+          return {
+            kind: "Import",
+            module,
+            names,
+            loc: locOf(start, this.prev()),
+          };
+        }
+      }
+    }
+
+    const first = this.expressionList();
+    if (this.peek().type === "op" && AUG_OPS.has(this.peek().value)) {
+      const op = this.next().value.slice(0, -1);
+      this.checkTarget(first);
+      const value = this.expressionList();
+      return {
+        kind: "AugAssign",
+        target: first,
+        op,
+        value,
+        loc: locOf(first.loc, value.loc),
+      };
+    }
+    if (this.atOp("=")) {
+      const targets = [first];
+      let value: Expr = first;
+      while (this.atOp("=")) {
+        this.next();
+        value = this.expressionList();
+        targets.push(value);
+      }
+      targets.pop();
+      targets.forEach((t) => this.checkTarget(t));
+      return {
+        kind: "Assign",
+        targets,
+        value,
+        loc: locOf(first.loc, value.loc),
+      };
+    }
+    if (this.atOp(":") && first.kind === "Name") {
+      // Annotated assignment, e.g. `items: list = []`.
+      this.next();
+      const annotation = this.expression();
+      if (this.atOp("=")) {
+        this.next();
+        const value = this.expressionList();
+        return {
+          kind: "Assign",
+          targets: [first],
+          value,
+          annotation,
+          loc: locOf(first.loc, value.loc),
+        };
+      }
+      return { kind: "Pass", loc: locOf(first.loc, this.prev()) };
+    }
+    return { kind: "Expr", value: first, loc: first.loc };
+  }
+
+  private importNames(): ImportName[] {
+    const names: ImportName[] = [];
+    do {
+      const start = this.peek();
+      const name = this.dottedName();
+      let asname: string | undefined;
+      if (this.atKeyword("as")) {
+        this.next();
+        asname = this.expectName().value;
+      }
+      names.push({ name, asname, loc: locOf(start, this.prev()) });
+    } while (this.atOp(",") && this.next());
+    return names;
+  }
+
+  private dottedName(): string {
+    let name = this.expectName().value;
+    while (this.atOp(".")) {
+      this.next();
+      name += "." + this.expectName().value;
+    }
+    return name;
+  }
+
+  private checkTarget(e: Expr) {
+    if (e.kind === "Tuple" || e.kind === "List") {
+      e.elts.forEach((x) => this.checkTarget(x));
+    } else if (
+      e.kind !== "Name" &&
+      e.kind !== "Subscript" &&
+      e.kind !== "Attribute"
+    ) {
+      this.errors.push({ ...e.loc, message: "Cannot assign to expression" });
+    }
+  }
+
+  // -- Expressions ---------------------------------------------------------
+
+  /** Comma-separated expressions, producing a tuple if there is a comma. */
+  private expressionList(): Expr {
+    const first = this.expression();
+    if (!this.atOp(",")) return first;
+    const elts = [first];
+    while (this.atOp(",")) {
+      this.next();
+      if (this.endsExpressionList()) break;
+      elts.push(this.expression());
+    }
+    return { kind: "Tuple", elts, loc: locOf(first.loc, this.prev()) };
+  }
+
+  private endsExpressionList(): boolean {
+    const t = this.peek();
+    return (
+      t.type === "newline" ||
+      t.type === "eof" ||
+      (t.type === "op" && [")", "]", "}", "=", ":", ";"].includes(t.value))
+    );
+  }
+
+  /** Targets of a `for` loop, which stop at the `in` keyword. */
+  private targetList(): Expr {
+    const first = this.orExpr();
+    if (!this.atOp(",")) return first;
+    const elts = [first];
+    while (this.atOp(",")) {
+      this.next();
+      if (this.atKeyword("in")) break;
+      elts.push(this.orExpr());
+    }
+    return { kind: "Tuple", elts, loc: locOf(first.loc, this.prev()) };
+  }
+
+  private expression(): Expr {
+    const body = this.orTest();
+    if (this.atKeyword("if")) {
+      this.next();
+      const test = this.orTest();
+      if (!this.atKeyword("else")) {
+        throw new ParseFailure("Expected 'else'", this.peek());
+      }
+      this.next();
+      const orelse = this.expression();
+      return {
+        kind: "IfExp",
+        test,
+        body,
+        orelse,
+        loc: locOf(body.loc, orelse.loc),
+      };
+    }
+    return body;
+  }
+
+  private orTest(): Expr {
+    return this.boolOp("or", () => this.andTest());
+  }
+
+  private andTest(): Expr {
+    return this.boolOp("and", () => this.notTest());
+  }
+
+  private boolOp(op: "and" | "or", operand: () => Expr): Expr {
+    const first = operand();
+    if (!this.atKeyword(op)) return first;
+    const values = [first];
+    while (this.atKeyword(op)) {
+      this.next();
+      values.push(operand());
+    }
+    return {
+      kind: "BoolOp",
+      op,
+      values,
+      loc: locOf(first.loc, values[values.length - 1].loc),
+    };
+  }
+
+  private notTest(): Expr {
+    if (this.atKeyword("not")) {
+      const start = this.next();
+      const operand = this.notTest();
+      return {
+        kind: "UnaryOp",
+        op: "not",
+        operand,
+        loc: locOf(start, operand.loc),
+      };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Expr {
+    const left = this.orExpr();
+    const ops: string[] = [];
+    const comparators: Expr[] = [];
+    for (;;) {
+      const t = this.peek();
+      let op: string | undefined;
+      if (t.type === "op" && COMPARE_OPS.has(t.value)) {
+        op = this.next().value;
+      } else if (t.type === "name" && t.value === "in") {
+        this.next();
+        op = "in";
+      } else if (
+        t.type === "name" &&
+        t.value === "not" &&
+        this.peek(1).value === "in"
+      ) {
+        this.next();
+        this.next();
+        op = "not in";
+      } else if (t.type === "name" && t.value === "is") {
+        this.next();
+        op = "is";
+        if (this.atKeyword("not")) {
+          this.next();
+          op = "is not";
+        }
+      }
+      if (!op) break;
+      ops.push(op);
+      comparators.push(this.orExpr());
+    }
+    if (!ops.length) return left;
+    return {
+      kind: "Compare",
+      left,
+      ops,
+      comparators,
+      loc: locOf(left.loc, comparators[comparators.length - 1].loc),
+    };
+  }
+
+  private binary(ops: string[], operand: () => Expr): Expr {
+    let left = operand();
+    while (this.peek().type === "op" && ops.includes(this.peek().value)) {
+      const op = this.next().value;
+      const right = operand();
+      left = {
+        kind: "BinOp",
+        op,
+        left,
+        right,
+        loc: locOf(left.loc, right.loc),
+      };
+    }
+    return left;
+  }
+
+  private orExpr(): Expr {
+    return this.binary(["|"], () =>
+      this.binary(["^"], () =>
+        this.binary(["&"], () =>
+          this.binary(["<<", ">>"], () =>
+            this.binary(["+", "-"], () =>
+              this.binary(["*", "/", "//", "%"], () => this.unary()),
+            ),
+          ),
+        ),
+      ),
+    );
+  }
+
+  private unary(): Expr {
+    if (this.atOp("-") || this.atOp("+") || this.atOp("~")) {
+      const start = this.next();
+      const operand = this.unary();
+      return {
+        kind: "UnaryOp",
+        op: start.value,
+        operand,
+        loc: locOf(start, operand.loc),
+      };
+    }
+    return this.power();
+  }
+
+  private power(): Expr {
+    const base = this.primary();
+    if (this.atOp("**")) {
+      this.next();
+      const exponent = this.unary();
+      return {
+        kind: "BinOp",
+        op: "**",
+        left: base,
+        right: exponent,
+        loc: locOf(base.loc, exponent.loc),
+      };
+    }
+    return base;
+  }
+
+  private primary(): Expr {
+    let e = this.atom();
+    for (;;) {
+      if (this.atOp(".")) {
+        this.next();
+        const attr = this.expectName();
+        e = {
+          kind: "Attribute",
+          value: e,
+          attr: attr.value,
+          attrLoc: locOf(attr),
+          loc: locOf(e.loc, attr),
+        };
+      } else if (this.atOp("(")) {
+        this.next();
+        const args: Expr[] = [];
+        const keywords: Keyword[] = [];
+        while (!this.atOp(")")) {
+          if (
+            this.peek().type === "name" &&
+            this.peek(1).value === "=" &&
+            this.peek(1).type === "op"
+          ) {
+            const name = this.next();
+            this.next();
+            const value = this.expression();
+            keywords.push({
+              name: name.value,
+              value,
+              loc: locOf(name, value.loc),
+            });
+          } else {
+            const arg = this.expression();
+            if (this.atKeyword("for")) {
+              args.push(this.comprehension("ListComp", arg, arg.loc));
+            } else {
+              args.push(arg);
+            }
+          }
+          if (!this.atOp(",")) break;
+          this.next();
+        }
+        const end = this.expectOp(")");
+        e = { kind: "Call", func: e, args, keywords, loc: locOf(e.loc, end) };
+      } else if (this.atOp("[")) {
+        this.next();
+        const index = this.subscript();
+        const end = this.expectOp("]");
+        e = { kind: "Subscript", value: e, index, loc: locOf(e.loc, end) };
+      } else {
+        return e;
+      }
+    }
+  }
+
+  private subscript(): Expr {
+    const start = this.peek();
+    const part = () =>
+      this.atOp(":") || this.atOp("]") ? undefined : this.expression();
+    const lower = part();
+    if (!this.atOp(":")) {
+      if (!lower) throw new ParseFailure("Expected an index", this.peek());
+      return lower;
+    }
+    this.next();
+    const upper = part();
+    let step: Expr | undefined;
+    if (this.atOp(":")) {
+      this.next();
+      step = part();
+    }
+    return {
+      kind: "Slice",
+      lower,
+      upper,
+      step,
+      loc: locOf(start, this.prev()),
+    };
+  }
+
+  private comprehension(
+    kind: "ListComp" | "SetComp",
+    elt: Expr,
+    start: Loc,
+  ): Expr {
+    const generators = this.comprehensionClauses();
+    return { kind, elt, generators, loc: locOf(start, this.prev()) };
+  }
+
+  private comprehensionClauses(): Comprehension[] {
+    const generators: Comprehension[] = [];
+    while (this.atKeyword("for")) {
+      this.next();
+      const target = this.targetList();
+      if (!this.atKeyword("in")) {
+        throw new ParseFailure("Expected 'in'", this.peek());
+      }
+      this.next();
+      const iter = this.orTest();
+      const ifs: Expr[] = [];
+      while (this.atKeyword("if")) {
+        this.next();
+        ifs.push(this.orTest());
+      }
+      generators.push({ target, iter, ifs });
+    }
+    return generators;
+  }
+
+  private atom(): Expr {
+    const t = this.peek();
+    if (t.type === "name") {
+      if (t.value === "True" || t.value === "False" || t.value === "None") {
+        this.next();
+        const value = t.value === "None" ? null : t.value === "True";
+        return { kind: "Constant", value, loc: locOf(t) };
+      }
+      if (KEYWORDS.has(t.value)) {
+        if (UNSUPPORTED.has(t.value)) {
+          throw new ParseFailure(
+            `'${t.value}' is not supported by the game`,
+            t,
+          );
+        }
+        throw new ParseFailure(`Unexpected keyword '${t.value}'`, t);
+      }
+      this.next();
+      return { kind: "Name", id: t.value, loc: locOf(t) };
+    }
+    if (t.type === "number") {
+      this.next();
+      return {
+        kind: "Constant",
+        value: parseNumber(t.value),
+        float: !/^0[xXbBoO]/.test(t.value) && /[.eE]/.test(t.value),
+        loc: locOf(t),
+      };
+    }
+    if (t.type === "string") {
+      let value = "";
+      let end = t;
+      while (this.at("string")) {
+        end = this.next();
+        if (end.prefix?.includes("f")) {
+          this.error("f-strings are not supported by the game", end);
+        }
+        value += parseString(end.value, end.prefix ?? "");
+      }
+      return { kind: "Constant", value, loc: locOf(t, end) };
+    }
+    if (t.type === "op") {
+      if (t.value === "(") {
+        this.next();
+        if (this.atOp(")")) {
+          const end = this.next();
+          return { kind: "Tuple", elts: [], loc: locOf(t, end) };
+        }
+        const first = this.expression();
+        if (this.atKeyword("for")) {
+          const comp = this.comprehension("ListComp", first, locOf(t));
+          this.expectOp(")");
+          return comp;
+        }
+        if (!this.atOp(",")) {
+          this.expectOp(")");
+          return first;
+        }
+        const elts = [first];
+        while (this.atOp(",")) {
+          this.next();
+          if (this.atOp(")")) break;
+          elts.push(this.expression());
+        }
+        const end = this.expectOp(")");
+        return { kind: "Tuple", elts, loc: locOf(t, end) };
+      }
+      if (t.value === "[") {
+        this.next();
+        const elts: Expr[] = [];
+        while (!this.atOp("]")) {
+          const e = this.expression();
+          if (this.atKeyword("for") && !elts.length) {
+            const comp = this.comprehension("ListComp", e, locOf(t));
+            const end = this.expectOp("]");
+            comp.loc = locOf(t, end);
+            return comp;
+          }
+          elts.push(e);
+          if (!this.atOp(",")) break;
+          this.next();
+        }
+        const end = this.expectOp("]");
+        return { kind: "List", elts, loc: locOf(t, end) };
+      }
+      if (t.value === "{") {
+        this.next();
+        const keys: Expr[] = [];
+        const values: Expr[] = [];
+        const elts: Expr[] = [];
+        while (!this.atOp("}")) {
+          const k = this.expression();
+          if (this.atOp(":")) {
+            this.next();
+            const v = this.expression();
+            if (this.atKeyword("for") && !keys.length) {
+              const generators = this.comprehensionClauses();
+              const end = this.expectOp("}");
+              return {
+                kind: "DictComp",
+                key: k,
+                value: v,
+                generators,
+                loc: locOf(t, end),
+              };
+            }
+            keys.push(k);
+            values.push(v);
+          } else {
+            if (this.atKeyword("for") && !elts.length) {
+              const comp = this.comprehension("SetComp", k, locOf(t));
+              const end = this.expectOp("}");
+              comp.loc = locOf(t, end);
+              return comp;
+            }
+            elts.push(k);
+          }
+          if (!this.atOp(",")) break;
+          this.next();
+        }
+        const end = this.expectOp("}");
+        if (elts.length && keys.length) {
+          throw new ParseFailure("Cannot mix set and dict items", end);
+        }
+        return elts.length
+          ? { kind: "Set", elts, loc: locOf(t, end) }
+          : { kind: "Dict", keys, values, loc: locOf(t, end) };
+      }
+      if (t.value === "...") {
+        this.next();
+        return { kind: "Constant", value: null, loc: locOf(t) };
+      }
+    }
+    throw new ParseFailure(
+      t.type === "newline" || t.type === "eof"
+        ? "Unexpected end of line"
+        : `Unexpected '${t.value}'`,
+      t,
+    );
+  }
+}
+
+function parseNumber(text: string): number {
+  const clean = text.replace(/_/g, "");
+  if (/^0[xX]/.test(clean)) return parseInt(clean.slice(2), 16);
+  if (/^0[bB]/.test(clean)) return parseInt(clean.slice(2), 2);
+  if (/^0[oO]/.test(clean)) return parseInt(clean.slice(2), 8);
+  return Number(clean.replace(/j$/, ""));
+}
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+  "\n": "",
+};
+
+/** Decode the contents of a string literal token. */
+function parseString(text: string, prefix: string): string {
+  const body = text.slice(prefix.length);
+  const quote = body.startsWith('"""') || body.startsWith("'''") ? 3 : 1;
+  const inner = body.slice(quote, body.length - quote);
+  if (prefix.includes("r")) return inner;
+  return inner.replace(/\\([\s\S])/g, (m, c: string) => ESCAPES[c] ?? m);
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import { computeDiagnostics } from "./TFWRDiagnostics";
+import { TFWRDocument } from "./TFWRDocument";
+import { parseBuiltins } from "./TFWRIntelliSense";
+import { computeQuickFixes, concatenate, lambdaToDef } from "./TFWRQuickFixes";
+import builtinsPy from "./__builtins__.py?raw";
+
+const builtins = parseBuiltins(builtinsPy);
+
+/** Returns the titles and replacements of the fixes for the first problem. */
+function fix(text: string) {
+  const document = new TFWRDocument(text);
+  const [diagnostic] = computeDiagnostics(document, builtins);
+  return computeQuickFixes(document, builtins, diagnostic).map(
+    ({ title, edits, preferred }) => ({
+      title,
+      texts: edits.map((edit) => edit.text),
+      preferred,
+    }),
+  );
+}
+
+describe("computeQuickFixes", () => {
+  it("fixes the case of a builtin first", () => {
+    expect(fix("Harvest()")[0]).toEqual({
+      title: "Change to 'harvest'",
+      texts: ["harvest"],
+      preferred: true,
+    });
+  });
+
+  it("fixes the case of a class and its member together", () => {
+    expect(fix("x = items.hay")[0]).toEqual({
+      title: "Change to 'Items.Hay'",
+      texts: ["Items", "Hay"],
+      preferred: true,
+    });
+  });
+
+  it("calls a function that is not called", () => {
+    expect(fix("harvest")).toEqual([
+      { title: "Call 'harvest()'", texts: ["()"], preferred: true },
+    ]);
+  });
+
+  it("removes an import of a Python module", () => {
+    expect(fix("import random\nharvest()")).toEqual([
+      {
+        title: "Remove the import, the game has 'random()'",
+        texts: [""],
+        preferred: true,
+      },
+    ]);
+  });
+});
+
+describe("concatenate", () => {
+  it("rewrites replacement fields as str() calls", () => {
+    expect(concatenate('f"x = {x}, {{y}}"')).toBe('"x = " + str(x) + ", {y}"');
+    expect(concatenate("f'{a}{b}'")).toBe("str(a) + str(b)");
+  });
+
+  it("leaves conversions, format specs and broken strings alone", () => {
+    expect(concatenate('f"{x!r}"')).toBeUndefined();
+    expect(concatenate('f"{x:>3}"')).toBeUndefined();
+    expect(concatenate('f"{x}')).toBeUndefined();
+    expect(concatenate('f"""{x}"""')).toBeUndefined();
+  });
+});
+
+describe("lambdaToDef", () => {
+  it("rewrites an assigned lambda as a def", () => {
+    expect(lambdaToDef("    f = lambda x, y: (x + y) * 2")).toBe(
+      "    def f(x, y):\n        return (x + y) * 2",
+    );
+  });
+
+  it("only rewrites lambdas that are assigned", () => {
+    expect(lambdaToDef("sort(xs, lambda x: x)")).toBeUndefined();
+    expect(lambdaToDef("f = lambda: lambda: 1")).toBeUndefined();
+  });
+});
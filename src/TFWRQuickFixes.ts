@@ -0,0 +1,322 @@
+// Quick fixes for diagnostics from `TFWRDiagnostics`, offered as Monaco code
+// actions by `setupTFWRIntelliSense`. Names are case-sensitive in the game, so
+// a builtin with the wrong case is fixed first, and otherwise names within a
+// small edit distance are suggested. Unsupported Python features only get
+// their own diagnostic code when they can be rewritten, so that every marker
+// with one of those codes has a fix.
+import type { Diagnostic } from "./TFWRDiagnostics";
+import type { TFWRDocument } from "./TFWRDocument";
+import type { ParsedBuiltins } from "./TFWRIntelliSense";
+import { Loc } from "./TFWRParser";
+import { Reference, visibleSymbols } from "./TFWRSymbols";
+import { KEYWORDS, tokenize } from "./TFWRTokenizer";
+
+/** A change that fixes a diagnostic, made of replacements in the document. */
+export type QuickFix = {
+  title: string;
+  edits: { loc: Loc; text: string }[];
+  /** Whether the fix is the one to apply with the keyboard shortcut. */
+  preferred?: boolean;
+};
+
+/** The parts of a diagnostic that identify it, as read back from a marker. */
+export type DiagnosticRef = Pick<Diagnostic, "code" | "line" | "column">;
+
+/** Most suggestions offered for a misspelled name. */
+const MAX_SUGGESTIONS = 3;
+
+/** Python modules with a builtin of the game to use instead. */
+const MODULE_HINTS: Record<string, string> = {
+  random: "random()",
+  time: "get_time()",
+};
+
+/** Returns the fixes for a diagnostic, if there are any. */
+export function computeQuickFixes(
+  document: TFWRDocument,
+  builtins: ParsedBuiltins,
+  diagnostic: DiagnosticRef,
+): QuickFix[] {
+  const { references } = document.scopes;
+  const at = (loc: Loc) =>
+    loc.line === diagnostic.line && loc.column === diagnostic.column;
+
+  switch (diagnostic.code) {
+    case "unknown-member": {
+      const ref = references.find((r) => r.member && at(r.member.loc));
+      if (!ref?.member || !(ref.name in builtins.classes)) return [];
+      const members = Object.keys(builtins.classes[ref.name].members);
+      return suggest(ref.member.name, members).map((member, i) => ({
+        title: describeFix(
+          `${ref.name}.${ref.member!.name}`,
+          `${ref.name}.${member}`,
+        ),
+        edits: [{ loc: ref.member!.loc, text: member }],
+        preferred: i === 0,
+      }));
+    }
+    case "unknown-name":
+    case "unknown-function": {
+      const ref = references.find((r) => !r.binds && at(r.loc));
+      return ref ? fixName(ref, builtins) : [];
+    }
+    case "uncalled": {
+      const ref = references.find((r) => !r.binds && at(r.loc));
+      if (!ref) return [];
+      const end = {
+        ...ref.loc,
+        line: ref.loc.endLine,
+        column: ref.loc.endColumn,
+      };
+      return [
+        {
+          title: `Call '${ref.name}()'`,
+          edits: [{ loc: end, text: "()" }],
+          preferred: true,
+        },
+      ];
+    }
+    case "python-import":
+      return fixImport(document, diagnostic);
+    case "f-string":
+      return fixFString(document, diagnostic);
+    case "lambda":
+      return fixLambda(document, diagnostic);
+    default:
+      return [];
+  }
+}
+
+/** Fix the case or spelling of an unknown name, and of its member if any. */
+function fixName(ref: Reference, builtins: ParsedBuiltins): QuickFix[] {
+  const names = ref.call
+    ? [
+        ...Object.keys(builtins.functions),
+        ...visibleSymbols(ref.scope)
+          .filter((s) => s.kind === "function")
+          .map((s) => s.name),
+      ]
+    : [
+        ...builtins.classNames,
+        ...Object.keys(builtins.constants),
+        ...Object.keys(builtins.functions),
+        ...visibleSymbols(ref.scope).map((s) => s.name),
+      ];
+  return suggest(ref.name, names).map((name, i) => {
+    const edits = [{ loc: ref.loc, text: name }];
+    let from = ref.name;
+    let to = name;
+    // The member of a class with the wrong case, like `items.hay`, is most
+    // likely wrong in the same way.
+    const members = builtins.classes[name]?.members;
+    if (ref.member && members && !(ref.member.name in members)) {
+      const member = Object.keys(members).find(
+        (m) => m.toLowerCase() === ref.member!.name.toLowerCase(),
+      );
+      if (member) {
+        edits.push({ loc: ref.member.loc, text: member });
+        from += `.${ref.member.name}`;
+        to += `.${member}`;
+      }
+    }
+    return { title: describeFix(from, to), edits, preferred: i === 0 };
+  });
+}
+
+/** Remove a top-level import of Python modules. */
+function fixImport(document: TFWRDocument, diagnostic: DiagnosticRef) {
+  const statement = document.module.body.find(
+    (s) => s.kind === "Import" && s.loc.line === diagnostic.line,
+  );
+  if (statement?.kind !== "Import") return [];
+  const module = statement.module ?? statement.names[0]?.name;
+  const hint = module && MODULE_HINTS[module];
+  const loc = {
+    line: statement.loc.line,
+    column: 1,
+    endLine: statement.loc.endLine + 1,
+    endColumn: 1,
+  };
+  return [
+    {
+      title: hint
+        ? `Remove the import, the game has '${hint}'`
+        : "Remove the import",
+      edits: [{ loc, text: "" }],
+      preferred: true,
+    },
+  ];
+}
+
+/** Replace an f-string with string concatenation. */
+function fixFString(
+  document: TFWRDocument,
+  diagnostic: DiagnosticRef,
+): QuickFix[] {
+  const line = lineOf(document, diagnostic.line);
+  const [token] = tokenize(line.slice(diagnostic.column - 1)).tokens;
+  if (token?.type !== "string") return [];
+  const text = concatenate(token.value);
+  if (text === undefined) return [];
+  const loc = {
+    line: diagnostic.line,
+    column: diagnostic.column,
+    endLine: diagnostic.line,
+    endColumn: diagnostic.column + token.value.length,
+  };
+  return [
+    {
+      title: "Convert to string concatenation",
+      edits: [{ loc, text }],
+      preferred: true,
+    },
+  ];
+}
+
+/** Replace an assignment of a lambda with a `def`. */
+function fixLambda(
+  document: TFWRDocument,
+  diagnostic: DiagnosticRef,
+): QuickFix[] {
+  const line = lineOf(document, diagnostic.line);
+  const text = lambdaToDef(line);
+  if (text === undefined) return [];
+  const loc = {
+    line: diagnostic.line,
+    column: 1,
+    endLine: diagnostic.line,
+    endColumn: line.length + 1,
+  };
+  return [
+    { title: "Convert to 'def'", edits: [{ loc, text }], preferred: true },
+  ];
+}
+
+function lineOf(document: TFWRDocument, line: number): string {
+  return document.text.split("\n")[line - 1] ?? "";
+}
+
+/**
+ * Rewrite an f-string as `str()` calls joined with `+`, like `f"x = {x}"` to
+ * `"x = " + str(x)`. Returns undefined for unterminated and triple-quoted
+ * strings, and for replacement fields with conversions or format specs.
+ */
+export function concatenate(literal: string): string | undefined {
+  if (!/^f['"]/i.test(literal)) return undefined;
+  const quote = literal[1];
+  if (literal.length < 3 || !literal.endsWith(quote)) return undefined;
+  if (literal.startsWith(quote.repeat(3), 1)) return undefined;
+  const body = literal.slice(2, -1);
+  const parts: string[] = [];
+  let text = "";
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if ((c === "{" || c === "}") && body[i + 1] === c) {
+      text += c;
+      i++;
+    } else if (c === "{") {
+      const end = body.indexOf("}", i);
+      const expr = body.slice(i + 1, end).trim();
+      if (end < 0 || !expr || /[{:!=]|['"]/.test(expr)) return undefined;
+      if (text) parts.push(quote + text + quote);
+      parts.push(`str(${expr})`);
+      text = "";
+      i = end;
+    } else if (c === "}") {
+      return undefined;
+    } else {
+      text += c;
+      if (c === "\\") text += body[++i] ?? "";
+    }
+  }
+  if (text || !parts.length) parts.push(quote + text + quote);
+  return parts.join(" + ");
+}
+
+/**
+ * Rewrite a line that assigns a lambda, like `f = lambda x: x + 1`, as a `def`
+ * that returns its body. Returns undefined for any other use of `lambda`.
+ */
+export function lambdaToDef(line: string): string | undefined {
+  const { tokens, errors } = tokenize(line);
+  const code = tokens.filter(
+    (t) =>
+      t.type === "name" ||
+      t.type === "number" ||
+      t.type === "string" ||
+      t.type === "op",
+  );
+  const [name, assign, keyword] = code;
+  if (
+    errors.length ||
+    name?.type !== "name" ||
+    KEYWORDS.has(name.value) ||
+    assign?.value !== "=" ||
+    keyword?.value !== "lambda" ||
+    code.slice(3).some((t) => t.type === "name" && t.value === "lambda")
+  ) {
+    return undefined;
+  }
+  // The body starts after the first `:` outside of brackets.
+  let depth = 0;
+  let colon: number | undefined;
+  for (let i = 3; i < code.length && colon === undefined; i++) {
+    const t = code[i];
+    if (t.type !== "op") continue;
+    if ("([{".indexOf(t.value) >= 0) depth++;
+    else if (")]}".indexOf(t.value) >= 0) depth--;
+    else if (t.value === ":" && depth === 0) colon = i;
+  }
+  const last = code[code.length - 1];
+  if (colon === undefined || colon === code.length - 1) return undefined;
+  const params = line.slice(keyword.endColumn - 1, code[colon].column - 1);
+  const body = line.slice(code[colon].endColumn - 1, last.endColumn - 1);
+  const indent = line.slice(0, name.column - 1);
+  const step = indent.indexOf("\t") >= 0 ? "\t" : "    ";
+  return `${indent}def ${name.value}(${params.trim()}):\n${indent}${step}return ${body.trim()}`;
+}
+
+function describeFix(from: string, to: string): string {
+  return from.toLowerCase() === to.toLowerCase()
+    ? `Change to '${to}'`
+    : `Did you mean '${to}'?`;
+}
+
+/**
+ * Returns names close to a misspelled one, closest first. A name that only
+ * differs in case always comes first.
+ */
+function suggest(name: string, names: string[]): string[] {
+  const lower = name.toLowerCase();
+  const limit = Math.max(1, Math.floor(name.length / 3));
+  const scored = new Map<string, number>();
+  for (const candidate of names) {
+    if (candidate === name || scored.has(candidate)) continue;
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance <= limit) scored.set(candidate, distance);
+  }
+  return Array.from(scored.keys())
+    .sort((a, b) => scored.get(a)! - scored.get(b)! || a.localeCompare(b))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/** Levenshtein distance, where swapping two neighbours counts as one edit. */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i ? (j ? 0 : i) : j)),
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
@@ -0,0 +1,445 @@
+// A small model of the farm from "The Farmer was Replaced", driven by scripts
+// running in `TFWRInterpreter`. Tick costs, growth times and soil requirements
+// are read from __builtins__.py; mechanics that depend on neighbouring tiles
+// (mega pumpkins, cactus sorting, sunflower power) are not simulated.
+import type { ParsedBuiltins } from "./TFWRIntelliSense";
+import {
+  Interpreter,
+  PyBuiltin,
+  PyError,
+  PyMember,
+  RunStatus,
+  Value,
+  iterate,
+  makeDict,
+  makeFloat,
+  makeList,
+  makeRange,
+  makeSet,
+  numeric,
+  pyStr,
+  rangeLength,
+  truthy,
+  typeName,
+} from "./TFWRInterpreter";
+import type { Loc } from "./TFWRParser";
+import type { TickCost } from "./TFWRTicks";
+
+/** Approximate number of ticks in one second of game time. */
+export const TICKS_PER_SECOND = 1000;
+
+export const DEFAULT_WORLD_SIZE = 8;
+
+/** Items dropped when harvesting a fully grown entity. */
+const HARVEST_YIELDS: Record<string, [string, number]> = {
+  Grass: ["Hay", 1],
+  Bush: ["Wood", 1],
+  Tree: ["Wood", 5],
+  Carrot: ["Carrot", 1],
+  Pumpkin: ["Pumpkin", 1],
+  Sunflower: ["Power", 1],
+  Cactus: ["Cactus", 1],
+  Treasure: ["Gold", 1],
+  Dinosaur: ["Bone", 1],
+};
+
+const DIRECTIONS: Record<string, [number, number]> = {
+  North: [0, 1],
+  East: [1, 0],
+  South: [0, -1],
+  West: [-1, 0],
+};
+
+/** Builtins that only make sense inside the real game. */
+const UNAVAILABLE = [
+  "trade",
+  "get_cost",
+  "get_companion",
+  "unlock",
+  "num_unlocked",
+  "leaderboard_run",
+  "simulate",
+  "wait_for",
+  "has_finished",
+];
+
+export type Plant = {
+  type: string;
+  /** Tick at which the plant can be harvested. */
+  grownAt: number;
+  /** Value returned by `measure()`, if any. */
+  measure?: number;
+};
+
+export type Tile = { ground: string; entity: Plant | null; water: number };
+
+export type OutputLine = { text: string; error?: boolean };
+
+type EntityInfo = { seconds: number; grounds: string[] };
+
+/** Read growth times and grounds from the docs of the `Entities` class. */
+function parseEntities(builtins: ParsedBuiltins): Record<string, EntityInfo> {
+  const entities: Record<string, EntityInfo> = {};
+  const members = builtins.classes.Entities?.members ?? {};
+  for (const [name, doc] of Object.entries(members)) {
+    const seconds = /Average seconds to grow: ([\d.]+)/.exec(doc ?? "");
+    const grounds = /Grows on: (.+)/.exec(doc ?? "");
+    if (!seconds) continue;
+    entities[name] = {
+      seconds: Number(seconds[1]),
+      grounds: grounds
+        ? grounds[1].split(/\s+or\s+/).map((g) => g.trim().toLowerCase())
+        : [],
+    };
+  }
+  return entities;
+}
+
+/** Deterministic random numbers, so that resetting replays the same run. */
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** One run of a script against a fresh farm. */
+export class Simulation {
+  size: number;
+  tiles: Tile[] = [];
+  x = 0;
+  y = 0;
+  ticks = 0;
+  hat = "Straw_Hat";
+  readonly items: Record<string, number> = {};
+  readonly output: OutputLine[] = [];
+
+  private readonly entities: Record<string, EntityInfo>;
+  private readonly random = mulberry32(42);
+  private readonly interpreter?: Interpreter;
+  private compileError?: PyError;
+
+  constructor(
+    source: string,
+    private readonly builtins: ParsedBuiltins,
+    size = DEFAULT_WORLD_SIZE,
+  ) {
+    this.size = size;
+    this.entities = parseEntities(builtins);
+    this.reset(size);
+    try {
+      this.interpreter = new Interpreter(
+        Interpreter.compile(source),
+        this.createBuiltins(),
+      );
+    } catch (e) {
+      if (!(e instanceof PyError)) throw e;
+      this.compileError = e;
+      this.output.push({ text: e.message, error: true });
+    }
+  }
+
+  get error(): PyError | undefined {
+    return this.compileError ?? this.interpreter?.error;
+  }
+
+  get done(): boolean {
+    return !this.interpreter || this.interpreter.done;
+  }
+
+  /** Location of the statement that runs next, or that raised an error. */
+  get location(): Loc | undefined {
+    return this.error?.loc ?? this.interpreter?.location;
+  }
+
+  get steps(): number {
+    return this.interpreter?.steps ?? 0;
+  }
+
+  /** Advance the script, see `Interpreter.run`. */
+  run(budget: number, untilLine = false): RunStatus {
+    if (!this.interpreter) return "error";
+    const status = this.interpreter.run(budget, untilLine);
+    if (status === "error") {
+      const { message, loc } = this.interpreter.error!;
+      this.output.push({
+        text: loc ? `Line ${loc.line}: ${message}` : message,
+        error: true,
+      });
+    }
+    return status;
+  }
+
+  tile(x: number, y: number): Tile {
+    return this.tiles[y * this.size + x];
+  }
+
+  isGrown(tile: Tile): boolean {
+    return tile.entity !== null && this.ticks >= tile.entity.grownAt;
+  }
+
+  private reset(size: number) {
+    this.size = size;
+    this.x = 0;
+    this.y = 0;
+    this.tiles = [];
+    for (let i = 0; i < size * size; i++) {
+      const tile: Tile = { ground: "Grassland", entity: null, water: 0 };
+      this.growGrass(tile);
+      this.tiles.push(tile);
+    }
+  }
+
+  private growGrass(tile: Tile) {
+    if (tile.ground === "Grassland" && !tile.entity) {
+      tile.entity = this.createPlant("Grass");
+    }
+  }
+
+  private createPlant(type: string): Plant {
+    const seconds = this.entities[type]?.seconds ?? 0;
+    // Growth times are averages, so vary them a little like the game does.
+    const ticks = seconds * TICKS_PER_SECOND * (0.8 + 0.4 * this.random());
+    const plant: Plant = { type, grownAt: this.ticks + Math.round(ticks) };
+    if (type === "Sunflower") plant.measure = 7 + Math.floor(this.random() * 9);
+    if (type === "Cactus") plant.measure = Math.floor(this.random() * 10);
+    return plant;
+  }
+
+  private neighbour(direction: PyMember): [number, number] {
+    const [dx, dy] = DIRECTIONS[direction.name];
+    return [
+      (this.x + dx + this.size) % this.size,
+      (this.y + dy + this.size) % this.size,
+    ];
+  }
+
+  private createBuiltins(): Record<string, Value> {
+    const member = (owner: string, name: string): PyMember => ({
+      kind: "member",
+      owner,
+      name,
+    });
+    const expect = (fn: string, v: Value, owner: string): PyMember => {
+      if (v !== null && typeof v === "object" && v.kind === "member") {
+        if (v.owner === owner) return v;
+      }
+      throw new PyError(
+        `${fn}() expected ${owner === "Direction" ? "a direction" : `one of ${owner}`}, got ${pyStr(v)}`,
+      );
+    };
+    const here = () => this.tile(this.x, this.y);
+    const harvestTile = (tile: Tile): boolean => {
+      if (!tile.entity) return false;
+      if (this.isGrown(tile)) {
+        const drop = HARVEST_YIELDS[tile.entity.type];
+        if (drop) this.items[drop[0]] = (this.items[drop[0]] ?? 0) + drop[1];
+      }
+      tile.entity = null;
+      this.growGrass(tile);
+      return true;
+    };
+    const log = (args: Value[]) => {
+      this.output.push({ text: args.map(pyStr).join(" ") });
+      return null;
+    };
+
+    const farm: Record<string, (args: Value[]) => Value> = {
+      harvest: () => harvestTile(here()),
+      can_harvest: () => this.isGrown(here()),
+      plant: ([entity]) => {
+        const type = expect("plant", entity, "Entities").name;
+        const tile = here();
+        const grounds = this.entities[type]?.grounds ?? [];
+        if (!grounds.includes(tile.ground.toLowerCase())) return false;
+        if (tile.entity && tile.entity.type !== "Grass") return false;
+        tile.entity = this.createPlant(type);
+        return true;
+      },
+      move: ([direction]) => {
+        [this.x, this.y] = this.neighbour(
+          expect("move", direction, "Direction"),
+        );
+        return true;
+      },
+      can_move: ([direction]) => {
+        expect("can_move", direction, "Direction");
+        return true;
+      },
+      swap: ([direction]) => {
+        const [nx, ny] = this.neighbour(expect("swap", direction, "Direction"));
+        const a = here();
+        const b = this.tile(nx, ny);
+        [a.entity, b.entity] = [b.entity, a.entity];
+        return true;
+      },
+      till: () => {
+        const tile = here();
+        tile.ground = tile.ground === "Soil" ? "Grassland" : "Soil";
+        tile.entity = null;
+        this.growGrass(tile);
+        return null;
+      },
+      get_pos_x: () => this.x,
+      get_pos_y: () => this.y,
+      get_world_size: () => this.size,
+      get_entity_type: () => {
+        const entity = here().entity;
+        return entity ? member("Entities", entity.type) : null;
+      },
+      get_ground_type: () => member("Grounds", here().ground),
+      get_time: () => makeFloat(this.ticks / TICKS_PER_SECOND),
+      get_tick_count: () => this.ticks,
+      use_item: ([item, n = 1]) => {
+        const name = expect("use_item", item, "Items").name;
+        const count = typeof n === "number" ? n : 1;
+        if ((this.items[name] ?? 0) < count) return false;
+        const tile = here();
+        if (name === "Water") {
+          tile.water = Math.min(1, tile.water + 0.25 * count);
+        } else if (name === "Fertilizer" && tile.entity) {
+          tile.entity.grownAt -= 2 * TICKS_PER_SECOND * count;
+        } else {
+          return false;
+        }
+        this.items[name] -= count;
+        return true;
+      },
+      get_water: () => makeFloat(here().water),
+      do_a_flip: () => null,
+      pet_the_piggy: () => null,
+      print: log,
+      quick_print: log,
+      set_execution_speed: () => null,
+      set_world_size: ([size]) => {
+        const n = Math.floor(numeric(size) ?? 0);
+        this.reset(
+          n < 3 ? DEFAULT_WORLD_SIZE : Math.min(n, DEFAULT_WORLD_SIZE),
+        );
+        return null;
+      },
+      num_items: ([item]) =>
+        this.items[expect("num_items", item, "Items").name] ?? 0,
+      clear: () => {
+        this.reset(this.size);
+        this.hat = "Straw_Hat";
+        return null;
+      },
+      measure: ([direction]) => {
+        let tile = here();
+        if (direction !== undefined && direction !== null) {
+          const [nx, ny] = this.neighbour(
+            expect("measure", direction, "Direction"),
+          );
+          tile = this.tile(nx, ny);
+        }
+        return tile.entity?.measure ?? null;
+      },
+      random: () => makeFloat(this.random()),
+      change_hat: ([hat]) => {
+        this.hat = expect("change_hat", hat, "Hats").name;
+        return null;
+      },
+      spawn_drone: () => null,
+      max_drones: () => 1,
+      num_drones: () => 1,
+    };
+
+    const python: Record<string, (args: Value[]) => Value> = {
+      abs: ([x]) => {
+        const n = numeric(x);
+        if (n === undefined) {
+          throw new PyError(`bad operand type for abs(): '${typeName(x)}'`);
+        }
+        return typeof x === "object" ? makeFloat(Math.abs(n)) : Math.abs(n);
+      },
+      len: ([v]) => {
+        if (typeof v === "string") return Array.from(v).length;
+        if (v !== null && typeof v === "object") {
+          if (v.kind === "list" || v.kind === "tuple") return v.items.length;
+          if (v.kind === "dict" || v.kind === "set") return v.entries.size;
+          if (v.kind === "range") return rangeLength(v);
+        }
+        throw new PyError(`object of type '${typeName(v)}' has no len()`);
+      },
+      list: ([v]) => makeList(v === undefined ? [] : iterate(v)),
+      set: ([v]) => makeSet(v === undefined || v === null ? [] : iterate(v)),
+      dict: ([v]) => {
+        if (v === undefined || v === null) return makeDict();
+        if (typeof v === "object" && v.kind === "dict") {
+          const copy = makeDict();
+          v.entries.forEach((e, k) => copy.entries.set(k, e));
+          return copy;
+        }
+        return makeDict(
+          iterate(v).map((pair) => {
+            const [k, x] = iterate(pair);
+            return [k, x];
+          }),
+        );
+      },
+      str: ([v]) => pyStr(v === undefined ? "" : v),
+      range: (args) => {
+        const [start, stop, step = 1] =
+          args.length === 1 ? [0, args[0]] : (args as Value[]);
+        const [a, b, s] = [start, stop, step].map((v) => {
+          if (typeof v !== "number" && typeof v !== "boolean") {
+            throw new PyError(
+              `'${typeName(v)}' object cannot be interpreted as an integer`,
+            );
+          }
+          return Number(v);
+        });
+        return makeRange(a, b, s);
+      },
+      max: (args) => extreme("max", args, 1),
+      min: (args) => extreme("min", args, -1),
+    };
+    const extreme = (fn: string, args: Value[], sign: number): Value => {
+      const values = args.length === 1 ? iterate(args[0]) : args;
+      if (!values.length) throw new PyError(`${fn}() arg is an empty sequence`);
+      return values.reduce((best, v) =>
+        sign * ((numeric(v) ?? NaN) - (numeric(best) ?? NaN)) > 0 ? v : best,
+      );
+    };
+
+    const result: Record<string, Value> = {};
+    const define = (name: string, impl: (args: Value[]) => Value) => {
+      const ticks: TickCost | undefined = this.builtins.functions[name]?.ticks;
+      const builtin: PyBuiltin = {
+        kind: "builtin",
+        name,
+        call: (args) => {
+          const value = impl(args);
+          if (ticks) {
+            const ok = ticks.failure === undefined || truthy(value);
+            this.ticks += ok ? ticks.success : ticks.failure!;
+          }
+          return value;
+        },
+      };
+      result[name] = builtin;
+    };
+    Object.keys(farm).forEach((name) => define(name, farm[name]));
+    Object.keys(python).forEach((name) => define(name, python[name]));
+    UNAVAILABLE.forEach((name) =>
+      define(name, () => {
+        throw new PyError(`'${name}' is not available in the simulator`);
+      }),
+    );
+
+    Object.keys(this.builtins.classes).forEach((name) => {
+      result[name] = {
+        kind: "class",
+        name,
+        members: Object.keys(this.builtins.classes[name].members),
+      };
+    });
+    Object.keys(DIRECTIONS).forEach((name) => {
+      result[name] = member("Direction", name);
+    });
+    return result;
+  }
+}
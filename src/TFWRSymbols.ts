@@ -0,0 +1,398 @@
+// Scope analysis for game scripts. Every name in the AST is resolved the way
+// Python does it: a name bound anywhere in a function is local to the whole
+// function unless it is declared `global`, comprehension variables are local
+// to the comprehension, and everything else falls back to the module.
+import { Expr, Loc, Module, Stmt } from "./TFWRParser";
+
+export type FunctionDef = Extract<Stmt, { kind: "FunctionDef" }>;
+export type CallExpr = Extract<Expr, { kind: "Call" }>;
+
+/** Types that completions know the methods of. */
+export type ValueType = "list" | "dict" | "set" | "str" | "unknown";
+
+export type PySymbol = {
+  name: string;
+  kind: "function" | "variable" | "parameter" | "module";
+  scope: Scope;
+  /** Locations where the name is bound: `def`, assignments and loops. */
+  definitions: Loc[];
+  /** Every occurrence of the name, including the definitions. */
+  occurrences: Loc[];
+  /** The most recent `def` of a function. */
+  def?: FunctionDef;
+  type: ValueType;
+};
+
+export type Scope = {
+  kind: "module" | "function" | "comprehension";
+  parent?: Scope;
+  children: Scope[];
+  symbols: Map<string, PySymbol>;
+  /** Names declared `global` in a function. */
+  globals: Set<string>;
+  /**
+   * Region of the document in the scope. A function extends to the line before
+   * the next statement of its parent, so that it includes trailing blank lines.
+   */
+  range: Loc;
+};
+
+/** An occurrence of a name in the document. */
+export type Reference = {
+  name: string;
+  loc: Loc;
+  scope: Scope;
+  binds: boolean;
+  /** The symbol the name resolves to. Unset for builtins and unknown names. */
+  symbol?: PySymbol;
+  /** The call, when the name itself is called. */
+  call?: CallExpr;
+  /** The member, when the name is followed by `.member`. */
+  member?: { name: string; loc: Loc };
+};
+
+export type Analysis = { root: Scope; references: Reference[] };
+
+const WHOLE_DOCUMENT: Loc = {
+  line: 1,
+  column: 1,
+  endLine: Infinity,
+  endColumn: Infinity,
+};
+
+/** Resolve every name in a module. */
+export function analyze(module: Module): Analysis {
+  const root = newScope("module", WHOLE_DOCUMENT);
+  const references: Reference[] = [];
+
+  const bind = (
+    scope: Scope,
+    name: string,
+    loc: Loc,
+    kind: PySymbol["kind"],
+    type: ValueType = "unknown",
+  ): PySymbol => {
+    const owner = scope.globals.has(name) ? root : scope;
+    let symbol = owner.symbols.get(name);
+    if (!symbol) {
+      symbol = {
+        name,
+        kind,
+        scope: owner,
+        definitions: [],
+        occurrences: [],
+        type,
+      };
+      owner.symbols.set(name, symbol);
+    } else if (kind === "function") {
+      symbol.kind = kind;
+    }
+    if (symbol.type === "unknown") symbol.type = type;
+    symbol.definitions.push(loc);
+    references.push({ name, loc, scope, binds: true, symbol });
+    return symbol;
+  };
+
+  const target = (scope: Scope, t: Expr, type: ValueType = "unknown") => {
+    if (t.kind === "Name") bind(scope, t.id, t.loc, "variable", type);
+    else if (t.kind === "Tuple" || t.kind === "List")
+      t.elts.forEach((e) => target(scope, e));
+    else expr(scope, t);
+  };
+
+  const expr = (scope: Scope, e: Expr | undefined): void => {
+    if (!e) return;
+    const sub = (x: Expr | undefined) => expr(scope, x);
+    switch (e.kind) {
+      case "Name":
+        references.push({ name: e.id, loc: e.loc, scope, binds: false });
+        break;
+      case "Constant":
+        break;
+      case "Attribute":
+        if (e.value.kind === "Name") {
+          references.push({
+            name: e.value.id,
+            loc: e.value.loc,
+            scope,
+            binds: false,
+            member: { name: e.attr, loc: e.attrLoc },
+          });
+        } else {
+          sub(e.value);
+        }
+        break;
+      case "Subscript":
+        sub(e.value);
+        sub(e.index);
+        break;
+      case "Slice":
+        sub(e.lower);
+        sub(e.upper);
+        sub(e.step);
+        break;
+      case "Call":
+        if (e.func.kind === "Name") {
+          references.push({
+            name: e.func.id,
+            loc: e.func.loc,
+            scope,
+            binds: false,
+            call: e,
+          });
+        } else {
+          sub(e.func);
+        }
+        e.args.forEach(sub);
+        e.keywords.forEach((k) => sub(k.value));
+        break;
+      case "BinOp":
+        sub(e.left);
+        sub(e.right);
+        break;
+      case "UnaryOp":
+        sub(e.operand);
+        break;
+      case "BoolOp":
+        e.values.forEach(sub);
+        break;
+      case "Compare":
+        sub(e.left);
+        e.comparators.forEach(sub);
+        break;
+      case "IfExp":
+        sub(e.test);
+        sub(e.body);
+        sub(e.orelse);
+        break;
+      case "Tuple":
+      case "List":
+      case "Set":
+        e.elts.forEach(sub);
+        break;
+      case "Dict":
+        e.keys.forEach(sub);
+        e.values.forEach(sub);
+        break;
+      case "ListComp":
+      case "SetComp":
+      case "DictComp": {
+        // The first iterable is evaluated in the enclosing scope.
+        sub(e.generators[0].iter);
+        const inner = newScope("comprehension", e.loc, scope);
+        e.generators.forEach((g, i) => {
+          if (i > 0) expr(inner, g.iter);
+          target(inner, g.target);
+          g.ifs.forEach((x) => expr(inner, x));
+        });
+        if (e.kind === "DictComp") {
+          expr(inner, e.key);
+          expr(inner, e.value);
+        } else {
+          expr(inner, e.elt);
+        }
+        break;
+      }
+    }
+  };
+
+  const block = (scope: Scope, body: Stmt[], end: number) =>
+    body.forEach((s, i) =>
+      stmt(scope, s, i + 1 < body.length ? body[i + 1].loc.line - 1 : end),
+    );
+
+  const stmt = (scope: Scope, s: Stmt, end: number) => {
+    switch (s.kind) {
+      case "Expr":
+        expr(scope, s.value);
+        break;
+      case "Assign": {
+        expr(scope, s.value);
+        expr(scope, s.annotation);
+        const type =
+          annotationType(s.annotation) ?? typeOf(s.value) ?? "unknown";
+        s.targets.forEach((t) => target(scope, t, type));
+        break;
+      }
+      case "AugAssign":
+        expr(scope, s.value);
+        target(scope, s.target);
+        break;
+      case "If": {
+        expr(scope, s.test);
+        const bodyEnd = s.orelse.length ? s.orelse[0].loc.line - 1 : end;
+        block(scope, s.body, bodyEnd);
+        block(scope, s.orelse, end);
+        break;
+      }
+      case "While":
+        expr(scope, s.test);
+        block(scope, s.body, end);
+        break;
+      case "For":
+        expr(scope, s.iter);
+        target(scope, s.target);
+        block(scope, s.body, end);
+        break;
+      case "FunctionDef": {
+        s.params.forEach((p) => expr(scope, p.default));
+        bind(scope, s.name, s.nameLoc, "function").def = s;
+        const inner = newScope(
+          "function",
+          { ...s.loc, endLine: Math.max(end, s.loc.endLine) },
+          scope,
+        );
+        collectGlobals(s.body, inner.globals);
+        s.params.forEach((p) => bind(inner, p.name, p.loc, "parameter"));
+        block(inner, s.body, inner.range.endLine);
+        break;
+      }
+      case "Return":
+        expr(scope, s.value);
+        break;
+      case "Global":
+        s.names.forEach((n) =>
+          references.push({ name: n.name, loc: n.loc, scope, binds: false }),
+        );
+        break;
+      case "Import":
+        s.names.forEach((n) => {
+          if (n.name !== "*") bind(scope, n.asname ?? n.name, n.loc, "module");
+        });
+        break;
+    }
+  };
+
+  block(root, module.body, Infinity);
+
+  // Every binding is known now, so uses can be resolved even when they come
+  // before the binding in the text, as in a function that calls a later one.
+  references.forEach((ref) => {
+    ref.symbol ??= lookup(ref.scope, ref.name);
+    ref.symbol?.occurrences.push(ref.loc);
+  });
+  return { root, references };
+}
+
+/** Find the symbol that a name refers to from a scope. */
+export function lookup(scope: Scope, name: string): PySymbol | undefined {
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    const symbol = s.symbols.get(name);
+    if (symbol) return symbol;
+  }
+  return undefined;
+}
+
+/** Returns the innermost scope at a position. */
+export function scopeAt(root: Scope, line: number, column: number): Scope {
+  const inside = root.children.find((s) => {
+    const { range } = s;
+    if (line < range.line || line > range.endLine) return false;
+    if (s.kind === "comprehension") {
+      if (line === range.line && column < range.column) return false;
+      return line < range.endLine || column <= range.endColumn;
+    }
+    // Lines below a `def` belong to it only while indented past the `def`.
+    return line === range.line || column > range.column;
+  });
+  return inside ? scopeAt(inside, line, column) : root;
+}
+
+/** Returns the symbols visible from a scope, innermost first. */
+export function visibleSymbols(scope: Scope): PySymbol[] {
+  const seen = new Set<string>();
+  const symbols: PySymbol[] = [];
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    s.symbols.forEach((symbol, name) => {
+      if (seen.has(name)) return;
+      seen.add(name);
+      symbols.push(symbol);
+    });
+  }
+  return symbols;
+}
+
+/** Returns the resolved name at a position, if any. */
+export function referenceAt(
+  analysis: Analysis,
+  line: number,
+  column: number,
+): Reference | undefined {
+  return analysis.references.find(
+    ({ loc }) =>
+      loc.line === line && loc.column <= column && column <= loc.endColumn,
+  );
+}
+
+/** Returns the docstring of a function, if it has one. */
+export function docstring(def: FunctionDef): string | undefined {
+  const first = def.body[0];
+  if (
+    first?.kind === "Expr" &&
+    first.value.kind === "Constant" &&
+    typeof first.value.value === "string"
+  ) {
+    return first.value.value;
+  }
+  return undefined;
+}
+
+function newScope(kind: Scope["kind"], range: Loc, parent?: Scope): Scope {
+  const scope: Scope = {
+    kind,
+    parent,
+    children: [],
+    symbols: new Map(),
+    globals: new Set(),
+    range,
+  };
+  parent?.children.push(scope);
+  return scope;
+}
+
+/** Infer the type of a value from its literal or constructor. */
+function typeOf(e: Expr | undefined): ValueType | undefined {
+  switch (e?.kind) {
+    case "List":
+    case "ListComp":
+      return "list";
+    case "Dict":
+    case "DictComp":
+      return "dict";
+    case "Set":
+    case "SetComp":
+      return "set";
+    case "Constant":
+      return typeof e.value === "string" ? "str" : undefined;
+    case "Call":
+      return annotationType(e.func);
+  }
+  return undefined;
+}
+
+/** The type named by an annotation such as `items: list = ...`. */
+function annotationType(e: Expr | undefined): ValueType | undefined {
+  if (e?.kind !== "Name") return undefined;
+  return ["list", "dict", "set", "str"].includes(e.id)
+    ? (e.id as ValueType)
+    : undefined;
+}
+
+/** Collects the names declared `global` in a function body. */
+function collectGlobals(body: Stmt[], globals: Set<string>) {
+  for (const s of body) {
+    switch (s.kind) {
+      case "Global":
+        s.names.forEach((n) => globals.add(n.name));
+        break;
+      case "If":
+        collectGlobals(s.body, globals);
+        collectGlobals(s.orelse, globals);
+        break;
+      case "While":
+      case "For":
+        collectGlobals(s.body, globals);
+        break;
+    }
+  }
+}
@@ -0,0 +1,340 @@
+// Tick costs of game scripts. __builtins__.py documents what each builtin
+// takes, like "takes `200` ticks to execute if the drone has moved, `1` tick
+// otherwise", and estimates for calls, functions and loops add those up. Like
+// the simulator, only builtin calls cost ticks. Early returns and breaks are
+// not followed, so a best case can be higher than what the game measures.
+import type { TFWRDocument } from "./TFWRDocument";
+import type { ParsedBuiltins } from "./TFWRIntelliSense";
+import { Expr, Loc, Stmt } from "./TFWRParser";
+import { CallExpr, FunctionDef, Reference } from "./TFWRSymbols";
+
+/** Ticks that a builtin takes, depending on whether it succeeds. */
+export type TickCost = {
+  success: number;
+  failure?: number;
+  /** When it takes `success` ticks, e.g. "if the drone has moved". */
+  condition?: string;
+};
+
+/** Fewest and most ticks something can take, where `worst` may be Infinity. */
+export type TickRange = { best: number; worst: number };
+
+/** A call with its own cost, not counting its arguments. */
+export type CallTicks = {
+  name: string;
+  loc: Loc;
+  ticks: TickRange;
+  /** The documented cost, for calls of builtins. */
+  cost?: TickCost;
+};
+
+/** A user-defined function, per call, or a loop, per iteration of its body. */
+export type BlockTicks = {
+  kind: "function" | "loop";
+  /** Location of the `def`, `for` or `while` statement. */
+  loc: Loc;
+  ticks: TickRange;
+  /** Number of iterations, for loops over a literal or a constant `range`. */
+  iterations?: number;
+};
+
+export type TickEstimates = { calls: CallTicks[]; blocks: BlockTicks[] };
+
+const ZERO: TickRange = { best: 0, worst: 0 };
+
+/** Cost of a call that may never return, like unbounded recursion. */
+const UNBOUNDED: TickRange = { best: 0, worst: Infinity };
+
+/** Read the tick cost from the docstring of a builtin. */
+export function parseTickCost(doc?: string): TickCost | undefined {
+  const m =
+    doc &&
+    /takes `(\d+)` ticks? to execute(?: ((?:if|on) [^,.`\n]+))?(?:,\s*`(\d+)`)?/.exec(
+      doc,
+    );
+  if (!m) return undefined;
+  return {
+    success: Number(m[1]),
+    failure: m[3] === undefined ? undefined : Number(m[3]),
+    condition: m[2],
+  };
+}
+
+/**
+ * Range of a documented cost. A condition without another cost, as for
+ * `wait_for`, means that the call can take any number of ticks otherwise.
+ */
+export function rangeOf(cost: TickCost): TickRange {
+  if (cost.failure === undefined) {
+    return {
+      best: cost.success,
+      worst: cost.condition ? Infinity : cost.success,
+    };
+  }
+  return {
+    best: Math.min(cost.success, cost.failure),
+    worst: Math.max(cost.success, cost.failure),
+  };
+}
+
+/** Estimate the ticks of every call, function and loop in a document. */
+export function estimateTicks(
+  document: TFWRDocument,
+  builtins: ParsedBuiltins,
+): TickEstimates {
+  const calls: CallTicks[] = [];
+  const blocks: BlockTicks[] = [];
+  const references = new Map<CallExpr, Reference>();
+  document.scopes.references.forEach((ref) => {
+    if (ref.call) references.set(ref.call, ref);
+  });
+
+  // Functions are estimated once, and a call back into a function that is
+  // still being estimated is recursion, which has no bound.
+  const functions = new Map<FunctionDef, TickRange | undefined>();
+  const functionTicks = (def: FunctionDef): TickRange => {
+    if (functions.has(def)) return functions.get(def) ?? UNBOUNDED;
+    functions.set(def, undefined);
+    const ticks = stmts(def.body);
+    functions.set(def, ticks);
+    return ticks;
+  };
+
+  /** Ticks of a call itself, or undefined if it is not a known function. */
+  const ownTicks = (call: CallExpr): CallTicks | undefined => {
+    const ref = references.get(call);
+    if (!ref) return undefined;
+    if (ref.symbol) {
+      const def = ref.symbol.kind === "function" ? ref.symbol.def : undefined;
+      if (!def) return undefined;
+      return { name: ref.name, loc: call.loc, ticks: functionTicks(def) };
+    }
+    const cost = builtins.functions[ref.name]?.ticks;
+    if (!cost) return undefined;
+    return { name: ref.name, loc: call.loc, ticks: rangeOf(cost), cost };
+  };
+
+  const expr = (e: Expr | undefined): TickRange => {
+    if (!e) return ZERO;
+    switch (e.kind) {
+      case "Name":
+      case "Constant":
+        return ZERO;
+      case "Attribute":
+        return expr(e.value);
+      case "Subscript":
+        return add(expr(e.value), expr(e.index));
+      case "Slice":
+        return sum([e.lower, e.upper, e.step].map(expr));
+      case "Call": {
+        const args = sum([
+          expr(e.func.kind === "Name" ? undefined : e.func),
+          ...e.args.map(expr),
+          ...e.keywords.map((k) => expr(k.value)),
+        ]);
+        return add(args, ownTicks(e)?.ticks ?? ZERO);
+      }
+      case "BinOp":
+        return add(expr(e.left), expr(e.right));
+      case "UnaryOp":
+        return expr(e.operand);
+      case "BoolOp": {
+        // Only the first operand is sure to run.
+        const [first, ...rest] = e.values.map(expr);
+        return add(first, { best: 0, worst: sum(rest).worst });
+      }
+      case "Compare":
+        return sum([e.left, ...e.comparators].map(expr));
+      case "IfExp":
+        return add(expr(e.test), either(expr(e.body), expr(e.orelse)));
+      case "Tuple":
+      case "List":
+      case "Set":
+        return sum(e.elts.map(expr));
+      case "Dict":
+        return sum([...e.keys, ...e.values].map(expr));
+      case "ListComp":
+      case "SetComp":
+      case "DictComp": {
+        const element =
+          e.kind === "DictComp" ? add(expr(e.key), expr(e.value)) : expr(e.elt);
+        // Generators nest, so the innermost one runs the element.
+        return e.generators.reduceRight(
+          (inner, g) =>
+            add(expr(g.iter), repeat(add(sum(g.ifs.map(expr)), inner), g.iter)),
+          element,
+        );
+      }
+    }
+  };
+
+  const stmt = (s: Stmt): TickRange => {
+    switch (s.kind) {
+      case "Expr":
+        return expr(s.value);
+      case "Assign":
+        return add(expr(s.value), sum(s.targets.map(expr)));
+      case "AugAssign":
+        return add(expr(s.value), expr(s.target));
+      case "If":
+        return add(expr(s.test), either(stmts(s.body), stmts(s.orelse)));
+      case "While": {
+        // The test runs once more than the body, when it ends the loop.
+        const test = expr(s.test);
+        return add(test, repeat(add(stmts(s.body), test)));
+      }
+      case "For":
+        return add(expr(s.iter), repeat(stmts(s.body), s.iter));
+      case "FunctionDef":
+        return sum(s.params.map((p) => expr(p.default)));
+      case "Return":
+        return expr(s.value);
+      default:
+        return ZERO;
+    }
+  };
+
+  const stmts = (body: Stmt[]): TickRange => sum(body.map(stmt));
+
+  // Calls and blocks are reported where they appear, once each.
+  const visitNode = (node: unknown) => {
+    if (typeof node !== "object" || node === null) return;
+    if ((node as Expr).kind === "Call") {
+      const call = ownTicks(node as CallExpr);
+      if (call) calls.push(call);
+    }
+    Object.values(node).forEach(visitNode);
+  };
+  const visit = (s: Stmt) => {
+    switch (s.kind) {
+      case "FunctionDef":
+        visitNode(s.params);
+        blocks.push({ kind: "function", loc: s.loc, ticks: functionTicks(s) });
+        s.body.forEach(visit);
+        return;
+      case "While":
+        visitNode(s.test);
+        blocks.push({
+          kind: "loop",
+          loc: s.loc,
+          ticks: add(stmts(s.body), expr(s.test)),
+        });
+        s.body.forEach(visit);
+        return;
+      case "For":
+        visitNode([s.target, s.iter]);
+        blocks.push({
+          kind: "loop",
+          loc: s.loc,
+          ticks: stmts(s.body),
+          iterations: iterations(s.iter),
+        });
+        s.body.forEach(visit);
+        return;
+      case "If":
+        visitNode(s.test);
+        s.body.forEach(visit);
+        s.orelse.forEach(visit);
+        return;
+      default:
+        visitNode(s);
+    }
+  };
+  document.module.body.forEach(visit);
+
+  return { calls, blocks };
+}
+
+/** Describe a range, like "200 ticks", "1–200 ticks" or "200+ ticks". */
+export function describeTicks({ best, worst }: TickRange): string {
+  const count = (n: number) => n.toLocaleString("en-US");
+  if (worst === Infinity) return `${count(best)}+ ticks`;
+  if (best === worst) return `${count(best)} tick${best === 1 ? "" : "s"}`;
+  return `${count(best)}–${count(worst)} ticks`;
+}
+
+/** Describe a documented cost, like "200 ticks if it succeeded, 1 otherwise". */
+export function describeCost(cost: TickCost): string {
+  const ticks = describeTicks({ best: cost.success, worst: cost.success });
+  if (!cost.condition) return ticks;
+  if (cost.failure === undefined) return `${ticks} ${cost.condition}`;
+  return `${ticks} ${cost.condition}, ${cost.failure} otherwise`;
+}
+
+/** Title of the code lens above a function or loop. */
+export function describeBlock({ kind, ticks, iterations }: BlockTicks): string {
+  if (kind === "function") return `${describeTicks(ticks)} per call`;
+  const each = `${describeTicks(ticks)} per iteration`;
+  if (iterations === undefined) return each;
+  const total = times(ticks, iterations);
+  return `${each}, ${describeTicks(total)} for ${iterations} iteration${iterations === 1 ? "" : "s"}`;
+}
+
+/**
+ * Number of iterations over a literal, like `[North, South]` or `"abc"`, or a
+ * `range` with constant arguments.
+ */
+function iterations(iter: Expr): number | undefined {
+  if (iter.kind === "List" || iter.kind === "Tuple" || iter.kind === "Set") {
+    return iter.elts.length;
+  }
+  if (iter.kind === "Constant" && typeof iter.value === "string") {
+    return Array.from(iter.value).length;
+  }
+  if (
+    iter.kind !== "Call" ||
+    iter.func.kind !== "Name" ||
+    iter.func.id !== "range" ||
+    iter.keywords.length
+  ) {
+    return undefined;
+  }
+  const args = iter.args.map(constantNumber);
+  if (args.length < 1 || args.length > 3 || args.includes(undefined)) {
+    return undefined;
+  }
+  const [start, stop, step = 1] =
+    args.length === 1 ? [0, args[0]!] : (args as number[]);
+  if (step === 0) return undefined;
+  return Math.max(0, Math.ceil((stop - start) / step));
+}
+
+function constantNumber(e: Expr): number | undefined {
+  if (e.kind === "Constant" && typeof e.value === "number") return e.value;
+  if (e.kind === "UnaryOp" && e.op === "-") {
+    const value = constantNumber(e.operand);
+    return value === undefined ? undefined : -value;
+  }
+  return undefined;
+}
+
+/**
+ * Ticks of running a body a number of times: that many if known from `iter`,
+ * otherwise none at best and without bound at worst.
+ */
+function repeat(body: TickRange, iter?: Expr): TickRange {
+  const count = iter && iterations(iter);
+  if (count !== undefined) return times(body, count);
+  return { best: 0, worst: body.worst > 0 ? Infinity : 0 };
+}
+
+function add(a: TickRange, b: TickRange): TickRange {
+  return { best: a.best + b.best, worst: a.worst + b.worst };
+}
+
+function times(range: TickRange, count: number): TickRange {
+  if (count === 0) return ZERO;
+  return { best: range.best * count, worst: range.worst * count };
+}
+
+function sum(ranges: TickRange[]): TickRange {
+  return ranges.reduce(add, ZERO);
+}
+
+/** Ticks of running one of two branches. */
+function either(a: TickRange, b: TickRange): TickRange {
+  return {
+    best: Math.min(a.best, b.best),
+    worst: Math.max(a.worst, b.worst),
+  };
+}
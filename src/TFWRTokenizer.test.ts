@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { tokenize } from "./TFWRTokenizer";
+
+/** Returns the types and values of the tokens of a script. */
+function tokens(source: string) {
+  return tokenize(source).tokens.map(({ type, value }) =>
+    value ? `${type} ${value}` : type,
+  );
+}
+
+describe("tokenize", () => {
+  it("produces indents and dedents for blocks", () => {
+    expect(tokens("if x:\n    harvest()\nmove(North)")).toEqual([
+      "name if",
+      "name x",
+      "op :",
+      "newline",
+      "indent",
+      "name harvest",
+      "op (",
+      "op )",
+      "newline",
+      "dedent",
+      "name move",
+      "op (",
+      "name North",
+      "op )",
+      "newline",
+      "eof",
+    ]);
+  });
+
+  it("ignores newlines inside brackets and blank lines", () => {
+    expect(tokens("f(1,\n  2)\n\n# done\n")).toEqual([
+      "name f",
+      "op (",
+      "number 1",
+      "op ,",
+      "number 2",
+      "op )",
+      "newline",
+      "eof",
+    ]);
+  });
+
+  it("keeps the prefix of strings", () => {
+    const [token] = tokenize('F"{x}"').tokens;
+    expect(token).toMatchObject({ type: "string", prefix: "f" });
+  });
+
+  it("reports errors without throwing", () => {
+    const { tokens, errors } = tokenize('x = "oops\nif x:\n    y\n  z');
+    expect(errors.map((e) => e.line)).toEqual([1, 4]);
+    expect(tokens[tokens.length - 1].type).toBe("eof");
+  });
+});
@@ -0,0 +1,393 @@
+// Tokenizer for the Python-like language used by "The Farmer was Replaced".
+// Produces Python-style NEWLINE/INDENT/DEDENT tokens so that later stages can
+// work on logical lines and blocks instead of raw text.
+
+/** Kinds of tokens produced by `tokenize()`. */
+export type TokenType =
+  | "name"
+  | "number"
+  | "string"
+  | "op"
+  | "newline"
+  | "indent"
+  | "dedent"
+  | "eof";
+
+/** A single token, with 1-based Monaco-style line and column numbers. */
+export type Token = {
+  readonly type: TokenType;
+  readonly value: string;
+  readonly line: number;
+  readonly column: number;
+  readonly endLine: number;
+  readonly endColumn: number;
+  /** String prefix such as `f`, `r` or `b`, lowercased. */
+  readonly prefix?: string;
+};
+
+/** A problem found while tokenizing, such as an unterminated string. */
+export type TokenizeError = {
+  readonly message: string;
+  readonly line: number;
+  readonly column: number;
+  readonly endLine: number;
+  readonly endColumn: number;
+};
+
+export type TokenizeResult = {
+  tokens: Token[];
+  errors: TokenizeError[];
+};
+
+export const KEYWORDS = new Set([
+  "False",
+  "None",
+  "True",
+  "and",
+  "as",
+  "assert",
+  "async",
+  "await",
+  "break",
+  "class",
+  "continue",
+  "def",
+  "del",
+  "elif",
+  "else",
+  "except",
+  "finally",
+  "for",
+  "from",
+  "global",
+  "if",
+  "import",
+  "in",
+  "is",
+  "lambda",
+  "nonlocal",
+  "not",
+  "or",
+  "pass",
+  "raise",
+  "return",
+  "try",
+  "while",
+  "with",
+  "yield",
+]);
+
+// Longest operators first, so that the scanner is greedy.
+const OPERATORS = [
+  "**=",
+  "//=",
+  ">>=",
+  "<<=",
+  "...",
+  "->",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "**",
+  "//",
+  "<<",
+  ">>",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "&",
+  "|",
+  "^",
+  "~",
+  "<",
+  ">",
+  "(",
+  ")",
+  "[",
+  "]",
+  "{",
+  "}",
+  ",",
+  ":",
+  ".",
+  ";",
+  "=",
+  "@",
+];
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_PART = /[A-Za-z0-9_]/;
+const NUMBER =
+  /^(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?j?)/;
+const STRING_PREFIX = /^(?:[rR][bBfF]?|[bBfF][rR]?|[uU])?(?:'''|"""|'|")/;
+
+/**
+ * Split source text into tokens.
+ *
+ * Never throws: problems are reported in `errors` and the tokenizer recovers
+ * by skipping the offending character or the rest of the line.
+ */
+export function tokenize(source: string): TokenizeResult {
+  const tokens: Token[] = [];
+  const errors: TokenizeError[] = [];
+  const indents: number[] = [0];
+  const n = source.length;
+  let depth = 0; // Nesting of (), [] and {}, inside which newlines are ignored.
+  let i = 0;
+  let line = 1;
+  let lineStart = 0; // Index in `source` where the current line begins.
+  let atLineStart = true; // Whether indentation must be measured next.
+
+  const col = (index: number) => index - lineStart + 1;
+  const error = (message: string, from: number, to: number) =>
+    errors.push({
+      message,
+      line,
+      column: col(from),
+      endLine: line,
+      endColumn: col(to),
+    });
+
+  while (i < n) {
+    if (atLineStart) {
+      atLineStart = false;
+      let j = i;
+      while (j < n && (source[j] === " " || source[j] === "\t")) j++;
+      const blank =
+        j >= n || source[j] === "\n" || source[j] === "\r" || source[j] === "#";
+      if (!blank) {
+        const width = indentWidth(source.slice(i, j));
+        const top = indents[indents.length - 1];
+        if (width > top) {
+          indents.push(width);
+          tokens.push({
+            type: "indent",
+            value: "",
+            line,
+            column: 1,
+            endLine: line,
+            endColumn: col(j),
+          });
+        } else if (width < top) {
+          while (width < indents[indents.length - 1]) {
+            indents.pop();
+            tokens.push({
+              type: "dedent",
+              value: "",
+              line,
+              column: 1,
+              endLine: line,
+              endColumn: col(j),
+            });
+          }
+          if (width !== indents[indents.length - 1]) {
+            error("Unindent does not match any outer indentation level", i, j);
+            indents.push(width);
+          }
+        }
+      }
+      i = j;
+      continue;
+    }
+
+    const ch = source[i];
+    if (ch === " " || ch === "\t" || ch === "\f") {
+      i++;
+      continue;
+    }
+    if (ch === "#") {
+      while (i < n && source[i] !== "\n" && source[i] !== "\r") i++;
+      continue;
+    }
+    if (ch === "\r" || ch === "\n") {
+      if (depth === 0) {
+        const last = tokens[tokens.length - 1];
+        if (
+          last &&
+          last.type !== "newline" &&
+          last.type !== "indent" &&
+          last.type !== "dedent"
+        ) {
+          tokens.push({
+            type: "newline",
+            value: "",
+            line,
+            column: col(i),
+            endLine: line,
+            endColumn: col(i),
+          });
+        }
+        atLineStart = true;
+      }
+      i += ch === "\r" && source[i + 1] === "\n" ? 2 : 1;
+      line++;
+      lineStart = i;
+      continue;
+    }
+    if (ch === "\\" && (source[i + 1] === "\n" || source[i + 1] === "\r")) {
+      // Explicit line joining: the next physical line continues this one.
+      i += source[i + 1] === "\r" && source[i + 2] === "\n" ? 3 : 2;
+      line++;
+      lineStart = i;
+      continue;
+    }
+
+    const strMatch = STRING_PREFIX.exec(source.slice(i, i + 6));
+    if (strMatch) {
+      const quote = strMatch[0].replace(/^[A-Za-z]+/, "");
+      const prefix = strMatch[0]
+        .slice(0, strMatch[0].length - quote.length)
+        .toLowerCase();
+      const startLine = line;
+      const startCol = col(i);
+      let j = i + strMatch[0].length;
+      let closed = false;
+      while (j < n) {
+        const c = source[j];
+        if (c === "\\") {
+          if (source[j + 1] === "\n") {
+            line++;
+            lineStart = j + 2;
+          }
+          j += 2;
+          continue;
+        }
+        if (source.startsWith(quote, j)) {
+          j += quote.length;
+          closed = true;
+          break;
+        }
+        if (c === "\n") {
+          if (quote.length === 1) break;
+          line++;
+          lineStart = j + 1;
+        }
+        j++;
+      }
+      if (!closed) {
+        const message =
+          quote.length === 3
+            ? "Unterminated triple-quoted string"
+            : "Unterminated string literal";
+        errors.push({
+          message,
+          line: startLine,
+          column: startCol,
+          endLine: line,
+          endColumn: col(j),
+        });
+      }
+      tokens.push({
+        type: "string",
+        value: source.slice(i, j),
+        prefix,
+        line: startLine,
+        column: startCol,
+        endLine: line,
+        endColumn: col(j),
+      });
+      i = j;
+      continue;
+    }
+
+    if (NAME_START.test(ch)) {
+      let j = i + 1;
+      while (j < n && NAME_PART.test(source[j])) j++;
+      tokens.push(simple("name", source.slice(i, j), line, col(i)));
+      i = j;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const m = NUMBER.exec(source.slice(i, i + 64))!;
+      tokens.push(simple("number", m[0], line, col(i)));
+      i += m[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (op) {
+      if (op === "(" || op === "[" || op === "{") depth++;
+      else if (op === ")" || op === "]" || op === "}")
+        depth = Math.max(0, depth - 1);
+      tokens.push(simple("op", op, line, col(i)));
+      i += op.length;
+      continue;
+    }
+
+    error(`Invalid character '${ch}'`, i, i + 1);
+    i++;
+  }
+
+  const end = col(n);
+  const last = tokens[tokens.length - 1];
+  if (
+    last &&
+    last.type !== "newline" &&
+    last.type !== "indent" &&
+    last.type !== "dedent"
+  ) {
+    tokens.push({
+      type: "newline",
+      value: "",
+      line,
+      column: end,
+      endLine: line,
+      endColumn: end,
+    });
+  }
+  while (indents.length > 1) {
+    indents.pop();
+    tokens.push({
+      type: "dedent",
+      value: "",
+      line,
+      column: end,
+      endLine: line,
+      endColumn: end,
+    });
+  }
+  tokens.push({
+    type: "eof",
+    value: "",
+    line,
+    column: end,
+    endLine: line,
+    endColumn: end,
+  });
+  return { tokens, errors };
+}
+
+function simple(
+  type: TokenType,
+  value: string,
+  line: number,
+  column: number,
+): Token {
+  return {
+    type,
+    value,
+    line,
+    column,
+    endLine: line,
+    endColumn: column + value.length,
+  };
+}
+
+/** Width of leading whitespace, with tabs expanding to the next multiple of 4. */
+function indentWidth(ws: string): number {
+  let width = 0;
+  for (const c of ws) width = c === "\t" ? width + 4 - (width % 4) : width + 1;
+  return width;
+}
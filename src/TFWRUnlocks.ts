@@ -0,0 +1,209 @@
+// Which builtins and language features the game gates behind `Unlocks`, and
+// who in a pad has not unlocked them yet. __builtins__.py does not say what
+// each unlock grants, so the tables below follow the research tree in game.
+import type { TFWRDocument } from "./TFWRDocument";
+import { Expr, Loc, Stmt } from "./TFWRParser";
+
+/** Someone editing the pad, with the `Unlocks` members from their profile. */
+export type Player = { name: string; unlocks?: readonly string[] };
+
+/**
+ * The unlocks of the current user and of everyone else in the pad. Unknown
+ * unlocks, from a missing profile or an older client, count as unlocked.
+ */
+export type UnlockProfiles = {
+  mine?: readonly string[];
+  collaborators: Player[];
+};
+
+/** A use of something that needs an unlock, for diagnostics. */
+export type UnlockUse = { unlock: string; what: string; loc: Loc };
+
+/** Unlocks needed to use builtin functions. */
+const FUNCTION_UNLOCKS: Record<string, string> = {
+  plant: "Plant",
+  move: "Expand",
+  can_harvest: "Senses",
+  get_pos_x: "Senses",
+  get_pos_y: "Senses",
+  get_world_size: "Senses",
+  get_entity_type: "Senses",
+  get_ground_type: "Senses",
+  num_items: "Senses",
+  till: "Carrots",
+  get_water: "Watering",
+  get_cost: "Costs",
+  measure: "Sunflowers",
+  swap: "Cactus",
+  get_companion: "Polyculture",
+  get_time: "Timing",
+  get_tick_count: "Timing",
+  print: "Debug",
+  quick_print: "Debug",
+  set_execution_speed: "Debug_2",
+  set_world_size: "Debug_2",
+  leaderboard_run: "Leaderboard",
+  list: "Lists",
+  dict: "Dictionaries",
+  set: "Dictionaries",
+  min: "Utilities",
+  max: "Utilities",
+  abs: "Utilities",
+};
+
+/** Unlocks needed to use members of builtin classes, e.g. `Entities.Carrot`. */
+const MEMBER_UNLOCKS: Record<string, string> = {
+  "Entities.Tree": "Trees",
+  "Entities.Carrot": "Carrots",
+  "Entities.Pumpkin": "Pumpkins",
+  "Entities.Sunflower": "Sunflowers",
+  "Entities.Cactus": "Cactus",
+  "Entities.Dinosaur": "Dinosaurs",
+  "Entities.Hedge": "Mazes",
+  "Entities.Treasure": "Mazes",
+  "Grounds.Soil": "Carrots",
+  "Items.Carrot": "Carrots",
+  "Items.Pumpkin": "Pumpkins",
+  "Items.Power": "Sunflowers",
+  "Items.Cactus": "Cactus",
+  "Items.Bone": "Dinosaurs",
+  "Items.Gold": "Mazes",
+  "Items.Water": "Watering",
+  "Items.Fertilizer": "Fertilizer",
+  "Items.Weird_Substance": "Fertilizer",
+};
+
+/** Unlocks needed for syntax, keyed by the kind of AST node. */
+const SYNTAX_UNLOCKS: Record<
+  string,
+  { unlock: string; what: string; expression?: boolean }
+> = {
+  While: { unlock: "Loops", what: "A while loop" },
+  For: { unlock: "Loops", what: "A for loop" },
+  FunctionDef: { unlock: "Functions", what: "Defining functions" },
+  Import: { unlock: "Imports", what: "Importing files" },
+  Assign: { unlock: "Variables", what: "Assigning variables" },
+  AugAssign: { unlock: "Variables", what: "Assigning variables" },
+  BinOp: { unlock: "Operators", what: "This operator", expression: true },
+  UnaryOp: { unlock: "Operators", what: "This operator", expression: true },
+  BoolOp: { unlock: "Operators", what: "This operator", expression: true },
+  Compare: { unlock: "Operators", what: "This comparison", expression: true },
+  List: { unlock: "Lists", what: "A list", expression: true },
+  ListComp: { unlock: "Lists", what: "A list", expression: true },
+  Dict: { unlock: "Dictionaries", what: "A dictionary", expression: true },
+  DictComp: { unlock: "Dictionaries", what: "A dictionary", expression: true },
+  Set: { unlock: "Dictionaries", what: "A set", expression: true },
+  SetComp: { unlock: "Dictionaries", what: "A set", expression: true },
+};
+
+/** Returns the unlock needed for a builtin function or class member. */
+export function unlockFor(name: string, member?: string): string | undefined {
+  return member === undefined
+    ? FUNCTION_UNLOCKS[name]
+    : MEMBER_UNLOCKS[`${name}.${member}`];
+}
+
+/** Names of the people who lack an unlock, with "you" first. */
+export function lacking(profiles: UnlockProfiles, unlock: string): string[] {
+  const names: string[] = [];
+  if (profiles.mine && !profiles.mine.includes(unlock)) names.push("you");
+  profiles.collaborators.forEach(({ name, unlocks }) => {
+    if (unlocks && !unlocks.includes(unlock) && !names.includes(name)) {
+      names.push(name);
+    }
+  });
+  return names;
+}
+
+/** Describe who lacks an unlock, e.g. "you and Alice have not unlocked it". */
+export function describeLacking(names: string[]): string {
+  const list =
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+      : names[0];
+  const verb = names.length === 1 && names[0] !== "you" ? "has" : "have";
+  return `${list} ${verb} not unlocked it`;
+}
+
+/** Finds every use of a gated builtin or language feature in a document. */
+export function findUnlockUses(document: TFWRDocument): UnlockUse[] {
+  const uses: UnlockUse[] = [];
+
+  document.scopes.references.forEach(
+    ({ name, loc, binds, symbol, call, member }) => {
+      if (binds || symbol) return;
+      if (member) {
+        const unlock = unlockFor(name, member.name);
+        if (unlock) {
+          const { endLine, endColumn } = member.loc;
+          uses.push({
+            unlock,
+            what: `'${name}.${member.name}'`,
+            loc: { ...loc, endLine, endColumn },
+          });
+        }
+        return;
+      }
+      // Trading several items at once needs its own unlock.
+      if (name === "trade" && call) {
+        if (call.args.length + call.keywords.length > 1) {
+          uses.push({
+            unlock: "Multi_Trade",
+            what: "Trading multiple items",
+            loc: call.loc,
+          });
+        }
+        return;
+      }
+      const unlock = unlockFor(name);
+      if (unlock) uses.push({ unlock, what: `'${name}'`, loc });
+    },
+  );
+
+  // Operators nest, as in `a + b * c`, so each expression is reported once
+  // rather than once for every operator in it.
+  const seen = new Set<object>();
+  const visit = (node: unknown, outer?: string) => {
+    if (typeof node !== "object" || node === null || seen.has(node)) return;
+    seen.add(node);
+    const fields = node as Record<string, unknown>;
+    const syntax =
+      typeof fields.kind === "string" ? SYNTAX_UNLOCKS[fields.kind] : undefined;
+    if (syntax && syntax.unlock !== outer) {
+      const { unlock, what } = syntax;
+      uses.push({ unlock, what, loc: syntaxLoc(node as Stmt | Expr) });
+    }
+    // Lists of nodes pass the enclosing expression through to their items.
+    const inner =
+      fields.kind === undefined
+        ? outer
+        : syntax?.expression
+          ? syntax.unlock
+          : undefined;
+    Object.keys(fields).forEach((key) => visit(fields[key], inner));
+  };
+  visit(document.module.body);
+
+  return uses;
+}
+
+/** Where to report a feature: the keyword of a statement, or the target. */
+function syntaxLoc(node: Stmt | Expr): Loc {
+  const keyword = (length: number) => ({
+    ...node.loc,
+    endLine: node.loc.line,
+    endColumn: node.loc.column + length,
+  });
+  switch (node.kind) {
+    case "While":
+      return keyword(5);
+    case "For":
+    case "FunctionDef":
+      return keyword(3);
+    case "Assign":
+      return node.targets[0].loc;
+    case "AugAssign":
+      return node.target.loc;
+  }
+  return node.loc;
+}
@@ -1,6 +1,10 @@
 import {
+  Box,
   Button,
   ButtonGroup,
+  Checkbox,
+  CheckboxGroup,
+  Flex,
   HStack,
   Icon,
   Input,
@@ -12,28 +16,46 @@ import {
   PopoverFooter,
   PopoverHeader,
   PopoverTrigger,
+  SimpleGrid,
   Text,
   useDisclosure,
 } from "@chakra-ui/react";
 import { useRef } from "react";
 import { FaPalette } from "react-icons/fa";
-import { VscAccount } from "react-icons/vsc";
+import { VscAccount, VscEye } from "react-icons/vsc";
 
+import { parseBuiltins } from "./TFWRIntelliSense";
+import builtinsPy from "./__builtins__.py?raw";
 import { UserInfo } from "./rustpad";
 
+/** Members of the game's `Unlocks` class, as listed in __builtins__.py. */
+const UNLOCKS = Object.keys(
+  parseBuiltins(builtinsPy).classes.Unlocks?.members ?? {},
+);
+
 type UserProps = {
   info: UserInfo;
   isMe?: boolean;
+  /** Whether this client is following the user's cursor. */
+  isFollowing?: boolean;
+  /** Whether the user has not edited or moved their cursor for a while. */
+  isIdle?: boolean;
+  onFollow?: () => void;
   onChangeName?: (name: string) => void;
   onChangeColor?: () => void;
+  onChangeUnlocks?: (unlocks: string[]) => void;
   darkMode: boolean;
 };
 
 function User({
   info,
   isMe = false,
+  isFollowing = false,
+  isIdle = false,
+  onFollow,
   onChangeName,
   onChangeColor,
+  onChangeUnlocks,
   darkMode,
 }: UserProps) {
   const inputRef = useRef<HTMLInputElement>(null);
@@ -51,17 +73,28 @@ function User({
         <HStack
           p={2}
           rounded="md"
+          bgColor={
+            isFollowing ? (darkMode ? "#37373d" : "gray.100") : undefined
+          }
+          title={isMe ? undefined : isFollowing ? "Stop following" : "Follow"}
           _hover={{
             bgColor: darkMode ? "#464647" : "gray.200",
             cursor: "pointer",
           }}
-          onClick={() => isMe && onOpen()}
+          onClick={() => (isMe ? onOpen() : onFollow?.())}
         >
-          <Icon as={VscAccount} />
-          <Text fontWeight="medium" color={nameColor}>
+          <Icon as={info.spectator ? VscEye : VscAccount} />
+          <Text
+            fontWeight="medium"
+            color={nameColor}
+            opacity={isIdle ? 0.6 : 1}
+          >
             {info.name}
           </Text>
           {isMe && <Text>(you)</Text>}
+          {info.spectator && <Text color="gray.500">spectator</Text>}
+          {isIdle && <Text color="gray.500">idle</Text>}
+          {isFollowing && <Text color="gray.500">following</Text>}
         </HStack>
       </PopoverTrigger>
       <PopoverContent
@@ -93,6 +126,35 @@ function User({
           >
             Change Color
           </Button>
+          <Flex
+            justifyContent="space-between"
+            alignItems="center"
+            mt={3}
+            mb={1}
+          >
+            <Text fontSize="sm" fontWeight="semibold">
+              Unlocked in game
+            </Text>
+            <ButtonGroup size="xs" variant="ghost" spacing={0}>
+              <Button onClick={() => onChangeUnlocks?.(UNLOCKS)}>All</Button>
+              <Button onClick={() => onChangeUnlocks?.([])}>None</Button>
+            </ButtonGroup>
+          </Flex>
+          <Box maxH="40" overflowY="auto">
+            <CheckboxGroup
+              size="sm"
+              value={info.unlocks ? [...info.unlocks] : UNLOCKS}
+              onChange={(value) => onChangeUnlocks?.(value as string[])}
+            >
+              <SimpleGrid columns={2} spacingX={2}>
+                {UNLOCKS.map((unlock) => (
+                  <Checkbox key={unlock} value={unlock}>
+                    {unlock.replace(/_/g, " ")}
+                  </Checkbox>
+                ))}
+              </SimpleGrid>
+            </CheckboxGroup>
+          </Box>
         </PopoverBody>
         <PopoverFooter
           display="flex"
@@ -0,0 +1,368 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import RustpadClient, { TextBuffer } from "./client";
+import type { PendingEdits } from "./offline";
+import { FakeSocket, fakeSockets } from "./testing";
+
+let client: RustpadClient | undefined;
+
+afterEach(() => {
+  client?.dispose();
+  client = undefined;
+  vi.useRealTimers();
+});
+
+/** Connect a client to a fake server, as user 1 of a document with `text`. */
+function connect(text: string) {
+  const binding = new TextBuffer();
+  const { sockets, createSocket } = fakeSockets();
+  const onConflict = vi.fn();
+  client = new RustpadClient({
+    uri: "ws://localhost/api/socket/test",
+    binding,
+    createSocket,
+    onConflict,
+  });
+  const socket: FakeSocket = sockets[0];
+  socket.open();
+  socket.receive({ Identity: 1 });
+  socket.receive({
+    History: { start: 0, operations: [{ id: 2, operation: [text] }] },
+  });
+  return { client, binding, socket, onConflict };
+}
+
+/** Make the client ask for a snapshot, as when the history has a gap. */
+function desync(socket: FakeSocket, revision: number) {
+  socket.receive({ History: { start: revision + 1, operations: [] } });
+  expect(socket.sent).toContain("RequestSnapshot");
+}
+
+describe("applySnapshot", () => {
+  it("keeps undo when the server already has the unsent edits", () => {
+    const { client, binding, socket, onConflict } = connect("hello");
+    binding.setText("hello world");
+    desync(socket, 1);
+
+    socket.receive({ Snapshot: { revision: 2, text: "hello world" } });
+    expect(onConflict).not.toHaveBeenCalled();
+    expect(binding.getText()).toBe("hello world");
+
+    expect(client.undo()).toBe(true);
+    expect(binding.getText()).toBe("hello");
+    expect(socket.edits().pop()).toEqual({ revision: 2, operation: [5, -6] });
+  });
+
+  it("takes the server's text when there are no unsent edits", () => {
+    const { client, binding, socket, onConflict } = connect("hello");
+    binding.setText("hello world");
+    socket.receive({
+      History: { start: 1, operations: [{ id: 1, operation: [5, " world"] }] },
+    });
+    desync(socket, 2);
+
+    socket.receive({ Snapshot: { revision: 3, text: "hello world!!" } });
+    expect(onConflict).not.toHaveBeenCalled();
+    expect(binding.getText()).toBe("hello world!!");
+
+    // The undo is rebased onto the text from the snapshot.
+    expect(client.undo()).toBe(true);
+    expect(binding.getText()).toBe("hello!!");
+  });
+
+  it("asks the user to merge edits to the same region", () => {
+    const { binding, socket, onConflict } = connect("hello");
+    binding.setText("hello world");
+    desync(socket, 1);
+
+    socket.receive({ Snapshot: { revision: 2, text: "hello there" } });
+    expect(onConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ local: "hello world", server: "hello there" }),
+    );
+    expect(binding.getText()).toBe("hello there");
+  });
+
+  it("merges edits to separate lines without asking", () => {
+    const { binding, socket, onConflict } = connect("one\ntwo\nthree");
+    binding.setText("ONE\ntwo\nthree!");
+    desync(socket, 1);
+
+    socket.receive({ Snapshot: { revision: 2, text: "one\n2\nthree" } });
+    expect(onConflict).not.toHaveBeenCalled();
+    expect(binding.getText()).toBe("ONE\n2\nthree!");
+    expect(socket.edits().pop()).toEqual({
+      revision: 2,
+      operation: ["ONE", -3, 8, "!"],
+    });
+  });
+
+  it("rebases undo onto the merged text", () => {
+    const { client, binding, socket, onConflict } = connect("hello");
+    binding.setText("hello world");
+    desync(socket, 1);
+    socket.receive({ Snapshot: { revision: 2, text: "hello there" } });
+    const [[{ resolve }]] = onConflict.mock.calls;
+
+    // Typing while merging, then keeping the server's text with a heading.
+    binding.setText("hello there!");
+    resolve("# hello there!");
+    expect(client.undo()).toBe(true);
+    expect(binding.getText()).toBe("# hello there");
+  });
+});
+
+describe("undo", () => {
+  it("only reverts this user's edits", () => {
+    const { client, binding, socket } = connect("world");
+    binding.setText("world!");
+    socket.receive({
+      History: { start: 1, operations: [{ id: 2, operation: ["hello ", 5] }] },
+    });
+    expect(binding.getText()).toBe("hello world!");
+
+    expect(client.undo()).toBe(true);
+    expect(binding.getText()).toBe("hello world");
+    expect(client.undo()).toBe(false);
+    expect(client.redo()).toBe(true);
+    expect(binding.getText()).toBe("hello world!");
+  });
+
+  it("carries the redo stack past remote edits", () => {
+    const { client, binding, socket } = connect("a");
+    binding.setText("ab");
+    socket.receive({
+      History: { start: 1, operations: [{ id: 1, operation: [1, "b"] }] },
+    });
+    client.undo();
+    socket.receive({
+      History: { start: 2, operations: [{ id: 2, operation: ["> ", 2] }] },
+    });
+    expect(binding.getText()).toBe("> a");
+
+    expect(client.redo()).toBe(true);
+    expect(binding.getText()).toBe("> ab");
+  });
+
+  it("groups edits made close together", () => {
+    vi.useFakeTimers();
+    const { client, binding } = connect("");
+    binding.setText("a");
+    binding.setText("ab");
+    vi.advanceTimersByTime(2000);
+    binding.setText("abc");
+
+    client.undo();
+    expect(binding.getText()).toBe("ab");
+    client.undo();
+    expect(binding.getText()).toBe("");
+  });
+
+  it("forgets undone edits after a new edit", () => {
+    const { client, binding } = connect("a");
+    binding.setText("ab");
+    client.undo();
+    binding.setText("ac");
+    expect(client.redo()).toBe(false);
+    expect(binding.getText()).toBe("ac");
+  });
+});
+
+describe("session tokens", () => {
+  it("reports the token sent after setting a password", () => {
+    const onChangeToken = vi.fn();
+    const { sockets, createSocket } = fakeSockets();
+    client = new RustpadClient({
+      uri: "ws://localhost/api/socket/test",
+      binding: new TextBuffer(),
+      createSocket,
+      onChangeToken,
+    });
+    sockets[0].open();
+    expect(client.setPassword("hunter2")).toBe(true);
+    sockets[0].receive({ Token: "abc" });
+    expect(client.setPassword()).toBe(true);
+    sockets[0].receive({ Token: null });
+    expect(onChangeToken.mock.calls).toEqual([["abc"], [undefined]]);
+  });
+
+  it("stops reconnecting when the token is refused", () => {
+    vi.useFakeTimers();
+    const onUnauthorized = vi.fn();
+    const { sockets, createSocket } = fakeSockets();
+    client = new RustpadClient({
+      uri: "ws://localhost/api/socket/test?token=old",
+      binding: new TextBuffer(),
+      createSocket,
+      onUnauthorized,
+    });
+    sockets[0].open();
+    sockets[0].close(4001);
+    expect(onUnauthorized).toHaveBeenCalledOnce();
+    vi.advanceTimersByTime(60_000);
+    expect(sockets).toHaveLength(1);
+
+    // A new token from the password prompt connects again right away.
+    client.setUri("ws://localhost/api/socket/test?token=new");
+    expect(sockets).toHaveLength(2);
+    expect(sockets[1].uri).toBe("ws://localhost/api/socket/test?token=new");
+  });
+});
+
+describe("offline edits", () => {
+  /** Start a client with the edits that an earlier session saved, if any. */
+  async function restore(edits?: PendingEdits) {
+    vi.useFakeTimers();
+    const storage = {
+      load: vi.fn().mockResolvedValue(edits),
+      save: vi.fn().mockResolvedValue(undefined),
+    };
+    const binding = new TextBuffer();
+    const { sockets, createSocket } = fakeSockets();
+    client = new RustpadClient({
+      uri: "ws://localhost/api/socket/test",
+      binding,
+      createSocket,
+      storage,
+    });
+    await vi.waitFor(() => expect(sockets).toHaveLength(1));
+    const socket: FakeSocket = sockets[0];
+    socket.open();
+    socket.receive({ Identity: 1 });
+    return { binding, socket, storage };
+  }
+
+  const saved = {
+    revision: 1,
+    text: "hello",
+    id: 7,
+    outstanding: '[5," world"]',
+  };
+
+  it("saves unsent edits and clears them once acknowledged", async () => {
+    const { binding, socket, storage } = await restore();
+    socket.receive({
+      History: { start: 0, operations: [{ id: 2, operation: ["hi"] }] },
+    });
+    binding.setText("hi!");
+    vi.advanceTimersByTime(250);
+    expect(storage.save).toHaveBeenLastCalledWith({
+      revision: 1,
+      text: "hi",
+      id: 1,
+      outstanding: '[2,"!"]',
+      buffer: undefined,
+    });
+
+    socket.receive({
+      History: { start: 1, operations: [{ id: 1, operation: [2, "!"] }] },
+    });
+    vi.advanceTimersByTime(250);
+    expect(storage.save).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it("rebases saved edits onto edits from others", async () => {
+    const { binding, socket } = await restore(saved);
+    socket.receive({
+      History: {
+        start: 0,
+        operations: [
+          { id: 2, operation: ["hello"] },
+          { id: 3, operation: [">> ", 5] },
+        ],
+      },
+    });
+    expect(binding.getText()).toBe(">> hello world");
+    expect(socket.edits()).toEqual([{ revision: 2, operation: [8, " world"] }]);
+  });
+
+  it("drops saved edits that the server already has", async () => {
+    const { binding, socket } = await restore(saved);
+    socket.receive({
+      History: {
+        start: 0,
+        operations: [
+          { id: 2, operation: ["hello"] },
+          { id: 7, operation: [5, " world"] },
+        ],
+      },
+    });
+    expect(binding.getText()).toBe("hello world");
+    expect(socket.edits()).toEqual([]);
+  });
+
+  it("replays saved edits when the server has no history", async () => {
+    const { binding, socket, storage } = await restore({
+      ...saved,
+      revision: 3,
+    });
+
+    // A server that restarted without a database has an empty document, so
+    // the echo of our cursor comes right after the identity.
+    socket.receive({
+      UserCursor: { id: 1, data: { cursors: [], selections: [] } },
+    });
+    expect(binding.getText()).toBe(" world");
+    expect(socket.edits()).toEqual([{ revision: 0, operation: [" world"] }]);
+
+    // Later edits are saved again.
+    binding.setText(" world!");
+    vi.advanceTimersByTime(250);
+    expect(storage.save).toHaveBeenLastCalledWith(
+      expect.objectContaining({ revision: 0, outstanding: '[" world"]' }),
+    );
+  });
+});
+
+describe("lineAuthors", () => {
+  const alice = { name: "Alice", hue: 0, time: 1 };
+  const bob = { name: "Bob", hue: 120, time: 2 };
+
+  it("blames each line on its last author", () => {
+    const { client, binding, socket } = connect("hello\nworld");
+    client.setBlame(true);
+    binding.setText("hello\nworld!");
+    socket.receive({
+      History: { start: 1, operations: [{ id: 1, operation: [11, "!"] }] },
+    });
+    socket.receive({ Authors: { start: 0, authors: [alice, bob] } });
+    expect(client.lineAuthors()).toEqual([alice, bob]);
+  });
+
+  it("has no author for text from a snapshot", () => {
+    const { client, socket } = connect("hello\nworld");
+    client.setBlame(true);
+    desync(socket, 1);
+    socket.receive({ Snapshot: { revision: 3, text: "hello\nworld\n" } });
+    socket.receive({
+      History: { start: 3, operations: [{ id: 2, operation: [12, "!"] }] },
+    });
+    socket.receive({
+      Authors: { start: 0, authors: [alice, alice, alice, bob] },
+    });
+    expect(client.lineAuthors()).toEqual([undefined, undefined, bob]);
+  });
+
+  it("blames a deleted line on the line that follows it", () => {
+    const { client, socket } = connect("a\nb\nc");
+    client.setBlame(true);
+    expect(socket.sent).toContainEqual({ RequestAuthors: 0 });
+    socket.receive({
+      History: { start: 1, operations: [{ id: 2, operation: [2, -2, 1] }] },
+    });
+    socket.receive({ Authors: { start: 0, authors: [alice, bob] } });
+    expect(client.lineAuthors()).toEqual([alice, bob]);
+  });
+
+  it("leaves lines unblamed until their authors are known", () => {
+    const { client, socket } = connect("a");
+    client.setBlame(true);
+    socket.receive({
+      History: { start: 1, operations: [{ id: 2, operation: ["b\n", 1] }] },
+    });
+    socket.receive({ Authors: { start: 1, authors: [bob] } });
+    expect(client.lineAuthors()).toEqual([bob, undefined]);
+
+    socket.receive({ Authors: { start: 0, authors: [alice] } });
+    expect(client.lineAuthors()).toEqual([bob, alice]);
+  });
+});
@@ -0,0 +1,1279 @@
+/**
+ * Editor-agnostic client for Rustpad, which keeps a text in sync with the
+ * server through operational transformation. Editors plug in through a
+ * `TextBinding`, and the socket can be swapped out to run under Node.js:
+ *
+ * ```ts
+ * const text = new TextBuffer();
+ * const client = new RustpadClient({ uri, binding: text });
+ * text.setText("print('hello')");
+ * ```
+ */
+import debounce from "lodash.debounce";
+import { OpSeq } from "rustpad-wasm";
+
+import type { PendingEdits } from "./offline";
+
+/** Options passed in to the RustpadClient constructor. */
+export type ClientOptions = {
+  readonly uri: string;
+  readonly binding: TextBinding;
+  /** Opens the connection, with the browser's `WebSocket` by default. */
+  readonly createSocket?: (uri: string) => Socket;
+  /** Where to save unsent edits, so that they survive reloads. */
+  readonly storage?: PendingStorage;
+  readonly onConnected?: () => void;
+  readonly onDisconnected?: () => void;
+  readonly onDesynchronized?: () => void;
+  readonly onChangeLanguage?: (language: string) => void;
+  readonly onChangeUsers?: (users: Record<number, UserInfo>) => void;
+  /** Called with the IDs of users who have not been active for a while. */
+  readonly onChangeIdle?: (idle: number[]) => void;
+  readonly onChangeFiles?: (files: FileEntry[]) => void;
+  readonly onChangeChat?: (messages: ChatMessage[]) => void;
+  readonly onChangeThreads?: (threads: CommentThread[]) => void;
+  readonly onChangeRevision?: (revision: number) => void;
+  /** Called when another user moves their cursor, selection or viewport. */
+  readonly onChangeCursors?: (id: number) => void;
+  /** Called after any edit has moved the cursors and comment threads. */
+  readonly onTransform?: (operation: OpSeq) => void;
+  /** Called after an edit from another user is applied to the text. */
+  readonly onRemoteEdit?: (id: number, operation: OpSeq) => void;
+  /** Called when the authors of more revisions are known, for blame. */
+  readonly onChangeAuthors?: () => void;
+  readonly onConflict?: (conflict: Conflict) => void;
+  /** Called with the session token for a password set by this client. */
+  readonly onChangeToken?: (token?: string) => void;
+  /**
+   * Called when the server refuses the session token, as after someone changed
+   * the password. The client stops reconnecting until it is given a new URI.
+   */
+  readonly onUnauthorized?: () => void;
+  /** Delay before reconnecting, doubled after each failed attempt. */
+  readonly reconnectInterval?: number;
+  /** Whether the pad was opened through a view-only link. */
+  readonly readOnly?: boolean;
+};
+
+/**
+ * An editor kept in sync by the client. Offsets and operations count Unicode
+ * codepoints, which the binding converts to the editor's own positions.
+ */
+export interface TextBinding {
+  getText(): string;
+  /** Apply an edit from elsewhere, without reporting it as a local change. */
+  applyOperation(operation: OpSeq): void;
+  /** Listen for edits by the user, each an operation on the previous text. */
+  onChange(listener: (operation: OpSeq) => void): Disposable;
+  /** Move the cursor to an offset, as after an undo or redo. */
+  setCursor?(offset: number): void;
+}
+
+/** The parts of the browser's `WebSocket` used by the client. */
+export interface Socket {
+  onopen: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+/** Saves unsent edits of one document, like the browser's IndexedDB. */
+export interface PendingStorage {
+  load(): Promise<PendingEdits | undefined>;
+  /** Save the edits, or clear them if there are none. */
+  save(edits: PendingEdits | undefined): Promise<void>;
+}
+
+export type Disposable = { dispose(): void };
+
+/** A user currently editing the document. */
+export type UserInfo = {
+  readonly name: string;
+  readonly hue: number;
+  /** Members of the game's `Unlocks` that the user has, if they shared them. */
+  readonly unlocks?: readonly string[];
+  /** Set by the server for users who joined through a view-only link. */
+  readonly spectator?: boolean;
+};
+
+/** A chat message, with the name and hue of its sender when it was sent. */
+export type ChatMessage = {
+  readonly id: number;
+  readonly name: string;
+  readonly hue: number;
+  readonly text: string;
+  /** Time when the server received the message, in milliseconds. */
+  readonly time: number;
+};
+
+/**
+ * Comments on a range of the document, given in Unicode codepoints. The range
+ * moves with edits, in the same way as the cursors of other users.
+ */
+export type CommentThread = {
+  readonly id: number;
+  readonly start: number;
+  readonly end: number;
+  readonly resolved: boolean;
+  readonly comments: ChatMessage[];
+};
+
+/** Name and hue of the user who made an edit, and when the server got it. */
+export type Author = {
+  readonly name: string;
+  readonly hue: number;
+  readonly time: number;
+};
+
+/** A file in a pad, with a stable ID that survives renames. */
+export type FileEntry = {
+  readonly id: string;
+  readonly name: string;
+};
+
+/**
+ * Local edits that overlap with edits on the server, found when resyncing.
+ * The editor shows the server's text until `resolve` is called with the text
+ * to keep, which is sent as a new edit.
+ */
+export type Conflict = {
+  readonly local: string;
+  readonly server: string;
+  readonly resolve: (text: string) => void;
+};
+
+/** Cursors, selections and visible ranges of a user, in Unicode codepoints. */
+export type CursorData = {
+  cursors: number[];
+  selections: [number, number][];
+  /** Ranges visible in the user's editor, left out by older clients. */
+  viewport?: [number, number][];
+};
+
+/** ID of the file that every pad starts with. */
+export const MAIN_FILE = "main";
+
+/** Number of revisions between cached texts of the document's history. */
+const HISTORY_CHECKPOINT = 100;
+
+/** Longest delay between attempts to reconnect, in milliseconds. */
+const MAX_RECONNECT_DELAY = 30_000;
+
+/** Connections that last this long, in milliseconds, count as healthy. */
+const STABLE_CONNECTION = 10_000;
+
+/**
+ * Number of short-lived connections in a row after which the client asks the
+ * server for a snapshot, since the server closes connections on bad edits.
+ */
+const RESYNC_FAILURES = 3;
+
+/** Close code of the server for sockets without a valid session token. */
+const UNAUTHORIZED_CLOSE = 4001;
+
+/** Local edits this close together in milliseconds are undone as one. */
+const UNDO_GROUP_INTERVAL = 1000;
+
+/** Maximum number of local edits that can be undone. */
+const UNDO_LIMIT = 200;
+
+/** Users without edits or cursor moves for this many milliseconds are idle. */
+const IDLE_TIMEOUT = 2 * 60_000;
+
+/** How often in milliseconds to check whether users have become idle. */
+const IDLE_CHECK_INTERVAL = 10_000;
+
+/** Client for Rustpad, independent of any editor. */
+class RustpadClient {
+  private ws?: Socket;
+  private uri: string = this.options.uri;
+  private connecting?: boolean;
+  private recentFailures: number = 0;
+  private attempts: number = 0;
+  private openedAt: number = 0;
+  private reconnectId?: ReturnType<typeof setTimeout>;
+  private idleCheckId: ReturnType<typeof setInterval>;
+  private resyncing: boolean = false;
+  /** Whether the server refused the session token in the URI. */
+  private unauthorized: boolean = false;
+  private readonly onChangeHandle: Disposable;
+  private readonly persist: ReturnType<typeof debounce>;
+  private readonly requestAuthors = debounce(
+    () => this.sendRequestAuthors(),
+    250,
+  );
+  private disposed: boolean = false;
+
+  // Client-server state
+  private me: number = -1;
+  private revision: number = 0;
+  private outstanding?: OpSeq;
+  private buffer?: OpSeq;
+  private users: Record<number, UserInfo> = {};
+  private chat: ChatMessage[] = [];
+  private threads: Record<number, CommentThread> = {};
+  private userCursors: Record<number, CursorData> = {};
+  private lastActive: Record<number, number> = {};
+  private idle: number[] = [];
+  private myInfo?: UserInfo;
+  private cursorData: CursorData = {
+    cursors: [],
+    selections: [],
+    viewport: [],
+  };
+
+  // Every operation on the server since `historyStart`, which is only past 0
+  // after a resync, and the text after each multiple of `HISTORY_CHECKPOINT`
+  // of them, so that old revisions are quick to rebuild.
+  private history: { id: number; operation: OpSeq }[] = [];
+  private historyStart: number = 0;
+  private checkpoints: string[] = [""];
+
+  // Inverses of this user's own edits, which are transformed by every remote
+  // edit so that undoing them never reverts someone else's work.
+  private undoStack: OpSeq[] = [];
+  private redoStack: OpSeq[] = [];
+  private lastUndoTime: number = 0;
+
+  // Unsent edits from an earlier session, replayed once connected, and
+  // whether the latest unsent edits have been saved yet.
+  private loading: boolean = false;
+  private restored?: PendingEdits;
+  private unsaved: boolean = false;
+
+  // Text of the binding after the last edit that the client knows about,
+  // kept in step by applying each operation to it.
+  private lastValue: string;
+
+  // Authors of the server's operations by revision, and the revision that
+  // last changed each codepoint of the text after `blameRevision`.
+  private blame: boolean = false;
+  private authors: (Author | null)[] = [];
+  private blameChars: number[] = [];
+  private blameRevision: number = -1;
+
+  constructor(readonly options: ClientOptions) {
+    this.lastValue = options.binding.getText();
+    this.onChangeHandle = options.binding.onChange((operation) =>
+      this.onChange(operation),
+    );
+    this.persist = debounce(() => this.savePending(), 250);
+    this.idleCheckId = setInterval(
+      () => this.updateIdle(),
+      IDLE_CHECK_INTERVAL,
+    );
+
+    if (options.storage) {
+      // Wait for any saved edits before connecting, so that they are rebased
+      // onto the history that the server sends first.
+      this.loading = true;
+      options.storage.load().then((edits) => {
+        this.restored = edits;
+        this.loading = false;
+        this.tryConnect();
+      });
+    }
+    this.tryConnect();
+  }
+
+  /** Destroy this client and close any sockets. */
+  dispose() {
+    this.disposed = true;
+    this.persist.flush();
+    clearTimeout(this.reconnectId);
+    clearInterval(this.idleCheckId);
+    this.requestAuthors.cancel();
+    this.onChangeHandle.dispose();
+    this.ws?.close();
+  }
+
+  /**
+   * Save unsent edits right away, as before the page unloads. Returns whether
+   * some edits could still be lost, because they are not saved anywhere.
+   */
+  flush(): boolean {
+    this.persist.flush();
+    return !!this.outstanding && (this.unsaved || !this.options.storage);
+  }
+
+  /** Try to set the language of the editor, if connected. */
+  setLanguage(language: string): boolean {
+    return this.sendChange(`{"SetLanguage":${JSON.stringify(language)}}`);
+  }
+
+  /** Try to create a new file in the pad, if connected. */
+  createFile(name: string): boolean {
+    return this.sendChange(`{"CreateFile":${JSON.stringify(name)}}`);
+  }
+
+  /** Try to rename a file in the pad, if connected. */
+  renameFile(id: string, name: string): boolean {
+    return this.sendChange(`{"RenameFile":${JSON.stringify({ id, name })}}`);
+  }
+
+  /** Try to delete a file from the pad, if connected. */
+  deleteFile(id: string): boolean {
+    return this.sendChange(`{"DeleteFile":${JSON.stringify(id)}}`);
+  }
+
+  /** Try to set the password of the pad, or remove it, if connected. */
+  setPassword(password?: string): boolean {
+    return this.sendChange(
+      `{"SetPassword":${JSON.stringify(password ?? null)}}`,
+    );
+  }
+
+  /** Change the address used by later reconnections, e.g. for a new token. */
+  setUri(uri: string) {
+    this.uri = uri;
+    if (this.unauthorized) {
+      this.unauthorized = false;
+      this.tryConnect();
+    }
+  }
+
+  /**
+   * Ask the server for a snapshot of its text. The server sends it after any
+   * history it already queued, so the next `onChangeRevision` means that the
+   * client has caught up with the document.
+   */
+  resync() {
+    this.requestSnapshot();
+  }
+
+  /** Try to send a chat message to everyone in the pad, if connected. */
+  sendChat(text: string): boolean {
+    return this.sendChange(`{"Chat":${JSON.stringify(text)}}`);
+  }
+
+  /**
+   * Keep track of who last changed each line, for `lineAuthors`. Authors are
+   * fetched from the server, since users get new IDs when they reconnect.
+   */
+  setBlame(enabled: boolean) {
+    this.blame = enabled;
+    if (enabled) this.sendRequestAuthors();
+  }
+
+  /** Try to start a comment thread on a range of codepoints, if connected. */
+  createThread(start: number, end: number, text: string): boolean {
+    const msg = { CreateThread: { start, end, text } };
+    return this.sendChange(JSON.stringify(msg));
+  }
+
+  /** Try to reply to a comment thread, if connected. */
+  replyThread(id: number, text: string): boolean {
+    return this.sendChange(JSON.stringify({ ReplyThread: { id, text } }));
+  }
+
+  /** Try to resolve or reopen a comment thread, if connected. */
+  resolveThread(id: number, resolved: boolean): boolean {
+    return this.sendChange(JSON.stringify({ ResolveThread: { id, resolved } }));
+  }
+
+  /** Send a message that changes the pad, unless it is read-only. */
+  private sendChange(message: string): boolean {
+    if (!this.ws || this.options.readOnly) return false;
+    this.ws.send(message);
+    return true;
+  }
+
+  /** Set the user's information. */
+  setInfo(info: UserInfo) {
+    this.myInfo = info;
+    this.sendInfo();
+  }
+
+  /** Set and send the user's cursors, selections and visible ranges. */
+  setCursorData(data: CursorData) {
+    this.cursorData = data;
+    this.sendCursorData();
+  }
+
+  /** Undo this user's most recent edit, if any, leaving others' edits. */
+  undo(): boolean {
+    const operation = this.undoStack.pop();
+    if (!operation) return false;
+    this.redoStack.push(operation.invert(this.lastValue));
+    this.applyLocal(operation);
+    return true;
+  }
+
+  /** Redo the edit that was most recently undone, if any. */
+  redo(): boolean {
+    const operation = this.redoStack.pop();
+    if (!operation) return false;
+    this.undoStack.push(operation.invert(this.lastValue));
+    this.applyLocal(operation);
+    return true;
+  }
+
+  /** Other users in the document, by ID. */
+  getUsers(): Readonly<Record<number, UserInfo>> {
+    return this.users;
+  }
+
+  /** Cursors of other users by ID, which may include users who have left. */
+  getCursors(): Readonly<Record<number, CursorData>> {
+    return this.userCursors;
+  }
+
+  /** IDs of other users who have not been active for a while. */
+  getIdle(): readonly number[] {
+    return this.idle;
+  }
+
+  /** Comment threads of the document, by ID. */
+  getThreads(): Readonly<Record<number, CommentThread>> {
+    return this.threads;
+  }
+
+  /** Number of revisions of the document received from the server. */
+  get revisionCount(): number {
+    return this.revision;
+  }
+
+  /**
+   * Returns the ID of the user who made a revision, counting from 1. Text
+   * loaded from storage has an ID that belongs to no user.
+   */
+  authorOf(revision: number): number | undefined {
+    return this.history[revision - this.historyStart - 1]?.id;
+  }
+
+  /** Whether a user ID is this client's own connection. */
+  isMe(id: number): boolean {
+    return id === this.me;
+  }
+
+  /**
+   * Returns the text of the document after a revision, or "" for 0. After a
+   * resync, revisions from before the snapshot have its text.
+   */
+  textAt(revision: number): string {
+    revision = revision - this.historyStart;
+    revision = Math.max(0, Math.min(revision, this.history.length));
+    while (this.checkpoints.length * HISTORY_CHECKPOINT <= revision) {
+      const last = this.checkpoints.length - 1;
+      this.checkpoints.push(
+        this.replay(
+          this.checkpoints[last],
+          last * HISTORY_CHECKPOINT,
+          (last + 1) * HISTORY_CHECKPOINT,
+        ),
+      );
+    }
+    const base = Math.floor(revision / HISTORY_CHECKPOINT);
+    return this.replay(
+      this.checkpoints[base],
+      base * HISTORY_CHECKPOINT,
+      revision,
+    );
+  }
+
+  /**
+   * Returns the author who last changed each line of the server's text, as
+   * far as they are known. Only up to date while blame is enabled.
+   */
+  lineAuthors(): (Author | undefined)[] {
+    this.updateBlameChars();
+    const text = Array.from(this.textAt(this.revision));
+    const lines: (Author | undefined)[] = [];
+    let latest = 0;
+    for (let i = 0; i <= text.length; i++) {
+      if (i < text.length) latest = Math.max(latest, this.blameChars[i]);
+      if (i < text.length && text[i] !== "\n") continue;
+      lines.push(this.authors[latest - 1] ?? undefined);
+      latest = 0;
+    }
+    return lines;
+  }
+
+  /**
+   * Attempts a WebSocket connection.
+   *
+   * Safety Invariant: Until this WebSocket connection is closed, no other
+   * connections will be attempted because either `this.ws` or
+   * `this.connecting` will be set to a truthy value.
+   *
+   * Liveness Invariant: After this WebSocket connection closes, either through
+   * error or successful end, both `this.connecting` and `this.ws` will be set
+   * to falsy values.
+   */
+  private tryConnect() {
+    if (this.connecting || this.ws || this.loading || this.disposed) return;
+    this.connecting = true;
+    const createSocket = this.options.createSocket ?? defaultSocket;
+    const ws = createSocket(this.uri);
+    ws.onopen = () => {
+      this.connecting = false;
+      this.ws = ws;
+      this.openedAt = Date.now();
+      this.options.onConnected?.();
+      this.users = {};
+      this.options.onChangeUsers?.(this.users);
+      this.updateIdle();
+      // The server sends the chat backlog again on every connection.
+      this.chat = [];
+      this.options.onChangeChat?.(this.chat);
+      this.threads = {};
+      this.options.onChangeThreads?.([]);
+      this.sendInfo();
+      this.sendCursorData();
+      if (this.blame) this.sendRequestAuthors();
+      if (this.resyncing) {
+        this.requestSnapshot();
+      } else if (this.outstanding) {
+        this.sendOperation(this.outstanding);
+      }
+    };
+    ws.onclose = (event) => {
+      if (this.ws) {
+        this.ws = undefined;
+        this.options.onDisconnected?.();
+        if (Date.now() - this.openedAt >= STABLE_CONNECTION) {
+          this.recentFailures = 0;
+          this.attempts = 0;
+        } else if (++this.recentFailures >= RESYNC_FAILURES) {
+          // The server keeps dropping us, likely because it rejects an edit
+          // that no longer applies, so start over from a snapshot.
+          this.resyncing = true;
+        }
+      } else {
+        this.connecting = false;
+      }
+      if (event?.code === UNAUTHORIZED_CLOSE) {
+        this.unauthorized = true;
+        this.options.onUnauthorized?.();
+      } else {
+        this.scheduleReconnect();
+      }
+    };
+    ws.onmessage = ({ data }) => {
+      if (typeof data === "string") {
+        this.handleMessage(JSON.parse(data));
+      }
+    };
+  }
+
+  private handleMessage(msg: ServerMsg) {
+    // The server only sends history right after the identity, and none for a
+    // document without operations. Any other message means that the initial
+    // history is complete, and the echo of our own cursor always comes.
+    if (
+      this.restored &&
+      !this.resyncing &&
+      msg.Identity === undefined &&
+      msg.History === undefined
+    ) {
+      this.rebaseRestored();
+    }
+    if (msg.Identity !== undefined) {
+      this.me = msg.Identity;
+    } else if (msg.History !== undefined) {
+      const { start, operations } = msg.History;
+      // Until the snapshot arrives, the history is not based on our state.
+      if (this.resyncing) return;
+      if (start > this.revision) {
+        console.warn("History message has start greater than last operation.");
+        this.requestSnapshot();
+        return;
+      }
+      for (let i = this.revision - start; i < operations.length; i++) {
+        const { id } = operations[i];
+        const operation = OpSeq.from_str(
+          JSON.stringify(operations[i].operation),
+        );
+        this.revision++;
+        this.history.push({ id, operation });
+        this.markActive(id);
+        if (id === this.me) {
+          this.serverAck();
+        } else {
+          this.applyServer(operation, id);
+        }
+      }
+      if (this.restored) this.rebaseRestored();
+      this.persist();
+      if (this.blame) this.requestAuthors();
+      this.options.onChangeRevision?.(this.revision);
+    } else if (msg.Language !== undefined) {
+      this.options.onChangeLanguage?.(msg.Language);
+    } else if (msg.UserInfo !== undefined) {
+      const { id, info } = msg.UserInfo;
+      if (id !== this.me) {
+        this.users = { ...this.users };
+        if (info) {
+          this.users[id] = info;
+          this.markActive(id);
+        } else {
+          delete this.users[id];
+          delete this.userCursors[id];
+          delete this.lastActive[id];
+        }
+        this.options.onChangeUsers?.(this.users);
+        this.updateIdle();
+      }
+    } else if (msg.UserCursor !== undefined) {
+      const { id, data } = msg.UserCursor;
+      if (id !== this.me) {
+        this.userCursors[id] = data;
+        this.markActive(id);
+        this.options.onChangeCursors?.(id);
+      }
+    } else if (msg.Files !== undefined) {
+      this.options.onChangeFiles?.(msg.Files);
+    } else if (msg.Authors !== undefined) {
+      const { start, authors } = msg.Authors;
+      authors.forEach((author, i) => (this.authors[start + i] = author));
+      this.options.onChangeAuthors?.();
+    } else if (msg.Snapshot !== undefined) {
+      this.applySnapshot(msg.Snapshot.revision, msg.Snapshot.text);
+    } else if (msg.Chat !== undefined) {
+      this.chat = [...this.chat, msg.Chat];
+      this.options.onChangeChat?.(this.chat);
+    } else if (msg.Thread !== undefined) {
+      this.threads[msg.Thread.id] = msg.Thread;
+      this.options.onChangeThreads?.(Object.values(this.threads));
+    } else if (msg.Token !== undefined) {
+      this.options.onChangeToken?.(msg.Token ?? undefined);
+    }
+  }
+
+  /** Reconnect after an exponential backoff, with jitter to spread out clients. */
+  private scheduleReconnect() {
+    if (this.disposed) return;
+    const interval = this.options.reconnectInterval ?? 1000;
+    const delay = Math.min(interval * 2 ** this.attempts, MAX_RECONNECT_DELAY);
+    this.attempts++;
+    this.reconnectId = setTimeout(
+      () => this.tryConnect(),
+      delay / 2 + (Math.random() * delay) / 2,
+    );
+  }
+
+  /** Ask the server for its latest text, and ignore its history until then. */
+  private requestSnapshot() {
+    this.resyncing = true;
+    this.options.onDesynchronized?.();
+    this.ws?.send(`"RequestSnapshot"`);
+  }
+
+  /**
+   * Start over from a snapshot of the server's text. The unsent edits are
+   * the change from the last text we know the server had to ours, and they
+   * are rebased onto the change from that text to the snapshot, hunk by hunk.
+   * When a hunk of ours touches one of the server's, the user merges them by
+   * hand, unless the server already has our text or we have nothing unsent.
+   */
+  private applySnapshot(revision: number, text: string) {
+    if (!this.resyncing) return;
+    this.resyncing = false;
+    this.recentFailures = 0;
+    const base = this.textAt(this.revision);
+    const local = this.lastValue;
+    const mine = diffHunks(base, local);
+    const theirs = diffHunks(base, text);
+
+    this.revision = revision;
+    this.history = [];
+    this.historyStart = revision;
+    this.checkpoints = [text];
+    this.blameRevision = -1;
+    this.outstanding = undefined;
+    this.buffer = undefined;
+    this.options.onConnected?.();
+
+    if (local === text || mine.length === 0) {
+      // Nothing to merge, as when the server got our edits but we lost the
+      // acknowledgement, so keep the undo history and take the server's text.
+      const operation = diffOperation(local, text);
+      this.transformUndo(operation);
+      this.applyOperation(operation);
+    } else if (!mine.some((a) => theirs.some((b) => overlaps(a, b)))) {
+      const length = unicodeLength(base);
+      const pair = hunksOperation(mine, length).transform(
+        hunksOperation(theirs, length),
+      )!;
+      this.transformUndo(pair.second());
+      this.applyOperation(pair.second());
+      if (!pair.first().is_noop()) this.queueOperation(pair.first());
+    } else {
+      this.undoStack = [];
+      this.redoStack = [];
+      this.applyOperation(diffOperation(local, text));
+      const resolve = (merged: string) => {
+        if (this.disposed) return;
+        const operation = diffOperation(this.lastValue, merged);
+        if (operation.is_noop()) return;
+        // The user may have typed while merging, so keep their undo in step.
+        this.transformUndo(operation);
+        this.applyOperation(operation);
+        this.queueOperation(operation);
+      };
+      if (this.options.onConflict) {
+        this.options.onConflict({ local, server: text, resolve });
+      } else {
+        resolve(local);
+      }
+    }
+    if (this.restored) this.rebaseRestored();
+    this.options.onChangeRevision?.(this.revision);
+  }
+
+  private serverAck() {
+    if (!this.outstanding) {
+      console.warn("Received serverAck with no outstanding operation.");
+      return;
+    }
+    this.outstanding = this.buffer;
+    this.buffer = undefined;
+    if (this.outstanding) {
+      this.sendOperation(this.outstanding);
+    }
+  }
+
+  private applyServer(operation: OpSeq, id: number) {
+    if (this.outstanding) {
+      const pair = this.outstanding.transform(operation)!;
+      this.outstanding = pair.first();
+      operation = pair.second();
+      if (this.buffer) {
+        const pair = this.buffer.transform(operation)!;
+        this.buffer = pair.first();
+        operation = pair.second();
+      }
+    }
+    this.transformUndo(operation);
+    this.applyOperation(operation);
+    if (!operation.is_noop()) this.options.onRemoteEdit?.(id, operation);
+  }
+
+  /** Handle an edit by the user, reported by the binding. */
+  private onChange(operation: OpSeq) {
+    this.recordUndo(operation.invert(this.lastValue));
+    this.queueOperation(operation);
+    this.lastValue = this.advance(operation);
+    this.transformCursors(operation);
+  }
+
+  /** Send an operation, or buffer it until the outstanding one is acked. */
+  private queueOperation(operation: OpSeq) {
+    this.persist();
+    if (!this.outstanding) {
+      this.sendOperation(operation);
+      this.outstanding = operation;
+    } else if (!this.buffer) {
+      this.buffer = operation;
+    } else {
+      this.buffer = this.buffer.compose(operation);
+    }
+  }
+
+  /**
+   * Replay edits saved by an earlier session on top of the history from the
+   * server. This follows the same steps as a client that never went away:
+   * the outstanding edit is dropped once the server has it, and the rest are
+   * transformed by every other edit since they were saved.
+   */
+  private rebaseRestored() {
+    const saved = this.restored!;
+    this.restored = undefined;
+    let outstanding: OpSeq | undefined = OpSeq.from_str(saved.outstanding);
+    let buffer: OpSeq | undefined =
+      saved.buffer !== undefined ? OpSeq.from_str(saved.buffer) : undefined;
+
+    const transform = (operation: OpSeq): boolean => {
+      if (!outstanding) return true;
+      const pair = outstanding.transform(operation);
+      if (!pair) return false;
+      outstanding = pair.first();
+      if (buffer) {
+        const pair2 = buffer.transform(pair.second());
+        if (!pair2) return false;
+        buffer = pair2.first();
+      }
+      return true;
+    };
+
+    let ok = true;
+    if (
+      saved.revision >= this.historyStart &&
+      saved.revision <= this.revision &&
+      this.textAt(saved.revision) === saved.text
+    ) {
+      for (let i = saved.revision; i < this.revision && ok; i++) {
+        const { id, operation } = this.history[i - this.historyStart];
+        if (id === saved.id && outstanding) {
+          outstanding = buffer;
+          buffer = undefined;
+        } else {
+          ok = transform(operation);
+        }
+      }
+    } else {
+      // The server no longer has the history that the edits were based on,
+      // as after a restart, so rebase them onto a diff of the text instead.
+      ok = transform(diffOperation(saved.text, this.textAt(this.revision)));
+    }
+
+    let pending =
+      outstanding && buffer ? outstanding.compose(buffer) : outstanding;
+    const local =
+      this.outstanding && this.buffer
+        ? this.outstanding.compose(this.buffer)
+        : this.outstanding;
+    if (ok && pending && local) pending = pending.transform(local)?.first();
+    if (!ok || !pending) {
+      if (!ok) console.warn("Failed to rebase edits saved while offline.");
+      return;
+    }
+    this.applyOperation(pending);
+    this.queueOperation(pending);
+  }
+
+  /** Save the unsent edits, or clear them once the server has everything. */
+  private async savePending() {
+    const { storage } = this.options;
+    if (!storage || this.loading || this.restored) return;
+    const edits: PendingEdits | undefined = this.outstanding && {
+      revision: this.revision,
+      text: this.textAt(this.revision),
+      id: this.me,
+      outstanding: this.outstanding.to_string(),
+      buffer: this.buffer?.to_string(),
+    };
+    this.unsaved = true;
+    await storage.save(edits);
+    this.unsaved = false;
+  }
+
+  /** Apply an undo or redo to the text and send it like any local edit. */
+  private applyLocal(operation: OpSeq) {
+    this.lastUndoTime = 0;
+    this.applyOperation(operation);
+    this.queueOperation(operation);
+
+    // Move the cursor to the end of the last change, as the editor's undo does.
+    const ops: (string | number)[] = JSON.parse(operation.to_string());
+    let index = 0;
+    let cursor: number | undefined;
+    for (const op of ops) {
+      if (typeof op === "string") {
+        index += unicodeLength(op);
+        cursor = index;
+      } else if (op >= 0) {
+        index += op;
+      } else {
+        cursor = index;
+      }
+    }
+    if (cursor !== undefined) this.options.binding.setCursor?.(cursor);
+  }
+
+  /** Record the inverse of a local edit, merging it with one just before. */
+  private recordUndo(inverse: OpSeq) {
+    const now = Date.now();
+    const last = this.undoStack.length - 1;
+    if (last >= 0 && now - this.lastUndoTime < UNDO_GROUP_INTERVAL) {
+      this.undoStack[last] = inverse.compose(this.undoStack[last])!;
+    } else {
+      this.undoStack.push(inverse);
+      if (this.undoStack.length > UNDO_LIMIT) this.undoStack.shift();
+    }
+    this.lastUndoTime = now;
+    this.redoStack = [];
+  }
+
+  /**
+   * Transform the undo and redo stacks by a remote edit. Each entry applies to
+   * the text left by the one above it, so the edit is carried down the stack.
+   */
+  private transformUndo(operation: OpSeq) {
+    for (const stack of [this.undoStack, this.redoStack]) {
+      let remote = operation;
+      for (let i = stack.length - 1; i >= 0; i--) {
+        const pair = stack[i].transform(remote)!;
+        stack[i] = pair.first();
+        remote = pair.second();
+      }
+    }
+  }
+
+  private sendOperation(operation: OpSeq) {
+    const op = operation.to_string();
+    this.ws?.send(`{"Edit":{"revision":${this.revision},"operation":${op}}}`);
+  }
+
+  private sendInfo() {
+    if (this.myInfo) {
+      this.ws?.send(`{"ClientInfo":${JSON.stringify(this.myInfo)}}`);
+    }
+  }
+
+  private sendCursorData() {
+    if (!this.buffer) {
+      this.ws?.send(`{"CursorData":${JSON.stringify(this.cursorData)}}`);
+    }
+  }
+
+  /** Apply the operations of revisions `from` up to `to` to a text. */
+  private replay(text: string, from: number, to: number): string {
+    for (let i = from; i < to; i++) {
+      text = this.history[i].operation.apply(text) ?? text;
+    }
+    return text;
+  }
+
+  private applyOperation(operation: OpSeq) {
+    if (operation.is_noop()) return;
+    this.options.binding.applyOperation(operation);
+    this.lastValue = this.advance(operation);
+    this.transformCursors(operation);
+  }
+
+  /**
+   * Returns the text after an operation, without reading the whole text back
+   * from the binding, which is slow for editors that do not keep a string.
+   */
+  private advance(operation: OpSeq): string {
+    return operation.apply(this.lastValue) ?? this.options.binding.getText();
+  }
+
+  private transformCursors(operation: OpSeq) {
+    for (const data of Object.values(this.userCursors)) {
+      data.cursors = data.cursors.map((c) => operation.transform_index(c));
+      data.selections = data.selections.map(([s, e]) => [
+        operation.transform_index(s),
+        operation.transform_index(e),
+      ]);
+      data.viewport = data.viewport?.map(([s, e]) => [
+        operation.transform_index(s),
+        operation.transform_index(e),
+      ]);
+    }
+    for (const thread of Object.values(this.threads)) {
+      this.threads[thread.id] = {
+        ...thread,
+        start: operation.transform_index(thread.start),
+        end: operation.transform_index(thread.end),
+      };
+    }
+    this.options.onTransform?.(operation);
+  }
+
+  /** Ask the server for the authors of operations that are not known yet. */
+  private sendRequestAuthors() {
+    const start = Math.min(this.authors.length, this.revision);
+    this.ws?.send(`{"RequestAuthors":${start}}`);
+  }
+
+  /** Find the revision that last changed each codepoint of the text. */
+  private updateBlameChars() {
+    if (this.blameRevision < this.historyStart) {
+      // Text from before the history, such as a snapshot, has no author,
+      // which is marked by revision 0 since the first edit is revision 1.
+      const length = unicodeLength(this.checkpoints[0]);
+      this.blameChars = new Array(length).fill(0);
+      this.blameRevision = this.historyStart;
+    }
+    while (this.blameRevision < this.revision) {
+      const revision = ++this.blameRevision;
+      const { operation } = this.history[revision - this.historyStart - 1];
+      const ops: (number | string)[] = JSON.parse(operation.to_string());
+      const chars: number[] = [];
+      let index = 0;
+      for (const op of ops) {
+        if (typeof op === "string") {
+          for (let i = unicodeLength(op); i > 0; i--) chars.push(revision);
+        } else if (op >= 0) {
+          for (let i = index; i < index + op; i++) {
+            chars.push(this.blameChars[i]);
+          }
+          index += op;
+        } else {
+          // Count a deletion as a change to the text that follows it.
+          index -= op;
+          if (index < this.blameChars.length) {
+            this.blameChars[index] = revision;
+          }
+        }
+      }
+      this.blameChars = chars;
+    }
+  }
+
+  /** Record activity from another user, who is then no longer idle. */
+  private markActive(id: number) {
+    if (!(id in this.users)) return;
+    this.lastActive[id] = Date.now();
+    if (this.idle.includes(id)) this.updateIdle();
+  }
+
+  private updateIdle() {
+    const now = Date.now();
+    const idle = Object.keys(this.users)
+      .map(Number)
+      .filter((id) => now - (this.lastActive[id] ?? now) >= IDLE_TIMEOUT);
+    if (idle.join() !== this.idle.join()) {
+      this.idle = idle;
+      this.options.onChangeIdle?.(idle);
+    }
+  }
+}
+
+/**
+ * Text kept in memory rather than in an editor, for clients such as scripts
+ * and bots under Node.js.
+ */
+export class TextBuffer implements TextBinding {
+  private listeners: ((operation: OpSeq) => void)[] = [];
+
+  constructor(private text: string = "") {}
+
+  getText(): string {
+    return this.text;
+  }
+
+  /** Replace the text, sending the difference as an edit by this user. */
+  setText(text: string) {
+    const operation = diffOperation(this.text, text);
+    this.text = text;
+    if (operation.is_noop()) return;
+    for (const listener of this.listeners) listener(operation);
+  }
+
+  applyOperation(operation: OpSeq) {
+    this.text = operation.apply(this.text) ?? this.text;
+  }
+
+  onChange(listener: (operation: OpSeq) => void): Disposable {
+    this.listeners.push(listener);
+    return {
+      dispose: () => {
+        this.listeners = this.listeners.filter((l) => l !== listener);
+      },
+    };
+  }
+}
+
+function defaultSocket(uri: string): Socket {
+  return new WebSocket(uri);
+}
+
+type UserOperation = {
+  id: number;
+  operation: any;
+};
+
+type ServerMsg = {
+  Identity?: number;
+  History?: {
+    start: number;
+    operations: UserOperation[];
+  };
+  Language?: string;
+  UserInfo?: {
+    id: number;
+    info: UserInfo | null;
+  };
+  UserCursor?: {
+    id: number;
+    data: CursorData;
+  };
+  Files?: FileEntry[];
+  Snapshot?: {
+    revision: number;
+    text: string;
+  };
+  Chat?: ChatMessage;
+  Thread?: CommentThread;
+  Authors?: {
+    start: number;
+    authors: (Author | null)[];
+  };
+  Token?: string | null;
+};
+
+/** A change from one text to another as a single replaced range. */
+type Region = {
+  /** Range of Unicode codepoints replaced in the old text. */
+  start: number;
+  end: number;
+  /** Length of the old text, in Unicode codepoints. */
+  length: number;
+  text: string;
+};
+
+/** Returns the smallest range that differs between two texts. */
+function diffRegion(from: string, to: string): Region {
+  const a = Array.from(from);
+  const b = Array.from(to);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - start &&
+    suffix < b.length - start &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return {
+    start,
+    end: a.length - suffix,
+    length: a.length,
+    text: b.slice(start, b.length - suffix).join(""),
+  };
+}
+
+/** Whether a region replaces anything, rather than being an empty diff. */
+function changes(r: Region): boolean {
+  return r.start < r.end || r.text !== "";
+}
+
+/** Whether two changes to the same text touch each other. */
+function overlaps(a: Region, b: Region): boolean {
+  return changes(a) && changes(b) && a.start <= b.end && b.start <= a.end;
+}
+
+function regionOperation(region: Region): OpSeq {
+  return hunksOperation([region], region.length);
+}
+
+/** Returns an operation that replaces ordered, disjoint ranges of a text. */
+function hunksOperation(hunks: Region[], length: number): OpSeq {
+  const operation = OpSeq.new();
+  let index = 0;
+  for (const { start, end, text } of hunks) {
+    operation.retain(start - index);
+    operation.delete(end - start);
+    operation.insert(text);
+    index = end;
+  }
+  operation.retain(length - index);
+  return operation;
+}
+
+/** Most edits between the lines of two texts that `diffLines` looks for. */
+const MAX_LINE_EDITS = 1000;
+
+/**
+ * Returns the changes between two texts as separate hunks, one for each run
+ * of differing lines, so that edits to distant parts of a text stay apart.
+ * Texts that differ in too many lines are compared as a single region.
+ */
+function diffHunks(from: string, to: string): Region[] {
+  const a = from.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const b = to.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const lines = diffLines(a, b);
+  if (!lines) {
+    const region = diffRegion(from, to);
+    return changes(region) ? [region] : [];
+  }
+  const offsets = [0];
+  for (const line of a) {
+    offsets.push(offsets[offsets.length - 1] + unicodeLength(line));
+  }
+  const length = offsets[a.length];
+  return lines.map(([aStart, aEnd, bStart, bEnd]) => {
+    const region = diffRegion(
+      a.slice(aStart, aEnd).join(""),
+      b.slice(bStart, bEnd).join(""),
+    );
+    return {
+      start: offsets[aStart] + region.start,
+      end: offsets[aStart] + region.end,
+      length,
+      text: region.text,
+    };
+  });
+}
+
+/**
+ * Returns the runs of lines that differ between two texts, as line ranges
+ * `[aStart, aEnd, bStart, bEnd]`, with Myers' algorithm. Returns undefined
+ * past `MAX_LINE_EDITS` inserted or deleted lines.
+ */
+function diffLines(
+  a: string[],
+  b: string[],
+): [number, number, number, number][] | undefined {
+  const limit = Math.min(a.length + b.length, MAX_LINE_EDITS);
+  const offset = limit + 1;
+  const v: number[] = new Array(2 * offset + 1).fill(0);
+  // Furthest point on each diagonal before each number of edits.
+  const trace: number[][] = [];
+  const previous = (d: number, k: number, furthest: number[]) =>
+    k === -d || (k !== d && furthest[offset + k - 1] < furthest[offset + k + 1])
+      ? k + 1
+      : k - 1;
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      const prev = previous(d, k, v);
+      let x = prev === k + 1 ? v[offset + prev] : v[offset + prev] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x < a.length || y < b.length) continue;
+
+      // Walk back from the end to find which lines were deleted or inserted.
+      const deleted: boolean[] = new Array(a.length).fill(false);
+      const inserted: boolean[] = new Array(b.length).fill(false);
+      for (let e = d; e > 0; e--) {
+        const diagonal = x - y;
+        const from = previous(e, diagonal, trace[e]);
+        const prevX = trace[e][offset + from];
+        const prevY = prevX - from;
+        if (from === diagonal + 1) inserted[prevY] = true;
+        else deleted[prevX] = true;
+        x = prevX;
+        y = prevY;
+      }
+
+      const runs: [number, number, number, number][] = [];
+      let i = 0;
+      let j = 0;
+      while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && !deleted[i] && !inserted[j]) {
+          i++;
+          j++;
+          continue;
+        }
+        const run: [number, number, number, number] = [i, i, j, j];
+        while ((i < a.length && deleted[i]) || (j < b.length && inserted[j])) {
+          if (i < a.length && deleted[i]) i++;
+          else j++;
+        }
+        run[1] = i;
+        run[3] = j;
+        runs.push(run);
+      }
+      return runs;
+    }
+  }
+  return undefined;
+}
+
+/** Returns an operation that changes one text into another, as one edit. */
+export function diffOperation(from: string, to: string): OpSeq {
+  return regionOperation(diffRegion(from, to));
+}
+
+/** Returns the number of Unicode codepoints in a string. */
+export function unicodeLength(str: string): number {
+  let length = 0;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  for (const c of str) ++length;
+  return length;
+}
+
+export default RustpadClient;
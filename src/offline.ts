@@ -0,0 +1,68 @@
+/** Edits of a document that the server has not acknowledged yet. */
+export type PendingEdits = {
+  /** Last revision received from the server, which the edits are based on. */
+  readonly revision: number;
+  /** Text of the document at that revision. */
+  readonly text: string;
+  /** Connection ID that sent the outstanding operation. */
+  readonly id: number;
+  /** Operation sent to the server but not acknowledged, as JSON. */
+  readonly outstanding: string;
+  /** Operation waiting for the outstanding one to be acknowledged, as JSON. */
+  readonly buffer?: string;
+};
+
+const DATABASE = "rustpad";
+const STORE = "pending";
+
+let database: Promise<IDBDatabase> | undefined;
+
+/** Open the database, or reject if IndexedDB is unavailable. */
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+}
+
+/** Run a request against the store of pending edits. */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Load the pending edits saved for a document, if any. */
+export async function loadPending(
+  key: string,
+): Promise<PendingEdits | undefined> {
+  try {
+    return await withStore<PendingEdits>("readonly", (store) => store.get(key));
+  } catch (error) {
+    console.warn("Failed to load pending edits:", error);
+    return undefined;
+  }
+}
+
+/** Save the pending edits of a document, or clear them if there are none. */
+export async function savePending(
+  key: string,
+  edits: PendingEdits | undefined,
+): Promise<void> {
+  try {
+    await withStore<unknown>("readwrite", (store) =>
+      edits ? store.put(edits, key) : store.delete(key),
+    );
+  } catch (error) {
+    console.warn("Failed to save pending edits:", error);
+  }
+}
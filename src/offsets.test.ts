@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { LineChanges, OffsetMap } from "./offsets";
+
+type Range = {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+};
+
+/** A text model with just enough of Monaco's API, split into lines. */
+class FakeModel {
+  lines: string[];
+
+  constructor(
+    text: string,
+    readonly eol = "\n",
+  ) {
+    this.lines = text.split(/\r?\n/);
+  }
+
+  getLineCount = () => this.lines.length;
+  getLineContent = (line: number) => this.lines[line - 1];
+  getEOL = () => this.eol;
+
+  /** Apply changes to the old text, like one edit with several cursors. */
+  edit(...changes: { range: Range; text: string }[]): LineChanges {
+    const sorted = [...changes].sort(
+      (a, b) =>
+        b.range.startLineNumber - a.range.startLineNumber ||
+        b.range.startColumn - a.range.startColumn,
+    );
+    for (const { range, text } of sorted) {
+      const before = this.lines[range.startLineNumber - 1].slice(
+        0,
+        range.startColumn - 1,
+      );
+      const after = this.lines[range.endLineNumber - 1].slice(
+        range.endColumn - 1,
+      );
+      this.lines.splice(
+        range.startLineNumber - 1,
+        range.endLineNumber - range.startLineNumber + 1,
+        ...(before + text + after).split("\n"),
+      );
+    }
+    return { changes, eol: this.eol, isFlush: false };
+  }
+}
+
+/** Checks every position of the model against a count over the whole text. */
+function expectConsistent(map: OffsetMap, model: FakeModel) {
+  let offset = 0;
+  model.lines.forEach((line, i) => {
+    let column = 1;
+    for (const c of Array.from(line).concat("")) {
+      const position = { lineNumber: i + 1, column };
+      expect(map.offsetAt(position)).toBe(offset);
+      expect(map.positionAt(offset)).toEqual(position);
+      column += c.length;
+      offset++;
+    }
+    offset += model.eol.length - 1;
+  });
+  expect(map.length).toBe(offset - 1);
+}
+
+function range(
+  line: number,
+  column: number,
+  endLine = line,
+  endColumn = column,
+) {
+  return {
+    startLineNumber: line,
+    startColumn: column,
+    endLineNumber: endLine,
+    endColumn,
+  };
+}
+
+describe("OffsetMap", () => {
+  it("counts characters above U+FFFF as one codepoint", () => {
+    const model = new FakeModel("a🌻b\nc");
+    const map = new OffsetMap(model);
+    expect(map.offsetAt({ lineNumber: 1, column: 4 })).toBe(2);
+    expect(map.positionAt(2)).toEqual({ lineNumber: 1, column: 4 });
+    expect(map.offsetAt({ lineNumber: 2, column: 1 })).toBe(4);
+    expectConsistent(map, model);
+  });
+
+  it("counts each line break as its EOL", () => {
+    const model = new FakeModel("ab\r\ncd", "\r\n");
+    const map = new OffsetMap(model);
+    expect(map.offsetAt({ lineNumber: 2, column: 1 })).toBe(4);
+    expect(map.length).toBe(6);
+  });
+
+  it("follows edits that add and remove lines", () => {
+    const model = new FakeModel("one\ntwo\nthree");
+    const map = new OffsetMap(model);
+    map.update(model.edit({ range: range(1, 4), text: "\n🌻\n" }));
+    expectConsistent(map, model);
+    map.update(model.edit({ range: range(2, 1, 4, 2), text: "" }));
+    expectConsistent(map, model);
+  });
+
+  it("follows several changes in one edit", () => {
+    const model = new FakeModel("a\nb\nc\nd");
+    const map = new OffsetMap(model);
+    map.update(
+      model.edit(
+        { range: range(1, 2), text: "\nx\ny" },
+        { range: range(3, 1, 4, 1), text: "🌻" },
+        { range: range(4, 2), text: "!" },
+      ),
+    );
+    expect(model.lines).toEqual(["a", "x", "y", "b", "🌻d!"]);
+    expectConsistent(map, model);
+  });
+
+  it("reads the whole text again after a flush", () => {
+    const model = new FakeModel("a");
+    const map = new OffsetMap(model);
+    model.lines = ["🌻", "bc"];
+    map.update({ changes: [], eol: "\n", isFlush: true });
+    expectConsistent(map, model);
+  });
+});
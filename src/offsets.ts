@@ -0,0 +1,189 @@
+import type { IPosition, editor } from "monaco-editor/esm/vs/editor/editor.api";
+
+/** The parts of a Monaco text model that `OffsetMap` reads. */
+export type LineSource = Pick<
+  editor.ITextModel,
+  "getLineCount" | "getLineContent" | "getEOL"
+>;
+
+/** The parts of a content change event that `OffsetMap` needs. */
+export type LineChanges = {
+  readonly changes: readonly Pick<
+    editor.IModelContentChange,
+    "range" | "text"
+  >[];
+  readonly eol: string;
+  readonly isFlush: boolean;
+};
+
+/**
+ * Maps between offsets in Unicode codepoints, which operations use, and
+ * positions in a Monaco model, which count UTF-16 code units. The length of
+ * every line is kept up to date from the model's change events, so a lookup
+ * reads at most one line instead of the whole text. Lines without surrogate
+ * pairs, such as all ASCII lines, convert columns without reading the line.
+ */
+export class OffsetMap {
+  // Length of each line in codepoints without its line break, and whether it
+  // has characters that take two UTF-16 code units.
+  private lengths: number[] = [];
+  private wide: boolean[] = [];
+
+  // Offset where each line starts, computed lazily and only valid for the
+  // first `validStarts` lines, since an edit moves every line after it.
+  private starts: number[] = [];
+  private validStarts: number = 0;
+  private eol: string = "\n";
+
+  constructor(private readonly model: LineSource) {
+    this.reset();
+  }
+
+  /** Read every line again, as after the whole text is replaced. */
+  reset() {
+    const count = this.model.getLineCount();
+    this.eol = this.model.getEOL();
+    this.lengths = new Array(count);
+    this.wide = new Array(count);
+    for (let i = 0; i < count; i++) this.readLine(i);
+    this.validStarts = 0;
+  }
+
+  /** Update the lines touched by a change event, after the model has it. */
+  update(event: LineChanges) {
+    if (event.isFlush || event.eol !== this.eol) {
+      this.reset();
+      return;
+    }
+    // Ranges refer to the old text, so splice from the end backwards. Every
+    // line index then matches the new text, and changed lines can be read.
+    const changes = [...event.changes].sort(
+      (a, b) =>
+        b.range.startLineNumber - a.range.startLineNumber ||
+        b.range.startColumn - a.range.startColumn,
+    );
+    const dirty: { start: number; count: number }[] = [];
+    for (const { range, text } of changes) {
+      const start = range.startLineNumber - 1;
+      const removed = range.endLineNumber - range.startLineNumber + 1;
+      const added = countLines(text);
+      this.splice(start, removed, added);
+      for (const lines of dirty) lines.start += added - removed;
+      dirty.push({ start, count: added });
+    }
+    for (const { start, count } of dirty) {
+      for (let i = start; i < start + count; i++) this.readLine(i);
+      this.validStarts = Math.min(this.validStarts, start + 1);
+    }
+  }
+
+  /** Number of codepoints in the text. */
+  get length(): number {
+    const last = this.lengths.length - 1;
+    return this.lineStart(last) + this.lengths[last];
+  }
+
+  /** Returns the number of codepoints before a position. */
+  offsetAt(position: IPosition): number {
+    const line = clamp(position.lineNumber - 1, 0, this.lengths.length - 1);
+    const column = Math.max(position.column - 1, 0);
+    const start = this.lineStart(line);
+    if (!this.wide[line]) return start + Math.min(column, this.lengths[line]);
+    const text = this.model.getLineContent(line + 1);
+    return start + codepointLength(text.slice(0, column));
+  }
+
+  /** Returns the position after a number of codepoints. */
+  positionAt(offset: number): IPosition {
+    const last = this.lengths.length - 1;
+    this.lineStart(last);
+    // Find the last line that starts at or before the offset.
+    let low = 0;
+    let high = last;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.starts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    const chars = clamp(offset - this.starts[low], 0, this.lengths[low]);
+    if (!this.wide[low]) return { lineNumber: low + 1, column: chars + 1 };
+    let column = 1;
+    let remaining = chars;
+    for (const c of this.model.getLineContent(low + 1)) {
+      if (remaining <= 0) break;
+      column += c.length;
+      remaining--;
+    }
+    return { lineNumber: low + 1, column };
+  }
+
+  /** Returns the offset where a line starts, counting lines from 0. */
+  private lineStart(line: number): number {
+    while (this.validStarts <= line) {
+      const i = this.validStarts++;
+      this.starts[i] =
+        i === 0
+          ? 0
+          : this.starts[i - 1] + this.lengths[i - 1] + this.eol.length;
+    }
+    return this.starts[line];
+  }
+
+  private readLine(i: number) {
+    const text = this.model.getLineContent(i + 1);
+    const wide = SURROGATE.test(text);
+    this.lengths[i] = wide ? codepointLength(text) : text.length;
+    this.wide[i] = wide;
+  }
+
+  /** Replace `removed` lines with `added` lines, to be read later. */
+  private splice(start: number, removed: number, added: number) {
+    if (added === removed) return;
+    if (added < 1000) {
+      this.lengths.splice(start, removed, ...new Array(added).fill(0));
+      this.wide.splice(start, removed, ...new Array(added).fill(false));
+    } else {
+      // Spreading too many arguments overflows the stack, e.g. when pasting.
+      const end = start + removed;
+      this.lengths = this.lengths
+        .slice(0, start)
+        .concat(new Array(added).fill(0), this.lengths.slice(end));
+      this.wide = this.wide
+        .slice(0, start)
+        .concat(new Array(added).fill(false), this.wide.slice(end));
+    }
+  }
+}
+
+/** Matches the first half of a surrogate pair, for characters above U+FFFF. */
+const SURROGATE = /[\ud800-\udbff]/;
+
+/**
+ * Returns the number of lines in a text, one more than its line breaks. The
+ * model turns every line break into its own EOL, so counting "\n" is enough.
+ */
+function countLines(text: string): number {
+  let count = 1;
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/** Returns the number of Unicode codepoints in a string. */
+function codepointLength(text: string): number {
+  let length = text.length;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const next = text.charCodeAt(i + 1);
+    if (code >= 0xd800 && code <= 0xdbff && next >= 0xdc00 && next <= 0xdfff) {
+      length--;
+      i++;
+    }
+  }
+  return length;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -2,10 +2,35 @@ import debounce from "lodash.debounce";
 import type {
   IDisposable,
   IPosition,
+  IRange,
   editor,
 } from "monaco-editor/esm/vs/editor/editor.api";
 import { OpSeq } from "rustpad-wasm";
 
+import RustpadClient, {
+  ChatMessage,
+  CommentThread,
+  Conflict,
+  CursorData,
+  Disposable,
+  FileEntry,
+  TextBinding,
+  UserInfo,
+  unicodeLength,
+} from "./client";
+import { loadPending, savePending } from "./offline";
+import { OffsetMap } from "./offsets";
+
+export type {
+  Author,
+  ChatMessage,
+  CommentThread,
+  Conflict,
+  FileEntry,
+  UserInfo,
+} from "./client";
+export { MAIN_FILE } from "./client";
+
 /** Options passed in to the Rustpad constructor. */
 export type RustpadOptions = {
   readonly uri: string;
@@ -15,59 +40,149 @@ export type RustpadOptions = {
   readonly onDesynchronized?: () => void;
   readonly onChangeLanguage?: (language: string) => void;
   readonly onChangeUsers?: (users: Record<number, UserInfo>) => void;
+  /** Called with the IDs of users who have not been active for a while. */
+  readonly onChangeIdle?: (idle: number[]) => void;
+  readonly onChangeFiles?: (files: FileEntry[]) => void;
+  readonly onChangeChat?: (messages: ChatMessage[]) => void;
+  readonly onChangeThreads?: (threads: CommentThread[]) => void;
+  readonly onChangeRevision?: (revision: number) => void;
+  /** Called when this client starts or stops following another user. */
+  readonly onChangeFollowing?: (id?: number) => void;
+  /** Called after an edit from another user is applied to the editor. */
+  readonly onRemoteEdit?: (edit: RemoteEdit) => void;
+  readonly onConflict?: (conflict: Conflict) => void;
+  /** Called with the session token for a password set by this client. */
+  readonly onChangeToken?: (token?: string) => void;
+  /** Called when the server refuses the session token, instead of reconnecting. */
+  readonly onUnauthorized?: () => void;
+  /** Delay before reconnecting, doubled after each failed attempt. */
   readonly reconnectInterval?: number;
+  /** Key for saving unsent edits in the browser, so that they survive reloads. */
+  readonly storageKey?: string;
+  /** Whether the pad was opened through a view-only link. */
+  readonly readOnly?: boolean;
 };
 
-/** A user currently editing the document. */
-export type UserInfo = {
-  readonly name: string;
-  readonly hue: number;
+/** An edit from another user, as it was applied to the editor. */
+export type RemoteEdit = {
+  readonly id: number;
+  /** The user who made the edit, unless they left before it arrived. */
+  readonly user?: UserInfo;
+  /** Ranges of inserted text, or empty ranges where text was deleted. */
+  readonly ranges: IRange[];
 };
 
-/** Browser client for Rustpad. */
+/** How long in milliseconds text inserted by other users is highlighted. */
+const REMOTE_EDIT_FLASH = 1500;
+
+/** How often in milliseconds to refresh the relative times of blame. */
+const BLAME_REFRESH_INTERVAL = 60_000;
+
+/**
+ * Browser client for Rustpad in a Monaco editor. The syncing itself is done
+ * by `RustpadClient`, and this adds what the editor shows of other users.
+ */
 class Rustpad {
-  private ws?: WebSocket;
-  private connecting?: boolean;
-  private recentFailures: number = 0;
+  private readonly client: RustpadClient;
   private readonly model: editor.ITextModel;
-  private readonly onChangeHandle: IDisposable;
+  private readonly binding: MonacoBinding;
+  private readonly offsets: OffsetMap;
   private readonly onCursorHandle: IDisposable;
   private readonly onSelectionHandle: IDisposable;
+  private readonly onScrollHandle: IDisposable;
+  private readonly onInteractHandles: IDisposable[];
   private readonly beforeUnload: (event: BeforeUnloadEvent) => void;
-  private readonly tryConnectId: number;
-  private readonly resetFailuresId: number;
-
-  // Client-server state
-  private me: number = -1;
-  private revision: number = 0;
-  private outstanding?: OpSeq;
-  private buffer?: OpSeq;
-  private users: Record<number, UserInfo> = {};
-  private userCursors: Record<number, CursorData> = {};
-  private myInfo?: UserInfo;
-  private cursorData: CursorData = { cursors: [], selections: [] };
+  private blameRefreshId?: number;
+  private cursorData: CursorData = {
+    cursors: [],
+    selections: [],
+    viewport: [],
+  };
+  private following?: number;
 
   // Intermittent local editor state
-  private lastValue: string = "";
-  private ignoreChanges: boolean = false;
   private oldDecorations: string[] = [];
+  private threadDecorations: string[] = [];
+  private blameDecorations: string[] = [];
+  private nameLabels: Record<number, NameLabel> = {};
+  private blame: boolean = false;
 
   constructor(readonly options: RustpadOptions) {
-    this.model = options.editor.getModel()!;
-    this.onChangeHandle = options.editor.onDidChangeModelContent((e) =>
-      this.onChange(e),
+    const { editor, storageKey } = options;
+    this.model = editor.getModel()!;
+    this.binding = new MonacoBinding(editor);
+    this.offsets = this.binding.offsets;
+    this.client = new RustpadClient({
+      uri: options.uri,
+      binding: this.binding,
+      storage: storageKey
+        ? {
+            load: () => loadPending(storageKey),
+            save: (edits) => savePending(storageKey, edits),
+          }
+        : undefined,
+      reconnectInterval: options.reconnectInterval,
+      readOnly: options.readOnly,
+      onConnected: options.onConnected,
+      onDisconnected: options.onDisconnected,
+      onDesynchronized: options.onDesynchronized,
+      onChangeLanguage: options.onChangeLanguage,
+      onChangeUsers: (users) => {
+        if (this.following !== undefined && !(this.following in users)) {
+          this.follow(undefined);
+        }
+        this.updateCursors();
+        options.onChangeUsers?.(users);
+      },
+      onChangeIdle: (idle) => {
+        this.updateCursors();
+        options.onChangeIdle?.(idle);
+      },
+      onChangeFiles: options.onChangeFiles,
+      onChangeChat: options.onChangeChat,
+      onChangeThreads: (threads) => {
+        this.updateThreadDecorations();
+        options.onChangeThreads?.(threads);
+      },
+      onChangeRevision: options.onChangeRevision,
+      onChangeCursors: (id) => {
+        this.updateCursors();
+        if (id === this.following) this.revealFollowed();
+      },
+      onTransform: () => {
+        this.updateCursors();
+        this.updateThreadDecorations();
+      },
+      onRemoteEdit: (id, operation) => this.showRemoteEdit(operation, id),
+      onChangeAuthors: () => this.updateBlameDecorations(),
+      onConflict: options.onConflict,
+      onChangeToken: options.onChangeToken,
+      onUnauthorized: options.onUnauthorized,
+    });
+
+    const cursorUpdate = debounce(
+      () => this.client.setCursorData(this.cursorData),
+      20,
     );
-    const cursorUpdate = debounce(() => this.sendCursorData(), 20);
-    this.onCursorHandle = options.editor.onDidChangeCursorPosition((e) => {
+    this.onCursorHandle = editor.onDidChangeCursorPosition((e) => {
       this.onCursor(e);
       cursorUpdate();
     });
-    this.onSelectionHandle = options.editor.onDidChangeCursorSelection((e) => {
+    this.onSelectionHandle = editor.onDidChangeCursorSelection((e) => {
       this.onSelection(e);
       cursorUpdate();
     });
+    this.onScrollHandle = editor.onDidScrollChange(() => {
+      this.onScroll();
+      cursorUpdate();
+    });
+    // Typing or clicking in the editor stops following another user.
+    this.onInteractHandles = [
+      editor.onKeyDown(() => this.follow(undefined)),
+      editor.onMouseDown(() => this.follow(undefined)),
+    ];
     this.beforeUnload = (event: BeforeUnloadEvent) => {
-      if (this.outstanding) {
+      if (this.client.flush()) {
         event.preventDefault();
         event.returnValue = "";
       } else {
@@ -75,271 +190,327 @@ class Rustpad {
       }
     };
     window.addEventListener("beforeunload", this.beforeUnload);
-
-    const interval = options.reconnectInterval ?? 1000;
-    this.tryConnect();
-    this.tryConnectId = window.setInterval(() => this.tryConnect(), interval);
-    this.resetFailuresId = window.setInterval(
-      () => (this.recentFailures = 0),
-      15 * interval,
-    );
   }
 
   /** Destroy this Rustpad instance and close any sockets. */
   dispose() {
-    window.clearInterval(this.tryConnectId);
-    window.clearInterval(this.resetFailuresId);
+    this.client.dispose();
+    this.binding.dispose();
+    window.clearInterval(this.blameRefreshId);
+    for (const id of Object.keys(this.nameLabels)) {
+      this.removeNameLabel(Number(id));
+    }
+    this.onInteractHandles.forEach((handle) => handle.dispose());
+    this.onScrollHandle.dispose();
     this.onSelectionHandle.dispose();
     this.onCursorHandle.dispose();
-    this.onChangeHandle.dispose();
     window.removeEventListener("beforeunload", this.beforeUnload);
-    this.ws?.close();
   }
 
   /** Try to set the language of the editor, if connected. */
   setLanguage(language: string): boolean {
-    this.ws?.send(`{"SetLanguage":${JSON.stringify(language)}}`);
-    return this.ws !== undefined;
+    return this.client.setLanguage(language);
   }
 
-  /** Set the user's information. */
-  setInfo(info: UserInfo) {
-    this.myInfo = info;
-    this.sendInfo();
+  /** Try to create a new file in the pad, if connected. */
+  createFile(name: string): boolean {
+    return this.client.createFile(name);
+  }
+
+  /** Try to rename a file in the pad, if connected. */
+  renameFile(id: string, name: string): boolean {
+    return this.client.renameFile(id, name);
+  }
+
+  /** Try to delete a file from the pad, if connected. */
+  deleteFile(id: string): boolean {
+    return this.client.deleteFile(id);
+  }
+
+  /** Try to set the password of the pad, or remove it, if connected. */
+  setPassword(password?: string): boolean {
+    return this.client.setPassword(password);
+  }
+
+  /** Change the address used by later reconnections, e.g. for a new token. */
+  setUri(uri: string) {
+    this.client.setUri(uri);
+  }
+
+  /** Try to send a chat message to everyone in the document, if connected. */
+  sendChat(text: string): boolean {
+    return this.client.sendChat(text);
   }
 
   /**
-   * Attempts a WebSocket connection.
-   *
-   * Safety Invariant: Until this WebSocket connection is closed, no other
-   * connections will be attempted because either `this.ws` or
-   * `this.connecting` will be set to a truthy value.
-   *
-   * Liveness Invariant: After this WebSocket connection closes, either through
-   * error or successful end, both `this.connecting` and `this.ws` will be set
-   * to falsy values.
+   * Keep another user's cursor and visible range in view as they move, until
+   * this user types or clicks in the editor. Stops following if undefined.
    */
-  private tryConnect() {
-    if (this.connecting || this.ws) return;
-    this.connecting = true;
-    const ws = new WebSocket(this.options.uri);
-    ws.onopen = () => {
-      this.connecting = false;
-      this.ws = ws;
-      this.options.onConnected?.();
-      this.users = {};
-      this.options.onChangeUsers?.(this.users);
-      this.sendInfo();
-      this.sendCursorData();
-      if (this.outstanding) {
-        this.sendOperation(this.outstanding);
-      }
-    };
-    ws.onclose = () => {
-      if (this.ws) {
-        this.ws = undefined;
-        this.options.onDisconnected?.();
-        if (++this.recentFailures >= 5) {
-          // If we disconnect 5 times within 15 reconnection intervals, then the
-          // client is likely desynchronized and needs to refresh.
-          this.dispose();
-          this.options.onDesynchronized?.();
-        }
-      } else {
-        this.connecting = false;
-      }
-    };
-    ws.onmessage = ({ data }) => {
-      if (typeof data === "string") {
-        this.handleMessage(JSON.parse(data));
-      }
-    };
+  follow(id?: number) {
+    if (id === this.following) return;
+    this.following = id;
+    this.options.onChangeFollowing?.(id);
+    this.revealFollowed();
   }
 
-  private handleMessage(msg: ServerMsg) {
-    if (msg.Identity !== undefined) {
-      this.me = msg.Identity;
-    } else if (msg.History !== undefined) {
-      const { start, operations } = msg.History;
-      if (start > this.revision) {
-        console.warn("History message has start greater than last operation.");
-        this.ws?.close();
-        return;
-      }
-      for (let i = this.revision - start; i < operations.length; i++) {
-        let { id, operation } = operations[i];
-        this.revision++;
-        if (id === this.me) {
-          this.serverAck();
-        } else {
-          operation = OpSeq.from_str(JSON.stringify(operation));
-          this.applyServer(operation);
-        }
-      }
-    } else if (msg.Language !== undefined) {
-      this.options.onChangeLanguage?.(msg.Language);
-    } else if (msg.UserInfo !== undefined) {
-      const { id, info } = msg.UserInfo;
-      if (id !== this.me) {
-        this.users = { ...this.users };
-        if (info) {
-          this.users[id] = info;
-        } else {
-          delete this.users[id];
-          delete this.userCursors[id];
-        }
-        this.updateCursors();
-        this.options.onChangeUsers?.(this.users);
-      }
-    } else if (msg.UserCursor !== undefined) {
-      const { id, data } = msg.UserCursor;
-      if (id !== this.me) {
-        this.userCursors[id] = data;
-        this.updateCursors();
-      }
+  /**
+   * Show who last changed each line in the gutter, with the time on hover.
+   * Authors are fetched from the server, since users get new IDs when they
+   * reconnect.
+   */
+  setBlame(enabled: boolean) {
+    this.blame = enabled;
+    this.client.setBlame(enabled);
+    window.clearInterval(this.blameRefreshId);
+    if (enabled) {
+      this.blameRefreshId = window.setInterval(
+        () => this.updateBlameDecorations(),
+        BLAME_REFRESH_INTERVAL,
+      );
     }
+    this.updateBlameDecorations();
   }
 
-  private serverAck() {
-    if (!this.outstanding) {
-      console.warn("Received serverAck with no outstanding operation.");
-      return;
-    }
-    this.outstanding = this.buffer;
-    this.buffer = undefined;
-    if (this.outstanding) {
-      this.sendOperation(this.outstanding);
-    }
+  /** Try to start a comment thread on a range of the editor, if connected. */
+  createThread(range: IRange, text: string): boolean {
+    const start = this.offsets.offsetAt({
+      lineNumber: range.startLineNumber,
+      column: range.startColumn,
+    });
+    const end = this.offsets.offsetAt({
+      lineNumber: range.endLineNumber,
+      column: range.endColumn,
+    });
+    return this.client.createThread(start, end, text);
   }
 
-  private applyServer(operation: OpSeq) {
-    if (this.outstanding) {
-      const pair = this.outstanding.transform(operation)!;
-      this.outstanding = pair.first();
-      operation = pair.second();
-      if (this.buffer) {
-        const pair = this.buffer.transform(operation)!;
-        this.buffer = pair.first();
-        operation = pair.second();
-      }
-    }
-    this.applyOperation(operation);
+  /** Try to reply to a comment thread, if connected. */
+  replyThread(id: number, text: string): boolean {
+    return this.client.replyThread(id, text);
   }
 
-  private applyClient(operation: OpSeq) {
-    if (!this.outstanding) {
-      this.sendOperation(operation);
-      this.outstanding = operation;
-    } else if (!this.buffer) {
-      this.buffer = operation;
-    } else {
-      this.buffer = this.buffer.compose(operation);
-    }
-    this.transformCursors(operation);
+  /** Try to resolve or reopen a comment thread, if connected. */
+  resolveThread(id: number, resolved: boolean): boolean {
+    return this.client.resolveThread(id, resolved);
   }
 
-  private sendOperation(operation: OpSeq) {
-    const op = operation.to_string();
-    this.ws?.send(`{"Edit":{"revision":${this.revision},"operation":${op}}}`);
+  /** Returns the current range of a comment thread in the editor. */
+  threadRange(id: number): IRange | undefined {
+    const thread = this.client.getThreads()[id];
+    if (!thread) return undefined;
+    const start = this.offsets.positionAt(thread.start);
+    const end = this.offsets.positionAt(thread.end);
+    return {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    };
   }
 
-  private sendInfo() {
-    if (this.myInfo) {
-      this.ws?.send(`{"ClientInfo":${JSON.stringify(this.myInfo)}}`);
-    }
+  /** Returns the IDs of the open comment threads that start on a line. */
+  threadsAt(lineNumber: number): number[] {
+    return Object.values(this.client.getThreads())
+      .filter(
+        ({ id, resolved }) =>
+          !resolved && this.threadRange(id)?.startLineNumber === lineNumber,
+      )
+      .map(({ id }) => id);
   }
 
-  private sendCursorData() {
-    if (!this.buffer) {
-      this.ws?.send(`{"CursorData":${JSON.stringify(this.cursorData)}}`);
-    }
+  /** Set the user's information. */
+  setInfo(info: UserInfo) {
+    this.client.setInfo(info);
   }
 
-  private applyOperation(operation: OpSeq) {
-    if (operation.is_noop()) return;
+  /** Undo this user's most recent edit, if any, leaving others' edits. */
+  undo(): boolean {
+    return this.client.undo();
+  }
 
-    this.ignoreChanges = true;
+  /** Redo the edit that was most recently undone, if any. */
+  redo(): boolean {
+    return this.client.redo();
+  }
+
+  /** Number of revisions of the document received from the server. */
+  get revisionCount(): number {
+    return this.client.revisionCount;
+  }
+
+  /**
+   * Returns the ID of the user who made a revision, counting from 1. Text
+   * loaded from storage has an ID that belongs to no user.
+   */
+  authorOf(revision: number): number | undefined {
+    return this.client.authorOf(revision);
+  }
+
+  /** Whether a user ID is this client's own connection. */
+  isMe(id: number): boolean {
+    return this.client.isMe(id);
+  }
+
+  /**
+   * Returns the text of the document after a revision, or "" for 0. After a
+   * resync, revisions from before the snapshot have its text.
+   */
+  textAt(revision: number): string {
+    return this.client.textAt(revision);
+  }
+
+  /** Briefly highlight text inserted by another user, and report the edit. */
+  private showRemoteEdit(operation: OpSeq, id: number) {
     const ops: (string | number)[] = JSON.parse(operation.to_string());
+    const ranges: IRange[] = [];
     let index = 0;
-
     for (const op of ops) {
-      if (typeof op === "string") {
-        // Insert
-        const pos = unicodePosition(this.model, index);
-        index += unicodeLength(op);
-        this.model.pushEditOperations(
-          this.options.editor.getSelections(),
-          [
-            {
-              range: {
-                startLineNumber: pos.lineNumber,
-                startColumn: pos.column,
-                endLineNumber: pos.lineNumber,
-                endColumn: pos.column,
-              },
-              text: op,
-              forceMoveMarkers: true,
-            },
-          ],
-          () => null,
-        );
-      } else if (op >= 0) {
-        // Retain
+      if (typeof op === "number" && op >= 0) {
         index += op;
       } else {
-        // Delete
-        const chars = -op;
-        var from = unicodePosition(this.model, index);
-        var to = unicodePosition(this.model, index + chars);
-        this.model.pushEditOperations(
-          this.options.editor.getSelections(),
-          [
-            {
-              range: {
-                startLineNumber: from.lineNumber,
-                startColumn: from.column,
-                endLineNumber: to.lineNumber,
-                endColumn: to.column,
-              },
-              text: "",
-              forceMoveMarkers: true,
-            },
-          ],
-          () => null,
-        );
+        const length = typeof op === "string" ? unicodeLength(op) : 0;
+        const start = this.offsets.positionAt(index);
+        const end = this.offsets.positionAt(index + length);
+        ranges.push({
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column,
+        });
+        index += length;
       }
     }
 
-    this.lastValue = this.model.getValue();
-    this.ignoreChanges = false;
+    const user = this.client.getUsers()[id];
+    if (user) {
+      generateCssStyles(user.hue);
+      const flashes = this.model.deltaDecorations(
+        [],
+        ranges.map((range) => ({
+          options: { className: `remote-edit-${user.hue}`, stickiness: 1 },
+          range,
+        })),
+      );
+      window.setTimeout(
+        () => this.model.deltaDecorations(flashes, []),
+        REMOTE_EDIT_FLASH,
+      );
+    }
+    this.options.onRemoteEdit?.({ id, user, ranges });
+  }
 
-    this.transformCursors(operation);
+  /** Color the gutter of each line by the author who last changed it. */
+  private updateBlameDecorations() {
+    const decorations: editor.IModelDeltaDecoration[] = [];
+    if (this.blame) {
+      this.client.lineAuthors().forEach((author, i) => {
+        if (!author) return;
+        generateCssStyles(author.hue);
+        decorations.push({
+          options: {
+            linesDecorationsClassName: `blame-${author.hue}`,
+            lineNumberHoverMessage: {
+              value: `${author.name}, ${relativeTime(author.time)}`,
+            },
+          },
+          range: {
+            startLineNumber: i + 1,
+            startColumn: 1,
+            endLineNumber: i + 1,
+            endColumn: 1,
+          },
+        });
+      });
+    }
+    this.blameDecorations = this.model.deltaDecorations(
+      this.blameDecorations,
+      decorations,
+    );
+  }
+
+  /** Highlight open comment threads, with an icon in the glyph margin. */
+  private updateThreadDecorations() {
+    const decorations: editor.IModelDeltaDecoration[] = [];
+    const threads = this.client.getThreads();
+    for (const { id, resolved, comments } of Object.values(threads)) {
+      const range = this.threadRange(id);
+      if (resolved || !range) continue;
+      const hoverMessage = comments.map(({ name, text }) => ({
+        value: `**${name}:** ${text}`,
+      }));
+      decorations.push({
+        options: { className: "comment-thread-range", hoverMessage },
+        range,
+      });
+      decorations.push({
+        options: {
+          glyphMarginClassName:
+            "codicon codicon-comment-discussion comment-thread-glyph",
+          glyphMarginHoverMessage: {
+            value: `${comments.length} comment${comments.length === 1 ? "" : "s"}`,
+          },
+        },
+        range: {
+          startLineNumber: range.startLineNumber,
+          startColumn: 1,
+          endLineNumber: range.startLineNumber,
+          endColumn: 1,
+        },
+      });
+    }
+    this.threadDecorations = this.model.deltaDecorations(
+      this.threadDecorations,
+      decorations,
+    );
   }
 
-  private transformCursors(operation: OpSeq) {
-    for (const data of Object.values(this.userCursors)) {
-      data.cursors = data.cursors.map((c) => operation.transform_index(c));
-      data.selections = data.selections.map(([s, e]) => [
-        operation.transform_index(s),
-        operation.transform_index(e),
-      ]);
+  /** Scroll to the visible range and cursor of the user being followed. */
+  private revealFollowed() {
+    const data =
+      this.following !== undefined
+        ? this.client.getCursors()[this.following]
+        : undefined;
+    if (!data) return;
+    const { editor } = this.options;
+    const [viewport] = data.viewport ?? [];
+    if (viewport) {
+      const { lineNumber } = this.offsets.positionAt(viewport[0]);
+      editor.setScrollTop(editor.getTopForLineNumber(lineNumber), 0); // Smooth
+    }
+    if (data.cursors.length > 0) {
+      const position = this.offsets.positionAt(data.cursors[0]);
+      editor.revealPositionInCenterIfOutsideViewport(position, 0);
     }
-    this.updateCursors();
   }
 
   private updateCursors() {
     const decorations: editor.IModelDeltaDecoration[] = [];
+    const labeled = new Set<number>();
+    const users = this.client.getUsers();
 
-    for (const [id, data] of Object.entries(this.userCursors)) {
-      if (id in this.users) {
-        const { hue, name } = this.users[id as any];
+    for (const [id, data] of Object.entries(this.client.getCursors())) {
+      if (id in users) {
+        const { hue, name } = users[id as any];
         generateCssStyles(hue);
 
+        if (data.cursors.length > 0) {
+          const position = this.offsets.positionAt(data.cursors[0]);
+          this.updateNameLabel(Number(id), name, hue, position);
+          labeled.add(Number(id));
+        }
         for (const cursor of data.cursors) {
-          const position = unicodePosition(this.model, cursor);
+          const position = this.offsets.positionAt(cursor);
           decorations.push({
             options: {
               className: `remote-cursor-${hue}`,
+              overviewRuler: {
+                color: `hsl(${hue}, 90%, 50%)`,
+                position: 7, // Full
+              },
+              minimap: {
+                color: `hsl(${hue}, 90%, 50%)`,
+                position: 2, // Gutter
+              },
               stickiness: 1,
               zIndex: 2,
             },
@@ -352,8 +523,8 @@ class Rustpad {
           });
         }
         for (const selection of data.selections) {
-          const position = unicodePosition(this.model, selection[0]);
-          const positionEnd = unicodePosition(this.model, selection[1]);
+          const position = this.offsets.positionAt(selection[0]);
+          const positionEnd = this.offsets.positionAt(selection[1]);
           decorations.push({
             options: {
               className: `remote-selection-${hue}`,
@@ -378,114 +549,223 @@ class Rustpad {
       this.oldDecorations,
       decorations,
     );
+    for (const id of Object.keys(this.nameLabels)) {
+      if (!labeled.has(Number(id))) this.removeNameLabel(Number(id));
+    }
   }
 
-  private onChange(event: editor.IModelContentChangedEvent) {
-    if (!this.ignoreChanges) {
-      const content = this.lastValue;
-      const contentLength = unicodeLength(content);
-      let offset = 0;
-
-      let operation = OpSeq.new();
-      operation.retain(contentLength);
-      event.changes.sort((a, b) => b.rangeOffset - a.rangeOffset);
-      for (const change of event.changes) {
-        // The following dance is necessary to convert from UTF-16 indices (evil
-        // encoding-dependent JavaScript representation) to portable Unicode
-        // codepoint indices.
-        const { text, rangeOffset, rangeLength } = change;
-        const initialLength = unicodeLength(content.slice(0, rangeOffset));
-        const deletedLength = unicodeLength(
-          content.slice(rangeOffset, rangeOffset + rangeLength),
-        );
-        const restLength =
-          contentLength + offset - initialLength - deletedLength;
-        const changeOp = OpSeq.new();
-        changeOp.retain(initialLength);
-        changeOp.delete(deletedLength);
-        changeOp.insert(text);
-        changeOp.retain(restLength);
-        operation = operation.compose(changeOp)!;
-        offset += changeOp.target_len() - changeOp.base_len();
-      }
-      this.applyClient(operation);
-      this.lastValue = this.model.getValue();
+  /** Show a floating name tag at a remote user's primary cursor. */
+  private updateNameLabel(
+    id: number,
+    name: string,
+    hue: number,
+    position: IPosition,
+  ) {
+    let label = this.nameLabels[id];
+    if (!label) {
+      const node = document.createElement("div");
+      const widget: editor.IContentWidget = {
+        getId: () => `rustpad.name.${id}`,
+        getDomNode: () => node,
+        // Above the cursor, or below it on the first line.
+        getPosition: () => ({ position: label.position, preference: [1, 2] }),
+      };
+      label = this.nameLabels[id] = { node, widget, position };
+      this.options.editor.addContentWidget(widget);
     }
+    label.position = position;
+    label.node.className = `remote-name remote-name-${hue}`;
+    if (this.client.getIdle().includes(id)) {
+      label.node.className += " remote-name-idle";
+    }
+    label.node.textContent = name;
+    this.options.editor.layoutContentWidget(label.widget);
+  }
+
+  private removeNameLabel(id: number) {
+    this.options.editor.removeContentWidget(this.nameLabels[id].widget);
+    delete this.nameLabels[id];
   }
 
   private onCursor(event: editor.ICursorPositionChangedEvent) {
     const cursors = [event.position, ...event.secondaryPositions];
-    this.cursorData.cursors = cursors.map((p) => unicodeOffset(this.model, p));
+    this.cursorData.cursors = cursors.map((p) => this.offsets.offsetAt(p));
   }
 
   private onSelection(event: editor.ICursorSelectionChangedEvent) {
     const selections = [event.selection, ...event.secondarySelections];
     this.cursorData.selections = selections.map((s) => [
-      unicodeOffset(this.model, s.getStartPosition()),
-      unicodeOffset(this.model, s.getEndPosition()),
+      this.offsets.offsetAt(s.getStartPosition()),
+      this.offsets.offsetAt(s.getEndPosition()),
+    ]);
+  }
+
+  private onScroll() {
+    const ranges = this.options.editor.getVisibleRanges();
+    this.cursorData.viewport = ranges.map((r) => [
+      this.offsets.offsetAt(r.getStartPosition()),
+      this.offsets.offsetAt(r.getEndPosition()),
     ]);
   }
 }
 
-type UserOperation = {
-  id: number;
-  operation: any;
-};
+/** Binding of the client to the text model of a Monaco editor. */
+class MonacoBinding implements TextBinding {
+  readonly offsets: OffsetMap;
+  private readonly model: editor.ITextModel;
+  private readonly onChangeHandle: IDisposable;
+  private listeners: ((operation: OpSeq) => void)[] = [];
+  private ignoreChanges: boolean = false;
 
-type CursorData = {
-  cursors: number[];
-  selections: [number, number][];
-};
+  constructor(private readonly editor: editor.IStandaloneCodeEditor) {
+    this.model = editor.getModel()!;
+    this.offsets = new OffsetMap(this.model);
+    this.onChangeHandle = editor.onDidChangeModelContent((e) =>
+      this.onContentChange(e),
+    );
+  }
 
-type ServerMsg = {
-  Identity?: number;
-  History?: {
-    start: number;
-    operations: UserOperation[];
-  };
-  Language?: string;
-  UserInfo?: {
-    id: number;
-    info: UserInfo | null;
-  };
-  UserCursor?: {
-    id: number;
-    data: CursorData;
-  };
-};
+  dispose() {
+    this.onChangeHandle.dispose();
+  }
 
-/** Returns the number of Unicode codepoints in a string. */
-function unicodeLength(str: string): number {
-  let length = 0;
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  for (const c of str) ++length;
-  return length;
-}
+  getText(): string {
+    return this.model.getValue();
+  }
 
-/** Returns the number of Unicode codepoints before a position in the model. */
-function unicodeOffset(model: editor.ITextModel, pos: IPosition): number {
-  const value = model.getValue();
-  const offsetUTF16 = model.getOffsetAt(pos);
-  return unicodeLength(value.slice(0, offsetUTF16));
+  /** Apply every insert and delete of an operation as one edit to the model. */
+  applyOperation(operation: OpSeq) {
+    const ops: (string | number)[] = JSON.parse(operation.to_string());
+    const edits: editor.IIdentifiedSingleEditOperation[] = [];
+    // Offsets count codepoints of the old text, which all ranges refer to.
+    let index = 0;
+    let edit: { start: number; end: number; text: string } | undefined;
+    const addEdit = () => {
+      if (!edit) return;
+      const from = this.offsets.positionAt(edit.start);
+      const to = this.offsets.positionAt(edit.end);
+      edits.push({
+        range: {
+          startLineNumber: from.lineNumber,
+          startColumn: from.column,
+          endLineNumber: to.lineNumber,
+          endColumn: to.column,
+        },
+        text: edit.text,
+        forceMoveMarkers: true,
+      });
+      edit = undefined;
+    };
+
+    for (const op of ops) {
+      if (typeof op === "number" && op >= 0) {
+        // Retain
+        addEdit();
+        index += op;
+      } else {
+        // Insert or delete, merged with any next to it into one replacement
+        edit ??= { start: index, end: index, text: "" };
+        if (typeof op === "string") {
+          edit.text += op;
+        } else {
+          index -= op;
+          edit.end = index;
+        }
+      }
+    }
+    addEdit();
+
+    this.ignoreChanges = true;
+    this.model.pushEditOperations(
+      this.editor.getSelections(),
+      edits,
+      () => null,
+    );
+    this.ignoreChanges = false;
+  }
+
+  onChange(listener: (operation: OpSeq) => void): Disposable {
+    this.listeners.push(listener);
+    return {
+      dispose: () => {
+        this.listeners = this.listeners.filter((l) => l !== listener);
+      },
+    };
+  }
+
+  setCursor(offset: number) {
+    const position = this.offsets.positionAt(offset);
+    this.editor.setPosition(position);
+    this.editor.revealPositionInCenterIfOutsideViewport(position);
+  }
+
+  private onContentChange(event: editor.IModelContentChangedEvent) {
+    if (this.ignoreChanges) {
+      this.offsets.update(event);
+      return;
+    }
+    // Convert each change from UTF-16 positions (evil encoding-dependent
+    // JavaScript representation) to portable Unicode codepoint offsets, while
+    // the map still describes the text before the changes.
+    const contentLength = this.offsets.length;
+    let offset = 0;
+    let operation = OpSeq.new();
+    operation.retain(contentLength);
+    const changes = [...event.changes].sort(
+      (a, b) => b.rangeOffset - a.rangeOffset,
+    );
+    for (const { range, text } of changes) {
+      const initialLength = this.offsets.offsetAt({
+        lineNumber: range.startLineNumber,
+        column: range.startColumn,
+      });
+      const deletedLength =
+        this.offsets.offsetAt({
+          lineNumber: range.endLineNumber,
+          column: range.endColumn,
+        }) - initialLength;
+      const restLength = contentLength + offset - initialLength - deletedLength;
+      const changeOp = OpSeq.new();
+      changeOp.retain(initialLength);
+      changeOp.delete(deletedLength);
+      changeOp.insert(text);
+      changeOp.retain(restLength);
+      operation = operation.compose(changeOp)!;
+      offset += changeOp.target_len() - changeOp.base_len();
+    }
+    this.offsets.update(event);
+    for (const listener of this.listeners) listener(operation);
+  }
 }
 
-/** Returns the position after a certain number of Unicode codepoints. */
-function unicodePosition(model: editor.ITextModel, offset: number): IPosition {
-  const value = model.getValue();
-  let offsetUTF16 = 0;
-  for (const c of value) {
-    // Iterate over Unicode codepoints
-    if (offset <= 0) break;
-    offsetUTF16 += c.length;
-    offset -= 1;
-  }
-  return model.getPositionAt(offsetUTF16);
+/** Name tag shown at the cursor of another user. */
+type NameLabel = {
+  node: HTMLElement;
+  widget: editor.IContentWidget;
+  position: IPosition;
+};
+
+/** Describe a time in the past relative to now, like "5 minutes ago". */
+function relativeTime(time: number): string {
+  const seconds = Math.max(0, (Date.now() - time) / 1000);
+  const units: [string, number][] = [
+    ["year", 365 * 24 * 3600],
+    ["month", 30 * 24 * 3600],
+    ["day", 24 * 3600],
+    ["hour", 3600],
+    ["minute", 60],
+  ];
+  for (const [unit, size] of units) {
+    const count = Math.floor(seconds / size);
+    if (count >= 1) return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+  }
+  return "just now";
 }
 
 /** Cache for private use by `generateCssStyles()`. */
 const generatedStyles = new Set<number>();
 
-/** Add CSS styles for a remote user's cursor and selection. */
+/** Add CSS styles for a user's cursor, selection, edits, name tag and blame. */
 function generateCssStyles(hue: number) {
   if (!generatedStyles.has(hue)) {
     generatedStyles.add(hue);
@@ -496,6 +776,22 @@ function generateCssStyles(hue: number) {
       .monaco-editor .remote-cursor-${hue} {
         border-left: 2px solid hsl(${hue}, 90%, 25%);
       }
+      .monaco-editor .remote-name-${hue} {
+        background-color: hsl(${hue}, 90%, 25%);
+      }
+      .monaco-editor .remote-edit-${hue} {
+        animation: remote-edit-${hue} ${REMOTE_EDIT_FLASH}ms ease-out;
+      }
+      @keyframes remote-edit-${hue} {
+        from {
+          background-color: hsla(${hue}, 90%, 60%, 0.5);
+        }
+      }
+      .monaco-editor .blame-${hue} {
+        background-color: hsl(${hue}, 90%, 50%);
+        width: 4px !important;
+        margin-left: 3px;
+      }
     `;
     const element = document.createElement("style");
     const text = document.createTextNode(css);
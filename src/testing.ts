@@ -0,0 +1,51 @@
+// Test doubles for running a `RustpadClient` without a server. Messages are
+// delivered by hand, so tests decide exactly when the server answers.
+import type { Socket } from "./client";
+
+/** A socket that records what the client sends instead of sending it. */
+export class FakeSocket implements Socket {
+  onopen: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  /** Messages sent by the client, parsed from JSON. */
+  readonly sent: any[] = [];
+  closed = false;
+
+  constructor(readonly uri: string) {}
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  /** Close the socket, from the server's side when given a code. */
+  close(code = 1000) {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.({ code });
+  }
+
+  open() {
+    this.onopen?.({});
+  }
+
+  /** Deliver a message from the server. */
+  receive(msg: object) {
+    this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+
+  /** Edits sent by the client, in order. */
+  edits(): { revision: number; operation: (number | string)[] }[] {
+    return this.sent.filter((msg) => msg.Edit).map((msg) => msg.Edit);
+  }
+}
+
+/** Creates fake sockets for a client, keeping every one for inspection. */
+export function fakeSockets() {
+  const sockets: FakeSocket[] = [];
+  const createSocket = (uri: string) => {
+    const socket = new FakeSocket(uri);
+    sockets.push(socket);
+    return socket;
+  };
+  return { sockets, createSocket };
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import RustpadClient from "./client";
+import { FakeSocket, fakeSockets } from "./testing";
+import { TextareaBinding } from "./textarea";
+
+/** The parts of a `<textarea>` used by the binding, typed into by tests. */
+class FakeTextarea {
+  selectionStart: number;
+  selectionEnd: number;
+  selectionDirection: "forward" | "backward" | "none" = "none";
+  private listeners: (() => void)[] = [];
+
+  constructor(public value: string) {
+    this.selectionStart = this.selectionEnd = value.length;
+  }
+
+  setSelectionRange(start: number, end: number) {
+    this.selectionStart = start;
+    this.selectionEnd = end;
+  }
+
+  addEventListener(_type: "input", listener: () => void) {
+    this.listeners.push(listener);
+  }
+
+  removeEventListener(_type: "input", listener: () => void) {
+    this.listeners = this.listeners.filter((l) => l !== listener);
+  }
+
+  /** Replace the selection with text, as when the user types. */
+  type(text: string) {
+    const { value, selectionStart, selectionEnd } = this;
+    this.value =
+      value.slice(0, selectionStart) + text + value.slice(selectionEnd);
+    this.selectionStart = this.selectionEnd = selectionStart + text.length;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+let client: RustpadClient | undefined;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  client?.dispose();
+  client = undefined;
+  vi.useRealTimers();
+});
+
+/** Connect a textarea to a fake server, as user 1 of a document with `text`. */
+function connect(text: string) {
+  const textarea = new FakeTextarea("");
+  const { sockets, createSocket } = fakeSockets();
+  client = new RustpadClient({
+    uri: "ws://localhost/api/socket/test",
+    binding: new TextareaBinding(textarea as unknown as HTMLTextAreaElement),
+    createSocket,
+    onConflict: ({ resolve, local }) => resolve(local),
+  });
+  const socket: FakeSocket = sockets[0];
+  socket.open();
+  socket.receive({ Identity: 1 });
+  socket.receive({
+    History: { start: 0, operations: [{ id: 2, operation: [text] }] },
+  });
+  textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  return { client, textarea, socket };
+}
+
+describe("TextareaBinding", () => {
+  it("transforms remote edits against unacknowledged typing", () => {
+    const { textarea, socket } = connect("hello");
+    textarea.type(" world");
+    expect(socket.edits()).toEqual([{ revision: 1, operation: [5, " world"] }]);
+
+    // Another user's edit, made before ours reached the server.
+    socket.receive({
+      History: { start: 1, operations: [{ id: 2, operation: [">> ", 5] }] },
+    });
+    expect(textarea.value).toBe(">> hello world");
+    expect(textarea.selectionStart).toBe(">> hello world".length);
+
+    socket.receive({
+      History: {
+        start: 2,
+        operations: [{ id: 1, operation: [8, " world"] }],
+      },
+    });
+    expect(textarea.value).toBe(">> hello world");
+
+    // Later edits are based on the transformed history.
+    textarea.type("!");
+    expect(socket.edits().pop()).toEqual({
+      revision: 3,
+      operation: [14, "!"],
+    });
+  });
+
+  it("rebases typing onto a snapshot after a resync", () => {
+    const { textarea, socket } = connect("hello\nworld");
+    textarea.type("!");
+
+    // A gap in the history makes the client start over from a snapshot.
+    socket.receive({ History: { start: 5, operations: [] } });
+    expect(socket.sent).toContain("RequestSnapshot");
+    socket.receive({ Snapshot: { revision: 4, text: "hey\nhello\nworld" } });
+
+    expect(textarea.value).toBe("hey\nhello\nworld!");
+    expect(textarea.selectionStart).toBe(textarea.value.length);
+    expect(socket.edits().pop()).toEqual({
+      revision: 4,
+      operation: [15, "!"],
+    });
+  });
+
+  it("undoes only this user's edits and moves the cursor", () => {
+    const { client, textarea, socket } = connect("farm");
+    textarea.type("\nharvest()");
+    vi.advanceTimersByTime(2000);
+    textarea.type("\nmove(North)");
+    socket.receive({
+      History: { start: 1, operations: [{ id: 2, operation: ["# bot\n", 4] }] },
+    });
+
+    expect(client.undo()).toBe(true);
+    expect(textarea.value).toBe("# bot\nfarm\nharvest()");
+    expect(textarea.selectionStart).toBe(textarea.value.length);
+
+    expect(client.redo()).toBe(true);
+    expect(textarea.value).toBe("# bot\nfarm\nharvest()\nmove(North)");
+  });
+});
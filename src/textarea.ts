@@ -0,0 +1,70 @@
+import type { OpSeq } from "rustpad-wasm";
+
+import { Disposable, TextBinding, diffOperation } from "./client";
+
+/**
+ * Binding of the client to a plain `<textarea>`, for pages without Monaco.
+ * Edits from others keep the user's selection in place, and changes typed by
+ * the user are found by comparing the text before and after each input.
+ */
+export class TextareaBinding implements TextBinding {
+  private lastValue: string;
+
+  constructor(private readonly textarea: HTMLTextAreaElement) {
+    this.lastValue = textarea.value;
+  }
+
+  getText(): string {
+    return this.lastValue;
+  }
+
+  applyOperation(operation: OpSeq) {
+    const { selectionStart, selectionEnd, selectionDirection } = this.textarea;
+    const start = codepointOffset(this.lastValue, selectionStart);
+    const end = codepointOffset(this.lastValue, selectionEnd);
+    this.lastValue = operation.apply(this.lastValue) ?? this.lastValue;
+    this.textarea.value = this.lastValue;
+    this.textarea.setSelectionRange(
+      utf16Offset(this.lastValue, operation.transform_index(start)),
+      utf16Offset(this.lastValue, operation.transform_index(end)),
+      selectionDirection ?? undefined,
+    );
+  }
+
+  onChange(listener: (operation: OpSeq) => void): Disposable {
+    const onInput = () => {
+      const operation = diffOperation(this.lastValue, this.textarea.value);
+      this.lastValue = this.textarea.value;
+      if (!operation.is_noop()) listener(operation);
+    };
+    this.textarea.addEventListener("input", onInput);
+    return {
+      dispose: () => this.textarea.removeEventListener("input", onInput),
+    };
+  }
+
+  setCursor(offset: number) {
+    const index = utf16Offset(this.lastValue, offset);
+    this.textarea.setSelectionRange(index, index);
+  }
+}
+
+/** Returns the number of Unicode codepoints before a UTF-16 index. */
+function codepointOffset(text: string, index: number): number {
+  let offset = 0;
+  for (let i = 0; i < index; i += text.codePointAt(i)! > 0xffff ? 2 : 1) {
+    offset++;
+  }
+  return offset;
+}
+
+/** Returns the UTF-16 index after a number of Unicode codepoints. */
+function utf16Offset(text: string, offset: number): number {
+  let index = 0;
+  for (const c of text) {
+    if (offset <= 0) break;
+    index += c.length;
+    offset--;
+  }
+  return index;
+}
@@ -3,6 +3,9 @@ import { useEffect, useState } from "react";
 const chars = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
 const idLen = 6;
 
+/** Prefix of the hash in view-only links, followed by the pad's view token. */
+export const VIEW_PREFIX = "view/";
+
 function getHash() {
   if (!window.location.hash) {
     let id = "";
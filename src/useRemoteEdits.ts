@@ -0,0 +1,105 @@
+import { useToast } from "@chakra-ui/react";
+import type { editor } from "monaco-editor/esm/vs/editor/editor.api";
+import { useEffect, useRef, useState } from "react";
+
+import { TFWR_LANGUAGE } from "./TFWRLanguage";
+import type { RemoteEdit } from "./rustpad";
+
+/** Edits by one user this close together in milliseconds are announced once. */
+const ANNOUNCE_DELAY = 2000;
+
+/** Minimum time in milliseconds between toasts about the same function. */
+const TOAST_INTERVAL = 30_000;
+
+/** Languages whose functions are found by `def` and indentation. */
+const PYTHON_LIKE = ["python", TFWR_LANGUAGE];
+
+/** A Python function, with the lines that its body spans. */
+type PythonFunction = { name: string; start: number; end: number };
+
+/** Returns the innermost Python function containing a line, if any. */
+function enclosingFunction(
+  model: editor.ITextModel,
+  lineNumber: number,
+): PythonFunction | undefined {
+  const indent = (text: string) => text.length - text.trimStart().length;
+  for (let line = lineNumber; line >= 1; line--) {
+    const match = /^(\s*)def\s+(\w+)/.exec(model.getLineContent(line));
+    if (!match) continue;
+    let end = line;
+    for (let next = line + 1; next <= model.getLineCount(); next++) {
+      const text = model.getLineContent(next);
+      if (!text.trim()) continue;
+      if (indent(text) <= match[1].length) break;
+      end = next;
+    }
+    if (end >= lineNumber) return { name: match[2], start: line, end };
+  }
+  return undefined;
+}
+
+/** Describe the lines touched by edits, like "line 4" or "lines 4 to 9". */
+function describeLines(lines: number[]): string {
+  const first = Math.min(...lines);
+  const last = Math.max(...lines);
+  return first === last ? `line ${first}` : `lines ${first} to ${last}`;
+}
+
+/**
+ * Announce edits from other users: to screen readers through a live region,
+ * and with a toast when someone edits the Python function that this user's
+ * cursor is in.
+ */
+function useRemoteEdits(
+  editor: editor.IStandaloneCodeEditor | undefined,
+  language: string,
+) {
+  const toast = useToast();
+  const [announcement, setAnnouncement] = useState("");
+  const pending = useRef<Record<number, { name: string; lines: number[] }>>({});
+  const timeout = useRef<number>();
+  const lastToasts = useRef<Record<string, number>>({});
+  // Rustpad keeps the first handler, so read the language when edits arrive.
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
+  useEffect(() => () => window.clearTimeout(timeout.current), []);
+
+  function announce() {
+    const messages = Object.values(pending.current).map(
+      ({ name, lines }) => `${name} edited ${describeLines(lines)}.`,
+    );
+    pending.current = {};
+    setAnnouncement(messages.join(" "));
+  }
+
+  function handleRemoteEdit({ id, user, ranges }: RemoteEdit) {
+    const name = user?.name ?? "Someone";
+    const lines = ranges.map((range) => range.startLineNumber);
+    const entry = (pending.current[id] ??= { name, lines: [] });
+    entry.lines.push(...lines);
+    window.clearTimeout(timeout.current);
+    timeout.current = window.setTimeout(announce, ANNOUNCE_DELAY);
+
+    if (!user || !PYTHON_LIKE.includes(languageRef.current)) return;
+    const model = editor?.getModel();
+    const position = editor?.getPosition();
+    if (!model || !position) return;
+    const func = enclosingFunction(model, position.lineNumber);
+    if (!func || !lines.some((l) => l >= func.start && l <= func.end)) return;
+    const key = `${id}/${func.name}`;
+    if (Date.now() - (lastToasts.current[key] ?? 0) < TOAST_INTERVAL) return;
+    lastToasts.current[key] = Date.now();
+    toast({
+      title: `${user.name} is editing ${func.name}()`,
+      description: "They changed the function that your cursor is in.",
+      status: "info",
+      duration: 4000,
+      isClosable: true,
+    });
+  }
+
+  return { announcement, handleRemoteEdit };
+}
+
+export default useRemoteEdits;